@@ -0,0 +1,327 @@
+/**
+ * Generates public/openapi.json for the /v1 REST API.
+ *
+ * Schemas come from the TypeScript types in src/types/api.ts (and whatever they
+ * reference in src/types), read with the compiler API, so the document cannot
+ * drift from the types the API is written against. Run with `npm run openapi`.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const typesFile = path.join(root, 'src/types/api.ts');
+const outputFile = path.join(root, 'public/openapi.json');
+
+const program = ts.createProgram([typesFile], { strict: true });
+const checker = program.getTypeChecker();
+
+const schemas = {};
+const pending = [];
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+const describe = (node) => {
+  const symbol = node.name && checker.getSymbolAtLocation(node.name);
+  const text = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)) : '';
+  return text ? { description: text } : {};
+};
+
+const referenceType = (typeName) => {
+  let symbol = checker.getSymbolAtLocation(typeName);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  const declaration = symbol?.declarations?.[0];
+  if (!declaration || !(ts.isInterfaceDeclaration(declaration) || ts.isTypeAliasDeclaration(declaration))) {
+    throw new Error(`Unsupported type reference: ${typeName.getText()}`);
+  }
+  const name = declaration.name.text;
+  if (!(name in schemas) && !pending.includes(declaration)) {
+    pending.push(declaration);
+  }
+  return ref(name);
+};
+
+const objectSchema = (members) => {
+  const properties = {};
+  const required = [];
+  let additionalProperties;
+
+  members.forEach(member => {
+    if (ts.isPropertySignature(member) && member.type) {
+      const name = member.name.getText();
+      properties[name] = { ...toSchema(member.type), ...describe(member) };
+      if (!member.questionToken) required.push(name);
+    } else if (ts.isIndexSignatureDeclaration(member)) {
+      additionalProperties = toSchema(member.type);
+    }
+  });
+
+  return {
+    type: 'object',
+    ...(Object.keys(properties).length > 0 ? { properties } : {}),
+    ...(required.length > 0 ? { required } : {}),
+    ...(additionalProperties ? { additionalProperties } : {}),
+  };
+};
+
+const toSchema = (node) => {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: 'string' };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: 'number' };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean' };
+    case ts.SyntaxKind.UnknownKeyword:
+    case ts.SyntaxKind.AnyKeyword:
+      return {};
+  }
+
+  if (ts.isLiteralTypeNode(node)) {
+    if (ts.isStringLiteral(node.literal)) return { type: 'string', enum: [node.literal.text] };
+    if (node.literal.kind === ts.SyntaxKind.TrueKeyword) return { type: 'boolean', enum: [true] };
+    if (node.literal.kind === ts.SyntaxKind.FalseKeyword) return { type: 'boolean', enum: [false] };
+  }
+  if (ts.isArrayTypeNode(node)) {
+    return { type: 'array', items: toSchema(node.elementType) };
+  }
+  if (ts.isTypeLiteralNode(node)) {
+    return objectSchema(node.members);
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    return referenceType(node.typeName);
+  }
+  if (ts.isParenthesizedTypeNode(node)) {
+    return toSchema(node.type);
+  }
+  if (ts.isUnionTypeNode(node)) {
+    const isNull = (member) => ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword;
+    const members = node.types.filter(member => !isNull(member));
+    const nullable = members.length < node.types.length ? { nullable: true } : {};
+
+    if (members.every(member => ts.isLiteralTypeNode(member) && ts.isStringLiteral(member.literal))) {
+      return { type: 'string', enum: members.map(member => member.literal.text), ...nullable };
+    }
+    if (members.length === 1) {
+      const schema = toSchema(members[0]);
+      // $ref siblings are ignored in OpenAPI 3.0, so wrap references
+      return schema.$ref && nullable.nullable ? { allOf: [schema], ...nullable } : { ...schema, ...nullable };
+    }
+    return { oneOf: members.map(toSchema), ...nullable };
+  }
+
+  throw new Error(`Unsupported type: ${node.getText()}`);
+};
+
+const declarationSchema = (declaration) => {
+  if (ts.isTypeAliasDeclaration(declaration)) {
+    return { ...toSchema(declaration.type), ...describe(declaration) };
+  }
+
+  const own = { ...objectSchema(declaration.members), ...describe(declaration) };
+  const bases = (declaration.heritageClauses || []).flatMap(clause =>
+    clause.types.map(base => referenceType(base.expression))
+  );
+  return bases.length > 0 ? { allOf: [...bases, own] } : own;
+};
+
+// Every exported type in api.ts, plus the shared types they reference
+const source = program.getSourceFile(typesFile);
+source.statements
+  .filter(statement =>
+    (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+    statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+  )
+  .forEach(statement => pending.push(statement));
+
+while (pending.length > 0) {
+  const declaration = pending.shift();
+  const name = declaration.name.text;
+  if (name in schemas) continue;
+  schemas[name] = null; // Reserve the name so self-references don't loop
+  schemas[name] = declarationSchema(declaration);
+}
+
+const json = (schema) => ({ 'application/json': { schema: ref(schema) } });
+const errorResponse = (description) => ({ description, content: json('ApiErrorResponse') });
+
+const commonErrors = {
+  400: errorResponse('The request was malformed'),
+  401: errorResponse('Missing or invalid API key'),
+  403: errorResponse('The API key lacks the scope this operation needs, is not allowed from the caller\'s IP address, or its owner\'s plan does not include API access'),
+  429: errorResponse('The API key is sending requests too fast (`rate_limited`, see Retry-After) or the plan\'s usage limit is reached (`usage_limit_reached`)'),
+  500: errorResponse('Unexpected server error'),
+};
+
+const headerSchema = (description) => ({ description, schema: { type: 'integer' } });
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { $ref: '#/components/headers/X-RateLimit-Limit' },
+  'X-RateLimit-Remaining': { $ref: '#/components/headers/X-RateLimit-Remaining' },
+  'X-RateLimit-Reset': { $ref: '#/components/headers/X-RateLimit-Reset' },
+};
+
+const summaryIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
+const document = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Transcripto API',
+    version: '1.0.0',
+    description: 'Analyze YouTube videos and manage saved summaries. Authenticate with an API key as a Bearer token. ' +
+      'Each operation needs one key scope: reads need `read`, analyzing needs `analyze`, translations need `translate` and deletes need `delete`.',
+  },
+  servers: [
+    {
+      url: '{supabaseUrl}/functions/v1/api',
+      variables: { supabaseUrl: { default: 'https://your-project.supabase.co' } },
+    },
+  ],
+  security: [{ apiKey: [] }],
+  paths: {
+    '/v1/analyze': {
+      post: {
+        operationId: 'analyzeVideo',
+        summary: 'Fetch a video\'s transcript, summarize it and save the summary',
+        requestBody: { required: true, content: json('AnalyzeVideoRequest') },
+        responses: {
+          201: {
+            description: 'The saved summary',
+            content: json('ApiSummaryResponse'),
+            headers: { 'X-Transcript-Cache': { $ref: '#/components/headers/X-Transcript-Cache' } },
+          },
+          409: errorResponse('The API key\'s owner already saved this video in a team workspace (`workspace_conflict`)'),
+          422: errorResponse('The video has no usable transcript'),
+          ...commonErrors,
+          403: errorResponse('The API key lacks the scope this operation needs, is not allowed from the caller\'s IP address, or its owner\'s plan does not include API access, this video\'s language or videos this long (`video_too_long`)'),
+        },
+      },
+    },
+    '/v1/summaries': {
+      get: {
+        operationId: 'listSummaries',
+        summary: 'List saved summaries, newest first',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+          { name: 'cursor', in: 'query', description: 'nextCursor from the previous page', schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'A page of summaries', content: json('ApiSummaryListResponse') },
+          ...commonErrors,
+        },
+      },
+    },
+    '/v1/summaries/{id}': {
+      parameters: [summaryIdParameter],
+      get: {
+        operationId: 'getSummary',
+        summary: 'Get a saved summary',
+        responses: {
+          200: { description: 'The summary', content: json('ApiSummaryResponse') },
+          404: errorResponse('No summary with this id'),
+          ...commonErrors,
+        },
+      },
+      delete: {
+        operationId: 'deleteSummary',
+        summary: 'Delete a saved summary',
+        responses: {
+          200: { description: 'The summary was deleted', content: json('ApiDeleteResponse') },
+          404: errorResponse('No summary with this id'),
+          ...commonErrors,
+        },
+      },
+    },
+    '/v1/summaries/{id}/transcript': {
+      parameters: [summaryIdParameter],
+      get: {
+        operationId: 'getTranscript',
+        summary: 'Get the transcript of a saved summary',
+        parameters: [
+          { name: 'format', in: 'query', schema: { allOf: [ref('TranscriptFormat')], default: 'json' } },
+        ],
+        responses: {
+          200: {
+            description: 'The transcript; plain text formats are returned as the raw file',
+            content: {
+              ...json('ApiTranscriptResponse'),
+              'text/plain': { schema: { type: 'string' } },
+              'application/x-subrip': { schema: { type: 'string' } },
+              'text/vtt': { schema: { type: 'string' } },
+            },
+          },
+          404: errorResponse('No summary with this id'),
+          ...commonErrors,
+        },
+      },
+    },
+    '/v1/summaries/{id}/translations': {
+      parameters: [summaryIdParameter],
+      post: {
+        operationId: 'createTranslation',
+        summary: 'Translate a saved summary and its transcript',
+        requestBody: { required: true, content: json('CreateTranslationRequest') },
+        responses: {
+          201: { description: 'The translation, also saved on the summary', content: json('ApiTranslationResponse') },
+          404: errorResponse('No summary with this id'),
+          503: errorResponse('No translation service is configured'),
+          ...commonErrors,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'http', scheme: 'bearer', description: 'An API key from the API Keys page' },
+    },
+    headers: {
+      'X-RateLimit-Limit': headerSchema('Size of the API key\'s token bucket'),
+      'X-RateLimit-Remaining': headerSchema('Requests left in the bucket'),
+      'X-RateLimit-Reset': headerSchema('Unix time at which the bucket is full again'),
+      'Retry-After': headerSchema('Seconds until the next request is allowed, on 429 rate_limited'),
+      'X-Quota-Limit': headerSchema('Monthly quota for the action, shared with the web app'),
+      'X-Quota-Remaining': headerSchema('Quota left this month'),
+      'X-Quota-Reset': headerSchema('Unix time at which the monthly quota resets'),
+      'X-Transcript-Cache': {
+        description: '`hit` when the transcript came from the shared cache, `miss` when it was fetched from YouTube',
+        schema: { type: 'string', enum: ['hit', 'miss'] },
+      },
+    },
+    schemas,
+  },
+};
+
+// Every authenticated response reports the rate limit; analyze and translations
+// also report the quota. Responses are copied since commonErrors is shared.
+Object.entries(document.paths).forEach(([pathName, item]) => {
+  const usesQuota = pathName.endsWith('/analyze') || pathName.endsWith('/translations');
+  Object.values(item).filter(operation => operation.responses).forEach(operation => {
+    Object.entries(operation.responses).forEach(([status, response]) => {
+      if (status === '401') return;
+      operation.responses[status] = {
+        ...response,
+        headers: {
+          ...response.headers,
+          ...rateLimitHeaders,
+          ...(status === '429' ? { 'Retry-After': { $ref: '#/components/headers/Retry-After' } } : {}),
+          ...(usesQuota ? {
+            'X-Quota-Limit': { $ref: '#/components/headers/X-Quota-Limit' },
+            'X-Quota-Remaining': { $ref: '#/components/headers/X-Quota-Remaining' },
+            'X-Quota-Reset': { $ref: '#/components/headers/X-Quota-Reset' },
+          } : {}),
+        },
+      };
+    });
+  });
+});
+
+fs.writeFileSync(outputFile, `${JSON.stringify(document, null, 2)}\n`);
+console.log(`✅ Wrote ${path.relative(root, outputFile)} with ${Object.keys(schemas).length} schemas`);
@@ -0,0 +1,107 @@
+/**
+ * Local webhook receiver for trying out outbound webhooks.
+ *
+ *   WEBHOOK_SECRET=whsec_... npm run webhooks:listen -- --port 8787 --fail 2
+ *
+ * Verifies each request's X-Webhook-Signature with the endpoint secret shown on
+ * the API Keys page, prints the event and answers 200. `--fail N` answers 500 to
+ * the first N attempts of every event, to watch retries and backoff. Invalid
+ * signatures get a 401.
+ *
+ * On a local stack (`supabase start`) webhooks may use plain http to this
+ * machine: use http://host.docker.internal:8787 as the endpoint URL, since the
+ * functions run in a container. Against a hosted project, webhooks are only sent
+ * to public https URLs, so expose the receiver through a tunnel (e.g.
+ * `cloudflared tunnel --url http://localhost:8787`) and use the https URL it
+ * prints.
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+import process from 'node:process';
+import { Buffer } from 'node:buffer';
+import { pathToFileURL } from 'node:url';
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Same scheme as supabase/functions/_shared/signing.ts
+const verifySignature = (secret, payload, header) => {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return expected.length === parts.v1.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+};
+
+/**
+ * An HTTP server answering webhook deliveries signed with `secret`. Also used by
+ * the function tests to deliver into.
+ */
+export const createReceiver = ({ secret, failCount = 0, log = console.log }) => {
+  const attempts = new Map();
+
+  return http.createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const payload = Buffer.concat(chunks).toString('utf8');
+      const eventId = req.headers['x-webhook-id'];
+      const eventType = req.headers['x-webhook-event'];
+
+      if (!verifySignature(secret, payload, req.headers['x-webhook-signature'])) {
+        log(`🚫 ${eventType} ${eventId}: invalid signature`);
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid signature' }));
+        return;
+      }
+
+      const seen = (attempts.get(eventId) || 0) + 1;
+      attempts.set(eventId, seen);
+
+      if (seen <= failCount) {
+        log(`💥 ${eventType} ${eventId}: failing attempt ${seen} of ${failCount}`);
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Simulated failure' }));
+        return;
+      }
+
+      log(`✅ ${eventType} ${eventId} (attempt ${req.headers['x-webhook-attempt']})`);
+      log(JSON.stringify(JSON.parse(payload), null, 2));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received: true }));
+    });
+  });
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const option = (name, fallback) => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+  };
+
+  const port = Number(option('port', 8787));
+  const secret = process.env.WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error('❌ Set WEBHOOK_SECRET to the endpoint\'s signing secret');
+    process.exit(1);
+  }
+
+  createReceiver({ secret, failCount: Number(option('fail', 0)) }).listen(port, () => {
+    console.log(`👂 Listening for webhooks on http://localhost:${port}`);
+  });
+}
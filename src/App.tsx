@@ -4,29 +4,57 @@ import { URLInput } from './components/URLInput';
 import { VideoPreview } from './components/VideoPreview';
 import { Summary } from './components/Summary';
 import { EnhancedTranscript } from './components/EnhancedTranscript';
+import { AskVideo } from './components/AskVideo';
 import { ErrorMessage } from './components/ErrorMessage';
 import { Dashboard } from './components/Dashboard';
 import { TranslationPanel } from './components/TranslationPanel';
 import { ExportPanel } from './components/ExportPanel';
 import { AuthGuard } from './components/AuthGuard';
 import { ApiKeyManagement } from './components/ApiKeyManagement';
+import { SharedLinksManager } from './components/SharedLinksManager';
+import { TeamManagement } from './components/TeamManagement';
+import { TeamAdminPanel } from './components/TeamAdminPanel';
+import { TranscriptCacheAdmin } from './components/TranscriptCacheAdmin';
 import { PricingPlans } from './components/PricingPlans';
 import { FeatureRestrictionModal } from './components/FeatureRestrictionModal';
 import { UsageLimitModal } from './components/UsageLimitModal';
-import { analyzeVideo, saveVideoSummary, updateVideoHighlights, translateAndSaveVideoSummary, extractVideoId } from './services/videoService';
-import { VideoSummary, HighlightedSegment } from './types';
+import { AnalysisProgress } from './components/AnalysisProgress';
+import { BatchAnalyzer } from './components/BatchAnalyzer';
+import {
+  analyzeVideo,
+  analyzeUploadedCaptions,
+  createUploadVideoId,
+  getVideoSummary,
+  updateVideoHighlights,
+  translateAndSaveVideoSummary,
+  extractVideoId,
+} from './services/videoService';
+import { isJobFinished } from './services/jobService';
+import { getCheckoutResult } from './services/billingService';
+import { VideoSummary, HighlightedSegment, CaptionTrackChoice, UploadedCaptions } from './types';
 import { useAuth } from './hooks/useAuth';
 import { useUsageTracking } from './hooks/useUsageTracking';
 import { useUserPlan } from './hooks/useUserPlan';
+import { useWorkspaces } from './hooks/useWorkspaces';
+import { useAnalysisJob } from './hooks/useAnalysisJob';
+import { hasWorkspacePermission } from './services/teamService';
+import { isPlatformAdmin } from './services/transcriptCacheService';
 
 function App() {
   const [isLoading, setIsLoading] = useState(false);
   const [videoData, setVideoData] = useState<VideoSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [currentView, setCurrentView] = useState<'analyze' | 'dashboard' | 'api' | 'pricing'>('analyze');
+  const [currentView, setCurrentView] = useState<'analyze' | 'dashboard' | 'team' | 'admin' | 'cache' | 'shares' | 'api' | 'pricing'>(
+    // Returning from checkout lands back on the pricing page
+    () => getCheckoutResult() ? 'pricing' : 'analyze'
+  );
   const [isTranslating, setIsTranslating] = useState(false);
   const [currentVideoId, setCurrentVideoId] = useState<string | null>(null);
   const [showUsageLimitModal, setShowUsageLimitModal] = useState(false);
+  const [analyzeMode, setAnalyzeMode] = useState<'single' | 'batch'>('single');
+  const [batchInput, setBatchInput] = useState('');
+  const [transcriptFocus, setTranscriptFocus] = useState<number | undefined>();
+  const [platformAdmin, setPlatformAdmin] = useState(false);
   const [restrictionModal, setRestrictionModal] = useState<{
     isOpen: boolean;
     feature: string;
@@ -42,6 +70,28 @@ function App() {
   const { user } = useAuth();
   const { usageData, loading: usageLoading, incrementUsage, getRemainingUses, refreshUsage } = useUsageTracking(user);
   const userPlan = useUserPlan(user);
+  const {
+    workspaces,
+    activeWorkspace,
+    selectWorkspace,
+    pendingInvitations,
+    refreshMemberships,
+  } = useWorkspaces(user, userPlan.features.teamCollaboration);
+  // The admin panel covers the user's own team (team plan) and teams where they were made admin
+  const adminTeams = workspaces.filter(workspace =>
+    workspace.teamOwnerId && (workspace.role === 'admin' || (workspace.role === 'owner' && userPlan.features.adminPanel))
+  );
+  // Analyses land in the active team workspace when the member may add to it
+  const analysisTeamOwnerId = activeWorkspace.teamOwnerId && hasWorkspacePermission(activeWorkspace, 'can_edit')
+    ? activeWorkspace.teamOwnerId
+    : null;
+  const { job: analysisJob, startJob, startUploadJob, startMediaJob, clearJob } = useAnalysisJob(user);
+  const isAnalyzing = isLoading || (!!analysisJob && !isJobFinished(analysisJob));
+  const finishedSummaryId = analysisJob?.status === 'done' ? analysisJob.summaryId : null;
+  const failedJobError = analysisJob?.status === 'failed'
+    ? analysisJob.error || 'Failed to analyze video. Please try again.'
+    : null;
+  const { refreshUsage: refreshPlanUsage } = userPlan;
 
   // Clear video data when switching views
   useEffect(() => {
@@ -52,6 +102,51 @@ function App() {
     }
   }, [currentView]);
 
+  // Show the result of a finished background analysis, also after navigating away and back
+  useEffect(() => {
+    if (currentView !== 'analyze' || !finishedSummaryId || videoData) return;
+
+    let active = true;
+    getVideoSummary(finishedSummaryId).then(result => {
+      if (!active) return;
+      if (result.success && result.data) {
+        setCurrentVideoId(result.data.videoId);
+        setVideoData(result.data);
+      } else {
+        // The summary was deleted since
+        clearJob();
+      }
+    });
+    // The worker counted the analysis against the user's limits
+    refreshUsage();
+    refreshPlanUsage();
+
+    return () => {
+      active = false;
+    };
+  }, [currentView, finishedSummaryId, videoData, clearJob, refreshUsage, refreshPlanUsage]);
+
+  useEffect(() => {
+    if (!user) {
+      setPlatformAdmin(false);
+      return;
+    }
+
+    let active = true;
+    isPlatformAdmin(user.id).then(admin => {
+      if (active) setPlatformAdmin(admin);
+    });
+    return () => {
+      active = false;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!failedJobError) return;
+    setError(failedJobError);
+    clearJob();
+  }, [failedJobError, clearJob]);
+
   const showFeatureRestriction = (feature: string, requiredPlan: 'pro' | 'team', description: string) => {
     setRestrictionModal({
       isOpen: true,
@@ -61,7 +156,7 @@ function App() {
     });
   };
 
-  const handleVideoSubmit = async (url: string) => {
+  const handleVideoSubmit = async (url: string, track?: CaptionTrackChoice) => {
     console.log('🎬 App: Starting video submission for URL:', url);
     
     // Extract and validate video ID first
@@ -81,11 +176,30 @@ function App() {
       return;
     }
 
-    // Check if this is the same video as currently loaded
-    if (currentVideoId === newVideoId && videoData) {
+    // Check if this is the same video as currently loaded, from the same captions
+    const sameTrack = !track || (
+      videoData?.captionTrack?.languageCode === track.languageCode && videoData.captionTrack.kind === track.kind
+    );
+    if (currentVideoId === newVideoId && videoData && sameTrack) {
       console.log('ℹ️ App: Same video already loaded, skipping analysis');
       return;
     }
+    setTranscriptFocus(undefined);
+
+    // Signed-in users analyze in the background so long videos don't block the page
+    if (user) {
+      console.log('📥 App: Queueing background analysis');
+      clearJob();
+      setVideoData(null);
+      setCurrentVideoId(newVideoId);
+      setError(null);
+
+      const result = await startJob(url, newVideoId, analysisTeamOwnerId, track);
+      if (!result.success) {
+        setError(result.error || 'Failed to start video analysis. Please try again.');
+      }
+      return;
+    }
 
     // Clear previous state and start fresh analysis
     console.log('🧹 App: Clearing previous state and starting fresh analysis');
@@ -96,7 +210,7 @@ function App() {
 
     try {
       console.log('📡 App: Calling analyzeVideo service with URL:', url);
-      const response = await analyzeVideo(url);
+      const response = await analyzeVideo(url, track);
       console.log('📡 App: Received response from analyzeVideo:', response);
       
       if (response.success && response.data) {
@@ -127,17 +241,7 @@ function App() {
           video_title: response.data.title,
           channel_name: response.data.channelName
         });
-        
-        // Save to database if user is logged in
-        if (user) {
-          console.log('💾 App: Saving video summary to database');
-          const saveResult = await saveVideoSummary(user.id, response.data);
-          if (!saveResult.success) {
-            console.error('❌ App: Failed to save video summary:', saveResult.error);
-          } else {
-            console.log('✅ App: Video summary saved successfully');
-          }
-        }
+        userPlan.refreshUsage();
       } else {
         console.error('❌ App: Analysis failed:', response.error);
         setError(response.error || 'Failed to analyze video. Please try again.');
@@ -151,6 +255,84 @@ function App() {
     }
   };
 
+  const handleMediaUpload = async (file: File, details: { title: string; language: string | null }) => {
+    console.log('🎙️ App: Transcribing uploaded recording:', file.name, file.size);
+
+    if (!usageData.canPerformAction) {
+      console.warn('⚠️ App: Usage limit reached, showing modal');
+      setShowUsageLimitModal(true);
+      return;
+    }
+
+    setTranscriptFocus(undefined);
+    setVideoData(null);
+    setError(null);
+    setCurrentVideoId(null);
+    clearJob();
+    setIsLoading(true);
+
+    try {
+      const result = await startMediaJob(file, details, analysisTeamOwnerId);
+      if (result.success && result.data) {
+        setCurrentVideoId(result.data.videoId);
+      } else {
+        setError(result.error || 'Failed to upload the recording. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCaptionUpload = async (upload: UploadedCaptions) => {
+    console.log('📄 App: Analyzing uploaded captions:', upload.fileName, upload.videoId);
+
+    if (!usageData.canPerformAction) {
+      console.warn('⚠️ App: Usage limit reached, showing modal');
+      setShowUsageLimitModal(true);
+      return;
+    }
+
+    // Captions for a YouTube video replace its summary; standalone files get an ID of their own
+    const newVideoId = upload.videoId || createUploadVideoId();
+    setTranscriptFocus(undefined);
+    setVideoData(null);
+    setError(null);
+
+    if (user) {
+      console.log('📥 App: Queueing background analysis of uploaded captions');
+      clearJob();
+      setCurrentVideoId(newVideoId);
+
+      const result = await startUploadJob(upload, newVideoId, analysisTeamOwnerId);
+      if (!result.success) {
+        setError(result.error || 'Failed to start analyzing the caption file. Please try again.');
+      }
+      return;
+    }
+
+    setCurrentVideoId(null);
+    setIsLoading(true);
+
+    try {
+      const response = await analyzeUploadedCaptions(upload, newVideoId);
+      if (response.success && response.data) {
+        setCurrentVideoId(response.data.videoId);
+        setVideoData(response.data);
+
+        await incrementUsage('video_analysis', {
+          video_id: response.data.videoId,
+          video_title: response.data.title,
+          channel_name: response.data.channelName
+        });
+        userPlan.refreshUsage();
+      } else {
+        setError(response.error || 'Failed to analyze the caption file. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRetry = () => {
     console.log('🔄 App: Retrying - clearing error state');
     setError(null);
@@ -158,15 +340,22 @@ function App() {
     setCurrentVideoId(null);
   };
 
-  const handleSelectVideo = (video: VideoSummary) => {
+  const handleSelectVideo = (video: VideoSummary, segmentIndex?: number) => {
     console.log('📺 App: Selecting video from dashboard:', video.videoId);
     // Clear any existing error when selecting a video from dashboard
     setError(null);
     setCurrentVideoId(video.videoId);
     setVideoData(video);
+    setTranscriptFocus(segmentIndex);
+    setAnalyzeMode('single');
     setCurrentView('analyze');
   };
 
+  const handleBatchSource = (url: string) => {
+    setBatchInput(url);
+    setAnalyzeMode('batch');
+  };
+
   const handleUpdateHighlights = async (highlights: HighlightedSegment[]) => {
     if (!videoData || !user) return;
 
@@ -189,6 +378,39 @@ function App() {
     }
   };
 
+  const showAutoHighlightRestriction = () => {
+    showFeatureRestriction(
+      'Automatic Highlights',
+      'pro',
+      'Let AI find the most important moments in every video and review them with one click.'
+    );
+  };
+
+  const handleReviewSuggestions = async (accepted: HighlightedSegment[], rejected: HighlightedSegment[]) => {
+    if (!videoData) return;
+
+    if (!userPlan.features.autoHighlight) {
+      showAutoHighlightRestriction();
+      return;
+    }
+
+    const reviewed = new Set([...accepted, ...rejected].map(h => h.segmentIndex));
+    const existing = videoData.highlightedSegments || [];
+    const highlights = [
+      ...existing,
+      ...accepted.filter(h => !existing.some(e => e.segmentIndex === h.segmentIndex))
+    ];
+    const suggestions = (videoData.suggestedHighlights || []).filter(h => !reviewed.has(h.segmentIndex));
+
+    setVideoData(prev => prev ? { ...prev, highlightedSegments: highlights, suggestedHighlights: suggestions } : null);
+
+    if (!user) return;
+    const result = await updateVideoHighlights(user.id, videoData.videoId, highlights, suggestions);
+    if (!result.success) {
+      console.error('Failed to save reviewed highlights:', result.error);
+    }
+  };
+
   const handleTranslate = async (targetLanguage: string) => {
     if (!videoData || !user) return;
 
@@ -237,6 +459,10 @@ function App() {
     { id: 'analyze', label: 'Analyze Video' },
     ...(user ? [
       { id: 'dashboard', label: 'My Dashboard' },
+      { id: 'team', label: pendingInvitations.length > 0 ? `Team (${pendingInvitations.length})` : 'Team' },
+      ...(adminTeams.length > 0 ? [{ id: 'admin', label: 'Team Admin' }] : []),
+      ...(platformAdmin ? [{ id: 'cache', label: 'Transcript Cache' }] : []),
+      { id: 'shares', label: 'Shared Links' },
       { id: 'api', label: 'API Keys' },
       { id: 'pricing', label: 'Pricing' },
     ] : [])
@@ -272,7 +498,34 @@ function App() {
 
           {/* Content based on current view */}
           {currentView === 'dashboard' && user && (
-            <Dashboard onSelectVideo={handleSelectVideo} />
+            <Dashboard
+              onSelectVideo={handleSelectVideo}
+              workspace={activeWorkspace}
+              workspaces={workspaces}
+              onSelectWorkspace={selectWorkspace}
+            />
+          )}
+
+          {currentView === 'team' && user && (
+            <TeamManagement
+              teamEnabled={userPlan.features.teamCollaboration}
+              workspaces={workspaces}
+              pendingInvitations={pendingInvitations}
+              onMembershipsChange={refreshMemberships}
+              onUpgrade={() => setCurrentView('pricing')}
+            />
+          )}
+
+          {currentView === 'admin' && user && (
+            <TeamAdminPanel teams={adminTeams} />
+          )}
+
+          {currentView === 'cache' && user && platformAdmin && (
+            <TranscriptCacheAdmin />
+          )}
+
+          {currentView === 'shares' && user && (
+            <SharedLinksManager />
           )}
 
           {currentView === 'api' && user && (
@@ -280,17 +533,51 @@ function App() {
           )}
 
           {currentView === 'pricing' && (
-            <PricingPlans />
+            <PricingPlans
+              user={user}
+              planStatus={userPlan}
+              onPlanChange={userPlan.refreshUsage}
+            />
+          )}
+
+          {currentView === 'analyze' && user && (
+            <div className="max-w-2xl mx-auto px-4 pt-8 -mb-4 flex justify-center">
+              <div className="inline-flex bg-gray-100 rounded-lg p-1">
+                {(['single', 'batch'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setAnalyzeMode(mode)}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      analyzeMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {mode === 'single' ? 'Single Video' : 'Batch & Playlists'}
+                  </button>
+                ))}
+              </div>
+            </div>
           )}
 
-          {currentView === 'analyze' && (
+          {currentView === 'analyze' && user && analyzeMode === 'batch' && (
+            <BatchAnalyzer
+              user={user}
+              teamOwnerId={analysisTeamOwnerId}
+              initialInput={batchInput}
+              onSelectVideo={handleSelectVideo}
+            />
+          )}
+
+          {currentView === 'analyze' && (!user || analyzeMode === 'single') && (
             <>
               <URLInput 
                 onSubmit={handleVideoSubmit} 
-                isLoading={isLoading}
+                isLoading={isAnalyzing}
                 canAnalyze={canAnalyze}
                 remainingUses={remainingUses}
                 usageData={usageData}
+                onBatchSource={user ? handleBatchSource : undefined}
+                onUploadCaptions={handleCaptionUpload}
+                onUploadMedia={user ? handleMediaUpload : undefined}
               />
               
               {error && <ErrorMessage message={error} onRetry={handleRetry} />}
@@ -309,6 +596,10 @@ function App() {
                 </div>
               )}
               
+              {analysisJob && !isJobFinished(analysisJob) && (
+                <AnalysisProgress job={analysisJob} />
+              )}
+              
               {/* Only show video data if we have it AND we're not loading */}
               {videoData && !isLoading && (
                 <div className="max-w-6xl mx-auto px-4 space-y-8">
@@ -317,6 +608,8 @@ function App() {
                     thumbnail={videoData.thumbnail}
                     duration={videoData.duration}
                     channelName={videoData.channelName}
+                    captionTrack={videoData.captionTrack}
+                    transcriptSource={videoData.transcriptSource}
                   />
                   
                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -341,10 +634,24 @@ function App() {
                           'pro',
                           'Search through video transcripts to quickly find specific topics, keywords, or moments.'
                         )}
+                        suggestedHighlights={videoData.suggestedHighlights || []}
+                        onReviewSuggestions={handleReviewSuggestions}
+                        autoHighlightEnabled={userPlan.features.autoHighlight}
+                        onAutoHighlightRestriction={showAutoHighlightRestriction}
+                        chapters={videoData.chapters || []}
+                        focusSegmentIndex={transcriptFocus}
                       />
                     </div>
                     
                     <div className="space-y-6">
+                      {user && videoData.id && (
+                        <AskVideo
+                          key={videoData.id}
+                          summaryId={videoData.id}
+                          onJumpToSegment={setTranscriptFocus}
+                        />
+                      )}
+
                       {user && (
                         <TranslationPanel
                           originalLanguage={videoData.language || 'en'}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { AnalysisJob, ANALYSIS_STAGES } from '../services/jobService';
+
+// What the transcript stage is doing, by where the transcript comes from
+const TRANSCRIPT_STAGE_LABELS: Record<AnalysisJob['transcriptSource'], string> = {
+  youtube: 'Fetching transcript',
+  caption_file: 'Reading caption file',
+  speech_to_text: 'Transcribing audio',
+};
+
+interface AnalysisProgressProps {
+  job: AnalysisJob;
+}
+
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ job }) => {
+  const currentIndex = ANALYSIS_STAGES.findIndex(stage => stage.status === job.status);
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-12">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Analyzing your video</h3>
+          <span className="text-sm font-medium text-blue-600">{job.progress}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+            style={{ width: `${job.progress}%` }}
+          />
+        </div>
+
+        <ol className="space-y-3">
+          {ANALYSIS_STAGES.map((stage, index) => {
+            const isComplete = index < currentIndex || job.status === 'done';
+            const isCurrent = index === currentIndex && job.status !== 'done';
+
+            return (
+              <li key={stage.status} className="flex items-center space-x-3">
+                {isComplete ? (
+                  <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center">
+                    <Check className="w-4 h-4 text-white" />
+                  </div>
+                ) : isCurrent ? (
+                  <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <div className="w-6 h-6 rounded-full border-2 border-gray-300"></div>
+                )}
+                <span className={`text-sm ${isCurrent ? 'font-medium text-gray-900' : isComplete ? 'text-gray-700' : 'text-gray-400'}`}>
+                  {stage.status === 'fetching_transcript' ? TRANSCRIPT_STAGE_LABELS[job.transcriptSource] : stage.label}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+
+        <p className="text-sm text-gray-500 mt-6">
+          You can leave this page. The analysis keeps running and the summary will be here and in your dashboard when it's done.
+        </p>
+        <p className="text-xs text-blue-600 mt-2 font-mono">
+          Video ID: {job.videoId}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,29 +1,75 @@
 import React, { useState, useEffect } from 'react';
-import { Key, Copy, Check, Plus, Trash2, Eye, EyeOff } from 'lucide-react';
+import { Key, Copy, Check, Plus, Trash2, RefreshCw, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { API_KEY_SCOPES, ApiKeyScope, createApiKey, rotateApiKey } from '../services/apiService';
+import { getPlanStatus, PlanStatus } from '../services/planService';
+import { WebhookManagement } from './WebhookManagement';
+
+const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL || 'https://your-project.supabase.co'}/functions/v1/api/v1`;
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const GRACE_PERIOD_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 168, label: '7 days' },
+];
+
+const CIDR_PATTERN = /^[0-9a-fA-F:.]+(\/\d{1,3})?$/;
 
 interface ApiKey {
   id: string;
   name: string;
-  key: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  allowed_ips: string[];
+  replaced_by: string | null;
+  is_active: boolean;
   created_at: string;
   last_used?: string;
   usage_count: number;
 }
 
+interface RevealedKey {
+  name: string;
+  key: string;
+  replacedKeyExpiresAt?: string;
+}
+
+const isExpired = (apiKey: ApiKey) =>
+  apiKey.expires_at !== null && new Date(apiKey.expires_at).getTime() <= Date.now();
+
 export const ApiKeyManagement: React.FC = () => {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
-  const [copiedKey, setCopiedKey] = useState<string | null>(null);
-  const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(API_KEY_SCOPES.map(option => option.scope));
+  const [newKeyExpiryDays, setNewKeyExpiryDays] = useState(0);
+  const [newKeyIps, setNewKeyIps] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [revealedKey, setRevealedKey] = useState<RevealedKey | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [rotatingKeyId, setRotatingKeyId] = useState<string | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState(24);
+  const [processing, setProcessing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [planStatus, setPlanStatus] = useState<PlanStatus | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
     if (user) {
       fetchApiKeys();
+      getPlanStatus(user.id)
+        .then(setPlanStatus)
+        .catch(error => console.error('Error fetching plan status:', error));
     }
   }, [user]);
 
@@ -33,7 +79,7 @@ export const ApiKeyManagement: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('api_keys')
-        .select('*')
+        .select('id, name, key_prefix, scopes, expires_at, allowed_ips, replaced_by, is_active, created_at, last_used, usage_count')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -46,44 +92,88 @@ export const ApiKeyManagement: React.FC = () => {
     }
   };
 
-  const generateApiKey = () => {
-    return 'tk_' + Array.from(crypto.getRandomValues(new Uint8Array(32)))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+  const resetCreateForm = () => {
+    setShowCreateForm(false);
+    setNewKeyName('');
+    setNewKeyScopes(API_KEY_SCOPES.map(option => option.scope));
+    setNewKeyExpiryDays(0);
+    setNewKeyIps('');
+    setFormError(null);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes(current =>
+      current.includes(scope) ? current.filter(item => item !== scope) : [...current, scope]
+    );
   };
 
-  const createApiKey = async () => {
+  const handleCreateApiKey = async () => {
     if (!user || !newKeyName.trim()) return;
 
-    try {
-      const newKey = generateApiKey();
-      const { error } = await supabase
-        .from('api_keys')
-        .insert({
-          user_id: user.id,
-          name: newKeyName.trim(),
-          key: newKey,
-          usage_count: 0
-        });
+    const allowedIps = newKeyIps.split(/[\s,]+/).filter(Boolean);
+    const invalidIp = allowedIps.find(ip => !CIDR_PATTERN.test(ip));
+    if (invalidIp) {
+      setFormError(`"${invalidIp}" is not an IP address or CIDR range`);
+      return;
+    }
+    if (newKeyScopes.length === 0) {
+      setFormError('Select at least one scope');
+      return;
+    }
 
-      if (error) throw error;
+    setProcessing(true);
+    setFormError(null);
+    const result = await createApiKey({
+      name: newKeyName.trim(),
+      scopes: newKeyScopes,
+      expiresAt: newKeyExpiryDays > 0
+        ? new Date(Date.now() + newKeyExpiryDays * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+      allowedIps,
+    });
+    setProcessing(false);
 
-      setNewKeyName('');
-      setShowCreateForm(false);
-      await fetchApiKeys();
-    } catch (error) {
-      console.error('Error creating API key:', error);
+    if (!result.success || !result.data) {
+      setFormError(result.error || 'Failed to create API key');
+      return;
     }
+
+    setRevealedKey({ name: newKeyName.trim(), key: result.data.key });
+    setCopied(false);
+    resetCreateForm();
+    await fetchApiKeys();
   };
 
-  const deleteApiKey = async (keyId: string) => {
+  const handleRotateApiKey = async (apiKey: ApiKey) => {
+    setProcessing(true);
+    setActionError(null);
+    const result = await rotateApiKey(apiKey.id, gracePeriodHours);
+    setProcessing(false);
+    setRotatingKeyId(null);
+
+    if (!result.success || !result.data) {
+      setActionError(result.error || 'Failed to rotate API key');
+      return;
+    }
+
+    setRevealedKey({
+      name: apiKey.name,
+      key: result.data.key,
+      replacedKeyExpiresAt: result.data.replacedKeyExpiresAt,
+    });
+    setCopied(false);
+    await fetchApiKeys();
+  };
+
+  const deleteApiKey = async (apiKey: ApiKey) => {
     if (!user) return;
+    if (!window.confirm(`Delete "${apiKey.name}"? Requests using it will fail immediately.`)) return;
 
     try {
       const { error } = await supabase
         .from('api_keys')
         .delete()
-        .eq('id', keyId)
+        .eq('id', apiKey.id)
         .eq('user_id', user.id);
 
       if (error) throw error;
@@ -93,29 +183,17 @@ export const ApiKeyManagement: React.FC = () => {
     }
   };
 
-  const copyToClipboard = async (text: string, keyId: string) => {
+  const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
-      setCopiedKey(keyId);
-      setTimeout(() => setCopiedKey(null), 2000);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
     } catch (err) {
       console.error('Failed to copy: ', err);
     }
   };
 
-  const toggleKeyVisibility = (keyId: string) => {
-    const newVisible = new Set(visibleKeys);
-    if (newVisible.has(keyId)) {
-      newVisible.delete(keyId);
-    } else {
-      newVisible.add(keyId);
-    }
-    setVisibleKeys(newVisible);
-  };
-
-  const maskKey = (key: string) => {
-    return key.substring(0, 8) + '...' + key.substring(key.length - 4);
-  };
+  const usableKeys = apiKeys.filter(apiKey => apiKey.is_active && !isExpired(apiKey));
 
   if (loading) {
     return (
@@ -149,7 +227,7 @@ export const ApiKeyManagement: React.FC = () => {
             Use your API key to integrate Transcripto's video analysis capabilities into your applications.
           </p>
           <div className="bg-gray-900 text-green-400 p-3 rounded text-sm font-mono">
-            <div>POST https://api.transcripto.com/v1/analyze</div>
+            <div>POST {API_BASE_URL}/analyze</div>
             <div>Authorization: Bearer YOUR_API_KEY</div>
             <div>Content-Type: application/json</div>
             <br />
@@ -157,32 +235,144 @@ export const ApiKeyManagement: React.FC = () => {
             <div>&nbsp;&nbsp;"url": "https://youtube.com/watch?v=..."</div>
             <div>{"}"}</div>
           </div>
+          <div className="mt-3 text-sm text-blue-800 space-y-1">
+            <div><span className="font-mono">GET /summaries?limit=20&amp;cursor=...</span> list saved summaries (read)</div>
+            <div><span className="font-mono">GET | DELETE /summaries/:id</span> get (read) or delete (delete) a summary</div>
+            <div><span className="font-mono">GET /summaries/:id/transcript?format=json|txt|srt|vtt</span> download a transcript (read)</div>
+            <div><span className="font-mono">POST /summaries/:id/translations</span> translate a summary (translate)</div>
+            <div>Analyzing a video needs the analyze scope. A key can only call endpoints its scopes allow.</div>
+            <div>
+              Responses carry <span className="font-mono">X-RateLimit-*</span> headers, and{' '}
+              <span className="font-mono">Retry-After</span> with a 429 when a key sends requests too fast.
+              Analyses and translations use the same monthly quota as the web app, reported in{' '}
+              <span className="font-mono">X-Quota-*</span> headers.
+            </div>
+          </div>
+          <a
+            href="/openapi.json"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block mt-3 text-sm font-medium text-blue-700 hover:text-blue-900 underline"
+          >
+            OpenAPI specification
+          </a>
         </div>
 
+        {actionError && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {actionError}
+          </div>
+        )}
+
+        {/* Newly created or rotated key, shown once */}
+        {revealedKey && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <div className="flex items-start space-x-2 mb-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-yellow-800">
+                <p className="font-semibold">Copy the key for "{revealedKey.name}" now</p>
+                <p>It is only stored as a hash and won't be shown again.</p>
+                {revealedKey.replacedKeyExpiresAt && (
+                  <p className="mt-1">
+                    The previous key keeps working until {new Date(revealedKey.replacedKeyExpiresAt).toLocaleString()}.
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 bg-white border border-yellow-200 px-3 py-2 rounded text-sm font-mono break-all">
+                {revealedKey.key}
+              </code>
+              <button
+                onClick={() => copyToClipboard(revealedKey.key)}
+                className="p-2 hover:bg-yellow-100 rounded transition-colors"
+                title="Copy API key"
+              >
+                {copied ? (
+                  <Check className="w-4 h-4 text-green-600" />
+                ) : (
+                  <Copy className="w-4 h-4 text-gray-500" />
+                )}
+              </button>
+              <button
+                onClick={() => setRevealedKey(null)}
+                className="text-sm text-yellow-800 hover:text-yellow-900 px-3 py-2"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Create API Key Form */}
         {showCreateForm && (
-          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
-            <h3 className="font-semibold text-gray-900 mb-3">Create New API Key</h3>
+          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+            <h3 className="font-semibold text-gray-900">Create New API Key</h3>
+            <input
+              type="text"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="Enter a name for this API key..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">Scopes</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {API_KEY_SCOPES.map(option => (
+                  <label key={option.scope} className="flex items-start space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={newKeyScopes.includes(option.scope)}
+                      onChange={() => toggleScope(option.scope)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">{option.label}</span>
+                      <span className="text-gray-600"> - {option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Expires</label>
+                <select
+                  value={newKeyExpiryDays}
+                  onChange={(e) => setNewKeyExpiryDays(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {EXPIRY_OPTIONS.map(option => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Allowed IPs</label>
+                <textarea
+                  value={newKeyIps}
+                  onChange={(e) => setNewKeyIps(e.target.value)}
+                  placeholder="Any address. Or one per line: 203.0.113.7, 10.0.0.0/8"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
             <div className="flex items-center space-x-3">
-              <input
-                type="text"
-                value={newKeyName}
-                onChange={(e) => setNewKeyName(e.target.value)}
-                placeholder="Enter a name for this API key..."
-                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
               <button
-                onClick={createApiKey}
-                disabled={!newKeyName.trim()}
+                onClick={handleCreateApiKey}
+                disabled={!newKeyName.trim() || processing}
                 className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                Create
+                {processing ? 'Creating...' : 'Create'}
               </button>
               <button
-                onClick={() => {
-                  setShowCreateForm(false);
-                  setNewKeyName('');
-                }}
+                onClick={resetCreateForm}
                 className="text-gray-600 hover:text-gray-800 px-4 py-2"
               >
                 Cancel
@@ -200,68 +390,102 @@ export const ApiKeyManagement: React.FC = () => {
               <p className="text-sm">Create your first API key to get started.</p>
             </div>
           ) : (
-            apiKeys.map((apiKey) => (
-              <div
-                key={apiKey.id}
-                className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
-              >
-                <div className="flex-1">
-                  <div className="flex items-center space-x-3 mb-2">
-                    <h4 className="font-semibold text-gray-900">{apiKey.name}</h4>
-                    <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
-                      Active
-                    </span>
-                  </div>
-                  <div className="flex items-center space-x-4 text-sm text-gray-600">
-                    <span>Created: {new Date(apiKey.created_at).toLocaleDateString()}</span>
-                    <span>•</span>
-                    <span>Used: {apiKey.usage_count} times</span>
-                    {apiKey.last_used && (
-                      <>
-                        <span>•</span>
-                        <span>Last used: {new Date(apiKey.last_used).toLocaleDateString()}</span>
-                      </>
-                    )}
-                  </div>
-                  <div className="flex items-center space-x-2 mt-2">
-                    <code className="bg-gray-100 px-2 py-1 rounded text-sm font-mono">
-                      {visibleKeys.has(apiKey.id) ? apiKey.key : maskKey(apiKey.key)}
-                    </code>
-                    <button
-                      onClick={() => toggleKeyVisibility(apiKey.id)}
-                      className="p-1 hover:bg-gray-200 rounded transition-colors"
-                      title={visibleKeys.has(apiKey.id) ? 'Hide key' : 'Show key'}
-                    >
-                      {visibleKeys.has(apiKey.id) ? (
-                        <EyeOff className="w-4 h-4 text-gray-500" />
-                      ) : (
-                        <Eye className="w-4 h-4 text-gray-500" />
+            apiKeys.map((apiKey) => {
+              const expired = isExpired(apiKey);
+              return (
+                <div
+                  key={apiKey.id}
+                  className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center flex-wrap gap-2 mb-2">
+                        <h4 className="font-semibold text-gray-900">{apiKey.name}</h4>
+                        {!apiKey.is_active ? (
+                          <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">Disabled</span>
+                        ) : expired ? (
+                          <span className="px-2 py-1 bg-red-100 text-red-800 text-xs rounded-full">Expired</span>
+                        ) : apiKey.replaced_by ? (
+                          <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">Rotated</span>
+                        ) : (
+                          <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">Active</span>
+                        )}
+                        {apiKey.scopes.map(scope => (
+                          <span key={scope} className="px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded-full">
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                        <span>Created: {new Date(apiKey.created_at).toLocaleDateString()}</span>
+                        <span>Used: {apiKey.usage_count} times</span>
+                        {apiKey.last_used && (
+                          <span>Last used: {new Date(apiKey.last_used).toLocaleDateString()}</span>
+                        )}
+                        {apiKey.expires_at && (
+                          <span>
+                            {expired ? 'Expired' : apiKey.replaced_by ? 'Works until' : 'Expires'}:{' '}
+                            {new Date(apiKey.expires_at).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center flex-wrap gap-2 mt-2 text-sm">
+                        <code className="bg-gray-100 px-2 py-1 rounded font-mono">{apiKey.key_prefix}...</code>
+                        <span className="text-gray-600">
+                          {apiKey.allowed_ips.length > 0 ? `Allowed from ${apiKey.allowed_ips.join(', ')}` : 'Any IP address'}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {!apiKey.replaced_by && !expired && (
+                        <button
+                          onClick={() => setRotatingKeyId(rotatingKeyId === apiKey.id ? null : apiKey.id)}
+                          className="p-2 hover:bg-gray-200 rounded transition-colors"
+                          title="Rotate API key"
+                        >
+                          <RefreshCw className="w-4 h-4 text-gray-500" />
+                        </button>
                       )}
-                    </button>
+                      <button
+                        onClick={() => deleteApiKey(apiKey)}
+                        className="p-2 hover:bg-red-100 rounded transition-colors"
+                        title="Delete API key"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
                   </div>
+
+                  {rotatingKeyId === apiKey.id && (
+                    <div className="mt-3 pt-3 border-t border-gray-200 flex items-center flex-wrap gap-3 text-sm">
+                      <span className="text-gray-700">Issue a new key and keep this one working for</span>
+                      <select
+                        value={gracePeriodHours}
+                        onChange={(e) => setGracePeriodHours(Number(e.target.value))}
+                        className="px-2 py-1 border border-gray-300 rounded-lg"
+                      >
+                        {GRACE_PERIOD_OPTIONS.map(option => (
+                          <option key={option.hours} value={option.hours}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRotateApiKey(apiKey)}
+                        disabled={processing}
+                        className="bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        {processing ? 'Rotating...' : 'Rotate'}
+                      </button>
+                      <button
+                        onClick={() => setRotatingKeyId(null)}
+                        className="text-gray-600 hover:text-gray-800"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
                 </div>
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => copyToClipboard(apiKey.key, apiKey.id)}
-                    className="p-2 hover:bg-gray-200 rounded transition-colors"
-                    title="Copy API key"
-                  >
-                    {copiedKey === apiKey.id ? (
-                      <Check className="w-4 h-4 text-green-600" />
-                    ) : (
-                      <Copy className="w-4 h-4 text-gray-500" />
-                    )}
-                  </button>
-                  <button
-                    onClick={() => deleteApiKey(apiKey.id)}
-                    className="p-2 hover:bg-red-100 rounded transition-colors"
-                    title="Delete API key"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-500" />
-                  </button>
-                </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
       </div>
@@ -277,15 +501,19 @@ export const ApiKeyManagement: React.FC = () => {
             <div className="text-sm text-blue-800">Total API Calls</div>
           </div>
           <div className="bg-green-50 p-4 rounded-lg">
-            <div className="text-2xl font-bold text-green-600">{apiKeys.length}</div>
+            <div className="text-2xl font-bold text-green-600">{usableKeys.length}</div>
             <div className="text-sm text-green-800">Active Keys</div>
           </div>
           <div className="bg-purple-50 p-4 rounded-lg">
-            <div className="text-2xl font-bold text-purple-600">∞</div>
-            <div className="text-sm text-purple-800">Rate Limit</div>
+            <div className="text-2xl font-bold text-purple-600">
+              {planStatus ? `${planStatus.rateLimitPerMinute}/min` : '-'}
+            </div>
+            <div className="text-sm text-purple-800">Rate Limit per Key</div>
           </div>
         </div>
       </div>
+
+      {user && <WebhookManagement />}
     </div>
   );
 };
\ No newline at end of file
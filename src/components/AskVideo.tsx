@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { MessageCircleQuestion, Sparkles, Loader2, AlertCircle, PlayCircle } from 'lucide-react';
+import { SemanticMatch, VideoAnswer, askVideo, semanticSearch } from '../services/searchService';
+
+interface AskVideoProps {
+  summaryId: string;
+  onJumpToSegment: (segmentIndex: number) => void;
+}
+
+type AskTab = 'ask' | 'search';
+
+// Answers cite passages as [n]; split those out so they can be buttons
+const splitCitations = (answer: string): (string | number)[] =>
+  answer
+    .split(/(\[\d+\])/g)
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^\[(\d+)\]$/);
+      return match ? Number(match[1]) : part;
+    });
+
+export const AskVideo: React.FC<AskVideoProps> = ({ summaryId, onJumpToSegment }) => {
+  const [tab, setTab] = useState<AskTab>('ask');
+  const [input, setInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [answer, setAnswer] = useState<VideoAnswer | null>(null);
+  const [matches, setMatches] = useState<SemanticMatch[] | null>(null);
+
+  const switchTab = (next: AskTab) => {
+    setTab(next);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = input.trim();
+    if (text.length < 2 || loading) return;
+
+    setLoading(true);
+    setError(null);
+    if (tab === 'ask') {
+      const result = await askVideo(summaryId, text);
+      if (result.success && result.data) {
+        setAnswer(result.data);
+      } else {
+        setError(result.error || 'Could not answer the question');
+      }
+    } else {
+      const result = await semanticSearch(text, { summaryId, limit: 5 });
+      if (result.success && result.data) {
+        setMatches(result.data);
+      } else {
+        setError(result.error || 'Search failed');
+      }
+    }
+    setLoading(false);
+  };
+
+  const citationFor = (number: number) => answer?.citations.find(citation => citation.number === number);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <MessageCircleQuestion className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Ask This Video</h3>
+      </div>
+
+      <div className="flex space-x-1 bg-gray-100 rounded-lg p-1 mb-4 text-sm">
+        {(['ask', 'search'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => switchTab(option)}
+            className={`flex-1 py-1.5 rounded-md font-medium transition-colors ${
+              tab === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {option === 'ask' ? 'Ask' : 'Search by meaning'}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={tab === 'ask' ? 'What does the speaker recommend?' : 'Describe a moment or idea...'}
+          maxLength={500}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        <button
+          type="submit"
+          disabled={loading || input.trim().length < 2}
+          className="w-full flex items-center justify-center space-x-2 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          <span>{loading ? 'Thinking...' : tab === 'ask' ? 'Ask' : 'Search'}</span>
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-4 text-red-600 text-sm flex items-center space-x-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {tab === 'ask' && answer && !error && (
+        <div className="mt-4 space-y-3">
+          <p className={`text-sm leading-relaxed ${answer.grounded ? 'text-gray-800' : 'text-gray-500 italic'}`}>
+            {splitCitations(answer.answer).map((part, index) => {
+              if (typeof part === 'string') return <React.Fragment key={index}>{part}</React.Fragment>;
+              const citation = citationFor(part);
+              return citation ? (
+                <button
+                  key={index}
+                  onClick={() => onJumpToSegment(citation.segmentIndex)}
+                  title={`Jump to ${citation.timestamp}`}
+                  className="mx-0.5 px-1 text-xs font-mono text-blue-600 bg-blue-100 rounded hover:bg-blue-200"
+                >
+                  {citation.timestamp}
+                </button>
+              ) : (
+                <React.Fragment key={index}>[{part}]</React.Fragment>
+              );
+            })}
+          </p>
+
+          {answer.citations.length > 0 && (
+            <div className="border-t border-gray-100 pt-3 space-y-2">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Sources</p>
+              {answer.citations.map(citation => (
+                <button
+                  key={citation.number}
+                  onClick={() => onJumpToSegment(citation.segmentIndex)}
+                  className="w-full flex items-start space-x-2 p-2 rounded text-left text-xs hover:bg-blue-50 transition-colors"
+                >
+                  <span className="flex-shrink-0 flex items-center space-x-1 font-mono text-blue-600 bg-blue-100 px-2 py-1 rounded">
+                    <PlayCircle className="w-3 h-3" />
+                    <span>{citation.timestamp}</span>
+                  </span>
+                  <span className="text-gray-600 line-clamp-2">{citation.text}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'search' && matches && !error && (
+        <div className="mt-4 space-y-2">
+          {matches.length === 0 && (
+            <p className="text-sm text-gray-500">No passages found. Try describing it differently.</p>
+          )}
+          {matches.map(match => (
+            <button
+              key={match.segmentIndex}
+              onClick={() => onJumpToSegment(match.segmentIndex)}
+              className="w-full flex items-start space-x-2 p-2 rounded text-left text-sm hover:bg-blue-50 transition-colors"
+            >
+              <span className="flex-shrink-0 flex items-center space-x-1 text-xs font-mono text-blue-600 bg-blue-100 px-2 py-1 rounded">
+                <PlayCircle className="w-3 h-3" />
+                <span>{match.timestamp}</span>
+              </span>
+              <span className="text-gray-700 line-clamp-3">{match.text}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
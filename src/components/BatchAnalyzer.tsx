@@ -0,0 +1,409 @@
+import React, { useState, useEffect } from 'react';
+import { User } from '@supabase/supabase-js';
+import { ListVideo, Folder, Play, RefreshCw, X, AlertTriangle, CheckCircle2, Plus } from 'lucide-react';
+import { VideoSummary } from '../types';
+import { parseVideoSource, resolveVideoSource, getVideoSummary } from '../services/videoService';
+import { AnalysisJob, ANALYSIS_STAGES, isJobFinished } from '../services/jobService';
+import { getPlanStatus, invalidatePlanStatus } from '../services/planService';
+import { useAnalysisBatch } from '../hooks/useAnalysisBatch';
+
+interface BatchAnalyzerProps {
+  user: User;
+  teamOwnerId: string | null;
+  initialInput?: string;
+  onSelectVideo: (video: VideoSummary) => void;
+}
+
+interface PendingVideo {
+  url: string;
+  videoId: string;
+  title?: string;
+}
+
+const MAX_BATCH_SIZE = 100;
+
+const statusStyles: Record<AnalysisJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  fetching_transcript: 'bg-blue-100 text-blue-700',
+  summarizing: 'bg-blue-100 text-blue-700',
+  highlighting: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const stageLabel = (status: AnalysisJob['status']) =>
+  status === 'failed' ? 'Failed' : ANALYSIS_STAGES.find(stage => stage.status === status)?.label || status;
+
+export const BatchAnalyzer: React.FC<BatchAnalyzerProps> = ({
+  user,
+  teamOwnerId,
+  initialInput = '',
+  onSelectVideo,
+}) => {
+  const [input, setInput] = useState(initialInput);
+  const [pending, setPending] = useState<PendingVideo[]>([]);
+  const [skippedLines, setSkippedLines] = useState<string[]>([]);
+  const [collectionName, setCollectionName] = useState('');
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { batch, jobs, startBatch, retryFailed, clearBatch } = useAnalysisBatch(user);
+
+  useEffect(() => {
+    if (initialInput) setInput(initialInput);
+  }, [initialInput]);
+
+  // Analyses left in the plan today and this month, whichever is lower
+  const fetchRemaining = async (refresh = false) => {
+    if (refresh) invalidatePlanStatus();
+    const status = await getPlanStatus(user.id);
+    const left = Math.max(0, Math.min(status.dailyLimit - status.dailyUsage, status.monthlyLimit - status.monthlyUsage));
+    setRemaining(left);
+    return left;
+  };
+
+  const loadVideos = async () => {
+    const lines = input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) return;
+
+    setResolving(true);
+    setError(null);
+    const videos = [...pending];
+    const skipped: string[] = [];
+    let defaultName = '';
+
+    for (const line of lines) {
+      const source = parseVideoSource(line);
+      if (!source) {
+        skipped.push(line);
+        continue;
+      }
+
+      if (source.type === 'video') {
+        videos.push({ url: line, videoId: source.videoId });
+        continue;
+      }
+
+      const result = await resolveVideoSource(source);
+      if (!result.success || !result.data) {
+        skipped.push(`${line} (${result.error || 'could not load'})`);
+        continue;
+      }
+      defaultName = defaultName || result.data.title;
+      result.data.videos.forEach(video => {
+        videos.push({ url: `https://www.youtube.com/watch?v=${video.videoId}`, videoId: video.videoId, title: video.title });
+      });
+    }
+
+    const unique = videos.filter((video, index) => videos.findIndex(other => other.videoId === video.videoId) === index);
+    if (unique.length > MAX_BATCH_SIZE) {
+      skipped.push(`${unique.length - MAX_BATCH_SIZE} videos over the ${MAX_BATCH_SIZE}-video batch limit`);
+    }
+
+    setPending(unique.slice(0, MAX_BATCH_SIZE));
+    setSkippedLines(skipped);
+    setCollectionName(current => current || defaultName || `Batch ${new Date().toLocaleDateString()}`);
+    setInput('');
+    setResolving(false);
+    await fetchRemaining();
+  };
+
+  const handleStart = async () => {
+    if (pending.length === 0 || !collectionName.trim()) return;
+
+    setStarting(true);
+    setError(null);
+
+    // Check the whole batch against the plan before queueing anything
+    const left = await fetchRemaining(true);
+    if (pending.length > left) {
+      setError(
+        `This batch needs ${pending.length} analyses but your plan has ${left} left. Remove some videos or upgrade your plan.`
+      );
+      setStarting(false);
+      return;
+    }
+
+    const result = await startBatch({
+      name: collectionName.trim(),
+      teamOwnerId,
+      videos: pending,
+    });
+
+    if (result.success) {
+      setPending([]);
+      setSkippedLines([]);
+      setCollectionName('');
+    } else {
+      setError(result.error || 'Failed to start batch analysis');
+    }
+    setStarting(false);
+  };
+
+  const handleOpen = async (job: AnalysisJob) => {
+    if (!job.summaryId) return;
+    const result = await getVideoSummary(job.summaryId);
+    if (result.success && result.data) {
+      onSelectVideo(result.data);
+    } else {
+      setError('That summary is no longer available');
+    }
+  };
+
+  const handleRetry = async (jobIds: string[]) => {
+    setError(null);
+    const retried = await retryFailed(jobIds);
+    if (retried < jobIds.length) {
+      setError('Some analyses could not be retried');
+    }
+  };
+
+  const handleNewBatch = () => {
+    if (jobs.some(job => !isJobFinished(job)) && !window.confirm(
+      'This batch is still running. It will keep going in the background, but you will no longer see its progress here. Start a new batch?'
+    )) {
+      return;
+    }
+    clearBatch();
+  };
+
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const failedJobs = jobs.filter(job => job.status === 'failed');
+  const overallProgress = jobs.length > 0
+    ? Math.round(jobs.reduce((sum, job) => sum + job.progress, 0) / jobs.length)
+    : 0;
+
+  if (batch) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{batch.name}</h3>
+              <p className="text-sm text-gray-600 flex items-center space-x-1 mt-1">
+                <Folder className="w-4 h-4" />
+                <span>Finished summaries are added to the “{batch.name}” collection in your dashboard</span>
+              </p>
+            </div>
+            <button
+              onClick={handleNewBatch}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Batch</span>
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-gray-700">
+              {doneCount} of {jobs.length} done
+              {failedJobs.length > 0 && <span className="text-red-600"> · {failedJobs.length} failed</span>}
+            </span>
+            <span className="font-medium text-blue-600">{overallProgress}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+              style={{ width: `${overallProgress}%` }}
+            />
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {failedJobs.length > 0 && (
+            <div className="flex justify-end mb-3">
+              <button
+                onClick={() => handleRetry(failedJobs.map(job => job.id))}
+                className="flex items-center space-x-2 text-sm text-red-700 border border-red-200 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" />
+                <span>Retry {failedJobs.length} Failed</span>
+              </button>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">#</th>
+                  <th className="py-2 pr-3 font-medium">Video</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(job => (
+                  <tr key={job.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-3 text-gray-500">{job.position + 1}</td>
+                    <td className="py-3 pr-3">
+                      <div className="font-medium text-gray-900 line-clamp-1">{job.videoTitle || job.videoId}</div>
+                      <div className="text-xs text-gray-500 font-mono">{job.videoId}</div>
+                      {job.error && <div className="text-xs text-red-600 mt-1">{job.error}</div>}
+                    </td>
+                    <td className="py-3 pr-3 w-48">
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[job.status]}`}>
+                        {stageLabel(job.status)}
+                      </span>
+                      {!isJobFinished(job) && (
+                        <div className="w-full bg-gray-200 rounded-full h-1 mt-2">
+                          <div className="bg-blue-600 h-1 rounded-full transition-all duration-500" style={{ width: `${job.progress}%` }} />
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      {job.status === 'done' && job.summaryId && (
+                        <button
+                          onClick={() => handleOpen(job)}
+                          className="text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          Open
+                        </button>
+                      )}
+                      {job.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetry([job.id])}
+                          className="text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {jobs.length === 0 && (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center space-x-2 mb-2">
+          <ListVideo className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Batch Analysis</h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Paste one URL per line: videos, playlists (youtube.com/playlist?list=…) or channels (youtube.com/@handle).
+          Playlists and channels add up to their first 100 videos.
+        </p>
+
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={5}
+          placeholder={'https://www.youtube.com/playlist?list=...\nhttps://www.youtube.com/@channel\nhttps://youtu.be/VIDEO_ID'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex justify-end mt-3">
+          <button
+            onClick={loadVideos}
+            disabled={resolving || !input.trim()}
+            className="flex items-center space-x-2 bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            {resolving ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <Plus className="w-4 h-4" />
+            )}
+            <span>{resolving ? 'Loading Videos...' : 'Add Videos'}</span>
+          </button>
+        </div>
+
+        {skippedLines.length > 0 && (
+          <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <div className="flex items-center space-x-2 font-medium mb-1">
+              <AlertTriangle className="w-4 h-4" />
+              <span>Skipped</span>
+            </div>
+            <ul className="list-disc list-inside space-y-0.5">
+              {skippedLines.map(line => (
+                <li key={line} className="break-all">{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {pending.length > 0 && (
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">{pending.length} {pending.length === 1 ? 'video' : 'videos'} ready</h4>
+              <button
+                onClick={() => setPending([])}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            </div>
+            <ul className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {pending.map((video, index) => (
+                <li key={video.videoId} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="truncate">
+                    <span className="text-gray-400 mr-2">{index + 1}.</span>
+                    {video.title || <span className="font-mono">{video.videoId}</span>}
+                  </span>
+                  <button
+                    onClick={() => setPending(prev => prev.filter(other => other.videoId !== video.videoId))}
+                    className="text-gray-400 hover:text-red-600 ml-2"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">Save results to a new collection</label>
+            <input
+              type="text"
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Collection name..."
+            />
+
+            {remaining !== null && (
+              <p className={`text-sm mt-3 flex items-center space-x-1 ${pending.length > remaining ? 'text-red-600' : 'text-gray-600'}`}>
+                {pending.length > remaining ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4 text-green-500" />}
+                <span>Uses {pending.length} of your {remaining} remaining analyses</span>
+              </p>
+            )}
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleStart}
+              disabled={starting || !collectionName.trim() || (remaining !== null && pending.length > remaining)}
+              className="w-full mt-4 flex items-center justify-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-xl font-semibold hover:from-blue-700 hover:to-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {starting ? (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <Play className="w-5 h-5" />
+              )}
+              <span>Analyze {pending.length} {pending.length === 1 ? 'Video' : 'Videos'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
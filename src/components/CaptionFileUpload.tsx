@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { FileText, Upload, AlertCircle, CheckCircle2, X } from 'lucide-react';
+import { extractVideoId } from '../services/videoService';
+import {
+  CAPTION_FILE_EXTENSIONS,
+  MAX_CAPTION_FILE_BYTES,
+  CaptionParseIssue,
+  ParsedCaptionFile,
+  parseCaptionFile,
+} from '../utils/captionFileParser';
+import { UploadedCaptions } from '../types';
+
+interface CaptionFileUploadProps {
+  onSubmit: (upload: UploadedCaptions) => void;
+  isLoading: boolean;
+  canAnalyze: boolean;
+  // The video in the URL field, offered as the one the captions belong to
+  defaultVideoId: string | null;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ParsedCaptionFile['format'], string> = {
+  srt: 'SubRip',
+  vtt: 'WebVTT',
+  sbv: 'SBV',
+};
+
+export const CaptionFileUpload: React.FC<CaptionFileUploadProps> = ({
+  onSubmit,
+  isLoading,
+  canAnalyze,
+  defaultVideoId,
+  onClose,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedCaptionFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [language, setLanguage] = useState('en');
+  const [videoInput, setVideoInput] = useState(defaultVideoId || '');
+  const [attachedVideoId, setAttachedVideoId] = useState<string | null>(defaultVideoId);
+
+  const videoInputInvalid = videoInput.trim() !== '' && !attachedVideoId;
+  const errors: CaptionParseIssue[] = parsed?.errors || [];
+  const canSubmit = !!parsed && parsed.segments.length > 0 && errors.length === 0 && !videoInputInvalid && canAnalyze && !isLoading;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setParsed(null);
+    setFileError(null);
+    setFileName(file?.name || null);
+    if (!file) return;
+
+    if (file.size > MAX_CAPTION_FILE_BYTES) {
+      setFileError('This file is too large to be a caption file (5 MB at most).');
+      return;
+    }
+
+    try {
+      const result = parseCaptionFile(await file.text(), file.name);
+      console.log('📄 Parsed caption file:', file.name, result.format, result.segments.length, 'cues,', result.errors.length, 'errors');
+      setParsed(result);
+      if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      console.error('❌ Failed to read caption file:', error);
+      setFileError('Could not read this file. Make sure it is a text file.');
+    }
+  };
+
+  const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setVideoInput(value);
+    setAttachedVideoId(value.trim() ? extractVideoId(value) : null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || !parsed || !fileName) return;
+
+    onSubmit({
+      fileName,
+      format: parsed.format,
+      videoId: attachedVideoId,
+      title: title.trim() || fileName,
+      language: language.trim() || 'en',
+      transcript: parsed.segments,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FileText className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Upload a caption file</h3>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        For videos without captions, or recordings that aren't on YouTube. SubRip (.srt), WebVTT (.vtt) and
+        YouTube SBV (.sbv) files are supported.
+      </p>
+
+      <label className="flex items-center justify-center space-x-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-white transition-colors">
+        <Upload className="w-5 h-5 text-gray-500" />
+        <span className="text-sm text-gray-700">{fileName || 'Choose a caption file'}</span>
+        <input
+          type="file"
+          accept={CAPTION_FILE_EXTENSIONS.join(',')}
+          onChange={handleFileChange}
+          disabled={isLoading}
+          className="hidden"
+        />
+      </label>
+
+      {fileError && (
+        <div className="text-red-600 text-sm flex items-center space-x-2">
+          <AlertCircle className="w-4 h-4" />
+          <span>{fileError}</span>
+        </div>
+      )}
+
+      {parsed && errors.length === 0 && (
+        <div className="text-green-600 text-sm flex items-center space-x-2">
+          <CheckCircle2 className="w-4 h-4" />
+          <span>
+            {FORMAT_LABELS[parsed.format]} file with {parsed.segments.length} {parsed.segments.length === 1 ? 'caption' : 'captions'}
+          </span>
+        </div>
+      )}
+
+      {parsed && errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          <p className="font-medium mb-1">
+            This doesn't look like a valid {FORMAT_LABELS[parsed.format]} file. Fix these lines and upload it again:
+          </p>
+          <ul className="space-y-0.5 font-mono text-xs">
+            {errors.map(issue => (
+              <li key={`${issue.line}-${issue.message}`}>Line {issue.line}: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2">
+          <label htmlFor="caption-title" className="block text-sm text-gray-700 mb-1">Title</label>
+          <input
+            id="caption-title"
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="What is this recording?"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label htmlFor="caption-language" className="block text-sm text-gray-700 mb-1">Language code</label>
+          <input
+            id="caption-language"
+            type="text"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            maxLength={10}
+            placeholder="en"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="caption-video" className="block text-sm text-gray-700 mb-1">
+          YouTube video (optional)
+        </label>
+        <input
+          id="caption-video"
+          type="text"
+          value={videoInput}
+          onChange={handleVideoChange}
+          placeholder="URL or video ID the captions belong to"
+          className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+            videoInputInvalid ? 'border-red-500' : 'border-gray-300'
+          }`}
+        />
+        {videoInputInvalid && (
+          <p className="text-red-600 text-xs mt-1">Not a YouTube URL or video ID. Leave it empty for a standalone transcript.</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className={`w-full py-3 px-6 font-semibold rounded-xl transition-all duration-300 ${
+          canSubmit
+            ? 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg'
+            : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+        }`}
+      >
+        {isLoading ? 'Analyzing Captions...' : 'Analyze Captions'}
+      </button>
+    </form>
+  );
+};
@@ -1,17 +1,41 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { BarChart3, Clock, Star, TrendingUp, Search, Filter, Trash2, Eye, Calendar, Play, MoreVertical, X, RefreshCw } from 'lucide-react';
+import { BarChart3, Clock, Star, TrendingUp, Search, Filter, Trash2, Eye, Calendar, Play, MoreVertical, X, RefreshCw, Share2, Users, SlidersHorizontal } from 'lucide-react';
 import { VideoSummary } from '../types';
 import { supabase } from '../lib/supabase';
+import { deleteVideoSummaries, getVideoSummary } from '../services/videoService';
 import { useAuth } from '../hooks/useAuth';
 import { useUserPlan } from '../hooks/useUserPlan';
 import { PlanBadge } from './PlanBadge';
 import { UsageMeter } from './UsageMeter';
+import { ShareModal } from './ShareModal';
+import { Workspace, PERSONAL_WORKSPACE, hasWorkspacePermission } from '../services/teamService';
+import { getSubscriptionNotice } from '../services/planService';
+import {
+  LibrarySearchFilters,
+  LibrarySearchMatch,
+  LibrarySearchResult,
+  SearchFilterOptions,
+  getSearchFilterOptions,
+  groupSemanticMatches,
+  searchLibrary,
+  semanticSearch,
+} from '../services/searchService';
+import { LibrarySearchResults } from './LibrarySearchResults';
 
 interface DashboardProps {
-  onSelectVideo: (video: VideoSummary) => void;
+  // `segmentIndex` opens the transcript at that segment
+  onSelectVideo: (video: VideoSummary, segmentIndex?: number) => void;
+  workspace?: Workspace;
+  workspaces?: Workspace[];
+  onSelectWorkspace?: (workspaceId: string) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
+export const Dashboard: React.FC<DashboardProps> = ({
+  onSelectVideo,
+  workspace = PERSONAL_WORKSPACE,
+  workspaces = [],
+  onSelectWorkspace,
+}) => {
   const [videos, setVideos] = useState<VideoSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -21,8 +45,25 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [shareVideo, setShareVideo] = useState<VideoSummary | null>(null);
+  const [filters, setFilters] = useState<LibrarySearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterOptions, setFilterOptions] = useState<SearchFilterOptions>({ channels: [], languages: [], collections: [] });
+  const [searchResults, setSearchResults] = useState<LibrarySearchResult[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchMode, setSearchMode] = useState<'keyword' | 'meaning'>('keyword');
   const { user } = useAuth();
   const userPlan = useUserPlan(user);
+  const canDelete = hasWorkspacePermission(workspace, 'can_delete');
+  const canShare = hasWorkspacePermission(workspace, 'can_share');
+  const teamOwnerId = workspace.teamOwnerId;
+  const subscriptionNotice = getSubscriptionNotice(userPlan);
+  const searchQuery = searchTerm.trim();
+  // Single characters keep the quick title filter; longer queries search the whole library
+  const isSearchActive = searchQuery.length >= 2;
+  const activeFilterCount = Object.values(filters).filter(Boolean).length;
 
   // Optimized fetch function with caching and immediate loading
   const fetchVideos = useCallback(async (showLoader = true) => {
@@ -47,13 +88,39 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
           key_quote,
           transcript,
           highlighted_segments,
+          suggested_highlights,
+          chapters,
           language,
+          caption_track,
+          transcript_source,
           translated_summary,
           translated_transcript,
+          team_owner_id,
           created_at,
           updated_at
-        `)
-        .eq('user_id', user.id);
+        `);
+
+      // Team workspaces show every video filed under the team; personal shows only the user's own
+      query = teamOwnerId
+        ? query.eq('team_owner_id', teamOwnerId)
+        : query.eq('user_id', user.id).is('team_owner_id', null);
+
+      if (filters.channel) query = query.eq('channel_name', filters.channel);
+      if (filters.language) query = query.eq('language', filters.language);
+      if (filters.collectionId) {
+        const { data: items, error: itemsError } = await supabase
+          .from('collection_items')
+          .select('video_summary_id')
+          .eq('collection_id', filters.collectionId);
+        if (itemsError) throw itemsError;
+        query = query.in('id', items.map(item => item.video_summary_id));
+      }
+      if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('created_at', end.toISOString());
+      }
 
       // Apply sorting with database-level optimization
       switch (sortBy) {
@@ -87,10 +154,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
         keyQuote: item.key_quote,
         transcript: item.transcript,
         videoId: item.video_id,
+        teamOwnerId: item.team_owner_id,
         createdAt: item.created_at,
         updatedAt: item.updated_at,
         highlightedSegments: item.highlighted_segments || [],
+        suggestedHighlights: item.suggested_highlights || [],
+        chapters: item.chapters || [],
         language: item.language || 'en',
+        captionTrack: item.caption_track,
+        transcriptSource: item.transcript_source || 'youtube',
         translatedSummary: item.translated_summary || {},
         translatedTranscript: item.translated_transcript || {},
       }));
@@ -102,7 +174,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [user, sortBy]);
+  }, [user, sortBy, teamOwnerId, filters]);
 
   // Immediate load on component mount and user change
   useEffect(() => {
@@ -129,6 +201,78 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
     return () => clearInterval(interval);
   }, [user, fetchVideos]);
 
+  useEffect(() => {
+    if (!user) return;
+    getSearchFilterOptions(user.id, teamOwnerId).then(result => {
+      if (result.success && result.data) setFilterOptions(result.data);
+    });
+  }, [user, teamOwnerId]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!isSearchActive) {
+      setSearchResults([]);
+      setSearchTotal(0);
+      setSearchError(null);
+      return;
+    }
+
+    let active = true;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      // Meaning search returns its best passages in one go, so it has no further pages
+      const result = searchMode === 'meaning'
+        ? await semanticSearch(searchQuery, { teamOwnerId, filters }).then(semantic => {
+            const results = groupSemanticMatches(semantic.data || []);
+            return { ...semantic, data: semantic.data && { results, total: results.length } };
+          })
+        : await searchLibrary(searchQuery, { teamOwnerId, filters });
+      if (!active) return;
+      if (result.success && result.data) {
+        setSearchResults(result.data.results);
+        setSearchTotal(result.data.total);
+        setSearchError(null);
+      } else {
+        setSearchResults([]);
+        setSearchTotal(0);
+        setSearchError(result.error || 'Search failed');
+      }
+      setSearching(false);
+    }, searchMode === 'meaning' ? 500 : 300);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, isSearchActive, teamOwnerId, filters, searchMode]);
+
+  const loadMoreResults = async () => {
+    setSearching(true);
+    const result = await searchLibrary(searchQuery, { teamOwnerId, filters, offset: searchResults.length });
+    if (result.success && result.data) {
+      const more = result.data.results;
+      setSearchResults(prev => [...prev, ...more]);
+      setSearchTotal(result.data.total);
+    } else {
+      setSearchError(result.error || 'Search failed');
+    }
+    setSearching(false);
+  };
+
+  const openSearchResult = async (result: LibrarySearchResult, match?: LibrarySearchMatch) => {
+    const summary = await getVideoSummary(result.summaryId);
+    if (summary.success && summary.data) {
+      onSelectVideo(summary.data, match?.segmentIndex);
+    } else {
+      setSearchError('That video is no longer available');
+    }
+  };
+
+  const updateFilter = (key: keyof LibrarySearchFilters, value: string) => {
+    setSelectedVideos(new Set());
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
   const handleRefresh = () => {
     fetchVideos(false);
   };
@@ -138,13 +282,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
 
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('video_summaries')
-        .delete()
-        .eq('id', videoId)
-        .eq('user_id', user.id);
+      const target = videos.filter(video => video.id === videoId);
+      const result = await deleteVideoSummaries(user.id, target, teamOwnerId);
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.error);
 
       // Optimistically update UI
       setVideos(prevVideos => prevVideos.filter(video => video.id !== videoId));
@@ -168,13 +309,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
 
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('video_summaries')
-        .delete()
-        .in('id', Array.from(selectedVideos))
-        .eq('user_id', user.id);
+      const targets = videos.filter(video => selectedVideos.has(video.id!));
+      const result = await deleteVideoSummaries(user.id, targets, teamOwnerId);
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.error);
 
       // Optimistically update UI
       setVideos(prevVideos => prevVideos.filter(video => !selectedVideos.has(video.id!)));
@@ -279,6 +417,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
             )}
           </div>
           <div className="flex items-center space-x-3">
+            {workspaces.length > 1 && onSelectWorkspace && (
+              <div className="flex items-center space-x-2">
+                <Users className="w-4 h-4 text-gray-400" />
+                <select
+                  value={workspace.id}
+                  onChange={(e) => {
+                    setSelectedVideos(new Set());
+                    onSelectWorkspace(e.target.value);
+                  }}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  title="Switch workspace"
+                >
+                  {workspaces.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <button
               onClick={handleRefresh}
               disabled={refreshing}
@@ -294,6 +450,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
           </div>
         </div>
 
+        {subscriptionNotice && (
+          <div className={`mb-4 p-3 rounded-lg text-sm border ${
+            userPlan.status === 'past_due'
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}>
+            {subscriptionNotice}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <UsageMeter
             current={userPlan.dailyUsage}
@@ -363,10 +529,44 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
                 type="text"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search your recent videos..."
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={searchMode === 'meaning' ? 'Describe what was said...' : 'Search titles, summaries and transcripts...'}
+                className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
+              {searchTerm && (
+                <button
+                  type="button"
+                  onClick={() => setSearchTerm('')}
+                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {(['keyword', 'meaning'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setSearchMode(mode)}
+                  title={mode === 'meaning' ? 'Find passages about the same idea, even in other words' : 'Find the exact words'}
+                  className={`px-3 py-2 transition-colors ${
+                    searchMode === mode ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {mode === 'meaning' ? 'Meaning' : 'Keyword'}
+                </button>
+              ))}
             </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`flex items-center space-x-2 px-3 py-2 border rounded-lg transition-colors ${
+                showFilters || activeFilterCount > 0
+                  ? 'border-blue-300 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              <span className="text-sm">Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}</span>
+            </button>
             <div className="flex items-center space-x-2">
               <Filter className="w-5 h-5 text-gray-400" />
               <select
@@ -383,7 +583,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
           </div>
 
           <div className="flex items-center space-x-2">
-            {selectedVideos.size > 0 && (
+            {selectedVideos.size > 0 && canDelete && (
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-600">
                   {selectedVideos.size} selected
@@ -407,9 +607,82 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
             </button>
           </div>
         </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mt-4 pt-4 border-t border-gray-200">
+            <select
+              value={filters.channel || ''}
+              onChange={(e) => updateFilter('channel', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All channels</option>
+              {filterOptions.channels.map(channel => (
+                <option key={channel} value={channel}>{channel}</option>
+              ))}
+            </select>
+            <select
+              value={filters.language || ''}
+              onChange={(e) => updateFilter('language', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All languages</option>
+              {filterOptions.languages.map(language => (
+                <option key={language} value={language}>{language.toUpperCase()}</option>
+              ))}
+            </select>
+            <select
+              value={filters.collectionId || ''}
+              onChange={(e) => updateFilter('collectionId', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All collections</option>
+              {filterOptions.collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.from || ''}
+              max={filters.to}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="Analyzed on or after"
+            />
+            <input
+              type="date"
+              value={filters.to || ''}
+              min={filters.from}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="Analyzed on or before"
+            />
+            {activeFilterCount > 0 && (
+              <button
+                onClick={() => setFilters({})}
+                className="text-sm text-gray-500 hover:text-gray-700 text-left"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
+      {isSearchActive && (
+        <LibrarySearchResults
+          query={searchQuery}
+          results={searchResults}
+          total={searchTotal}
+          loading={searching}
+          error={searchError}
+          onOpen={openSearchResult}
+          onLoadMore={loadMoreResults}
+          mode={searchMode}
+        />
+      )}
+
       {/* Recent Searches Grid/List */}
+      {!isSearchActive && (
       <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold text-gray-900">
@@ -470,17 +743,31 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
 
                 {/* Actions Menu */}
                 <div className="absolute top-3 right-3 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <div className="relative">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setShowDeleteConfirm(video.id!);
-                      }}
-                      className="p-2 bg-white/90 backdrop-blur-sm rounded-lg hover:bg-red-50 transition-colors"
-                      title="Delete video"
-                    >
-                      <Trash2 className="w-4 h-4 text-red-500" />
-                    </button>
+                  <div className="relative flex items-center space-x-2">
+                    {canShare && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShareVideo(video);
+                        }}
+                        className="p-2 bg-white/90 backdrop-blur-sm rounded-lg hover:bg-blue-50 transition-colors"
+                        title="Share video"
+                      >
+                        <Share2 className="w-4 h-4 text-blue-600" />
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowDeleteConfirm(video.id!);
+                        }}
+                        className="p-2 bg-white/90 backdrop-blur-sm rounded-lg hover:bg-red-50 transition-colors"
+                        title="Delete video"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -576,22 +863,37 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
                   >
                     <Eye className="w-4 h-4 text-blue-600" />
                   </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setShowDeleteConfirm(video.id!);
-                    }}
-                    className="p-2 hover:bg-red-100 rounded-lg transition-colors"
-                    title="Delete video"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-500" />
-                  </button>
+                  {canShare && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setShareVideo(video);
+                      }}
+                      className="p-2 hover:bg-blue-100 rounded-lg transition-colors"
+                      title="Share video"
+                    >
+                      <Share2 className="w-4 h-4 text-blue-600" />
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setShowDeleteConfirm(video.id!);
+                      }}
+                      className="p-2 hover:bg-red-100 rounded-lg transition-colors"
+                      title="Delete video"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
         )}
       </div>
+      )}
 
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
@@ -629,6 +931,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSelectVideo }) => {
           </div>
         </div>
       )}
+
+      {/* Share Modal */}
+      {shareVideo && (
+        <ShareModal
+          key={shareVideo.id}
+          isOpen={true}
+          onClose={() => setShareVideo(null)}
+          videoData={shareVideo}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
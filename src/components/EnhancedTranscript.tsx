@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
-import { ChevronDown, ChevronUp, Download, Lock } from 'lucide-react';
-import { TranscriptSegment, HighlightedSegment } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronUp, Download, Lock, Sparkles, ListTree } from 'lucide-react';
+import { TranscriptSegment, HighlightedSegment, Chapter } from '../types';
+import { formatTimestamp } from '../utils/timeUtils';
 import { TranscriptSearch } from './TranscriptSearch';
 import { HighlightedTranscript } from './HighlightedTranscript';
+import { SearchHit, TranscriptSearchResult } from '../utils/searchUtils';
 
 interface EnhancedTranscriptProps {
   transcript: TranscriptSegment[];
@@ -11,6 +13,13 @@ interface EnhancedTranscriptProps {
   onUpdateHighlights: (highlights: HighlightedSegment[]) => void;
   searchEnabled?: boolean;
   onSearchRestriction?: () => void;
+  suggestedHighlights?: HighlightedSegment[];
+  onReviewSuggestions?: (accepted: HighlightedSegment[], rejected: HighlightedSegment[]) => void;
+  autoHighlightEnabled?: boolean;
+  onAutoHighlightRestriction?: () => void;
+  chapters?: Chapter[];
+  // Segment to open the transcript at, e.g. a library search match
+  focusSegmentIndex?: number;
 }
 
 export const EnhancedTranscript: React.FC<EnhancedTranscriptProps> = ({
@@ -20,9 +29,29 @@ export const EnhancedTranscript: React.FC<EnhancedTranscriptProps> = ({
   onUpdateHighlights,
   searchEnabled = false,
   onSearchRestriction,
+  suggestedHighlights = [],
+  onReviewSuggestions,
+  autoHighlightEnabled = false,
+  onAutoHighlightRestriction,
+  chapters = [],
+  focusSegmentIndex,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isOutlineExpanded, setIsOutlineExpanded] = useState(true);
   const [searchHighlightIndex, setSearchHighlightIndex] = useState<number | undefined>();
+  const [searchResult, setSearchResult] = useState<TranscriptSearchResult | null>(null);
+  const [activeSearchHit, setActiveSearchHit] = useState<SearchHit | null>(null);
+
+  const handleSearchResults = useCallback((result: TranscriptSearchResult | null, activeHit: SearchHit | null) => {
+    setSearchResult(result);
+    setActiveSearchHit(activeHit);
+  }, []);
+
+  useEffect(() => {
+    if (focusSegmentIndex === undefined) return;
+    setSearchHighlightIndex(focusSegmentIndex);
+    setIsExpanded(true);
+  }, [focusSegmentIndex]);
 
   const downloadTranscript = () => {
     const content = `${title}\n\nFULL TRANSCRIPT:\n\n` +
@@ -48,12 +77,67 @@ export const EnhancedTranscript: React.FC<EnhancedTranscriptProps> = ({
     setIsExpanded(true);
   };
 
+  const jumpToChapter = (chapter: Chapter) => {
+    const segmentIndex = transcript.findIndex(segment => segment.start >= chapter.start);
+    if (segmentIndex < 0) return;
+    setSearchHighlightIndex(segmentIndex);
+    setIsExpanded(true);
+  };
+
   return (
     <div className="space-y-4">
+      {chapters.length > 1 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <button
+              onClick={() => setIsOutlineExpanded(!isOutlineExpanded)}
+              className="flex items-center justify-between w-full text-left"
+            >
+              <div className="flex items-center space-x-2">
+                <ListTree className="w-5 h-5 text-indigo-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Chapters</h3>
+                <span className="text-sm text-gray-500">({chapters.length})</span>
+              </div>
+              {isOutlineExpanded ? (
+                <ChevronUp className="w-5 h-5 text-gray-400" />
+              ) : (
+                <ChevronDown className="w-5 h-5 text-gray-400" />
+              )}
+            </button>
+          </div>
+
+          {isOutlineExpanded && (
+            <ol className="p-4 space-y-1">
+              {chapters.map((chapter, index) => (
+                <li key={index}>
+                  <button
+                    onClick={() => jumpToChapter(chapter)}
+                    className="w-full flex items-start space-x-3 p-3 rounded-lg text-left hover:bg-gray-50 transition-colors"
+                  >
+                    <span className="flex-shrink-0 text-sm font-mono text-indigo-600 bg-indigo-50 px-2 py-1 rounded">
+                      {formatTimestamp(chapter.start)}
+                    </span>
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900">
+                        {index + 1}. {chapter.title}
+                      </div>
+                      {chapter.summary && (
+                        <p className="text-sm text-gray-600 mt-1">{chapter.summary}</p>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
       {searchEnabled ? (
         <TranscriptSearch
           transcript={transcript}
           onHighlight={handleSearchHighlight}
+          onResultsChange={handleSearchResults}
         />
       ) : (
         <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-4">
@@ -75,6 +159,55 @@ export const EnhancedTranscript: React.FC<EnhancedTranscriptProps> = ({
         </div>
       )}
 
+      {suggestedHighlights.length > 0 && (
+        <div className="bg-amber-50 rounded-xl border border-amber-200 p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              {autoHighlightEnabled ? (
+                <Sparkles className="w-5 h-5 text-amber-600" />
+              ) : (
+                <Lock className="w-5 h-5 text-gray-400" />
+              )}
+              <span className="text-amber-900 font-medium">
+                {suggestedHighlights.length} suggested highlight{suggestedHighlights.length > 1 ? 's' : ''}
+              </span>
+            </div>
+            {autoHighlightEnabled && onReviewSuggestions ? (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => setIsExpanded(true)}
+                  className="text-amber-700 hover:text-amber-800 text-sm font-medium"
+                >
+                  Review
+                </button>
+                <button
+                  onClick={() => onReviewSuggestions(suggestedHighlights, [])}
+                  className="bg-amber-600 text-white px-3 py-1 rounded text-sm hover:bg-amber-700 transition-colors"
+                >
+                  Accept all
+                </button>
+                <button
+                  onClick={() => onReviewSuggestions([], suggestedHighlights)}
+                  className="text-amber-700 hover:text-amber-800 text-sm"
+                >
+                  Dismiss all
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={onAutoHighlightRestriction}
+                className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              >
+                Upgrade to Pro
+              </button>
+            )}
+          </div>
+          <p className="text-amber-800 text-sm mt-2">
+            Moments picked from keyword density, new topics, speaker emphasis and similarity to the summary.
+          </p>
+        </div>
+      )}
+
       <div className="bg-white rounded-xl shadow-lg border border-gray-200">
         <div className="p-6 border-b border-gray-200">
           <button
@@ -115,6 +248,10 @@ export const EnhancedTranscript: React.FC<EnhancedTranscriptProps> = ({
               highlightedSegments={highlightedSegments}
               onUpdateHighlights={onUpdateHighlights}
               searchHighlightIndex={searchHighlightIndex}
+              searchMatches={searchResult?.rangesBySegment}
+              activeSearchHit={activeSearchHit}
+              suggestedHighlights={autoHighlightEnabled ? suggestedHighlights : []}
+              onReviewSuggestions={onReviewSuggestions}
             />
           </div>
         )}
@@ -1,7 +1,20 @@
 import React, { useState } from 'react';
-import { Download, FileText, File, FileImage, Loader2, Lock } from 'lucide-react';
+import { Download, FileText, File, FileImage, FileCode, FileJson, Globe, Loader2, Lock, Captions } from 'lucide-react';
 import { VideoSummary } from '../types';
-import { exportToTxt, exportToPdf, exportToDocx } from '../utils/exportUtils';
+import {
+  exportVideo,
+  ExportFormat,
+  ExportSection,
+  EXPORT_SECTIONS,
+  ALL_EXPORT_SECTIONS,
+} from '../utils/exportUtils';
+import {
+  exportToSubtitles,
+  SubtitleFormat,
+  SUBTITLE_FORMATS,
+  DEFAULT_SUBTITLE_OPTIONS,
+} from '../utils/subtitleUtils';
+import { recordExportEvent } from '../services/auditService';
 
 interface ExportPanelProps {
   videoData: VideoSummary;
@@ -17,8 +30,21 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
   pdfDocxEnabled = false,
 }) => {
   const [isExporting, setIsExporting] = useState<string | null>(null);
+  const [sections, setSections] = useState<ExportSection[]>(ALL_EXPORT_SECTIONS);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>('srt');
+  const [subtitleTrack, setSubtitleTrack] = useState<string>('original');
+  const [maxLineLength, setMaxLineLength] = useState(DEFAULT_SUBTITLE_OPTIONS.maxLineLength);
+  const [maxCharsPerCue, setMaxCharsPerCue] = useState(DEFAULT_SUBTITLE_OPTIONS.maxCharsPerCue);
 
-  const handleExport = async (format: 'txt' | 'pdf' | 'docx') => {
+  const translatedTracks = Object.keys(videoData.translatedTranscript || {});
+
+  const toggleSection = (section: ExportSection) => {
+    setSections(prev =>
+      prev.includes(section) ? prev.filter(item => item !== section) : [...prev, section]
+    );
+  };
+
+  const handleExport = async (format: ExportFormat) => {
     if ((format === 'pdf' || format === 'docx') && onExportRestriction) {
       if (!onExportRestriction(format)) {
         return;
@@ -29,18 +55,8 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
     
     try {
       const filename = `${videoData.title.replace(/[^a-zA-Z0-9]/g, '_')}_summary`;
-      
-      switch (format) {
-        case 'txt':
-          await exportToTxt(videoData, highlightedSegments, filename);
-          break;
-        case 'pdf':
-          await exportToPdf(videoData, highlightedSegments, filename);
-          break;
-        case 'docx':
-          await exportToDocx(videoData, highlightedSegments, filename);
-          break;
-      }
+      await exportVideo(videoData, format, filename, { highlightedSegments, sections });
+      await recordExportEvent(videoData.id, format, { sections });
     } catch (error) {
       console.error(`Export to ${format} failed:`, error);
     } finally {
@@ -48,6 +64,26 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
     }
   };
 
+  const handleSubtitleExport = async () => {
+    setIsExporting('subtitles');
+
+    try {
+      const filename = `${videoData.title.replace(/[^a-zA-Z0-9]/g, '_')}_captions`;
+      await exportToSubtitles(
+        videoData,
+        subtitleFormat,
+        filename,
+        { maxLineLength, maxCharsPerCue },
+        subtitleTrack === 'original' ? undefined : subtitleTrack
+      );
+      await recordExportEvent(videoData.id, subtitleFormat, { track: subtitleTrack });
+    } catch (error) {
+      console.error(`Export to ${subtitleFormat} failed:`, error);
+    } finally {
+      setIsExporting(null);
+    }
+  };
+
   const exportOptions = [
     {
       format: 'txt' as const,
@@ -70,6 +106,27 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
       description: 'Editable Microsoft Word format',
       enabled: pdfDocxEnabled,
     },
+    {
+      format: 'md' as const,
+      icon: FileCode,
+      label: 'Markdown (.md)',
+      description: 'For Obsidian and Notion, with links to each timestamp',
+      enabled: true,
+    },
+    {
+      format: 'json' as const,
+      icon: FileJson,
+      label: 'JSON (.json)',
+      description: 'Structured data for scripts and integrations',
+      enabled: true,
+    },
+    {
+      format: 'html' as const,
+      icon: Globe,
+      label: 'Web Page (.html)',
+      description: 'Standalone page that opens in any browser',
+      enabled: true,
+    },
   ];
 
   return (
@@ -79,12 +136,29 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
         <h3 className="text-lg font-semibold text-gray-900">Export Options</h3>
       </div>
 
+      <div className="mb-4">
+        <p className="text-sm font-medium text-gray-700 mb-2">Include sections</p>
+        <div className="grid grid-cols-2 gap-2">
+          {EXPORT_SECTIONS.map(({ section, label }) => (
+            <label key={section} className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={sections.includes(section)}
+                onChange={() => toggleSection(section)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
       <div className="space-y-3">
         {exportOptions.map(({ format, icon: Icon, label, description, enabled }) => (
           <button
             key={format}
             onClick={() => handleExport(format)}
-            disabled={isExporting !== null || !enabled}
+            disabled={isExporting !== null || !enabled || sections.length === 0}
             className={`w-full flex items-center justify-between p-4 border rounded-lg transition-colors ${
               enabled
                 ? 'border-gray-200 hover:bg-gray-50'
@@ -122,10 +196,85 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
         ))}
       </div>
 
+      <div className="mt-6 pt-6 border-t border-gray-200">
+        <div className="flex items-center space-x-2 mb-3">
+          <Captions className="w-5 h-5 text-gray-600" />
+          <h4 className="font-medium text-gray-900">Captions</h4>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <label className="text-sm text-gray-600">
+            Format
+            <select
+              value={subtitleFormat}
+              onChange={(e) => setSubtitleFormat(e.target.value as SubtitleFormat)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {SUBTITLE_FORMATS.map(({ format, label }) => (
+                <option key={format} value={format}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Track
+            <select
+              value={subtitleTrack}
+              onChange={(e) => setSubtitleTrack(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="original">Original ({(videoData.language || 'en').toUpperCase()})</option>
+              {translatedTracks.map(code => (
+                <option key={code} value={code}>Translation ({code.toUpperCase()})</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Max chars per line
+            <input
+              type="number"
+              min={20}
+              max={80}
+              value={maxLineLength}
+              onChange={(e) => setMaxLineLength(Number(e.target.value) || DEFAULT_SUBTITLE_OPTIONS.maxLineLength)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Max chars per cue
+            <input
+              type="number"
+              min={20}
+              max={200}
+              value={maxCharsPerCue}
+              onChange={(e) => setMaxCharsPerCue(Number(e.target.value) || DEFAULT_SUBTITLE_OPTIONS.maxCharsPerCue)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+        </div>
+
+        <button
+          onClick={handleSubtitleExport}
+          disabled={isExporting !== null || videoData.transcript.length === 0}
+          className="w-full flex items-center justify-center space-x-2 bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {isExporting === 'subtitles' ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4" />
+          )}
+          <span>Download captions</span>
+        </button>
+      </div>
+
       <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
         <p className="text-sm text-blue-800">
-          <strong>Export includes:</strong> Video details, summary, bullet points, key quote, 
-          full transcript{highlightedSegments.length > 0 ? ', and highlighted segments' : ''}.
+          <strong>Export includes:</strong> Video details
+          {EXPORT_SECTIONS
+            .filter(({ section }) => sections.includes(section))
+            .filter(({ section }) => section !== 'highlights' || highlightedSegments.length > 0)
+            .filter(({ section }) => section !== 'chapters' || (videoData.chapters || []).length > 0)
+            .map(({ label }) => `, ${label.toLowerCase()}`)
+            .join('')}.
         </p>
       </div>
     </div>
@@ -1,12 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Copy, Check, Highlighter as Highlight, Star } from 'lucide-react';
+import { Copy, Check, Highlighter as Highlight, Star, Sparkles, X } from 'lucide-react';
 import { TranscriptSegment, HighlightedSegment } from '../types';
+import { SearchHit, TextRange } from '../utils/searchUtils';
+import { MatchedText } from './MatchedText';
 
 interface HighlightedTranscriptProps {
   transcript: TranscriptSegment[];
   highlightedSegments: HighlightedSegment[];
   onUpdateHighlights: (highlights: HighlightedSegment[]) => void;
   searchHighlightIndex?: number;
+  // Transcript search hits by segment; `activeSearchHit` is drawn stronger
+  searchMatches?: Map<number, TextRange[]>;
+  activeSearchHit?: SearchHit | null;
+  suggestedHighlights?: HighlightedSegment[];
+  onReviewSuggestions?: (accepted: HighlightedSegment[], rejected: HighlightedSegment[]) => void;
 }
 
 export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
@@ -14,6 +21,10 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
   highlightedSegments,
   onUpdateHighlights,
   searchHighlightIndex,
+  searchMatches,
+  activeSearchHit,
+  suggestedHighlights = [],
+  onReviewSuggestions,
 }) => {
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [selectedSegments, setSelectedSegments] = useState<Set<number>>(new Set());
@@ -51,7 +62,8 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
         type,
         timestamp: transcript[index].timestamp,
         text: transcript[index].text,
-        reason: type === 'key_moment' ? 'Key moment identified' : 'Important information'
+        reason: type === 'key_moment' ? 'Key moment identified' : 'Important information',
+        source: 'user'
       };
       onUpdateHighlights([...highlightedSegments, newHighlight]);
     }
@@ -76,7 +88,8 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
           type: 'important',
           timestamp: transcript[index].timestamp,
           text: transcript[index].text,
-          reason: 'User highlighted'
+          reason: 'User highlighted',
+          source: 'user'
         });
       }
     });
@@ -88,8 +101,13 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
     return highlightedSegments.find(h => h.segmentIndex === index);
   };
 
+  const getSegmentSuggestion = (index: number) => {
+    return suggestedHighlights.find(h => h.segmentIndex === index);
+  };
+
   const getSegmentClasses = (index: number) => {
     const highlight = getSegmentHighlight(index);
+    const suggestion = getSegmentSuggestion(index);
     const isSelected = selectedSegments.has(index);
     const isSearchHighlight = searchHighlightIndex === index;
     
@@ -97,6 +115,8 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
     
     if (isSearchHighlight) {
       classes += 'bg-yellow-100 border-2 border-yellow-300 ';
+    } else if (suggestion && !highlight) {
+      classes += 'bg-amber-50 border border-dashed border-amber-300 ';
     } else if (highlight) {
       if (highlight.type === 'key_moment') {
         classes += 'bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-200 ';
@@ -140,6 +160,7 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
       <div className="max-h-96 overflow-y-auto space-y-2">
         {transcript.map((segment, index) => {
           const highlight = getSegmentHighlight(index);
+          const suggestion = highlight ? undefined : getSegmentSuggestion(index);
           
           return (
             <div
@@ -160,7 +181,13 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
               </div>
               
               <div className="flex-1 min-w-0">
-                <p className="text-gray-700 leading-relaxed">{segment.text}</p>
+                <p className="text-gray-700 leading-relaxed">
+                  <MatchedText
+                    text={segment.text}
+                    ranges={searchMatches?.get(index)}
+                    activeRange={activeSearchHit?.ranges.find(range => range.segmentIndex === index)}
+                  />
+                </p>
                 {highlight && (
                   <div className="mt-2 flex items-center space-x-2">
                     <div className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full ${
@@ -173,6 +200,32 @@ export const HighlightedTranscript: React.FC<HighlightedTranscriptProps> = ({
                     </div>
                   </div>
                 )}
+                {suggestion && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <div className="flex items-center space-x-1 text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-800">
+                      <Sparkles className="w-3 h-3" />
+                      <span>Suggested: {suggestion.reason}</span>
+                    </div>
+                    {onReviewSuggestions && (
+                      <>
+                        <button
+                          onClick={() => onReviewSuggestions([suggestion], [])}
+                          className="flex items-center space-x-1 text-xs px-2 py-1 rounded bg-amber-600 text-white hover:bg-amber-700 transition-colors"
+                        >
+                          <Check className="w-3 h-3" />
+                          <span>Accept</span>
+                        </button>
+                        <button
+                          onClick={() => onReviewSuggestions([], [suggestion])}
+                          className="flex items-center space-x-1 text-xs px-2 py-1 rounded text-amber-700 hover:bg-amber-100 transition-colors"
+                        >
+                          <X className="w-3 h-3" />
+                          <span>Reject</span>
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
               
               <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
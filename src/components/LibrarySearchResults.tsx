@@ -0,0 +1,136 @@
+import React from 'react';
+import { Search, PlayCircle } from 'lucide-react';
+import { LibrarySearchResult, LibrarySearchMatch, splitHighlights } from '../services/searchService';
+
+interface LibrarySearchResultsProps {
+  query: string;
+  results: LibrarySearchResult[];
+  total: number;
+  loading: boolean;
+  error: string | null;
+  onOpen: (result: LibrarySearchResult, match?: LibrarySearchMatch) => void;
+  onLoadMore: () => void;
+  // Meaning results are whole transcript passages rather than highlighted snippets
+  mode?: 'keyword' | 'meaning';
+}
+
+const Highlighted: React.FC<{ snippet: string }> = ({ snippet }) => (
+  <>
+    {splitHighlights(snippet).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className="bg-yellow-200 px-0.5 rounded">{part.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export const LibrarySearchResults: React.FC<LibrarySearchResultsProps> = ({
+  query,
+  results,
+  total,
+  loading,
+  error,
+  onOpen,
+  onLoadMore,
+  mode = 'keyword',
+}) => {
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900">
+          {loading && results.length === 0 ? 'Searching...' : `${total} ${total === 1 ? 'result' : 'results'} for “${query}”`}
+        </h3>
+        {loading && (
+          <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && results.length === 0 && (
+        <div className="text-center py-12">
+          <Search className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h4 className="text-lg font-semibold text-gray-900 mb-2">No matches</h4>
+          <p className="text-gray-500">
+            {mode === 'meaning'
+              ? 'Try describing the idea differently, or use fewer filters.'
+              : 'Try other words or fewer filters. Use quotes for an exact phrase and -word to exclude a word.'}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {results.map(result => (
+          <div key={result.summaryId} className="flex space-x-4 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
+            <img
+              src={result.thumbnail}
+              alt={result.title}
+              className="w-32 h-20 object-cover rounded flex-shrink-0 cursor-pointer"
+              onClick={() => onOpen(result)}
+            />
+            <div className="flex-1 min-w-0">
+              <button
+                onClick={() => onOpen(result)}
+                className="font-semibold text-gray-900 hover:text-blue-600 transition-colors text-left line-clamp-1"
+              >
+                {result.title}
+              </button>
+              <div className="flex items-center space-x-2 text-sm text-gray-600 mt-1">
+                <span>{result.channelName}</span>
+                <span>•</span>
+                <span>{result.duration}</span>
+                <span>•</span>
+                <span className="uppercase text-xs">{result.language}</span>
+                <span>•</span>
+                <span>{new Date(result.createdAt).toLocaleDateString()}</span>
+              </div>
+              {result.snippet && (
+                <p className="text-sm text-gray-700 mt-2 line-clamp-2">
+                  <Highlighted snippet={result.snippet} />
+                </p>
+              )}
+              {result.matches.length > 0 && (
+                <div className="mt-3 space-y-1">
+                  {result.matches.map(match => (
+                    <button
+                      key={match.segmentIndex}
+                      onClick={() => onOpen(result, match)}
+                      className="w-full flex items-start space-x-2 p-2 rounded text-left text-sm hover:bg-blue-50 transition-colors"
+                      title="Open at this moment"
+                    >
+                      <span className="flex-shrink-0 flex items-center space-x-1 text-xs font-mono text-blue-600 bg-blue-100 px-2 py-1 rounded">
+                        <PlayCircle className="w-3 h-3" />
+                        <span>{match.timestamp}</span>
+                      </span>
+                      <span className={`text-gray-700 ${mode === 'meaning' ? 'line-clamp-2' : ''}`}>
+                        <Highlighted snippet={match.snippet} />
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {results.length < total && (
+        <div className="text-center mt-6">
+          <button
+            onClick={onLoadMore}
+            disabled={loading}
+            className="text-blue-600 hover:text-blue-700 font-medium text-sm disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : `Show more (${total - results.length} left)`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
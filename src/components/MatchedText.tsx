@@ -0,0 +1,34 @@
+import React from 'react';
+import { TextRange, splitByRanges } from '../utils/searchUtils';
+
+interface MatchedTextProps {
+  text: string;
+  ranges?: TextRange[];
+  // The currently selected match, drawn stronger than the rest
+  activeRange?: TextRange;
+}
+
+export const MatchedText: React.FC<MatchedTextProps> = ({ text, ranges = [], activeRange }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {splitByRanges(text, ranges).map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className={`px-0.5 rounded ${
+              activeRange && part.start <= activeRange.start && activeRange.start < part.start + part.text.length
+                ? 'bg-orange-300'
+                : 'bg-yellow-200'
+            }`}
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Mic, Upload, AlertCircle, CheckCircle2, X } from 'lucide-react';
+import { MAX_MEDIA_FILE_BYTES, MEDIA_FILE_ACCEPT } from '../services/mediaService';
+
+interface MediaFileUploadProps {
+  // A blank language lets the speech-to-text provider detect it
+  onSubmit: (file: File, details: { title: string; language: string | null }) => void;
+  isLoading: boolean;
+  canAnalyze: boolean;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const MediaFileUpload: React.FC<MediaFileUploadProps> = ({
+  onSubmit,
+  isLoading,
+  canAnalyze,
+  onClose,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [language, setLanguage] = useState('');
+
+  const canSubmit = !!file && canAnalyze && !isLoading;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setFile(null);
+    setFileError(null);
+    if (!selected) return;
+
+    if (!selected.type.startsWith('audio/') && !selected.type.startsWith('video/')) {
+      setFileError('Choose an audio or video file.');
+      return;
+    }
+    if (selected.size > MAX_MEDIA_FILE_BYTES) {
+      setFileError('This recording is too large (100 MB at most).');
+      return;
+    }
+
+    setFile(selected);
+    if (!title) setTitle(selected.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || !file) return;
+
+    onSubmit(file, {
+      title: title.trim() || file.name,
+      language: language.trim().toLowerCase() || null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Mic className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Upload a recording</h3>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Meetings, lectures or podcasts that aren't on YouTube. The audio is transcribed on our servers and the
+        file is deleted once the analysis finishes.
+      </p>
+
+      <label className="flex items-center justify-center space-x-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-white transition-colors">
+        <Upload className="w-5 h-5 text-gray-500" />
+        <span className="text-sm text-gray-700">{file?.name || 'Choose an audio or video file'}</span>
+        <input
+          type="file"
+          accept={MEDIA_FILE_ACCEPT}
+          onChange={handleFileChange}
+          disabled={isLoading}
+          className="hidden"
+        />
+      </label>
+
+      {fileError && (
+        <div className="text-red-600 text-sm flex items-center space-x-2">
+          <AlertCircle className="w-4 h-4" />
+          <span>{fileError}</span>
+        </div>
+      )}
+
+      {file && (
+        <div className="text-green-600 text-sm flex items-center space-x-2">
+          <CheckCircle2 className="w-4 h-4" />
+          <span>{formatFileSize(file.size)} {file.type.startsWith('video/') ? 'video' : 'audio'} file</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2">
+          <label htmlFor="media-title" className="block text-sm text-gray-700 mb-1">Title</label>
+          <input
+            id="media-title"
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="What is this recording?"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label htmlFor="media-language" className="block text-sm text-gray-700 mb-1">Language code</label>
+          <input
+            id="media-language"
+            type="text"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            maxLength={10}
+            placeholder="Detect"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className={`w-full py-3 px-6 font-semibold rounded-xl transition-all duration-300 ${
+          canSubmit
+            ? 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg'
+            : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+        }`}
+      >
+        {isLoading ? 'Uploading...' : 'Transcribe & Analyze'}
+      </button>
+    </form>
+  );
+};
@@ -1,9 +1,40 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { User } from '@supabase/supabase-js';
 import { Check, X, Star, Zap, Building, Users, ChevronDown, ChevronUp } from 'lucide-react';
+import { PlanStatus, UserPlan, getSubscriptionNotice } from '../services/planService';
+import {
+  BillingCycle,
+  PaidPlan,
+  startCheckout,
+  cancelSubscription,
+  resumeSubscription,
+  getCheckoutResult,
+} from '../services/billingService';
 
-export const PricingPlans: React.FC = () => {
+interface PricingPlansProps {
+  user: User | null;
+  planStatus: PlanStatus;
+  onPlanChange: () => void;
+}
+
+export const PricingPlans: React.FC<PricingPlansProps> = ({ user, planStatus, onPlanChange }) => {
   const [expandedPlan, setExpandedPlan] = useState<string | null>(null);
-  const [billingCycle, setBillingCycle] = useState<'monthly' | 'yearly'>('monthly');
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>('monthly');
+  const [pendingPlan, setPendingPlan] = useState<UserPlan | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const result = getCheckoutResult();
+    if (result === 'success') {
+      setMessage({ type: 'success', text: 'Thanks! Your subscription is now active.' });
+      onPlanChange();
+    } else if (result === 'canceled') {
+      setMessage({ type: 'error', text: 'Checkout was canceled. You have not been charged.' });
+    }
+    if (result) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
 
   const plans = [
     {
@@ -16,6 +47,7 @@ export const PricingPlans: React.FC = () => {
       seats: '1 user',
       features: [
         { name: 'Video Summaries', value: '5 per day', included: true },
+        { name: 'Video Length', value: 'Up to 30 min', included: true },
         { name: 'Full Transcripts', value: true, included: true },
         { name: 'Key Quotes & Insights', value: 'Basic', included: true },
         { name: 'TXT Export', value: true, included: true },
@@ -43,6 +75,7 @@ export const PricingPlans: React.FC = () => {
       seats: '1 user',
       features: [
         { name: 'Video Summaries', value: 'Unlimited', included: true },
+        { name: 'Video Length', value: 'Up to 4 hours', included: true },
         { name: 'Full Transcripts', value: true, included: true },
         { name: 'Enhanced AI Insights', value: '3 Memorable Quotes', included: true },
         { name: 'All Export Formats', value: 'TXT, PDF, DOCX', included: true },
@@ -70,6 +103,7 @@ export const PricingPlans: React.FC = () => {
       seats: '5 seats included',
       features: [
         { name: 'Everything in Pro', value: 'All Pro Features', included: true },
+        { name: 'Video Length', value: 'Up to 8 hours', included: true },
         { name: 'Team Collaboration', value: 'Shared Workspaces', included: true },
         { name: 'API Access', value: 'Included', included: true },
         { name: 'Admin Dashboard', value: 'Usage & Access Control', included: true },
@@ -90,6 +124,69 @@ export const PricingPlans: React.FC = () => {
     setExpandedPlan(expandedPlan === planId ? null : planId);
   };
 
+  const currentPlan = user ? planStatus.plan : null;
+  const hasPaidPlan = currentPlan !== null && currentPlan !== 'free';
+  const notice = user ? getSubscriptionNotice(planStatus) : null;
+
+  const getButtonText = (planId: UserPlan, defaultText: string) => {
+    if (pendingPlan === planId) return 'Processing...';
+    if (planId === currentPlan) {
+      return planStatus.cancelAtPeriodEnd ? 'Resume Plan' : 'Current Plan';
+    }
+    if (planId === 'free') {
+      if (!hasPaidPlan) return defaultText;
+      return planStatus.cancelAtPeriodEnd ? 'Switching at Period End' : 'Downgrade to Free';
+    }
+    if (hasPaidPlan) {
+      return `Switch to ${planId === 'team' ? 'Team' : 'Pro'}`;
+    }
+    return defaultText;
+  };
+
+  const isButtonDisabled = (planId: UserPlan) => {
+    if (pendingPlan !== null) return true;
+    if (planId === currentPlan) return !planStatus.cancelAtPeriodEnd;
+    return planId === 'free' && (!hasPaidPlan || planStatus.cancelAtPeriodEnd);
+  };
+
+  const handleSelectPlan = async (planId: UserPlan) => {
+    if (!user) {
+      setMessage({ type: 'error', text: 'Please sign in to choose a plan.' });
+      return;
+    }
+
+    if (planId === 'free' && !window.confirm('Cancel your subscription? Your plan stays active until the end of the billing period.')) {
+      return;
+    }
+
+    setPendingPlan(planId);
+    setMessage(null);
+
+    const result = planId === 'free'
+      ? await cancelSubscription()
+      : planId === currentPlan
+        ? await resumeSubscription()
+        : await startCheckout(planId as PaidPlan, billingCycle);
+
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Something went wrong. Please try again.' });
+      setPendingPlan(null);
+      return;
+    }
+
+    if (result.url) {
+      window.location.assign(result.url);
+      return;
+    }
+
+    setMessage({
+      type: 'success',
+      text: planId === 'free' ? 'Your subscription will end at the close of this billing period.' : 'Your plan has been updated.',
+    });
+    setPendingPlan(null);
+    onPlanChange();
+  };
+
   return (
     <div className="max-w-6xl mx-auto px-4 py-12">
       <div className="text-center mb-12">
@@ -124,6 +221,21 @@ export const PricingPlans: React.FC = () => {
             </span>
           )}
         </div>
+
+        {notice && (
+          <div className="max-w-2xl mx-auto mb-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+            {notice}
+          </div>
+        )}
+        {message && (
+          <div className={`max-w-2xl mx-auto p-3 rounded-lg text-sm border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-red-50 border-red-200 text-red-800'
+          }`}>
+            {message.text}
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-12">
@@ -132,6 +244,7 @@ export const PricingPlans: React.FC = () => {
           const currentPrice = billingCycle === 'yearly' && plan.yearlyPrice ? plan.yearlyPrice : plan.price;
           const currentPeriod = billingCycle === 'yearly' && plan.yearlyPeriod ? plan.yearlyPeriod : plan.period;
           const isExpanded = expandedPlan === plan.id;
+          const planId = plan.id as UserPlan;
           
           return (
             <div
@@ -142,6 +255,14 @@ export const PricingPlans: React.FC = () => {
                   : 'border-gray-200 hover:border-blue-300'
               }`}
             >
+              {planId === currentPlan && (
+                <div className="absolute top-4 right-4">
+                  <span className="bg-green-100 text-green-800 text-xs font-semibold px-2 py-1 rounded-full">
+                    Your Plan
+                  </span>
+                </div>
+              )}
+
               {plan.popular && (
                 <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
                   <span className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-full text-sm font-semibold">
@@ -181,8 +302,14 @@ export const PricingPlans: React.FC = () => {
                   </div>
 
                   {/* CTA Button */}
-                  <button className={`w-full py-3 px-4 rounded-xl font-semibold transition-all duration-300 mb-6 ${plan.buttonClass}`}>
-                    {plan.buttonText}
+                  <button
+                    onClick={() => handleSelectPlan(planId)}
+                    disabled={isButtonDisabled(planId)}
+                    className={`w-full py-3 px-4 rounded-xl font-semibold transition-all duration-300 mb-6 disabled:opacity-60 disabled:cursor-not-allowed ${
+                      planId === currentPlan && !planStatus.cancelAtPeriodEnd ? 'bg-gray-100 text-gray-700' : plan.buttonClass
+                    }`}
+                  >
+                    {getButtonText(planId, plan.buttonText)}
                   </button>
                 </div>
 
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { X, Share2, Copy, Check, Lock, Globe, Calendar, Eye, Download } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import { VideoSummary } from '../types';
+import { createSharedLink } from '../services/shareService';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -26,27 +26,19 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, videoDa
   const createShareLink = async () => {
     setLoading(true);
     try {
-      const shareData = {
-        video_summary_id: videoData.id,
+      const result = await createSharedLink(videoData, {
         title: shareSettings.title,
         description: shareSettings.description,
-        is_public: shareSettings.isPublic,
-        password_hash: shareSettings.password ? await hashPassword(shareSettings.password) : null,
-        expires_at: shareSettings.expiresAt ? new Date(shareSettings.expiresAt).toISOString() : null,
-        max_views: shareSettings.maxViews ? parseInt(shareSettings.maxViews) : null,
-        allow_downloads: shareSettings.allowDownloads,
-      };
+        isPublic: shareSettings.isPublic,
+        password: shareSettings.password,
+        expiresAt: shareSettings.expiresAt ? new Date(shareSettings.expiresAt).toISOString() : null,
+        maxViews: shareSettings.maxViews ? parseInt(shareSettings.maxViews) : null,
+        allowDownloads: shareSettings.allowDownloads,
+      });
 
-      const { data, error } = await supabase
-        .from('shared_summaries')
-        .insert(shareData)
-        .select('share_token')
-        .single();
+      if (!result.success || !result.url) throw new Error(result.error);
 
-      if (error) throw error;
-
-      const url = `${window.location.origin}/shared/${data.share_token}`;
-      setShareUrl(url);
+      setShareUrl(result.url);
     } catch (error) {
       console.error('Error creating share link:', error);
     } finally {
@@ -54,15 +46,6 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, videoDa
     }
   };
 
-  const hashPassword = async (password: string): Promise<string> => {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    const hash = await crypto.subtle.digest('SHA-256', data);
-    return Array.from(new Uint8Array(hash))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-  };
-
   const copyToClipboard = async () => {
     if (!shareUrl) return;
     
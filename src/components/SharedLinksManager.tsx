@@ -0,0 +1,475 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Link2,
+  Copy,
+  Check,
+  Trash2,
+  RefreshCw,
+  Lock,
+  Globe,
+  Eye,
+  Calendar,
+  History,
+  Pencil,
+  Download,
+} from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  SharedLink,
+  ShareAccessEvent,
+  getUserSharedLinks,
+  updateSharedLink,
+  regenerateShareToken,
+  revokeSharedLinks,
+  getShareAccessHistory,
+  getSharedLinkState,
+} from '../services/shareService';
+
+const OUTCOME_LABELS: Record<string, { label: string; className: string }> = {
+  ok: { label: 'Viewed', className: 'bg-green-100 text-green-800' },
+  invalid_password: { label: 'Wrong password', className: 'bg-red-100 text-red-800' },
+  too_many_attempts: { label: 'Locked', className: 'bg-red-100 text-red-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-700' },
+  view_limit_reached: { label: 'Limit reached', className: 'bg-orange-100 text-orange-800' },
+};
+
+const STATE_BADGES = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', className: 'bg-gray-200 text-gray-700' },
+  view_limit_reached: { label: 'View limit reached', className: 'bg-orange-100 text-orange-800' },
+};
+
+export const SharedLinksManager: React.FC = () => {
+  const [links, setLinks] = useState<SharedLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedLinks, setSelectedLinks] = useState<Set<string>>(new Set());
+  const [copiedLink, setCopiedLink] = useState<string | null>(null);
+  const [editingLink, setEditingLink] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ password: '', removePassword: false, expiresAt: '', maxViews: '' });
+  const [historyLink, setHistoryLink] = useState<string | null>(null);
+  const [history, setHistory] = useState<ShareAccessEvent[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchLinks();
+    }
+  }, [user]);
+
+  const fetchLinks = async () => {
+    if (!user) return;
+
+    const result = await getUserSharedLinks(user.id);
+    if (result.success && result.data) {
+      setLinks(result.data);
+      setSelectedLinks(prev => new Set([...prev].filter(id => result.data!.some(link => link.id === id))));
+    }
+    setLoading(false);
+  };
+
+  const toggleSelection = (linkId: string) => {
+    const next = new Set(selectedLinks);
+    if (next.has(linkId)) {
+      next.delete(linkId);
+    } else {
+      next.add(linkId);
+    }
+    setSelectedLinks(next);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedLinks(selectedLinks.size === links.length ? new Set() : new Set(links.map(link => link.id)));
+  };
+
+  const copyToClipboard = async (link: SharedLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedLink(link.id);
+      setTimeout(() => setCopiedLink(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy: ', err);
+    }
+  };
+
+  const handleRevoke = async (linkIds: string[]) => {
+    if (!user || linkIds.length === 0) return;
+    const message = linkIds.length === 1
+      ? 'Revoke this link? Anyone with the URL will lose access.'
+      : `Revoke ${linkIds.length} links? Anyone with these URLs will lose access.`;
+    if (!window.confirm(message)) return;
+
+    setBusy(true);
+    await revokeSharedLinks(user.id, linkIds);
+    await fetchLinks();
+    setBusy(false);
+  };
+
+  const handleRegenerate = async (link: SharedLink) => {
+    if (!user) return;
+    if (!window.confirm('Generate a new URL for this link? The current URL will stop working.')) return;
+
+    setBusy(true);
+    await regenerateShareToken(user.id, link.id);
+    await fetchLinks();
+    setBusy(false);
+  };
+
+  const startEditing = (link: SharedLink) => {
+    setEditingLink(link.id);
+    setEditForm({
+      password: '',
+      removePassword: false,
+      expiresAt: link.expiresAt ? link.expiresAt.split('T')[0] : '',
+      maxViews: link.maxViews !== null ? link.maxViews.toString() : '',
+    });
+  };
+
+  const extendExpiry = (days: number) => {
+    const link = links.find(item => item.id === editingLink);
+    const base = link?.expiresAt && new Date(link.expiresAt) > new Date() ? new Date(link.expiresAt) : new Date();
+    base.setDate(base.getDate() + days);
+    setEditForm({ ...editForm, expiresAt: base.toISOString().split('T')[0] });
+  };
+
+  const saveEdit = async (link: SharedLink) => {
+    if (!user) return;
+
+    setBusy(true);
+    await updateSharedLink(user.id, link.id, {
+      password: editForm.removePassword ? null : editForm.password || undefined,
+      expiresAt: editForm.expiresAt ? new Date(`${editForm.expiresAt}T23:59:59`).toISOString() : null,
+      maxViews: editForm.maxViews ? parseInt(editForm.maxViews) : null,
+    });
+    setEditingLink(null);
+    await fetchLinks();
+    setBusy(false);
+  };
+
+  const toggleHistory = async (link: SharedLink) => {
+    if (historyLink === link.id) {
+      setHistoryLink(null);
+      return;
+    }
+
+    setHistoryLink(link.id);
+    setHistory([]);
+    setHistoryLoading(true);
+    const result = await getShareAccessHistory(link.id);
+    if (result.success && result.data) {
+      setHistory(result.data);
+    }
+    setHistoryLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const activeCount = links.filter(link => getSharedLinkState(link) === 'active').length;
+  const totalViews = links.reduce((sum, link) => sum + link.viewCount, 0);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Link2 className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-bold text-gray-900">My Shared Links</h2>
+          </div>
+          {selectedLinks.size > 0 && (
+            <button
+              onClick={() => handleRevoke([...selectedLinks])}
+              disabled={busy}
+              className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Revoke {selectedLinks.size} selected</span>
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-blue-50 p-4 rounded-lg">
+            <div className="text-2xl font-bold text-blue-600">{links.length}</div>
+            <div className="text-sm text-blue-800">Total Links</div>
+          </div>
+          <div className="bg-green-50 p-4 rounded-lg">
+            <div className="text-2xl font-bold text-green-600">{activeCount}</div>
+            <div className="text-sm text-green-800">Active Links</div>
+          </div>
+          <div className="bg-purple-50 p-4 rounded-lg">
+            <div className="text-2xl font-bold text-purple-600">{totalViews}</div>
+            <div className="text-sm text-purple-800">Total Views</div>
+          </div>
+        </div>
+
+        {links.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Link2 className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+            <p>No shared links yet.</p>
+            <p className="text-sm">Share a video from your dashboard to create one.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={selectedLinks.size === links.length}
+                onChange={toggleSelectAll}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Select all</span>
+            </label>
+
+            {links.map((link) => {
+              const state = STATE_BADGES[getSharedLinkState(link)];
+
+              return (
+                <div
+                  key={link.id}
+                  className={`border rounded-lg transition-colors ${
+                    selectedLinks.has(link.id) ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-start space-x-4 p-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedLinks.has(link.id)}
+                      onChange={() => toggleSelection(link.id)}
+                      className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+
+                    {link.video && (
+                      <img
+                        src={link.video.thumbnail}
+                        alt={link.video.title}
+                        className="w-24 h-16 object-cover rounded flex-shrink-0"
+                      />
+                    )}
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center flex-wrap gap-2 mb-1">
+                        <h4 className="font-semibold text-gray-900 truncate">
+                          {link.title || link.video?.title || 'Untitled link'}
+                        </h4>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${state.className}`}>
+                          {state.label}
+                        </span>
+                      </div>
+                      {link.video && link.title !== link.video.title && (
+                        <p className="text-sm text-gray-500 truncate mb-1">{link.video.title}</p>
+                      )}
+                      <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                        <span className="flex items-center space-x-1">
+                          {link.isPublic ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                          <span>{link.isPublic ? 'Public' : 'Private'}</span>
+                        </span>
+                        {link.hasPassword && (
+                          <span className="flex items-center space-x-1">
+                            <Lock className="w-3 h-3" />
+                            <span>Password</span>
+                          </span>
+                        )}
+                        <span className="flex items-center space-x-1">
+                          <Eye className="w-3 h-3" />
+                          <span>{link.viewCount}{link.maxViews !== null ? ` / ${link.maxViews}` : ''} views</span>
+                        </span>
+                        <span className="flex items-center space-x-1">
+                          <Calendar className="w-3 h-3" />
+                          <span>
+                            {link.expiresAt
+                              ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}`
+                              : 'Never expires'}
+                          </span>
+                        </span>
+                        {!link.allowDownloads && (
+                          <span className="flex items-center space-x-1">
+                            <Download className="w-3 h-3" />
+                            <span>Downloads off</span>
+                          </span>
+                        )}
+                      </div>
+                      <code className="block mt-2 bg-gray-100 px-2 py-1 rounded text-xs font-mono text-gray-600 truncate">
+                        {link.url}
+                      </code>
+                    </div>
+
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => copyToClipboard(link)}
+                        className="p-2 hover:bg-gray-200 rounded transition-colors"
+                        title="Copy link"
+                      >
+                        {copiedLink === link.id ? (
+                          <Check className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <Copy className="w-4 h-4 text-gray-500" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => startEditing(link)}
+                        className="p-2 hover:bg-gray-200 rounded transition-colors"
+                        title="Edit password and expiry"
+                      >
+                        <Pencil className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => handleRegenerate(link)}
+                        disabled={busy}
+                        className="p-2 hover:bg-gray-200 rounded transition-colors"
+                        title="Regenerate link"
+                      >
+                        <RefreshCw className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => toggleHistory(link)}
+                        className={`p-2 rounded transition-colors ${
+                          historyLink === link.id ? 'bg-blue-100' : 'hover:bg-gray-200'
+                        }`}
+                        title="Access history"
+                      >
+                        <History className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => handleRevoke([link.id])}
+                        disabled={busy}
+                        className="p-2 hover:bg-red-100 rounded transition-colors"
+                        title="Revoke link"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Edit Form */}
+                  {editingLink === link.id && (
+                    <div className="border-t border-gray-200 p-4 bg-gray-50 space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <label className="text-sm text-gray-600">
+                          New password
+                          <input
+                            type="password"
+                            value={editForm.password}
+                            onChange={(e) => setEditForm({ ...editForm, password: e.target.value, removePassword: false })}
+                            placeholder={link.hasPassword ? 'Leave blank to keep current' : 'No password'}
+                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </label>
+                        <label className="text-sm text-gray-600">
+                          Expires on
+                          <input
+                            type="date"
+                            value={editForm.expiresAt}
+                            onChange={(e) => setEditForm({ ...editForm, expiresAt: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </label>
+                        <label className="text-sm text-gray-600">
+                          Max views
+                          <input
+                            type="number"
+                            min={link.viewCount + 1}
+                            value={editForm.maxViews}
+                            onChange={(e) => setEditForm({ ...editForm, maxViews: e.target.value })}
+                            placeholder="Unlimited"
+                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </label>
+                      </div>
+
+                      <div className="flex items-center flex-wrap gap-2 text-sm">
+                        <span className="text-gray-600">Extend expiry:</span>
+                        {[7, 30, 90].map(days => (
+                          <button
+                            key={days}
+                            onClick={() => extendExpiry(days)}
+                            className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+                          >
+                            +{days} days
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => setEditForm({ ...editForm, expiresAt: '' })}
+                          className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+                        >
+                          Never
+                        </button>
+                        {link.hasPassword && (
+                          <label className="flex items-center space-x-2 ml-auto text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={editForm.removePassword}
+                              onChange={(e) => setEditForm({ ...editForm, removePassword: e.target.checked, password: '' })}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>Remove password</span>
+                          </label>
+                        )}
+                      </div>
+
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setEditingLink(null)}
+                          className="text-gray-600 hover:text-gray-800 px-4 py-2"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => saveEdit(link)}
+                          disabled={busy}
+                          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                          Save changes
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Access History */}
+                  {historyLink === link.id && (
+                    <div className="border-t border-gray-200 p-4 bg-gray-50">
+                      <h5 className="text-sm font-semibold text-gray-900 mb-3">Access history</h5>
+                      {historyLoading ? (
+                        <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                      ) : history.length === 0 ? (
+                        <p className="text-sm text-gray-500">No one has opened this link yet.</p>
+                      ) : (
+                        <div className="max-h-64 overflow-y-auto divide-y divide-gray-200">
+                          {history.map(event => {
+                            const outcome = OUTCOME_LABELS[event.outcome] || OUTCOME_LABELS.ok;
+                            return (
+                              <div key={event.id} className="flex items-center justify-between py-2 text-sm">
+                                <div className="flex items-center space-x-3 min-w-0">
+                                  <span className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${outcome.className}`}>
+                                    {outcome.label}
+                                  </span>
+                                  <span className="text-gray-500 truncate">
+                                    {event.viewerId ? 'Signed-in user' : 'Anonymous'}
+                                    {event.userAgent ? ` · ${event.userAgent}` : ''}
+                                  </span>
+                                </div>
+                                <span className="text-gray-500 flex-shrink-0 ml-3">
+                                  {new Date(event.createdAt).toLocaleString()}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
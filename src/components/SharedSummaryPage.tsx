@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Lock, Loader2, Eye, Calendar, Link2Off, Clock, ArrowRight } from 'lucide-react';
+import { VideoSummary } from '../types';
+import {
+  resolveSharedSummary,
+  SharedSummarySettings,
+  SharedSummaryStatus,
+} from '../services/shareService';
+import { VideoPreview } from './VideoPreview';
+import { Summary } from './Summary';
+import { Transcript } from './Transcript';
+import { ExportPanel } from './ExportPanel';
+
+interface SharedSummaryPageProps {
+  shareToken: string;
+}
+
+const UNAVAILABLE_MESSAGES: Partial<Record<SharedSummaryStatus, { title: string; message: string }>> = {
+  not_found: {
+    title: 'Link not found',
+    message: 'This share link does not exist or has been revoked by its owner.',
+  },
+  expired: {
+    title: 'Link expired',
+    message: 'This share link has expired. Ask the owner for a new one.',
+  },
+  view_limit_reached: {
+    title: 'View limit reached',
+    message: 'This share link has reached its maximum number of views.',
+  },
+};
+
+export const SharedSummaryPage: React.FC<SharedSummaryPageProps> = ({ shareToken }) => {
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<SharedSummaryStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [shareTitle, setShareTitle] = useState<string | null>(null);
+  const [share, setShare] = useState<SharedSummarySettings | null>(null);
+  const [videoData, setVideoData] = useState<VideoSummary | null>(null);
+  const [password, setPassword] = useState('');
+  // Every successful resolve counts as a view, so only resolve once per visit
+  const resolvedRef = useRef(false);
+
+  const loadSharedSummary = async (passwordAttempt?: string) => {
+    setLoading(true);
+    setError(null);
+
+    const result = await resolveSharedSummary(shareToken, passwordAttempt);
+
+    if (result.success && result.data && result.share) {
+      setVideoData(result.data);
+      setShare(result.share);
+      setStatus('ok');
+    } else if (result.status) {
+      setStatus(result.status);
+      setShareTitle(result.title || null);
+    } else {
+      setError(result.error || 'Failed to load shared summary');
+    }
+
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (resolvedRef.current) return;
+    resolvedRef.current = true;
+    loadSharedSummary();
+  }, [shareToken]);
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    loadSharedSummary(password);
+  };
+
+  const renderBody = () => {
+    if (loading && !status) {
+      return (
+        <div className="text-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading shared summary...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="max-w-md mx-auto bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+          <h2 className="text-lg font-semibold text-red-900 mb-2">Something went wrong</h2>
+          <p className="text-red-700">{error}</p>
+        </div>
+      );
+    }
+
+    if (status === 'password_required' || status === 'invalid_password' || status === 'too_many_attempts') {
+      return (
+        <form
+          onSubmit={handlePasswordSubmit}
+          className="max-w-md mx-auto bg-white rounded-xl shadow-lg border border-gray-200 p-6"
+        >
+          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-6 h-6 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 text-center mb-2">
+            {shareTitle || 'Protected summary'}
+          </h2>
+          <p className="text-gray-600 text-sm text-center mb-6">
+            This shared summary is password protected.
+          </p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Enter password"
+          />
+          {status === 'invalid_password' && !loading && (
+            <p className="text-sm text-red-600 mt-2">Incorrect password. Please try again.</p>
+          )}
+          {status === 'too_many_attempts' && !loading && (
+            <p className="text-sm text-red-600 mt-2">Too many incorrect passwords. Try again in 15 minutes.</p>
+          )}
+          <button
+            type="submit"
+            disabled={loading || !password}
+            className="w-full mt-4 bg-blue-600 text-white py-2 px-4 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Checking...' : 'View Summary'}
+          </button>
+        </form>
+      );
+    }
+
+    const unavailable = status ? UNAVAILABLE_MESSAGES[status] : undefined;
+    if (unavailable) {
+      return (
+        <div className="max-w-md mx-auto bg-white rounded-xl shadow-lg border border-gray-200 p-6 text-center">
+          <Link2Off className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{unavailable.title}</h2>
+          <p className="text-gray-600">{unavailable.message}</p>
+        </div>
+      );
+    }
+
+    if (!videoData || !share) return null;
+
+    return (
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <h2 className="text-2xl font-bold text-gray-900">{share.title || videoData.title}</h2>
+          {share.description && (
+            <p className="text-gray-600 mt-2">{share.description}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-4 mt-4 text-sm text-gray-500">
+            <div className="flex items-center space-x-1">
+              <Eye className="w-4 h-4" />
+              <span>
+                {share.viewCount} {share.maxViews ? `of ${share.maxViews} ` : ''}views
+              </span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Calendar className="w-4 h-4" />
+              <span>Shared {new Date(share.createdAt).toLocaleDateString()}</span>
+            </div>
+            {share.expiresAt && (
+              <div className="flex items-center space-x-1">
+                <Clock className="w-4 h-4" />
+                <span>Expires {new Date(share.expiresAt).toLocaleDateString()}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <VideoPreview
+          title={videoData.title}
+          thumbnail={videoData.thumbnail}
+          duration={videoData.duration}
+          channelName={videoData.channelName}
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className={`${share.allowDownloads ? 'lg:col-span-2' : 'lg:col-span-3'} space-y-8`}>
+            <Summary
+              summary={videoData.summary}
+              bulletPoints={videoData.bulletPoints}
+              keyQuote={videoData.keyQuote}
+              title={videoData.title}
+              downloadEnabled={share.allowDownloads}
+            />
+
+            <Transcript
+              transcript={videoData.transcript}
+              title={videoData.title}
+              downloadEnabled={share.allowDownloads}
+            />
+          </div>
+
+          {share.allowDownloads && (
+            <div className="space-y-6">
+              <ExportPanel
+                videoData={videoData}
+                highlightedSegments={videoData.highlightedSegments}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-gradient-to-r from-blue-900 via-purple-900 to-blue-900 text-white py-6">
+        <div className="container mx-auto px-4 flex items-center justify-between">
+          <a href="/" className="text-2xl font-bold">Transcripto</a>
+          <a
+            href="/"
+            className="flex items-center space-x-2 bg-white/10 hover:bg-white/20 px-4 py-2 rounded-lg text-sm transition-colors"
+          >
+            <span>Analyze your own videos</span>
+            <ArrowRight className="w-4 h-4" />
+          </a>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {renderBody()}
+      </main>
+    </div>
+  );
+};
@@ -12,6 +12,7 @@ interface SummaryProps {
   };
   title: string;
   enhancedAI?: boolean;
+  downloadEnabled?: boolean;
 }
 
 export const Summary: React.FC<SummaryProps> = ({
@@ -21,6 +22,7 @@ export const Summary: React.FC<SummaryProps> = ({
   memorableQuotes,
   title,
   enhancedAI = false,
+  downloadEnabled = true,
 }) => {
   const [copiedQuote, setCopiedQuote] = useState<string | null>(null);
 
@@ -212,15 +214,17 @@ export const Summary: React.FC<SummaryProps> = ({
       )}
 
       {/* Download Button */}
-      <div className="flex justify-center pt-4">
-        <button
-          onClick={downloadSummary}
-          className="flex items-center space-x-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
-        >
-          <Download className="w-4 h-4" />
-          <span>Download Summary</span>
-        </button>
-      </div>
+      {downloadEnabled && (
+        <div className="flex justify-center pt-4">
+          <button
+            onClick={downloadSummary}
+            className="flex items-center space-x-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download Summary</span>
+          </button>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
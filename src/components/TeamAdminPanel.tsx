@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import { Shield, Activity, Key, FileText, UserX, RefreshCw } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  TeamMemberActivity,
+  TeamRole,
+  Workspace,
+  ROLE_PERMISSIONS,
+  getTeamMemberActivity,
+  updateTeamMember,
+  removeTeamMember,
+} from '../services/teamService';
+import { AuditEntry, AuditAction, AUDIT_ACTION_LABELS, getTeamAuditLog } from '../services/auditService';
+
+interface TeamAdminPanelProps {
+  teams: Workspace[];
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  delete: 'bg-red-100 text-red-800',
+  share: 'bg-blue-100 text-blue-800',
+  export: 'bg-green-100 text-green-800',
+  member_invite: 'bg-indigo-100 text-indigo-800',
+  member_accept: 'bg-teal-100 text-teal-800',
+  member_decline: 'bg-gray-100 text-gray-800',
+  member_update: 'bg-purple-100 text-purple-800',
+  member_revoke: 'bg-orange-100 text-orange-800',
+};
+
+const RESOURCE_LABELS: Record<string, string> = {
+  video_summary: 'video',
+  collection: 'collection',
+  shared_link: 'shared link',
+  team_member: 'team member',
+};
+
+export const TeamAdminPanel: React.FC<TeamAdminPanelProps> = ({ teams }) => {
+  const [teamOwnerId, setTeamOwnerId] = useState<string | null>(teams[0]?.teamOwnerId || null);
+  const [activity, setActivity] = useState<TeamMemberActivity[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (teamOwnerId) {
+      fetchData();
+    } else {
+      setLoading(false);
+    }
+  }, [teamOwnerId, actionFilter]);
+
+  const fetchData = async () => {
+    if (!teamOwnerId) return;
+
+    setLoading(true);
+    setError(null);
+    const [activityResult, auditResult] = await Promise.all([
+      getTeamMemberActivity(teamOwnerId),
+      getTeamAuditLog(teamOwnerId, actionFilter === 'all' ? {} : { action: actionFilter }),
+    ]);
+
+    if (activityResult.success && activityResult.data) {
+      setActivity(activityResult.data);
+    } else {
+      setError(activityResult.error || 'Failed to load team activity');
+    }
+    if (auditResult.success && auditResult.data) {
+      setAuditLog(auditResult.data);
+    }
+    setLoading(false);
+  };
+
+  const handleRoleChange = async (member: TeamMemberActivity, role: TeamRole) => {
+    if (!teamOwnerId || !member.membershipId) return;
+    await updateTeamMember(member.membershipId, { role, permissions: ROLE_PERMISSIONS[role] });
+    await fetchData();
+  };
+
+  const handleRevoke = async (member: TeamMemberActivity) => {
+    if (!teamOwnerId || !member.membershipId) return;
+    if (!window.confirm(`Revoke ${member.email}'s access to this team?`)) return;
+
+    await removeTeamMember(member.membershipId);
+    await fetchData();
+  };
+
+  const describeEntry = (entry: AuditEntry) => {
+    const name = entry.details.title || entry.details.name;
+    const resource = RESOURCE_LABELS[entry.resourceType] || entry.resourceType;
+    const format = entry.action === 'export' && entry.details.format
+      ? ` as ${String(entry.details.format).toUpperCase()}`
+      : '';
+    return `${resource}${name ? ` "${String(name)}"` : ''}${format}`;
+  };
+
+  if (teams.length === 0) {
+    return (
+      <div className="max-w-4xl mx-auto px-4">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 text-center">
+          <Shield className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">You are not an admin of any team.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totals = activity.reduce(
+    (acc, member) => ({
+      analyses: acc.analyses + member.analysesThisMonth,
+      exports: acc.exports + member.exportsThisMonth,
+      apiRequests: acc.apiRequests + member.apiKeyRequests,
+    }),
+    { analyses: 0, exports: 0, apiRequests: 0 }
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Shield className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-bold text-gray-900">Team Admin</h2>
+          </div>
+          <div className="flex items-center space-x-3">
+            {teams.length > 1 && (
+              <select
+                value={teamOwnerId || ''}
+                onChange={(e) => setTeamOwnerId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {teams.map(team => (
+                  <option key={team.id} value={team.teamOwnerId || ''}>{team.name}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={fetchData}
+              disabled={loading}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span className="text-sm">Refresh</span>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-4 bg-blue-50 rounded-lg">
+            <div className="flex items-center space-x-2 text-blue-700 mb-1">
+              <Activity className="w-4 h-4" />
+              <span className="text-sm">Analyses this month</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{totals.analyses}</p>
+          </div>
+          <div className="p-4 bg-green-50 rounded-lg">
+            <div className="flex items-center space-x-2 text-green-700 mb-1">
+              <FileText className="w-4 h-4" />
+              <span className="text-sm">Exports this month</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{totals.exports}</p>
+          </div>
+          <div className="p-4 bg-purple-50 rounded-lg">
+            <div className="flex items-center space-x-2 text-purple-700 mb-1">
+              <Key className="w-4 h-4" />
+              <span className="text-sm">API key requests</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{totals.apiRequests}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Member usage */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Members</h3>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Member</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium text-right">Today</th>
+                  <th className="py-2 pr-4 font-medium text-right">This month</th>
+                  <th className="py-2 pr-4 font-medium text-right">Exports</th>
+                  <th className="py-2 pr-4 font-medium text-right">Translations</th>
+                  <th className="py-2 pr-4 font-medium text-right">API keys</th>
+                  <th className="py-2 pr-4 font-medium text-right">API requests</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {activity.map(member => {
+                  const manageable = member.membershipId !== null && member.userId !== user?.id;
+                  return (
+                    <tr key={member.userId} className="border-b border-gray-100">
+                      <td className="py-3 pr-4">
+                        <div className="font-medium text-gray-900">{member.email}</div>
+                        {member.apiLastUsed && (
+                          <div className="text-xs text-gray-500">
+                            API last used {new Date(member.apiLastUsed).toLocaleDateString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {manageable ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="viewer">Viewer</option>
+                            <option value="editor">Editor</option>
+                            <option value="admin">Admin</option>
+                          </select>
+                        ) : (
+                          <span className="capitalize text-gray-700">{member.role}</span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-right">{member.analysesToday}</td>
+                      <td className="py-3 pr-4 text-right">{member.analysesThisMonth}</td>
+                      <td className="py-3 pr-4 text-right">{member.exportsThisMonth}</td>
+                      <td className="py-3 pr-4 text-right">{member.translationsThisMonth}</td>
+                      <td className="py-3 pr-4 text-right">{member.activeApiKeys}</td>
+                      <td className="py-3 pr-4 text-right">{member.apiKeyRequests}</td>
+                      <td className="py-3 text-right">
+                        {manageable && (
+                          <button
+                            onClick={() => handleRevoke(member)}
+                            className="p-2 hover:bg-red-100 rounded transition-colors"
+                            title="Revoke access"
+                          >
+                            <UserX className="w-4 h-4 text-red-500" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Audit log */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Audit Log</h3>
+          <select
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value as AuditAction | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+
+        {auditLog.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No activity recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {auditLog.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${ACTION_STYLES[entry.action]}`}>
+                    {AUDIT_ACTION_LABELS[entry.action]}
+                  </span>
+                  <span className="text-sm text-gray-700 truncate">
+                    <span className="font-medium text-gray-900">{entry.actorEmail || 'Unknown user'}</span>
+                    {' '}{describeEntry(entry)}
+                  </span>
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap ml-4">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Users, UserPlus, Mail, Check, X, Trash2, Crown, Lock } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  TeamMember,
+  TeamMembership,
+  TeamRole,
+  TeamPermission,
+  Workspace,
+  ROLE_PERMISSIONS,
+  PERMISSION_LABELS,
+  getTeamMembers,
+  inviteTeamMember,
+  updateTeamMember,
+  removeTeamMember,
+  respondToInvitation,
+} from '../services/teamService';
+
+interface TeamManagementProps {
+  teamEnabled: boolean;
+  workspaces: Workspace[];
+  pendingInvitations: TeamMembership[];
+  onMembershipsChange: () => void;
+  onUpgrade: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  admin: 'Full access, including deleting team videos',
+  editor: 'Add, edit and share team videos',
+  viewer: 'Read-only access to team videos',
+};
+
+export const TeamManagement: React.FC<TeamManagementProps> = ({
+  teamEnabled,
+  workspaces,
+  pendingInvitations,
+  onMembershipsChange,
+  onUpgrade,
+}) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user && teamEnabled) {
+      fetchMembers();
+    } else {
+      setLoading(false);
+    }
+  }, [user, teamEnabled]);
+
+  const fetchMembers = async () => {
+    if (!user) return;
+
+    const result = await getTeamMembers(user.id);
+    if (result.success && result.data) {
+      setMembers(result.data);
+    }
+    setLoading(false);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    setInviting(true);
+    setMessage(null);
+    const result = await inviteTeamMember(inviteEmail.trim(), inviteRole);
+    if (result.success) {
+      setMessage({
+        type: 'success',
+        text: `Invited ${inviteEmail.trim()}. They'll see the invitation on their Team page after signing in with that address.`,
+      });
+      setInviteEmail('');
+      await fetchMembers();
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to create invitation' });
+    }
+    setInviting(false);
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: TeamRole) => {
+    if (!user) return;
+    await updateTeamMember(member.id, { role, permissions: ROLE_PERMISSIONS[role] });
+    await fetchMembers();
+  };
+
+  const handlePermissionToggle = async (member: TeamMember, permission: TeamPermission) => {
+    if (!user) return;
+    const permissions = { ...member.permissions, [permission]: !member.permissions[permission] };
+    await updateTeamMember(member.id, { permissions });
+    await fetchMembers();
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!user) return;
+    const label = member.status === 'pending' ? 'Cancel this invitation?' : `Remove ${member.email || 'this member'} from your team?`;
+    if (!window.confirm(label)) return;
+
+    await removeTeamMember(member.id);
+    await fetchMembers();
+  };
+
+  const handleRespond = async (invitation: TeamMembership, accept: boolean) => {
+    const result = await respondToInvitation(invitation.id, accept);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to respond to invitation' });
+    }
+    onMembershipsChange();
+  };
+
+  const joinedTeams = workspaces.filter(workspace => workspace.teamOwnerId && workspace.role !== 'owner');
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 space-y-6">
+      {message && (
+        <div className={`p-3 rounded-lg text-sm ${
+          message.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-800'
+            : 'bg-red-50 border border-red-200 text-red-800'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Invitations for the current user */}
+      {pendingInvitations.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-blue-200 p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Mail className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Team Invitations</h3>
+          </div>
+          <div className="space-y-3">
+            {pendingInvitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between p-4 bg-blue-50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">{invitation.ownerEmail} invited you to their team</p>
+                  <p className="text-sm text-gray-600 capitalize">
+                    Role: {invitation.role} · {ROLE_DESCRIPTIONS[invitation.role]}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleRespond(invitation, true)}
+                    className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>Accept</span>
+                  </button>
+                  <button
+                    onClick={() => handleRespond(invitation, false)}
+                    className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 px-3 py-2 text-sm"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>Decline</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Teams the user has joined */}
+      {joinedTeams.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Teams You Belong To</h3>
+          <div className="space-y-2">
+            {joinedTeams.map(workspace => (
+              <div key={workspace.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <span className="font-medium text-gray-900">{workspace.name}</span>
+                <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full capitalize">
+                  {workspace.role}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 mt-3">
+            Switch workspaces from your dashboard to see a team's videos and collections.
+          </p>
+        </div>
+      )}
+
+      {/* The user's own team */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <Users className="w-6 h-6 text-blue-600" />
+          <h2 className="text-2xl font-bold text-gray-900">My Team</h2>
+        </div>
+
+        {!teamEnabled ? (
+          <div className="text-center py-8">
+            <Lock className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-700 font-medium mb-1">Team workspaces are part of the Team plan</p>
+            <p className="text-sm text-gray-500 mb-4">
+              Invite colleagues to a shared workspace with per-member permissions.
+            </p>
+            <button
+              onClick={onUpgrade}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              View Plans
+            </button>
+          </div>
+        ) : (
+          <>
+            <form onSubmit={handleInvite} className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <h3 className="font-semibold text-gray-900 mb-3">Invite a Team Member</h3>
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="colleague@company.com"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="viewer">Viewer</option>
+                  <option value="editor">Editor</option>
+                  <option value="admin">Admin</option>
+                </select>
+                <button
+                  type="submit"
+                  disabled={inviting || !inviteEmail.trim()}
+                  className="flex items-center justify-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <UserPlus className="w-4 h-4" />
+                  <span>{inviting ? 'Inviting...' : 'Invite'}</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+            </form>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg bg-yellow-50">
+                  <div className="flex items-center space-x-2">
+                    <Crown className="w-4 h-4 text-yellow-600" />
+                    <span className="font-medium text-gray-900">{user?.email}</span>
+                  </div>
+                  <span className="text-sm text-gray-600">Owner</span>
+                </div>
+
+                {members.length === 0 ? (
+                  <p className="text-center py-6 text-gray-500">No team members yet. Invite someone to get started.</p>
+                ) : (
+                  members.map(member => (
+                    <div key={member.id} className="p-4 border border-gray-200 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <span className="font-medium text-gray-900">{member.email}</span>
+                          {member.status === 'pending' && (
+                            <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">
+                              Invitation pending
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="viewer">Viewer</option>
+                            <option value="editor">Editor</option>
+                            <option value="admin">Admin</option>
+                          </select>
+                          <button
+                            onClick={() => handleRemove(member)}
+                            className="p-2 hover:bg-red-100 rounded transition-colors"
+                            title={member.status === 'pending' ? 'Cancel invitation' : 'Remove member'}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                      </div>
+                      <div className="flex items-center flex-wrap gap-4 mt-3">
+                        {(Object.keys(PERMISSION_LABELS) as TeamPermission[]).map(permission => (
+                          <label key={permission} className="flex items-center space-x-2 text-sm text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={member.role === 'admin' || member.permissions[permission]}
+                              disabled={member.role === 'admin' || permission === 'can_view'}
+                              onChange={() => handlePermissionToggle(member, permission)}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>{PERMISSION_LABELS[permission]}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
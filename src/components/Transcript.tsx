@@ -5,9 +5,10 @@ import { TranscriptSegment } from '../types';
 interface TranscriptProps {
   transcript: TranscriptSegment[];
   title: string;
+  downloadEnabled?: boolean;
 }
 
-export const Transcript: React.FC<TranscriptProps> = ({ transcript, title }) => {
+export const Transcript: React.FC<TranscriptProps> = ({ transcript, title, downloadEnabled = true }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
@@ -58,15 +59,17 @@ export const Transcript: React.FC<TranscriptProps> = ({ transcript, title }) =>
 
       {isExpanded && (
         <div className="p-6">
-          <div className="flex justify-end mb-4">
-            <button
-              onClick={downloadTranscript}
-              className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
-            >
-              <Copy className="w-4 h-4" />
-              <span>Download Transcript</span>
-            </button>
-          </div>
+          {downloadEnabled && (
+            <div className="flex justify-end mb-4">
+              <button
+                onClick={downloadTranscript}
+                className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+                <span>Download Transcript</span>
+              </button>
+            </div>
+          )}
           
           <div className="max-h-96 overflow-y-auto space-y-4">
             {transcript.map((segment, index) => (
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Database, RefreshCw, Search, Trash2 } from 'lucide-react';
+import { extractVideoId } from '../services/videoService';
+import {
+  TranscriptCacheEntry,
+  getTranscriptCacheEntries,
+  invalidateTranscriptCache,
+} from '../services/transcriptCacheService';
+
+export const TranscriptCacheAdmin: React.FC = () => {
+  const [entries, setEntries] = useState<TranscriptCacheEntry[]>([]);
+  const [filterInput, setFilterInput] = useState('');
+  const [videoFilter, setVideoFilter] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [videoFilter]);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getTranscriptCacheEntries(videoFilter);
+    if (result.success && result.data) {
+      setEntries(result.data);
+    } else {
+      setError(result.error || 'Failed to load transcript cache');
+    }
+    setLoading(false);
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = filterInput.trim();
+    // Accept a full YouTube URL as well as a bare video ID
+    setVideoFilter(input ? extractVideoId(input) || input : undefined);
+  };
+
+  const handleInvalidate = async (videoId?: string) => {
+    const message = videoId
+      ? `Drop the cached transcripts for ${videoId}? The next request will fetch them from YouTube again.`
+      : 'Drop every cached transcript? Every video will be fetched from YouTube again on its next request.';
+    if (!window.confirm(message)) return;
+
+    setNotice(null);
+    const result = await invalidateTranscriptCache(videoId);
+    if (result.success && result.data) {
+      setNotice(`Removed ${result.data.removed} cache ${result.data.removed === 1 ? 'entry' : 'entries'}.`);
+      await fetchEntries();
+    } else {
+      setError(result.error || 'Failed to invalidate transcript cache');
+    }
+  };
+
+  const describeTrack = (entry: TranscriptCacheEntry) => {
+    if (!entry.languageCode) return 'Default track';
+    const kind = entry.captionKind === 'asr' ? 'auto-generated' : entry.captionKind === 'manual' ? 'creator' : 'any';
+    return `${entry.languageCode} (${kind})`;
+  };
+
+  const totalHits = entries.reduce((sum, entry) => sum + entry.hitCount, 0);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Database className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-bold text-gray-900">Transcript Cache</h2>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={fetchEntries}
+              disabled={loading}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span className="text-sm">Refresh</span>
+            </button>
+            <button
+              onClick={() => handleInvalidate()}
+              className="flex items-center space-x-2 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span className="text-sm">Clear all</span>
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Transcripts fetched from YouTube are shared by every user until they expire. Invalidate a video
+          when its captions have changed.
+        </p>
+
+        <form onSubmit={handleFilter} className="flex items-center space-x-3 mb-4">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={filterInput}
+              onChange={(e) => setFilterInput(e.target.value)}
+              placeholder="Filter by YouTube URL or video ID"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            Filter
+          </button>
+          {videoFilter && (
+            <button
+              type="button"
+              onClick={() => handleInvalidate(videoFilter)}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors"
+            >
+              Invalidate {videoFilter}
+            </button>
+          )}
+        </form>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 text-green-800 rounded-lg text-sm">
+            {notice}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No cached transcripts{videoFilter ? ` for ${videoFilter}` : ''}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <p className="text-sm text-gray-500 mb-2">
+              {entries.length} {entries.length === 1 ? 'entry' : 'entries'}, {totalHits} cache {totalHits === 1 ? 'hit' : 'hits'}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Video</th>
+                  <th className="py-2 pr-4 font-medium">Track</th>
+                  <th className="py-2 pr-4 font-medium">Fetched</th>
+                  <th className="py-2 pr-4 font-medium">Expires</th>
+                  <th className="py-2 pr-4 font-medium text-right">Hits</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.cacheKey} className="border-b border-gray-100">
+                    <td className="py-3 pr-4">
+                      <div className="font-medium text-gray-900">{entry.title || entry.videoId}</div>
+                      <div className="text-xs text-gray-500">{entry.videoId}</div>
+                      {entry.error && <div className="text-xs text-red-600">{entry.error}</div>}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">{describeTrack(entry)}</td>
+                    <td className="py-3 pr-4 text-gray-700">{new Date(entry.fetchedAt).toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-gray-700">{new Date(entry.expiresAt).toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-right">
+                      {entry.hitCount}
+                      {entry.lastHitAt && (
+                        <div className="text-xs text-gray-500">last {new Date(entry.lastHitAt).toLocaleDateString()}</div>
+                      )}
+                    </td>
+                    <td className="py-3 text-right">
+                      <button
+                        onClick={() => handleInvalidate(entry.videoId)}
+                        className="p-2 hover:bg-red-100 rounded transition-colors"
+                        title="Invalidate this video"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,61 +1,87 @@
-import React, { useState, useMemo } from 'react';
-import { Search, X, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Search, X, ChevronDown, ChevronUp, CaseSensitive, WrapText, AlertCircle } from 'lucide-react';
 import { TranscriptSegment } from '../types';
+import {
+  SEARCH_MODES,
+  SearchHit,
+  SearchMode,
+  TranscriptSearchResult,
+  searchTranscript,
+} from '../utils/searchUtils';
+import { MatchedText } from './MatchedText';
 
 interface TranscriptSearchProps {
   transcript: TranscriptSegment[];
   onHighlight: (segmentIndex: number) => void;
+  // Every hit, for highlighting in the transcript, and the one currently selected
+  onResultsChange?: (result: TranscriptSearchResult | null, activeHit: SearchHit | null) => void;
 }
 
 export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
   transcript,
   onHighlight,
+  onResultsChange,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [mode, setMode] = useState<SearchMode>('literal');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [acrossSegments, setAcrossSegments] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [currentMatch, setCurrentMatch] = useState(0);
 
-  const searchResults = useMemo(() => {
-    if (!searchTerm.trim()) return [];
-    
-    const results: { index: number; segment: TranscriptSegment; matchText: string }[] = [];
-    const searchLower = searchTerm.toLowerCase();
-    
-    transcript.forEach((segment, index) => {
-      if (segment.text.toLowerCase().includes(searchLower)) {
-        const matchIndex = segment.text.toLowerCase().indexOf(searchLower);
-        const start = Math.max(0, matchIndex - 50);
-        const end = Math.min(segment.text.length, matchIndex + searchTerm.length + 50);
-        const matchText = segment.text.substring(start, end);
-        
-        results.push({ index, segment, matchText });
+  const searchResult = useMemo(
+    () => searchTranscript(transcript, searchTerm, { mode, caseSensitive, acrossSegments }),
+    [transcript, searchTerm, mode, caseSensitive, acrossSegments]
+  );
+  const { hits } = searchResult;
+
+  // Segments with hits, in transcript order, with the index of their first hit
+  const matchedSegments = useMemo(() => {
+    const segments: { index: number; firstHit: number; hitCount: number }[] = [];
+    hits.forEach((hit, hitIndex) => {
+      const last = segments[segments.length - 1];
+      if (last && last.index === hit.segmentIndex) {
+        last.hitCount++;
+      } else {
+        segments.push({ index: hit.segmentIndex, firstHit: hitIndex, hitCount: 1 });
       }
     });
-    
-    return results;
-  }, [searchTerm, transcript]);
+    return segments;
+  }, [hits]);
+
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [searchResult]);
+
+  useEffect(() => {
+    if (!onResultsChange) return;
+    onResultsChange(searchTerm.trim() ? searchResult : null, hits[currentMatch] || null);
+  }, [searchResult, currentMatch, searchTerm, hits, onResultsChange]);
+
+  const selectMatch = (hitIndex: number) => {
+    setCurrentMatch(hitIndex);
+    onHighlight(hits[hitIndex].segmentIndex);
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchResults.length > 0) {
-      setCurrentMatch(0);
-      onHighlight(searchResults[0].index);
+    if (hits.length > 0) {
+      selectMatch(0);
       setIsExpanded(true);
     }
   };
 
   const navigateMatch = (direction: 'next' | 'prev') => {
-    if (searchResults.length === 0) return;
-    
+    if (hits.length === 0) return;
+
     let newMatch;
     if (direction === 'next') {
-      newMatch = (currentMatch + 1) % searchResults.length;
+      newMatch = (currentMatch + 1) % hits.length;
     } else {
-      newMatch = currentMatch === 0 ? searchResults.length - 1 : currentMatch - 1;
+      newMatch = currentMatch === 0 ? hits.length - 1 : currentMatch - 1;
     }
-    
-    setCurrentMatch(newMatch);
-    onHighlight(searchResults[newMatch].index);
+
+    selectMatch(newMatch);
   };
 
   const clearSearch = () => {
@@ -64,24 +90,11 @@ export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
     setIsExpanded(false);
   };
 
-  const highlightText = (text: string, searchTerm: string) => {
-    if (!searchTerm) return text;
-    
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">
-          {part}
-        </mark>
-      ) : part
-    );
-  };
+  const activeHit = hits[currentMatch];
 
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-200 mb-6">
-      <div className="p-4 border-b border-gray-200">
+      <div className="p-4 border-b border-gray-200 space-y-3">
         <form onSubmit={handleSearch} className="flex items-center space-x-2">
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -89,8 +102,10 @@ export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
               type="text"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Search in transcript..."
-              className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={mode === 'boolean' ? 'react AND hooks, "exact phrase", -exclude...' : 'Search in transcript...'}
+              className={`w-full pl-10 pr-10 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                searchResult.error ? 'border-red-300' : 'border-gray-300'
+              } ${mode === 'regex' ? 'font-mono' : ''}`}
             />
             {searchTerm && (
               <button
@@ -102,18 +117,18 @@ export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
               </button>
             )}
           </div>
-          
-          {searchResults.length > 0 && (
+
+          {hits.length > 0 && (
             <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-600">
-                {currentMatch + 1} of {searchResults.length}
+              <span className="text-sm text-gray-600 whitespace-nowrap">
+                {currentMatch + 1} of {hits.length}{searchResult.truncated ? '+' : ''}
               </span>
               <div className="flex space-x-1">
                 <button
                   type="button"
                   onClick={() => navigateMatch('prev')}
                   className="p-1 hover:bg-gray-100 rounded"
-                  disabled={searchResults.length <= 1}
+                  disabled={hits.length <= 1}
                 >
                   <ChevronUp className="w-4 h-4" />
                 </button>
@@ -121,7 +136,7 @@ export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
                   type="button"
                   onClick={() => navigateMatch('next')}
                   className="p-1 hover:bg-gray-100 rounded"
-                  disabled={searchResults.length <= 1}
+                  disabled={hits.length <= 1}
                 >
                   <ChevronDown className="w-4 h-4" />
                 </button>
@@ -129,41 +144,92 @@ export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
             </div>
           )}
         </form>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {SEARCH_MODES.map(option => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => setMode(option.mode)}
+              title={option.hint}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                mode === option.mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <span className="w-px h-5 bg-gray-200 mx-1" />
+          <button
+            type="button"
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            title="Match case"
+            className={`p-1 rounded transition-colors ${
+              caseSensitive ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            <CaseSensitive className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setAcrossSegments(!acrossSegments)}
+            title="Match across segment boundaries"
+            className={`p-1 rounded transition-colors ${
+              acrossSegments ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            <WrapText className="w-4 h-4" />
+          </button>
+        </div>
+
+        {searchResult.error && searchTerm.trim() && (
+          <div className="text-red-600 text-sm flex items-center space-x-2">
+            <AlertCircle className="w-4 h-4" />
+            <span>{searchResult.error}</span>
+          </div>
+        )}
       </div>
 
-      {searchResults.length > 0 && isExpanded && (
+      {hits.length > 0 && isExpanded && (
         <div className="p-4">
           <h4 className="font-semibold text-gray-900 mb-3">
-            Search Results ({searchResults.length})
+            {hits.length}{searchResult.truncated ? '+' : ''} {hits.length === 1 ? 'match' : 'matches'} in{' '}
+            {searchResult.segmentCount} {searchResult.segmentCount === 1 ? 'segment' : 'segments'}
           </h4>
           <div className="space-y-3 max-h-64 overflow-y-auto">
-            {searchResults.map((result, index) => (
-              <div
-                key={index}
-                className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                  index === currentMatch
-                    ? 'bg-blue-50 border border-blue-200'
-                    : 'bg-gray-50 hover:bg-gray-100'
-                }`}
-                onClick={() => {
-                  setCurrentMatch(index);
-                  onHighlight(result.index);
-                }}
-              >
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-xs font-mono text-blue-600 bg-blue-100 px-2 py-1 rounded">
-                    {result.segment.timestamp}
-                  </span>
+            {matchedSegments.map(segment => {
+              const isCurrent = activeHit?.ranges.some(range => range.segmentIndex === segment.index);
+              return (
+                <div
+                  key={segment.index}
+                  className={`p-3 rounded-lg cursor-pointer transition-colors ${
+                    isCurrent
+                      ? 'bg-blue-50 border border-blue-200'
+                      : 'bg-gray-50 hover:bg-gray-100'
+                  }`}
+                  onClick={() => selectMatch(segment.firstHit)}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-mono text-blue-600 bg-blue-100 px-2 py-1 rounded">
+                      {transcript[segment.index].timestamp}
+                    </span>
+                    {segment.hitCount > 1 && (
+                      <span className="text-xs text-gray-500">{segment.hitCount} matches</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    <MatchedText
+                      text={transcript[segment.index].text}
+                      ranges={searchResult.rangesBySegment.get(segment.index)}
+                      activeRange={activeHit?.ranges.find(range => range.segmentIndex === segment.index)}
+                    />
+                  </p>
                 </div>
-                <p className="text-sm text-gray-700">
-                  {highlightText(result.matchText, searchTerm)}
-                  {result.matchText.length < result.segment.text.length && '...'}
-                </p>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
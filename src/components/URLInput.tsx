@@ -1,14 +1,25 @@
-import React, { useState } from 'react';
-import { Search, AlertCircle, CheckCircle2, Lock, Clock, Zap } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Search, AlertCircle, CheckCircle2, Lock, Clock, Zap, ListVideo, Captions, Loader2, FileText, Mic } from 'lucide-react';
 import { UsageData } from '../hooks/useUsageTracking';
-import { validateYouTubeURL, extractVideoId } from '../services/videoService';
+import { validateYouTubeURL, extractVideoId, parseVideoSource } from '../services/videoService';
+import { listCaptionTracks } from '../services/transcriptService';
+import { CaptionTrack, UploadedCaptions } from '../types';
+import { CaptionFileUpload } from './CaptionFileUpload';
+import { MediaFileUpload } from './MediaFileUpload';
 
 interface URLInputProps {
-  onSubmit: (url: string) => void;
+  // Without a track the server picks one
+  onSubmit: (url: string, track?: CaptionTrack) => void;
   isLoading: boolean;
   canAnalyze: boolean;
   remainingUses: number;
   usageData: UsageData;
+  // Offered when the URL is a playlist or channel; omitted for visitors
+  onBatchSource?: (url: string) => void;
+  // Analyze a caption file the user uploads instead of fetching captions
+  onUploadCaptions?: (upload: UploadedCaptions) => void;
+  // Transcribe an uploaded recording; omitted for visitors
+  onUploadMedia?: (file: File, details: { title: string; language: string | null }) => void;
 }
 
 export const URLInput: React.FC<URLInputProps> = ({ 
@@ -16,11 +27,50 @@ export const URLInput: React.FC<URLInputProps> = ({
   isLoading, 
   canAnalyze,
   remainingUses,
-  usageData
+  usageData,
+  onBatchSource,
+  onUploadCaptions,
+  onUploadMedia
 }) => {
   const [url, setUrl] = useState('');
   const [isValid, setIsValid] = useState<boolean | null>(null);
   const [extractedVideoId, setExtractedVideoId] = useState<string | null>(null);
+  const [batchSourceType, setBatchSourceType] = useState<'playlist' | 'channel' | null>(null);
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+  const [tracksLoading, setTracksLoading] = useState(false);
+  const [tracksError, setTracksError] = useState<string | null>(null);
+  // `${languageCode}:${kind}`, or '' for automatic
+  const [selectedTrackKey, setSelectedTrackKey] = useState('');
+  const [uploadPanel, setUploadPanel] = useState<'captions' | 'media' | null>(null);
+
+  const trackKey = (track: CaptionTrack) => `${track.languageCode}:${track.kind}`;
+
+  // Offer the video's caption tracks once the URL settles on a video
+  useEffect(() => {
+    setCaptionTracks([]);
+    setSelectedTrackKey('');
+    setTracksError(null);
+    if (!extractedVideoId || !isValid) return;
+
+    let active = true;
+    setTracksLoading(true);
+    const timer = setTimeout(async () => {
+      const result = await listCaptionTracks(`https://www.youtube.com/watch?v=${extractedVideoId}`);
+      if (!active) return;
+      if (result.success && result.data) {
+        setCaptionTracks(result.data);
+      } else {
+        setTracksError(result.error || 'Could not load caption tracks');
+      }
+      setTracksLoading(false);
+    }, 400);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+      setTracksLoading(false);
+    };
+  }, [extractedVideoId, isValid]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -30,13 +80,16 @@ export const URLInput: React.FC<URLInputProps> = ({
     if (value.length > 0) {
       const valid = validateYouTubeURL(value);
       const videoId = extractVideoId(value);
+      const source = parseVideoSource(value);
       
-      console.log('✅ URLInput: Validation result:', { valid, videoId });
+      console.log('✅ URLInput: Validation result:', { valid, videoId, source: source?.type });
       setIsValid(valid);
       setExtractedVideoId(videoId);
+      setBatchSourceType(source && source.type !== 'video' ? source.type : null);
     } else {
       setIsValid(null);
       setExtractedVideoId(null);
+      setBatchSourceType(null);
     }
   };
 
@@ -45,7 +98,7 @@ export const URLInput: React.FC<URLInputProps> = ({
     if (isValid && url.trim() && canAnalyze) {
       console.log('🚀 URLInput: Submitting URL:', url);
       console.log('🎯 URLInput: Extracted video ID:', extractedVideoId);
-      onSubmit(url.trim());
+      onSubmit(url.trim(), captionTracks.find(track => trackKey(track) === selectedTrackKey));
     }
   };
 
@@ -147,8 +200,28 @@ export const URLInput: React.FC<URLInputProps> = ({
           </div>
         </div>
         
+        {/* Playlists and channels go to batch analysis */}
+        {batchSourceType && onBatchSource && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-xl flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-sm text-blue-800">
+              <ListVideo className="w-5 h-5" />
+              <span>
+                This is a {batchSourceType === 'playlist' ? 'playlist' : 'channel'} link.
+                {isValid ? ' Analyze just this video, or every video in it.' : ' Analyze its videos as a batch.'}
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={() => onBatchSource(url.trim())}
+              className="ml-3 whitespace-nowrap bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              Batch Analyze
+            </button>
+          </div>
+        )}
+
         {/* URL Validation Feedback */}
-        {isValid === false && (
+        {isValid === false && !(batchSourceType && onBatchSource) && (
           <div className="text-red-600 text-sm flex items-center space-x-2">
             <AlertCircle className="w-4 h-4" />
             <span>Please enter a valid YouTube URL</span>
@@ -163,6 +236,46 @@ export const URLInput: React.FC<URLInputProps> = ({
           </div>
         )}
 
+        {/* Caption track choice */}
+        {extractedVideoId && isValid && (tracksLoading || tracksError || captionTracks.length > 0) && (
+          <div className="flex items-center space-x-2 text-sm">
+            <Captions className="w-4 h-4 text-gray-500 flex-shrink-0" />
+            {tracksLoading ? (
+              <span className="flex items-center space-x-2 text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Loading caption tracks...</span>
+              </span>
+            ) : tracksError ? (
+              <span className="text-gray-500">{tracksError}. The best available captions will be used.</span>
+            ) : (
+              <>
+                <label htmlFor="caption-track" className="text-gray-700 whitespace-nowrap">Captions:</label>
+                <select
+                  id="caption-track"
+                  value={selectedTrackKey}
+                  onChange={(e) => setSelectedTrackKey(e.target.value)}
+                  disabled={isLoading || !canAnalyze}
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Automatic (best available)</option>
+                  {(['manual', 'asr'] as const).map(kind => {
+                    const tracks = captionTracks.filter(track => track.kind === kind);
+                    return tracks.length > 0 && (
+                      <optgroup key={kind} label={kind === 'manual' ? 'From the creator' : 'Auto-generated'}>
+                        {tracks.map(track => (
+                          <option key={trackKey(track)} value={trackKey(track)}>
+                            {track.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    );
+                  })}
+                </select>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Usage Limit Warning */}
         {!canAnalyze && usageData.planType === 'free' && (
           <div className="text-orange-600 text-sm flex items-center space-x-2">
@@ -193,6 +306,51 @@ export const URLInput: React.FC<URLInputProps> = ({
         </button>
       </form>
 
+      {/* Own caption file or recording, for videos without captions */}
+      {(onUploadCaptions || onUploadMedia) && (
+        <div className="mt-4">
+          {uploadPanel === 'captions' && onUploadCaptions ? (
+            <CaptionFileUpload
+              onSubmit={onUploadCaptions}
+              isLoading={isLoading}
+              canAnalyze={canAnalyze}
+              defaultVideoId={isValid ? extractedVideoId : null}
+              onClose={() => setUploadPanel(null)}
+            />
+          ) : uploadPanel === 'media' && onUploadMedia ? (
+            <MediaFileUpload
+              onSubmit={onUploadMedia}
+              isLoading={isLoading}
+              canAnalyze={canAnalyze}
+              onClose={() => setUploadPanel(null)}
+            />
+          ) : (
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-2 sm:gap-6">
+              {onUploadCaptions && (
+                <button
+                  type="button"
+                  onClick={() => setUploadPanel('captions')}
+                  className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <FileText className="w-4 h-4" />
+                  <span>No captions? Upload an SRT, VTT or SBV file instead</span>
+                </button>
+              )}
+              {onUploadMedia && (
+                <button
+                  type="button"
+                  onClick={() => setUploadPanel('media')}
+                  className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Mic className="w-4 h-4" />
+                  <span>Transcribe an audio or video file</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Supported URL Formats */}
       {url.length === 0 && (
         <div className="mt-8 p-6 bg-blue-50 border border-blue-200 rounded-xl">
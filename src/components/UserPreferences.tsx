@@ -2,11 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Settings, Palette, Globe, Download, Bell, Eye, Clock, Save } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { ExportFormat } from '../utils/exportUtils';
 
 interface UserPreferencesData {
   theme: 'light' | 'dark' | 'auto';
   defaultLanguage: string;
-  defaultExportFormat: 'txt' | 'pdf' | 'docx';
+  defaultExportFormat: ExportFormat;
   emailNotifications: boolean;
   autoSaveHighlights: boolean;
   transcriptFontSize: 'small' | 'medium' | 'large';
@@ -296,12 +297,15 @@ export const UserPreferences: React.FC = () => {
           </label>
           <select
             value={preferences.defaultExportFormat}
-            onChange={(e) => updatePreference('defaultExportFormat', e.target.value as any)}
+            onChange={(e) => updatePreference('defaultExportFormat', e.target.value as ExportFormat)}
             className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="txt">Text (.txt)</option>
             <option value="pdf">PDF (.pdf)</option>
             <option value="docx">Word (.docx)</option>
+            <option value="md">Markdown (.md)</option>
+            <option value="json">JSON (.json)</option>
+            <option value="html">Web Page (.html)</option>
           </select>
         </div>
       </div>
@@ -3,6 +3,7 @@ import { Folder, Plus, Edit3, Trash2, Star, Lock, Globe, ChevronDown, ChevronRig
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { VideoSummary } from '../types';
+import { Workspace, PERSONAL_WORKSPACE, hasWorkspacePermission } from '../services/teamService';
 
 interface Collection {
   id: string;
@@ -18,9 +19,13 @@ interface Collection {
 
 interface VideoCollectionsProps {
   onSelectVideo?: (video: VideoSummary) => void;
+  workspace?: Workspace;
 }
 
-export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVideo }) => {
+export const VideoCollections: React.FC<VideoCollectionsProps> = ({
+  onSelectVideo,
+  workspace = PERSONAL_WORKSPACE,
+}) => {
   const [collections, setCollections] = useState<Collection[]>([]);
   const [expandedCollections, setExpandedCollections] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
@@ -34,6 +39,9 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
     icon: 'folder'
   });
   const { user } = useAuth();
+  const teamOwnerId = workspace.teamOwnerId;
+  const canEdit = hasWorkspacePermission(workspace, 'can_edit');
+  const canDelete = hasWorkspacePermission(workspace, 'can_delete');
 
   const iconOptions = [
     { value: 'folder', label: 'Folder', icon: Folder },
@@ -51,7 +59,7 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
     if (user) {
       fetchCollections();
     }
-  }, [user]);
+  }, [user, teamOwnerId]);
 
   const fetchCollections = async () => {
     if (!user) return;
@@ -60,13 +68,17 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
       setLoading(true);
 
       // Fetch collections with item counts
-      const { data: collectionsData, error: collectionsError } = await supabase
+      let query = supabase
         .from('video_collections')
         .select(`
           *,
           collection_items(count)
-        `)
-        .eq('user_id', user.id)
+        `);
+      query = teamOwnerId
+        ? query.eq('team_owner_id', teamOwnerId)
+        : query.eq('user_id', user.id).is('team_owner_id', null);
+
+      const { data: collectionsData, error: collectionsError } = await query
         .order('created_at', { ascending: false });
 
       if (collectionsError) throw collectionsError;
@@ -114,9 +126,12 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
         keyQuote: item.video_summaries.key_quote,
         transcript: item.video_summaries.transcript,
         videoId: item.video_summaries.video_id,
+        teamOwnerId: item.video_summaries.team_owner_id,
         createdAt: item.video_summaries.created_at,
         updatedAt: item.video_summaries.updated_at,
         highlightedSegments: item.video_summaries.highlighted_segments || [],
+        suggestedHighlights: item.video_summaries.suggested_highlights || [],
+        chapters: item.video_summaries.chapters || [],
         language: item.video_summaries.language || 'en',
         translatedSummary: item.video_summaries.translated_summary || {},
         translatedTranscript: item.video_summaries.translated_transcript || {},
@@ -162,6 +177,7 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
         .from('video_collections')
         .insert({
           user_id: user.id,
+          team_owner_id: teamOwnerId,
           name: newCollection.name.trim(),
           description: newCollection.description.trim(),
           is_public: newCollection.isPublic,
@@ -189,7 +205,7 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
     if (!user || !editingCollection) return;
 
     try {
-      const { error } = await supabase
+      let query = supabase
         .from('video_collections')
         .update({
           name: editingCollection.name,
@@ -198,8 +214,12 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
           color: editingCollection.color,
           icon: editingCollection.icon,
         })
-        .eq('id', editingCollection.id)
-        .eq('user_id', user.id);
+        .eq('id', editingCollection.id);
+      query = teamOwnerId
+        ? query.eq('team_owner_id', teamOwnerId)
+        : query.eq('user_id', user.id);
+
+      const { error } = await query;
 
       if (error) throw error;
 
@@ -214,11 +234,15 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
     if (!user) return;
 
     try {
-      const { error } = await supabase
+      let query = supabase
         .from('video_collections')
         .delete()
-        .eq('id', collectionId)
-        .eq('user_id', user.id);
+        .eq('id', collectionId);
+      query = teamOwnerId
+        ? query.eq('team_owner_id', teamOwnerId)
+        : query.eq('user_id', user.id);
+
+      const { error } = await query;
 
       if (error) throw error;
 
@@ -252,13 +276,15 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
           <h2 className="text-2xl font-bold text-gray-900">Video Collections</h2>
           <p className="text-gray-600">Organize your videos into custom collections</p>
         </div>
-        <button
-          onClick={() => setShowCreateForm(true)}
-          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>New Collection</span>
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => setShowCreateForm(true)}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Collection</span>
+          </button>
+        )}
       </div>
 
       {/* Create/Edit Collection Form */}
@@ -397,12 +423,14 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
             <Folder className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No Collections Yet</h3>
             <p className="text-gray-600 mb-4">Create your first collection to organize your videos.</p>
-            <button
-              onClick={() => setShowCreateForm(true)}
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Create Collection
-            </button>
+            {canEdit && (
+              <button
+                onClick={() => setShowCreateForm(true)}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Create Collection
+              </button>
+            )}
           </div>
         ) : (
           collections.map((collection) => {
@@ -449,20 +477,24 @@ export const VideoCollections: React.FC<VideoCollectionsProps> = ({ onSelectVide
                     </button>
 
                     <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => setEditingCollection(collection)}
-                        className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                        title="Edit collection"
-                      >
-                        <Edit3 className="w-4 h-4 text-gray-500" />
-                      </button>
-                      <button
-                        onClick={() => deleteCollection(collection.id)}
-                        className="p-2 hover:bg-red-100 rounded-lg transition-colors"
-                        title="Delete collection"
-                      >
-                        <Trash2 className="w-4 h-4 text-red-500" />
-                      </button>
+                      {canEdit && (
+                        <button
+                          onClick={() => setEditingCollection(collection)}
+                          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Edit collection"
+                        >
+                          <Edit3 className="w-4 h-4 text-gray-500" />
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={() => deleteCollection(collection.id)}
+                          className="p-2 hover:bg-red-100 rounded-lg transition-colors"
+                          title="Delete collection"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      )}
                     </div>
                   </div>
 
@@ -1,11 +1,14 @@
 import React from 'react';
-import { Clock, User, Calendar } from 'lucide-react';
+import { Clock, User, Calendar, Captions, Mic } from 'lucide-react';
+import { CaptionTrackChoice, TranscriptSource } from '../types';
 
 interface VideoPreviewProps {
   title: string;
   thumbnail: string;
   duration: string;
   channelName: string;
+  captionTrack?: CaptionTrackChoice | null;
+  transcriptSource?: TranscriptSource;
 }
 
 export const VideoPreview: React.FC<VideoPreviewProps> = ({
@@ -13,6 +16,8 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
   thumbnail,
   duration,
   channelName,
+  captionTrack,
+  transcriptSource,
 }) => {
   return (
     <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-8">
@@ -36,6 +41,25 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
             <User className="w-4 h-4" />
             <span className="text-sm">{channelName}</span>
           </div>
+          {captionTrack && transcriptSource === 'caption_file' ? (
+            <div className="flex items-center space-x-1" title="Caption file the transcript was read from">
+              <Captions className="w-4 h-4" />
+              <span className="text-sm">Uploaded: {captionTrack.name}</span>
+            </div>
+          ) : captionTrack && transcriptSource === 'speech_to_text' ? (
+            <div className="flex items-center space-x-1" title="Recording the transcript was generated from">
+              <Mic className="w-4 h-4" />
+              <span className="text-sm">Transcribed from {captionTrack.name}</span>
+            </div>
+          ) : captionTrack && (
+            <div className="flex items-center space-x-1" title="Caption track the transcript came from">
+              <Captions className="w-4 h-4" />
+              <span className="text-sm">
+                {captionTrack.name || captionTrack.languageCode.toUpperCase()}
+                {captionTrack.kind === 'manual' ? ' · from the creator' : ''}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,445 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Webhook, Plus, Trash2, Copy, Check, Eye, EyeOff, Pause, Play, RefreshCw, RotateCcw, ChevronDown, ChevronUp,
+} from 'lucide-react';
+import {
+  WEBHOOK_EVENTS,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  getWebhookEndpoints,
+  redeliverWebhook,
+  updateWebhookEndpoint,
+} from '../services/webhookService';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// Plain http is accepted by the server only on a local Supabase stack
+const LOCAL_RECEIVER_HOSTS = ['localhost', '127.0.0.1', '[::1]', 'host.docker.internal'];
+
+const isValidWebhookUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' ||
+      (url.protocol === 'http:' && LOCAL_RECEIVER_HOSTS.includes(url.hostname));
+  } catch {
+    return false;
+  }
+};
+
+export const WebhookManagement: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newEvents, setNewEvents] = useState<WebhookEventType[]>(WEBHOOK_EVENTS.map(event => event.type));
+  const [visibleSecrets, setVisibleSecrets] = useState<Set<string>>(new Set());
+  const [copiedSecret, setCopiedSecret] = useState<string | null>(null);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    const [endpointResult, deliveryResult] = await Promise.all([
+      getWebhookEndpoints(),
+      getWebhookDeliveries({ limit: 50 }),
+    ]);
+
+    if (endpointResult.success && endpointResult.data) {
+      setEndpoints(endpointResult.data);
+    }
+    if (deliveryResult.success && deliveryResult.data) {
+      setDeliveries(deliveryResult.data);
+    }
+    if (!endpointResult.success || !deliveryResult.success) {
+      setError(endpointResult.error || deliveryResult.error || 'Failed to load webhooks');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const resetCreateForm = () => {
+    setShowCreateForm(false);
+    setNewUrl('');
+    setNewDescription('');
+    setNewEvents(WEBHOOK_EVENTS.map(event => event.type));
+  };
+
+  const toggleEvent = (type: WebhookEventType) => {
+    setNewEvents(current =>
+      current.includes(type) ? current.filter(item => item !== type) : [...current, type]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!isValidWebhookUrl(newUrl.trim())) {
+      setError('Enter an https:// URL');
+      return;
+    }
+    if (newEvents.length === 0) {
+      setError('Select at least one event');
+      return;
+    }
+
+    setError(null);
+    const result = await createWebhookEndpoint({
+      url: newUrl,
+      description: newDescription,
+      events: newEvents,
+    });
+
+    if (!result.success) {
+      setError(result.error || 'Failed to create webhook endpoint');
+      return;
+    }
+
+    resetCreateForm();
+    await loadWebhooks();
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    const result = await updateWebhookEndpoint(endpoint.id, { isActive: !endpoint.isActive });
+    if (!result.success) {
+      setError(result.error || 'Failed to update webhook endpoint');
+      return;
+    }
+    await loadWebhooks();
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Delete the endpoint ${endpoint.url}? Its delivery log is deleted too.`)) return;
+
+    const result = await deleteWebhookEndpoint(endpoint.id);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete webhook endpoint');
+      return;
+    }
+    await loadWebhooks();
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedelivering(delivery.id);
+    const result = await redeliverWebhook(delivery.id);
+    setRedelivering(null);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to redeliver webhook');
+      return;
+    }
+    await loadWebhooks();
+  };
+
+  const toggleSecret = (endpointId: string) => {
+    const next = new Set(visibleSecrets);
+    if (next.has(endpointId)) {
+      next.delete(endpointId);
+    } else {
+      next.add(endpointId);
+    }
+    setVisibleSecrets(next);
+  };
+
+  const copySecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+      setCopiedSecret(endpoint.id);
+      setTimeout(() => setCopiedSecret(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy: ', err);
+    }
+  };
+
+  const endpointUrl = (endpointId: string) =>
+    endpoints.find(endpoint => endpoint.id === endpointId)?.url || 'Deleted endpoint';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Webhook className="w-6 h-6 text-blue-600" />
+          <h2 className="text-2xl font-bold text-gray-900">Webhooks</h2>
+        </div>
+        <button
+          onClick={() => setShowCreateForm(true)}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Endpoint</span>
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Get a POST request when something happens instead of polling the API. Each request is signed:
+        check <span className="font-mono">X-Webhook-Signature</span> (<span className="font-mono">t=...,v1=...</span>,
+        an HMAC-SHA256 of <span className="font-mono">t.body</span> with the endpoint secret). Failed deliveries
+        are retried with exponential backoff for about two hours. Run{' '}
+        <span className="font-mono">npm run webhooks:listen</span> for a local test receiver.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {showCreateForm && (
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+          <h3 className="font-semibold text-gray-900">Add Webhook Endpoint</h3>
+          <input
+            type="url"
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            placeholder="https://example.com/webhooks/transcripto"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            type="text"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Events</div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {WEBHOOK_EVENTS.map(event => (
+                <label key={event.type} className="flex items-start space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={newEvents.includes(event.type)}
+                    onChange={() => toggleEvent(event.type)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-mono text-gray-900">{event.type}</span>
+                    <span className="text-gray-600"> - {event.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleCreate}
+              disabled={!newUrl.trim()}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Add
+            </button>
+            <button
+              onClick={resetCreateForm}
+              className="text-gray-600 hover:text-gray-800 px-4 py-2"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-4 mb-8">
+            {endpoints.length === 0 ? (
+              <div className="text-center py-6 text-gray-500">
+                <Webhook className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+                <p>No webhook endpoints yet.</p>
+              </div>
+            ) : (
+              endpoints.map(endpoint => (
+                <div
+                  key={endpoint.id}
+                  className="flex items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center flex-wrap gap-2 mb-1">
+                      <span className="font-mono text-sm text-gray-900 break-all">{endpoint.url}</span>
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          endpoint.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {endpoint.isActive ? 'Active' : 'Paused'}
+                      </span>
+                    </div>
+                    {endpoint.description && (
+                      <p className="text-sm text-gray-600 mb-1">{endpoint.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {endpoint.events.map(event => (
+                        <span key={event} className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full font-mono">
+                          {event}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <code className="bg-gray-100 px-2 py-1 rounded text-xs font-mono">
+                        {visibleSecrets.has(endpoint.id) ? endpoint.secret : 'whsec_••••••••••••'}
+                      </code>
+                      <button
+                        onClick={() => toggleSecret(endpoint.id)}
+                        className="p-1 hover:bg-gray-200 rounded transition-colors"
+                        title={visibleSecrets.has(endpoint.id) ? 'Hide signing secret' : 'Show signing secret'}
+                      >
+                        {visibleSecrets.has(endpoint.id) ? (
+                          <EyeOff className="w-4 h-4 text-gray-500" />
+                        ) : (
+                          <Eye className="w-4 h-4 text-gray-500" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => copySecret(endpoint)}
+                        className="p-1 hover:bg-gray-200 rounded transition-colors"
+                        title="Copy signing secret"
+                      >
+                        {copiedSecret === endpoint.id ? (
+                          <Check className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <Copy className="w-4 h-4 text-gray-500" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => handleToggleActive(endpoint)}
+                      className="p-2 hover:bg-gray-200 rounded transition-colors"
+                      title={endpoint.isActive ? 'Pause deliveries' : 'Resume deliveries'}
+                    >
+                      {endpoint.isActive ? (
+                        <Pause className="w-4 h-4 text-gray-500" />
+                      ) : (
+                        <Play className="w-4 h-4 text-gray-500" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(endpoint)}
+                      className="p-2 hover:bg-red-100 rounded transition-colors"
+                      title="Delete endpoint"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">Recent Deliveries</h3>
+            <button
+              onClick={loadWebhooks}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Refresh</span>
+            </button>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">No deliveries yet.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      onClick={() => setExpandedDelivery(expandedDelivery === delivery.id ? null : delivery.id)}
+                      className="flex items-center flex-1 min-w-0 gap-3 text-left"
+                    >
+                      {expandedDelivery === delivery.id ? (
+                        <ChevronUp className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                      <span className="font-mono text-sm text-gray-900">{delivery.eventType}</span>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      <span className="text-xs text-gray-600">
+                        {delivery.lastStatusCode ?? '—'} · {delivery.attemptCount} attempt{delivery.attemptCount === 1 ? '' : 's'}
+                      </span>
+                      <span className="text-xs text-gray-500 truncate">{endpointUrl(delivery.endpointId)}</span>
+                    </button>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </span>
+                    <button
+                      onClick={() => handleRedeliver(delivery)}
+                      disabled={redelivering === delivery.id}
+                      className="p-1 hover:bg-gray-200 rounded transition-colors disabled:opacity-50"
+                      title="Redeliver"
+                    >
+                      <RotateCcw className={`w-4 h-4 text-gray-500 ${redelivering === delivery.id ? 'animate-spin' : ''}`} />
+                    </button>
+                  </div>
+
+                  {expandedDelivery === delivery.id && (
+                    <div className="mt-3 ml-7 space-y-3 text-sm">
+                      {delivery.status === 'pending' && delivery.attemptCount > 0 && (
+                        <p className="text-gray-600">
+                          Next attempt: {new Date(delivery.nextAttemptAt).toLocaleString()}
+                        </p>
+                      )}
+                      {delivery.redeliveryOf && (
+                        <p className="text-gray-600">Manual redelivery</p>
+                      )}
+                      {delivery.attempts.length > 0 && (
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-gray-500">
+                              <th className="py-1 pr-3 font-medium">Attempt</th>
+                              <th className="py-1 pr-3 font-medium">Response</th>
+                              <th className="py-1 pr-3 font-medium">Duration</th>
+                              <th className="py-1 font-medium">Time</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {delivery.attempts.map(attempt => (
+                              <tr key={attempt.id} className="align-top text-gray-700">
+                                <td className="py-1 pr-3">#{attempt.attempt}</td>
+                                <td className="py-1 pr-3">
+                                  <span className="font-mono">{attempt.statusCode ?? 'No response'}</span>
+                                  {(attempt.error || attempt.responseBody) && (
+                                    <div className="text-gray-500 break-all">
+                                      {(attempt.error || attempt.responseBody || '').slice(0, 200)}
+                                    </div>
+                                  )}
+                                </td>
+                                <td className="py-1 pr-3">{attempt.durationMs !== null ? `${attempt.durationMs} ms` : '—'}</td>
+                                <td className="py-1">{new Date(attempt.attemptedAt).toLocaleString()}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      <pre className="bg-gray-900 text-green-400 p-3 rounded text-xs overflow-x-auto">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { User } from '@supabase/supabase-js';
+import {
+  AnalysisBatch,
+  AnalysisJob,
+  createAnalysisBatch,
+  getAnalysisBatch,
+  newerJob,
+  retryAnalysisJob,
+  runAnalysisWorker,
+  subscribeToAnalysisBatch,
+} from '../services/jobService';
+
+const BATCH_KEY = 'transcripto_analysis_batch_id';
+
+/**
+ * The user's latest batch and its jobs, kept live over Realtime. Like
+ * `useAnalysisJob`, the batch id is stored so the status table survives
+ * navigating away or reloading.
+ */
+export const useAnalysisBatch = (user: User | null) => {
+  const [batchId, setBatchId] = useState<string | null>(() => localStorage.getItem(BATCH_KEY));
+  const [batch, setBatch] = useState<AnalysisBatch | null>(null);
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const userId = user?.id;
+
+  const clearBatch = useCallback(() => {
+    localStorage.removeItem(BATCH_KEY);
+    setBatchId(null);
+    setBatch(null);
+    setJobs([]);
+  }, []);
+
+  useEffect(() => {
+    if (!userId || !batchId) {
+      setBatch(null);
+      setJobs([]);
+      return;
+    }
+
+    let active = true;
+    // Subscribe before fetching so no update falls between the two
+    const unsubscribe = subscribeToAnalysisBatch(batchId, updated => {
+      if (!active) return;
+      setJobs(current => current.map(job => (job.id === updated.id ? newerJob(job, updated) : job)));
+    });
+
+    getAnalysisBatch(batchId).then(result => {
+      if (!active || !result.success) return;
+      if (result.data) {
+        const fetched = result.data;
+        setBatch(fetched.batch);
+        setJobs(current => fetched.jobs.map(job => newerJob(current.find(other => other.id === job.id), job)));
+      } else {
+        clearBatch();
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId, batchId, clearBatch]);
+
+  const startBatch = async (input: Parameters<typeof createAnalysisBatch>[1]) => {
+    if (!userId) {
+      return { success: false, error: 'Sign in to run batch analyses' };
+    }
+
+    const result = await createAnalysisBatch(userId, input);
+    if (result.success && result.data) {
+      localStorage.setItem(BATCH_KEY, result.data.id);
+      setBatch(result.data);
+      setJobs([]);
+      setBatchId(result.data.id);
+    }
+    return result;
+  };
+
+  const retryFailed = async (jobIds: string[]) => {
+    const results = await Promise.all(jobIds.map(jobId => retryAnalysisJob(jobId, { runWorker: false })));
+    const retried = results.filter(result => result.success).length;
+    if (retried > 0) {
+      await runAnalysisWorker();
+    }
+    return retried;
+  };
+
+  return {
+    batch,
+    jobs,
+    startBatch,
+    retryFailed,
+    clearBatch,
+  };
+};
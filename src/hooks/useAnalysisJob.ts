@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { User } from '@supabase/supabase-js';
+import {
+  AnalysisJob,
+  enqueueAnalysisJob,
+  enqueueCaptionUploadJob,
+  enqueueMediaUploadJob,
+  getAnalysisJob,
+  newerJob,
+  subscribeToAnalysisJob,
+} from '../services/jobService';
+import { uploadMediaFile } from '../services/mediaService';
+import { createUploadVideoId } from '../services/videoService';
+import { CaptionTrackChoice, UploadedCaptions } from '../types';
+
+const JOB_KEY = 'transcripto_analysis_job_id';
+
+/**
+ * The user's latest analysis job, kept live over Realtime. The job id is stored
+ * so progress (or the finished result) is picked up again after navigating
+ * away or reloading.
+ */
+export const useAnalysisJob = (user: User | null) => {
+  const [jobId, setJobId] = useState<string | null>(() => localStorage.getItem(JOB_KEY));
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const userId = user?.id;
+
+  const clearJob = useCallback(() => {
+    localStorage.removeItem(JOB_KEY);
+    setJobId(null);
+    setJob(null);
+  }, []);
+
+  useEffect(() => {
+    if (!userId || !jobId) {
+      setJob(null);
+      return;
+    }
+
+    let active = true;
+    // Subscribe before fetching so no update falls between the two
+    const unsubscribe = subscribeToAnalysisJob(jobId, updated => {
+      if (active) setJob(current => newerJob(current, updated));
+    });
+
+    getAnalysisJob(jobId).then(result => {
+      if (!active || !result.success) return;
+      if (result.data) {
+        const fetched = result.data;
+        setJob(current => newerJob(current, fetched));
+      } else {
+        // Someone else's job, or deleted
+        clearJob();
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId, jobId, clearJob]);
+
+  const startJob = async (url: string, videoId: string, teamOwnerId: string | null, track: CaptionTrackChoice | null = null) => {
+    if (!userId) {
+      return { success: false, error: 'Sign in to analyze videos in the background' };
+    }
+
+    const result = await enqueueAnalysisJob(userId, url, videoId, teamOwnerId, track);
+    if (result.success && result.data) {
+      localStorage.setItem(JOB_KEY, result.data.id);
+      setJob(result.data);
+      setJobId(result.data.id);
+    }
+    return result;
+  };
+
+  const startUploadJob = async (upload: UploadedCaptions, videoId: string, teamOwnerId: string | null) => {
+    if (!userId) {
+      return { success: false, error: 'Sign in to analyze videos in the background' };
+    }
+
+    const result = await enqueueCaptionUploadJob(userId, upload, videoId, teamOwnerId);
+    if (result.success && result.data) {
+      localStorage.setItem(JOB_KEY, result.data.id);
+      setJob(result.data);
+      setJobId(result.data.id);
+    }
+    return result;
+  };
+
+  const startMediaJob = async (
+    file: File,
+    details: { title: string; language: string | null },
+    teamOwnerId: string | null
+  ) => {
+    if (!userId) {
+      return { success: false, error: 'Sign in to transcribe recordings' };
+    }
+
+    const uploaded = await uploadMediaFile(userId, file, details.language);
+    if (!uploaded.success || !uploaded.data) {
+      return { success: false, error: uploaded.error };
+    }
+
+    const result = await enqueueMediaUploadJob(userId, uploaded.data, details.title, createUploadVideoId(), teamOwnerId);
+    if (result.success && result.data) {
+      localStorage.setItem(JOB_KEY, result.data.id);
+      setJob(result.data);
+      setJobId(result.data.id);
+    }
+    return result;
+  };
+
+  return {
+    job,
+    startJob,
+    startUploadJob,
+    startMediaJob,
+    clearJob,
+  };
+};
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getPlanStatus, invalidatePlanStatus } from '../services/planService';
 
-interface UsageData {
+export interface UsageData {
   currentUsage: number;
   dailyLimit: number;
   canPerformAction: boolean;
@@ -68,28 +69,15 @@ export const useUsageTracking = (user: User | null): UsageTrackingHook => {
     }
 
     try {
-      const { data, error } = await supabase.rpc('check_usage_limit', {
-        p_user_id: user?.id || null,
-        p_visitor_id: user ? null : getVisitorId(),
-        p_action_type: actionType,
-        p_date: new Date().toISOString().split('T')[0]
-      });
-
-      if (error) throw error;
-
-      const result = data[0] || {
-        current_usage: 0,
-        daily_limit: FREE_DAILY_LIMIT,
-        monthly_limit: 150, // Not used for daily limits
-        can_perform_action: true,
-        plan_type: 'free'
-      };
+      // Same source as useUserPlan, so the plan and limits shown never disagree
+      const visitorId = user ? null : getVisitorId();
+      const status = await getPlanStatus(user?.id || null, visitorId, actionType);
 
       const usageInfo: UsageData = {
-        currentUsage: result.current_usage,
-        dailyLimit: result.daily_limit,
-        canPerformAction: result.can_perform_action,
-        planType: result.plan_type as 'free' | 'pro' | 'team',
+        currentUsage: status.dailyUsage,
+        dailyLimit: status.dailyLimit,
+        canPerformAction: status.canPerformAction,
+        planType: status.plan,
         resetsAt: getNextMidnight()
       };
 
@@ -133,6 +121,7 @@ export const useUsageTracking = (user: User | null): UsageTrackingHook => {
       if (error) throw error;
 
       // Refresh usage data after incrementing
+      invalidatePlanStatus();
       await checkUsage(actionType);
       
       return data;
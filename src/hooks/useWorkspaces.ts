@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { User } from '@supabase/supabase-js';
+import {
+  TeamMembership,
+  PERSONAL_WORKSPACE,
+  buildWorkspaces,
+  getMyTeamMemberships,
+} from '../services/teamService';
+
+const WORKSPACE_KEY = 'transcripto_workspace_id';
+
+export const useWorkspaces = (user: User | null, ownsTeam: boolean) => {
+  const [memberships, setMemberships] = useState<TeamMembership[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string>(
+    () => localStorage.getItem(WORKSPACE_KEY) || PERSONAL_WORKSPACE.id
+  );
+  const [loading, setLoading] = useState(true);
+
+  const fetchMemberships = useCallback(async () => {
+    if (!user) {
+      setMemberships([]);
+      setLoading(false);
+      return;
+    }
+
+    const result = await getMyTeamMemberships();
+    if (result.success && result.data) {
+      setMemberships(result.data);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchMemberships();
+  }, [fetchMemberships]);
+
+  const workspaces = user ? buildWorkspaces(user.id, memberships, ownsTeam) : [PERSONAL_WORKSPACE];
+  // Fall back to personal if the stored workspace is gone (membership revoked, plan changed)
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) || PERSONAL_WORKSPACE;
+
+  const selectWorkspace = (workspaceId: string) => {
+    localStorage.setItem(WORKSPACE_KEY, workspaceId);
+    setActiveWorkspaceId(workspaceId);
+  };
+
+  return {
+    workspaces,
+    activeWorkspace,
+    selectWorkspace,
+    pendingInvitations: memberships.filter(membership => membership.status === 'pending'),
+    loading,
+    refreshMemberships: fetchMemberships,
+  };
+};
@@ -1,10 +1,15 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { SharedSummaryPage } from './components/SharedSummaryPage';
+import { getShareTokenFromPath } from './services/shareService';
 import './index.css';
 
+// Shared links are served by the same bundle; the host falls back to index.html
+const shareToken = getShareTokenFromPath(window.location.pathname);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {shareToken ? <SharedSummaryPage shareToken={shareToken} /> : <App />}
   </StrictMode>
 );
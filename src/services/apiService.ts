@@ -1,152 +1,77 @@
-import { supabase } from '../lib/supabase';
-import { VideoSummary, ApiResponse } from '../types';
+import { checkSupabaseConnection } from '../lib/supabase';
 
-export interface ApiKeyValidation {
-  isValid: boolean;
-  userId?: string;
-  keyId?: string;
-  error?: string;
-}
-
-export const validateApiKey = async (apiKey: string): Promise<ApiKeyValidation> => {
-  try {
-    const { data, error } = await supabase
-      .from('api_keys')
-      .select('id, user_id, is_active')
-      .eq('key', apiKey)
-      .eq('is_active', true)
-      .single();
-
-    if (error || !data) {
-      return { isValid: false, error: 'Invalid API key' };
-    }
-
-    return {
-      isValid: true,
-      userId: data.user_id,
-      keyId: data.id
-    };
-  } catch (error) {
-    return { isValid: false, error: 'API key validation failed' };
-  }
-};
+export type ApiKeyScope = 'read' | 'analyze' | 'translate' | 'delete';
 
-export const incrementApiKeyUsage = async (keyId: string): Promise<void> => {
-  try {
-    await supabase.rpc('increment_api_key_usage', { key_id: keyId });
-  } catch (error) {
-    console.error('Failed to increment API key usage:', error);
-  }
-};
+export const API_KEY_SCOPES: { scope: ApiKeyScope; label: string; description: string }[] = [
+  { scope: 'read', label: 'Read', description: 'List and download summaries and transcripts' },
+  { scope: 'analyze', label: 'Analyze', description: 'Analyze new videos' },
+  { scope: 'translate', label: 'Translate', description: 'Translate saved summaries' },
+  { scope: 'delete', label: 'Delete', description: 'Delete saved summaries' },
+];
 
-export const analyzeVideoViaApi = async (
-  url: string,
-  apiKey: string
-): Promise<ApiResponse> => {
-  // Validate API key
-  const validation = await validateApiKey(apiKey);
-  if (!validation.isValid) {
-    return {
-      success: false,
-      error: validation.error || 'Invalid API key'
-    };
-  }
+export interface NewApiKey {
+  id: string;
+  key: string;
+  replacedKeyExpiresAt?: string;
+}
 
+/**
+ * Create a key for the signed-in user. The returned secret is not stored and
+ * cannot be retrieved again.
+ */
+export const createApiKey = async (options: {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | null;
+  allowedIps?: string[];
+}): Promise<{ success: boolean; data?: NewApiKey; error?: string }> => {
   try {
-    // Use the same analysis logic as the web interface
-    const { analyzeVideo } = await import('./videoService');
-    const result = await analyzeVideo(url);
-
-    // Increment usage count
-    if (validation.keyId) {
-      await incrementApiKeyUsage(validation.keyId);
-    }
-
-    // Save to user's account if analysis was successful
-    if (result.success && result.data && validation.userId) {
-      const { saveVideoSummary } = await import('./videoService');
-      await saveVideoSummary(validation.userId, result.data);
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('create_api_key', {
+      p_name: options.name,
+      p_scopes: options.scopes,
+      p_expires_at: options.expiresAt ?? null,
+      p_allowed_ips: options.allowedIps ?? [],
+    });
+
+    if (error) {
+      console.error('❌ Error creating API key:', error);
+      return { success: false, error: error.message };
     }
 
-    return result;
+    return { success: true, data: { id: data.id, key: data.key } };
   } catch (error) {
-    return {
-      success: false,
-      error: 'Video analysis failed'
-    };
+    console.error('❌ Error creating API key:', error);
+    return { success: false, error: 'Failed to create API key' };
   }
 };
 
-// API endpoint handler (would be used in a serverless function)
-export const handleApiRequest = async (
-  request: {
-    method: string;
-    headers: { [key: string]: string };
-    body: string;
-  }
-): Promise<{
-  status: number;
-  body: string;
-  headers: { [key: string]: string };
-}> => {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Content-Type': 'application/json'
-  };
-
-  // Handle CORS preflight
-  if (request.method === 'OPTIONS') {
-    return {
-      status: 200,
-      body: '',
-      headers: corsHeaders
-    };
-  }
-
-  if (request.method !== 'POST') {
-    return {
-      status: 405,
-      body: JSON.stringify({ error: 'Method not allowed' }),
-      headers: corsHeaders
-    };
-  }
-
-  // Extract API key from Authorization header
-  const authHeader = request.headers.authorization || request.headers.Authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return {
-      status: 401,
-      body: JSON.stringify({ error: 'Missing or invalid Authorization header' }),
-      headers: corsHeaders
-    };
-  }
-
-  const apiKey = authHeader.substring(7); // Remove 'Bearer ' prefix
-
+/**
+ * Issue a replacement key with the same settings. The old key keeps working
+ * for `gracePeriodHours` so clients can switch over without downtime.
+ */
+export const rotateApiKey = async (
+  keyId: string,
+  gracePeriodHours: number
+): Promise<{ success: boolean; data?: NewApiKey; error?: string }> => {
   try {
-    const { url } = JSON.parse(request.body);
-    if (!url) {
-      return {
-        status: 400,
-        body: JSON.stringify({ error: 'Missing required field: url' }),
-        headers: corsHeaders
-      };
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('rotate_api_key', {
+      p_key_id: keyId,
+      p_grace_period: `${gracePeriodHours} hours`,
+    });
+
+    if (error) {
+      console.error('❌ Error rotating API key:', error);
+      return { success: false, error: error.message };
     }
 
-    const result = await analyzeVideoViaApi(url, apiKey);
-
     return {
-      status: result.success ? 200 : 400,
-      body: JSON.stringify(result),
-      headers: corsHeaders
+      success: true,
+      data: { id: data.id, key: data.key, replacedKeyExpiresAt: data.replaced_key_expires_at },
     };
   } catch (error) {
-    return {
-      status: 500,
-      body: JSON.stringify({ error: 'Internal server error' }),
-      headers: corsHeaders
-    };
+    console.error('❌ Error rotating API key:', error);
+    return { success: false, error: 'Failed to rotate API key' };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,103 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+
+export type AuditAction =
+  | 'delete'
+  | 'share'
+  | 'export'
+  | 'member_invite'
+  | 'member_accept'
+  | 'member_decline'
+  | 'member_update'
+  | 'member_revoke';
+
+export type AuditResourceType = 'video_summary' | 'collection' | 'shared_link' | 'team_member';
+
+export interface AuditEntry {
+  id: string;
+  actorId: string;
+  actorEmail: string | null;
+  teamOwnerId: string | null;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  delete: 'Deleted',
+  share: 'Shared',
+  export: 'Exported',
+  member_invite: 'Invited member',
+  member_accept: 'Member joined',
+  member_decline: 'Member declined',
+  member_update: 'Changed member',
+  member_revoke: 'Revoked member',
+};
+
+/**
+ * Record an export in the audit log. Deletes, shares and member changes are
+ * logged by the database itself; exports happen in the browser, so they are
+ * reported here. Failures are logged and swallowed so the export is never
+ * blocked by it.
+ */
+export const recordExportEvent = async (
+  videoSummaryId: string | undefined,
+  format: string,
+  details: { sections?: string[]; track?: string } = {}
+): Promise<void> => {
+  if (!videoSummaryId) return;
+
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client.rpc('record_export_event', {
+      p_video_summary_id: videoSummaryId,
+      p_format: format,
+      p_details: details,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.warn('⚠️ Failed to record export:', format, error);
+  }
+};
+
+export const getTeamAuditLog = async (
+  teamOwnerId: string,
+  options: { action?: AuditAction; limit?: number } = {}
+): Promise<{ success: boolean; data?: AuditEntry[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    let query = client
+      .from('audit_log')
+      .select('*')
+      .eq('team_owner_id', teamOwnerId);
+
+    if (options.action) {
+      query = query.eq('action', options.action);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 100);
+
+    if (error) throw error;
+
+    const entries: AuditEntry[] = (data || []).map(item => ({
+      id: item.id,
+      actorId: item.actor_id,
+      actorEmail: item.actor_email,
+      teamOwnerId: item.team_owner_id,
+      action: item.action,
+      resourceType: item.resource_type,
+      resourceId: item.resource_id,
+      details: item.details || {},
+      createdAt: item.created_at,
+    }));
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return { success: false, error: 'Failed to fetch audit log' };
+  }
+};
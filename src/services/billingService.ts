@@ -0,0 +1,69 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+import { invalidatePlanStatus } from './planService';
+
+export type PaidPlan = 'pro' | 'team';
+export type BillingCycle = 'monthly' | 'yearly';
+
+export interface BillingResult {
+  success: boolean;
+  url?: string; // Where to send the user to finish checkout, when the provider needs it
+  error?: string;
+}
+
+const callBilling = async (body: Record<string, unknown>): Promise<BillingResult> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.functions.invoke('billing-checkout', { body });
+
+    if (error) {
+      console.error('❌ Billing function error:', error);
+      const errorBody = error.context instanceof Response
+        ? await error.context.json().catch(() => null)
+        : null;
+      return { success: false, error: errorBody?.error || error.message || 'Billing request failed' };
+    }
+
+    // Plan changes are applied by the webhook before the function responds
+    invalidatePlanStatus();
+    return { success: true, url: data.url };
+  } catch (error) {
+    console.error('❌ Error calling billing:', error);
+    return { success: false, error: 'Failed to reach billing. Please try again.' };
+  }
+};
+
+/**
+ * Start checkout for a paid plan. Switching between paid plans happens in place
+ * and returns no URL.
+ */
+export const startCheckout = async (plan: PaidPlan, billingCycle: BillingCycle): Promise<BillingResult> => {
+  console.log('💳 Starting checkout:', plan, billingCycle);
+  return callBilling({
+    action: 'checkout',
+    plan,
+    billing_cycle: billingCycle,
+    return_url: `${window.location.origin}${window.location.pathname}`,
+  });
+};
+
+/**
+ * Cancel at the end of the current period; the plan stays active until then
+ */
+export const cancelSubscription = async (): Promise<BillingResult> => {
+  return callBilling({ action: 'cancel' });
+};
+
+/**
+ * Undo a pending cancellation
+ */
+export const resumeSubscription = async (): Promise<BillingResult> => {
+  return callBilling({ action: 'resume' });
+};
+
+/**
+ * Outcome of a checkout redirect, read from the `?checkout=` query parameter
+ */
+export const getCheckoutResult = (search: string = window.location.search): 'success' | 'canceled' | null => {
+  const value = new URLSearchParams(search).get('checkout');
+  return value === 'success' || value === 'canceled' ? value : null;
+};
@@ -0,0 +1,406 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+import { CaptionTrackChoice, MediaUpload, TranscriptSource, UploadedCaptions } from '../types';
+import { removeMediaFile } from './mediaService';
+
+export type AnalysisJobStatus = 'queued' | 'fetching_transcript' | 'summarizing' | 'highlighting' | 'done' | 'failed';
+
+// Stages in the order the worker runs them
+export const ANALYSIS_STAGES: { status: AnalysisJobStatus; label: string }[] = [
+  { status: 'queued', label: 'Queued' },
+  { status: 'fetching_transcript', label: 'Fetching transcript' },
+  { status: 'summarizing', label: 'Summarizing' },
+  { status: 'highlighting', label: 'Finding highlights and chapters' },
+  { status: 'done', label: 'Done' },
+];
+
+export interface AnalysisJob {
+  id: string;
+  videoUrl: string;
+  videoId: string;
+  videoTitle: string | null;
+  // Where the worker gets the transcript from
+  transcriptSource: TranscriptSource;
+  teamOwnerId: string | null;
+  batchId: string | null;
+  position: number;
+  status: AnalysisJobStatus;
+  progress: number;
+  error: string | null;
+  summaryId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface AnalysisBatch {
+  id: string;
+  name: string;
+  collectionId: string | null;
+  teamOwnerId: string | null;
+  createdAt: string;
+}
+
+export const isJobFinished = (job: AnalysisJob): boolean => job.status === 'done' || job.status === 'failed';
+
+/**
+ * Realtime updates and fetches can arrive out of order; keep whichever copy of
+ * the job the worker wrote last
+ */
+export const newerJob = (current: AnalysisJob | null | undefined, next: AnalysisJob): AnalysisJob =>
+  current && current.id === next.id && current.updatedAt > next.updatedAt ? current : next;
+
+const toAnalysisJob = (item: Record<string, unknown>): AnalysisJob => ({
+  id: item.id as string,
+  videoUrl: item.video_url as string,
+  videoId: item.video_id as string,
+  videoTitle: item.video_title as string | null,
+  transcriptSource: item.media_upload ? 'speech_to_text' : item.uploaded_captions ? 'caption_file' : 'youtube',
+  teamOwnerId: item.team_owner_id as string | null,
+  batchId: item.batch_id as string | null,
+  position: item.position as number,
+  status: item.status as AnalysisJobStatus,
+  progress: item.progress as number,
+  error: item.error as string | null,
+  summaryId: item.summary_id as string | null,
+  createdAt: item.created_at as string,
+  updatedAt: item.updated_at as string,
+  completedAt: item.completed_at as string | null,
+});
+
+/**
+ * Ask the worker to pick up the user's queued job now. It claims the job and
+ * returns straight away; progress arrives through `subscribeToAnalysisJob`.
+ */
+export const runAnalysisWorker = async (): Promise<void> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client.functions.invoke('analysis-worker', { body: {} });
+    if (error) throw error;
+  } catch (error) {
+    console.warn('⚠️ Failed to start analysis worker:', error);
+  }
+};
+
+/**
+ * Queue an analysis and start the worker. The summary is saved into the given
+ * team workspace, or the user's personal one, from the given caption track or
+ * one the worker picks.
+ */
+export const enqueueAnalysisJob = async (
+  userId: string,
+  videoUrl: string,
+  videoId: string,
+  teamOwnerId: string | null = null,
+  track: CaptionTrackChoice | null = null
+): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('analysis_jobs')
+      .insert({
+        user_id: userId,
+        team_owner_id: teamOwnerId,
+        video_url: videoUrl,
+        video_id: videoId,
+        caption_language: track?.languageCode ?? null,
+        caption_kind: track?.kind ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    console.log('📥 Queued analysis job:', data.id);
+    await runAnalysisWorker();
+    return { success: true, data: toAnalysisJob(data) };
+  } catch (error) {
+    console.error('Error queueing analysis job:', error);
+    return { success: false, error: 'Failed to start video analysis' };
+  }
+};
+
+/**
+ * Queue the analysis of an uploaded caption file. The worker skips fetching
+ * captions and runs the parsed transcript through the rest of the pipeline.
+ */
+export const enqueueCaptionUploadJob = async (
+  userId: string,
+  upload: UploadedCaptions,
+  videoId: string,
+  teamOwnerId: string | null = null
+): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('analysis_jobs')
+      .insert({
+        user_id: userId,
+        team_owner_id: teamOwnerId,
+        video_url: upload.videoId ? `https://www.youtube.com/watch?v=${upload.videoId}` : upload.fileName,
+        video_id: videoId,
+        video_title: upload.title,
+        uploaded_captions: {
+          fileName: upload.fileName,
+          format: upload.format,
+          language: upload.language,
+          transcript: upload.transcript,
+        },
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    console.log('📥 Queued caption upload job:', data.id);
+    await runAnalysisWorker();
+    return { success: true, data: toAnalysisJob(data) };
+  } catch (error) {
+    console.error('Error queueing caption upload job:', error);
+    return { success: false, error: 'Failed to start analyzing the caption file' };
+  }
+};
+
+/**
+ * Queue the transcription and analysis of a recording already uploaded with
+ * `uploadMediaFile`. The recording is deleted again if the job can't be queued.
+ */
+export const enqueueMediaUploadJob = async (
+  userId: string,
+  upload: MediaUpload,
+  title: string,
+  videoId: string,
+  teamOwnerId: string | null = null
+): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('analysis_jobs')
+      .insert({
+        user_id: userId,
+        team_owner_id: teamOwnerId,
+        video_url: upload.fileName,
+        video_id: videoId,
+        video_title: title,
+        media_upload: upload,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    console.log('📥 Queued recording transcription job:', data.id);
+    await runAnalysisWorker();
+    return { success: true, data: toAnalysisJob(data) };
+  } catch (error) {
+    console.error('Error queueing recording transcription job:', error);
+    await removeMediaFile(upload.path);
+    return { success: false, error: 'Failed to start transcribing the recording' };
+  }
+};
+
+export const getAnalysisJob = async (
+  jobId: string
+): Promise<{ success: boolean; data?: AnalysisJob | null; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('analysis_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { success: true, data: data ? toAnalysisJob(data) : null };
+  } catch (error) {
+    console.error('Error fetching analysis job:', error);
+    return { success: false, error: 'Failed to fetch analysis job' };
+  }
+};
+
+/**
+ * Follow a job's progress over Realtime. Returns a function that unsubscribes.
+ */
+export const subscribeToAnalysisJob = (
+  jobId: string,
+  onUpdate: (job: AnalysisJob) => void
+): (() => void) => {
+  try {
+    const client = checkSupabaseConnection();
+    const channel = client
+      .channel(`analysis-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `id=eq.${jobId}` },
+        payload => onUpdate(toAnalysisJob(payload.new))
+      )
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  } catch (error) {
+    console.warn('⚠️ Failed to subscribe to analysis job:', error);
+    return () => {};
+  }
+};
+
+/**
+ * Start a batch: create a collection for the results, then queue one job per
+ * video in list order. Finished jobs are added to the collection by the
+ * database as they complete.
+ */
+export const createAnalysisBatch = async (
+  userId: string,
+  batch: {
+    name: string;
+    description?: string;
+    teamOwnerId: string | null;
+    videos: { url: string; videoId: string; title?: string }[];
+  }
+): Promise<{ success: boolean; data?: AnalysisBatch; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data: collection, error: collectionError } = await client
+      .from('video_collections')
+      .insert({
+        user_id: userId,
+        team_owner_id: batch.teamOwnerId,
+        name: batch.name,
+        description: batch.description || `Batch analysis of ${batch.videos.length} videos`,
+      })
+      .select('id')
+      .single();
+
+    if (collectionError) throw collectionError;
+
+    const { data, error } = await client
+      .from('analysis_batches')
+      .insert({
+        user_id: userId,
+        team_owner_id: batch.teamOwnerId,
+        name: batch.name,
+        collection_id: collection.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    const { error: jobsError } = await client
+      .from('analysis_jobs')
+      .insert(batch.videos.map((video, index) => ({
+        user_id: userId,
+        team_owner_id: batch.teamOwnerId,
+        batch_id: data.id,
+        position: index,
+        video_url: video.url,
+        video_id: video.videoId,
+        video_title: video.title || null,
+      })));
+
+    if (jobsError) throw jobsError;
+
+    console.log(`📥 Queued batch ${data.id} with ${batch.videos.length} videos`);
+    await runAnalysisWorker();
+    return {
+      success: true,
+      data: {
+        id: data.id,
+        name: data.name,
+        collectionId: data.collection_id,
+        teamOwnerId: data.team_owner_id,
+        createdAt: data.created_at,
+      },
+    };
+  } catch (error) {
+    console.error('Error creating analysis batch:', error);
+    return { success: false, error: 'Failed to start batch analysis' };
+  }
+};
+
+export const getAnalysisBatch = async (
+  batchId: string
+): Promise<{ success: boolean; data?: { batch: AnalysisBatch; jobs: AnalysisJob[] } | null; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('analysis_batches')
+      .select('*, analysis_jobs(*)')
+      .eq('id', batchId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { success: true, data: null };
+
+    return {
+      success: true,
+      data: {
+        batch: {
+          id: data.id,
+          name: data.name,
+          collectionId: data.collection_id,
+          teamOwnerId: data.team_owner_id,
+          createdAt: data.created_at,
+        },
+        jobs: (data.analysis_jobs || [])
+          .map(toAnalysisJob)
+          .sort((a: AnalysisJob, b: AnalysisJob) => a.position - b.position),
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching analysis batch:', error);
+    return { success: false, error: 'Failed to fetch analysis batch' };
+  }
+};
+
+/**
+ * Follow every job in a batch over Realtime. Returns a function that unsubscribes.
+ */
+export const subscribeToAnalysisBatch = (
+  batchId: string,
+  onUpdate: (job: AnalysisJob) => void
+): (() => void) => {
+  try {
+    const client = checkSupabaseConnection();
+    const channel = client
+      .channel(`analysis-batch-${batchId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `batch_id=eq.${batchId}` },
+        payload => onUpdate(toAnalysisJob(payload.new))
+      )
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  } catch (error) {
+    console.warn('⚠️ Failed to subscribe to analysis batch:', error);
+    return () => {};
+  }
+};
+
+/**
+ * Put a failed job back in the queue. Pass `runWorker: false` when retrying
+ * several at once and start the worker after the last one.
+ */
+export const retryAnalysisJob = async (
+  jobId: string,
+  { runWorker = true }: { runWorker?: boolean } = {}
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('retry_analysis_job', { p_job_id: jobId });
+
+    if (error) throw error;
+    if (data.status !== 'queued') {
+      return { success: false, error: 'Only failed analyses can be retried' };
+    }
+
+    if (runWorker) await runAnalysisWorker();
+    return { success: true };
+  } catch (error) {
+    console.error('Error retrying analysis job:', error);
+    return { success: false, error: 'Failed to retry analysis' };
+  }
+};
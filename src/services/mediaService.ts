@@ -0,0 +1,60 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+import { MediaUpload } from '../types';
+
+// Matches the media-uploads bucket's limit
+export const MAX_MEDIA_FILE_BYTES = 100 * 1024 * 1024;
+
+export const MEDIA_FILE_ACCEPT = 'audio/*,video/*';
+
+const MEDIA_BUCKET = 'media-uploads';
+
+/**
+ * Upload a recording into the user's folder for the analysis worker to
+ * transcribe. The worker deletes it once the analysis finishes.
+ */
+export const uploadMediaFile = async (
+  userId: string,
+  file: File,
+  language: string | null = null
+): Promise<{ success: boolean; data?: MediaUpload; error?: string }> => {
+  if (!file.type.startsWith('audio/') && !file.type.startsWith('video/')) {
+    return { success: false, error: 'Choose an audio or video file.' };
+  }
+  if (file.size > MAX_MEDIA_FILE_BYTES) {
+    return { success: false, error: 'Recordings can be 100 MB at most.' };
+  }
+
+  try {
+    const client = checkSupabaseConnection();
+    const extension = file.name.includes('.') ? file.name.split('.').pop()?.toLowerCase() : '';
+    const path = `${userId}/${crypto.randomUUID()}${extension ? `.${extension}` : ''}`;
+
+    const { error } = await client.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+
+    if (error) throw error;
+
+    console.log('📤 Uploaded recording:', path, file.size);
+    return {
+      success: true,
+      data: { path, fileName: file.name, mimeType: file.type, size: file.size, language },
+    };
+  } catch (error) {
+    console.error('Error uploading recording:', error);
+    return { success: false, error: 'Failed to upload the recording' };
+  }
+};
+
+/**
+ * Delete a recording that will not be analyzed, e.g. when queueing failed
+ */
+export const removeMediaFile = async (path: string): Promise<void> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client.storage.from(MEDIA_BUCKET).remove([path]);
+    if (error) throw error;
+  } catch (error) {
+    console.warn('⚠️ Failed to delete uploaded recording:', path, error);
+  }
+};
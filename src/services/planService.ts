@@ -0,0 +1,163 @@
+import { isSupabaseConfigured, checkSupabaseConnection } from '../lib/supabase';
+
+export type UserPlan = 'free' | 'pro' | 'team';
+
+export type SubscriptionStatus = 'free' | 'active' | 'trialing' | 'past_due' | 'canceled' | 'incomplete';
+
+export interface PlanFeatures {
+  unlimitedSummaries: boolean;
+  enhancedAI: boolean;
+  transcriptSearch: boolean;
+  autoHighlight: boolean;
+  pdfDocxExport: boolean;
+  translation: boolean;
+  nonEnglishSupport: boolean;
+  savedHistory: boolean;
+  dashboard: boolean;
+  apiAccess: boolean;
+  prioritySupport: boolean;
+  teamCollaboration: boolean;
+  adminPanel: boolean;
+}
+
+/**
+ * Everything the app needs to know about the current plan, resolved by the
+ * `get_plan_status` database function
+ */
+export interface PlanStatus {
+  plan: UserPlan;
+  subscribedPlan: UserPlan;
+  status: SubscriptionStatus;
+  currentPeriodEnd: string | null;
+  trialEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  accessEndsAt: string | null;
+  features: PlanFeatures;
+  dailyLimit: number;
+  monthlyLimit: number;
+  dailyUsage: number;
+  monthlyUsage: number;
+  canPerformAction: boolean;
+  // API requests per minute for each of the user's API keys
+  rateLimitPerMinute: number;
+}
+
+export const FREE_PLAN_FEATURES: PlanFeatures = {
+  unlimitedSummaries: false,
+  enhancedAI: false,
+  transcriptSearch: false,
+  autoHighlight: false,
+  pdfDocxExport: false,
+  translation: false,
+  nonEnglishSupport: false,
+  savedHistory: false,
+  dashboard: false,
+  apiAccess: false,
+  prioritySupport: false,
+  teamCollaboration: false,
+  adminPanel: false,
+};
+
+export const FREE_PLAN_STATUS: PlanStatus = {
+  plan: 'free',
+  subscribedPlan: 'free',
+  status: 'free',
+  currentPeriodEnd: null,
+  trialEnd: null,
+  cancelAtPeriodEnd: false,
+  accessEndsAt: null,
+  features: FREE_PLAN_FEATURES,
+  dailyLimit: 5,
+  monthlyLimit: 50,
+  dailyUsage: 0,
+  monthlyUsage: 0,
+  canPerformAction: true,
+  rateLimitPerMinute: 10,
+};
+
+// Several components mount plan hooks at once; share one request per key for a few seconds
+const CACHE_TTL_MS = 5000;
+const statusCache = new Map<string, { expiresAt: number; promise: Promise<PlanStatus> }>();
+
+const fetchPlanStatus = async (visitorId: string | null, actionType: string): Promise<PlanStatus> => {
+  const client = checkSupabaseConnection();
+  const { data, error } = await client.rpc('get_plan_status', {
+    p_visitor_id: visitorId,
+    p_action_type: actionType,
+  });
+
+  if (error) throw error;
+
+  return {
+    plan: data.plan_type,
+    subscribedPlan: data.subscribed_plan,
+    status: data.plan_type === 'free' && data.subscribed_plan === 'free' ? 'free' : data.status,
+    currentPeriodEnd: data.current_period_end,
+    trialEnd: data.trial_end,
+    cancelAtPeriodEnd: data.cancel_at_period_end,
+    accessEndsAt: data.access_ends_at,
+    features: { ...FREE_PLAN_FEATURES, ...data.features },
+    dailyLimit: data.daily_limit,
+    monthlyLimit: data.monthly_limit,
+    dailyUsage: data.daily_usage,
+    monthlyUsage: data.monthly_usage,
+    canPerformAction: data.can_perform_action,
+    rateLimitPerMinute: data.rate_limit_per_minute,
+  };
+};
+
+/**
+ * Plan, subscription state, features and usage for the signed-in user, or for an
+ * anonymous visitor when `visitorId` is given. Feeds both `useUserPlan` and
+ * `useUsageTracking` so they never disagree. The server always resolves the
+ * session's own user; `userId` only keys the cache.
+ */
+export const getPlanStatus = async (
+  userId: string | null,
+  visitorId: string | null = null,
+  actionType: string = 'video_analysis'
+): Promise<PlanStatus> => {
+  if (!isSupabaseConfigured) {
+    console.warn('Supabase is not configured. Using free plan defaults.');
+    return FREE_PLAN_STATUS;
+  }
+
+  const key = `${userId || visitorId || 'anonymous'}:${actionType}`;
+  const cached = statusCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.promise;
+  }
+
+  const promise = fetchPlanStatus(visitorId, actionType);
+  statusCache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, promise });
+  promise.catch(() => statusCache.delete(key));
+  return promise;
+};
+
+/**
+ * Drop cached statuses, e.g. after usage was recorded or the subscription changed
+ */
+export const invalidatePlanStatus = () => {
+  statusCache.clear();
+};
+
+/**
+ * Short human-readable note about trials, cancellations and failed payments
+ */
+export const getSubscriptionNotice = (status: PlanStatus): string | null => {
+  const endsAt = status.accessEndsAt ? new Date(status.accessEndsAt).toLocaleDateString() : null;
+
+  if (status.plan === 'free' && status.subscribedPlan !== 'free') {
+    return `Your ${status.subscribedPlan} plan is no longer active. You're on the free plan.`;
+  }
+  if (status.status === 'trialing' && endsAt) {
+    return `Your free trial ends on ${endsAt}.`;
+  }
+  if (status.status === 'past_due' && endsAt) {
+    return `We couldn't process your last payment. Update your billing details before ${endsAt} to keep your plan.`;
+  }
+  if (status.cancelAtPeriodEnd && endsAt) {
+    return `Your plan is canceled and stays active until ${endsAt}.`;
+  }
+  return null;
+};
@@ -0,0 +1,313 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { checkSupabaseConnection } from '../lib/supabase';
+
+export interface LibrarySearchFilters {
+  channel?: string;
+  language?: string;
+  collectionId?: string;
+  // Inclusive calendar dates (YYYY-MM-DD) in the user's time zone
+  from?: string;
+  to?: string;
+}
+
+export interface LibrarySearchMatch {
+  segmentIndex: number;
+  start: number;
+  timestamp: string;
+  snippet: string;
+}
+
+export interface LibrarySearchResult {
+  summaryId: string;
+  videoId: string;
+  title: string;
+  channelName: string;
+  thumbnail: string;
+  duration: string;
+  language: string;
+  createdAt: string;
+  rank: number;
+  // Highlighted words are wrapped in <mark></mark>; render with `splitHighlights`
+  snippet: string;
+  matches: LibrarySearchMatch[];
+}
+
+export interface SearchFilterOptions {
+  channels: string[];
+  languages: string[];
+  collections: { id: string; name: string }[];
+}
+
+// A transcript passage found by meaning rather than by its words
+export interface SemanticMatch {
+  summaryId: string;
+  videoId: string;
+  title: string;
+  channelName: string;
+  thumbnail: string;
+  duration: string;
+  language: string;
+  createdAt: string;
+  segmentIndex: number;
+  start: number;
+  end: number;
+  timestamp: string;
+  text: string;
+  similarity: number;
+}
+
+export interface AnswerCitation {
+  // The [n] marker in the answer
+  number: number;
+  segmentIndex: number;
+  start: number;
+  timestamp: string;
+  text: string;
+}
+
+export interface VideoAnswer {
+  answer: string;
+  citations: AnswerCitation[];
+  // False when the transcript had nothing relevant to the question
+  grounded: boolean;
+}
+
+export const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Break a snippet from the server into plain and highlighted runs. The markers
+ * are matched as text, so nothing in a transcript is ever rendered as HTML.
+ */
+export const splitHighlights = (snippet: string): { text: string; highlighted: boolean }[] =>
+  snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^<mark>(.*)<\/mark>$/);
+      return match ? { text: match[1], highlighted: true } : { text: part, highlighted: false };
+    });
+
+const startOfDay = (date: string): string => new Date(`${date}T00:00:00`).toISOString();
+
+const startOfNextDay = (date: string): string => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * Ranked full-text search over titles, summaries, bullet points and transcripts
+ * in a workspace. Supports quoted phrases, `or` and `-excluded` words.
+ */
+export const searchLibrary = async (
+  query: string,
+  {
+    teamOwnerId = null,
+    filters = {},
+    limit = SEARCH_PAGE_SIZE,
+    offset = 0,
+  }: { teamOwnerId?: string | null; filters?: LibrarySearchFilters; limit?: number; offset?: number } = {}
+): Promise<{ success: boolean; data?: { results: LibrarySearchResult[]; total: number }; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('search_video_summaries', {
+      p_query: query,
+      p_team_owner_id: teamOwnerId,
+      p_channel: filters.channel || null,
+      p_language: filters.language || null,
+      p_collection_id: filters.collectionId || null,
+      p_from: filters.from ? startOfDay(filters.from) : null,
+      p_to: filters.to ? startOfNextDay(filters.to) : null,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+
+    const rows = data || [];
+    return {
+      success: true,
+      data: {
+        results: rows.map((row: Record<string, unknown>) => ({
+          summaryId: row.summary_id as string,
+          videoId: row.video_id as string,
+          title: row.title as string,
+          channelName: row.channel_name as string,
+          thumbnail: row.thumbnail as string,
+          duration: row.duration as string,
+          language: row.language as string,
+          createdAt: row.created_at as string,
+          rank: row.rank as number,
+          snippet: (row.snippet as string) || '',
+          matches: ((row.matches as Record<string, unknown>[]) || []).map(match => ({
+            segmentIndex: match.segment_index as number,
+            start: Number(match.start),
+            timestamp: match.timestamp as string,
+            snippet: match.snippet as string,
+          })),
+        })),
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      },
+    };
+  } catch (error) {
+    console.error('Error searching library:', error);
+    return { success: false, error: 'Search failed. Please try again.' };
+  }
+};
+
+const functionError = async (error: unknown): Promise<string | null> => {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  const body = await error.context.json().catch(() => null);
+  return typeof body?.error === 'string' ? body.error : null;
+};
+
+/**
+ * Transcript passages closest in meaning to the query, in one video when
+ * `summaryId` is given, otherwise across a workspace
+ */
+export const semanticSearch = async (
+  query: string,
+  {
+    summaryId = null,
+    teamOwnerId = null,
+    filters = {},
+    limit = SEARCH_PAGE_SIZE,
+  }: { summaryId?: string | null; teamOwnerId?: string | null; filters?: LibrarySearchFilters; limit?: number } = {}
+): Promise<{ success: boolean; data?: SemanticMatch[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.functions.invoke('semantic-search', {
+      body: {
+        action: 'search',
+        query,
+        summaryId,
+        teamOwnerId,
+        filters: {
+          channel: filters.channel || null,
+          language: filters.language || null,
+          collectionId: filters.collectionId || null,
+          from: filters.from ? startOfDay(filters.from) : null,
+          to: filters.to ? startOfNextDay(filters.to) : null,
+        },
+        limit,
+      },
+    });
+
+    const message = await functionError(error);
+    if (message) return { success: false, error: message };
+    if (error) throw error;
+
+    return { success: true, data: data.data.matches };
+  } catch (error) {
+    console.error('Error in semantic search:', error);
+    return { success: false, error: 'Search failed. Please try again.' };
+  }
+};
+
+/**
+ * Answer a question from a video's transcript, citing the passages used
+ */
+export const askVideo = async (
+  summaryId: string,
+  question: string
+): Promise<{ success: boolean; data?: VideoAnswer; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.functions.invoke('semantic-search', {
+      body: { action: 'ask', summaryId, question },
+    });
+
+    const message = await functionError(error);
+    if (message) return { success: false, error: message };
+    if (error) throw error;
+
+    console.log(`💬 Answered with ${data.data.citations.length} citations`);
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error('Error asking video:', error);
+    return { success: false, error: 'Could not answer the question. Please try again.' };
+  }
+};
+
+/**
+ * Group semantic matches by video in the shape of keyword results, best video
+ * first, so both kinds of search share one results list
+ */
+export const groupSemanticMatches = (matches: SemanticMatch[]): LibrarySearchResult[] => {
+  const results = new Map<string, LibrarySearchResult>();
+
+  matches.forEach(match => {
+    let result = results.get(match.summaryId);
+    if (!result) {
+      result = {
+        summaryId: match.summaryId,
+        videoId: match.videoId,
+        title: match.title,
+        channelName: match.channelName,
+        thumbnail: match.thumbnail,
+        duration: match.duration,
+        language: match.language,
+        createdAt: match.createdAt,
+        rank: match.similarity,
+        snippet: '',
+        matches: [],
+      };
+      results.set(match.summaryId, result);
+    }
+    if (result.matches.length < 3) {
+      result.matches.push({
+        segmentIndex: match.segmentIndex,
+        start: match.start,
+        timestamp: match.timestamp,
+        snippet: match.text,
+      });
+    }
+  });
+
+  return [...results.values()];
+};
+
+/**
+ * Channels, languages and collections in a workspace, for the search filters
+ */
+export const getSearchFilterOptions = async (
+  userId: string,
+  teamOwnerId: string | null = null
+): Promise<{ success: boolean; data?: SearchFilterOptions; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+
+    let summariesQuery = client.from('video_summaries').select('channel_name, language');
+    let collectionsQuery = client.from('video_collections').select('id, name');
+    if (teamOwnerId) {
+      summariesQuery = summariesQuery.eq('team_owner_id', teamOwnerId);
+      collectionsQuery = collectionsQuery.eq('team_owner_id', teamOwnerId);
+    } else {
+      summariesQuery = summariesQuery.eq('user_id', userId).is('team_owner_id', null);
+      collectionsQuery = collectionsQuery.eq('user_id', userId).is('team_owner_id', null);
+    }
+
+    const [summaries, collections] = await Promise.all([
+      summariesQuery,
+      collectionsQuery.order('name', { ascending: true }),
+    ]);
+
+    if (summaries.error) throw summaries.error;
+    if (collections.error) throw collections.error;
+
+    const unique = (values: (string | null)[]) =>
+      [...new Set(values.filter((value): value is string => !!value))].sort((a, b) => a.localeCompare(b));
+
+    return {
+      success: true,
+      data: {
+        channels: unique(summaries.data.map(row => row.channel_name)),
+        languages: unique(summaries.data.map(row => row.language)),
+        collections: collections.data.map(row => ({ id: row.id, name: row.name })),
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching search filters:', error);
+    return { success: false, error: 'Failed to load search filters' };
+  }
+};
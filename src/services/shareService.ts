@@ -0,0 +1,365 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+import { VideoSummary } from '../types';
+
+export type SharedSummaryStatus =
+  | 'ok'
+  | 'not_found'
+  | 'expired'
+  | 'view_limit_reached'
+  | 'password_required'
+  | 'invalid_password'
+  | 'too_many_attempts';
+
+export interface SharedSummarySettings {
+  title: string | null;
+  description: string | null;
+  allowDownloads: boolean;
+  viewCount: number;
+  maxViews: number | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface SharedSummaryResult {
+  success: boolean;
+  status?: SharedSummaryStatus;
+  title?: string | null;
+  share?: SharedSummarySettings;
+  data?: VideoSummary;
+  error?: string;
+}
+
+/**
+ * Extract the share token from a /shared/:token path
+ */
+export const getShareTokenFromPath = (pathname: string): string | null => {
+  const match = pathname.match(/^\/shared\/([A-Za-z0-9_-]+)\/?$/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Resolve a share token on the server. Expiry, view limits and the password are
+ * enforced by the database function, and each successful call counts as a view.
+ */
+export const resolveSharedSummary = async (
+  shareToken: string,
+  password?: string
+): Promise<SharedSummaryResult> => {
+  try {
+    console.log('🔗 Resolving shared summary:', shareToken);
+
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('resolve_shared_summary', {
+      p_share_token: shareToken,
+      p_password: password || null,
+    });
+
+    if (error) throw error;
+
+    if (data.status !== 'ok') {
+      console.warn('⚠️ Shared summary not available:', data.status);
+      return { success: false, status: data.status, title: data.title };
+    }
+
+    const { share, summary } = data;
+
+    return {
+      success: true,
+      status: 'ok',
+      share: {
+        title: share.title,
+        description: share.description,
+        allowDownloads: share.allow_downloads,
+        viewCount: share.view_count,
+        maxViews: share.max_views,
+        expiresAt: share.expires_at,
+        createdAt: share.created_at,
+      },
+      data: {
+        title: summary.title,
+        thumbnail: summary.thumbnail,
+        duration: summary.duration,
+        channelName: summary.channel_name,
+        summary: summary.summary,
+        bulletPoints: summary.bullet_points,
+        keyQuote: summary.key_quote,
+        transcript: summary.transcript,
+        videoId: summary.video_id,
+        highlightedSegments: summary.highlighted_segments || [],
+        chapters: summary.chapters || [],
+        language: summary.language || 'en',
+      },
+    };
+  } catch (error) {
+    console.error('❌ Error resolving shared summary:', error);
+    return { success: false, error: 'Failed to load shared summary' };
+  }
+};
+
+export interface SharedLink {
+  id: string;
+  shareToken: string;
+  url: string;
+  title: string | null;
+  description: string | null;
+  isPublic: boolean;
+  hasPassword: boolean;
+  allowDownloads: boolean;
+  viewCount: number;
+  maxViews: number | null;
+  expiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  video: {
+    id: string;
+    videoId: string;
+    title: string;
+    thumbnail: string;
+  } | null;
+}
+
+export interface ShareAccessEvent {
+  id: string;
+  outcome: string;
+  userAgent: string | null;
+  viewerId: string | null;
+  createdAt: string;
+}
+
+export interface NewSharedLink {
+  title: string;
+  description: string;
+  isPublic: boolean;
+  password: string;
+  expiresAt: string | null;
+  maxViews: number | null;
+  allowDownloads: boolean;
+}
+
+export interface SharedLinkUpdate {
+  password?: string | null;
+  expiresAt?: string | null;
+  maxViews?: number | null;
+  isPublic?: boolean;
+  allowDownloads?: boolean;
+}
+
+export const getShareUrl = (shareToken: string): string =>
+  `${window.location.origin}/shared/${shareToken}`;
+
+/**
+ * Whether a link can still be opened, mirroring the checks in `resolve_shared_summary`
+ */
+export const getSharedLinkState = (link: SharedLink): 'active' | 'expired' | 'view_limit_reached' => {
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) return 'expired';
+  if (link.maxViews !== null && link.viewCount >= link.maxViews) return 'view_limit_reached';
+  return 'active';
+};
+
+/**
+ * Random URL-safe token in the same shape as the `share_token` column default
+ */
+export const generateShareToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export const createSharedLink = async (
+  videoData: VideoSummary,
+  settings: NewSharedLink
+): Promise<{ success: boolean; url?: string; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('shared_summaries')
+      .insert({
+        video_summary_id: videoData.id,
+        title: settings.title,
+        description: settings.description,
+        is_public: settings.isPublic,
+        // Hashed with bcrypt by the database; the plain password is never stored
+        password: settings.password || null,
+        expires_at: settings.expiresAt,
+        max_views: settings.maxViews,
+        allow_downloads: settings.allowDownloads,
+      })
+      .select('id, share_token')
+      .single();
+
+    if (error) throw error;
+
+    console.log('🔗 Shared link created:', data.id);
+    return { success: true, url: getShareUrl(data.share_token) };
+  } catch (error) {
+    console.error('Error creating shared link:', error);
+    return { success: false, error: 'Failed to create share link' };
+  }
+};
+
+export const getUserSharedLinks = async (
+  userId: string
+): Promise<{ success: boolean; data?: SharedLink[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('shared_summaries')
+      .select(`
+        *,
+        video_summaries (
+          id,
+          video_id,
+          title,
+          thumbnail
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const links: SharedLink[] = (data || []).map(item => ({
+      id: item.id,
+      shareToken: item.share_token,
+      url: getShareUrl(item.share_token),
+      title: item.title,
+      description: item.description,
+      isPublic: item.is_public,
+      hasPassword: !!item.password_hash,
+      allowDownloads: item.allow_downloads,
+      viewCount: item.view_count || 0,
+      maxViews: item.max_views,
+      expiresAt: item.expires_at,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+      video: item.video_summaries ? {
+        id: item.video_summaries.id,
+        videoId: item.video_summaries.video_id,
+        title: item.video_summaries.title,
+        thumbnail: item.video_summaries.thumbnail,
+      } : null,
+    }));
+
+    return { success: true, data: links };
+  } catch (error) {
+    console.error('Error fetching shared links:', error);
+    return { success: false, error: 'Failed to fetch shared links' };
+  }
+};
+
+export const updateSharedLink = async (
+  userId: string,
+  linkId: string,
+  updates: SharedLinkUpdate
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const changes: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    // An empty password removes the link's password
+    if (updates.password !== undefined) changes.password = updates.password || '';
+    if (updates.expiresAt !== undefined) changes.expires_at = updates.expiresAt;
+    if (updates.maxViews !== undefined) changes.max_views = updates.maxViews;
+    if (updates.isPublic !== undefined) changes.is_public = updates.isPublic;
+    if (updates.allowDownloads !== undefined) changes.allow_downloads = updates.allowDownloads;
+
+    const { error } = await client
+      .from('shared_summaries')
+      .update(changes)
+      .eq('id', linkId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    console.log('✅ Shared link updated:', linkId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating shared link:', error);
+    return { success: false, error: 'Failed to update shared link' };
+  }
+};
+
+/**
+ * Replace a link's token so the old URL stops working
+ */
+export const regenerateShareToken = async (
+  userId: string,
+  linkId: string
+): Promise<{ success: boolean; shareToken?: string; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const shareToken = generateShareToken();
+
+    const { error } = await client
+      .from('shared_summaries')
+      .update({ share_token: shareToken, updated_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    console.log('🔄 Share token regenerated:', linkId);
+    return { success: true, shareToken };
+  } catch (error) {
+    console.error('Error regenerating share token:', error);
+    return { success: false, error: 'Failed to regenerate share link' };
+  }
+};
+
+export const revokeSharedLinks = async (
+  userId: string,
+  linkIds: string[]
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client
+      .from('shared_summaries')
+      .delete()
+      .in('id', linkIds)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    console.log(`🗑️ Revoked ${linkIds.length} shared link(s)`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking shared links:', error);
+    return { success: false, error: 'Failed to revoke shared links' };
+  }
+};
+
+/**
+ * Access attempts recorded by `resolve_shared_summary` for one link, newest first
+ */
+export const getShareAccessHistory = async (
+  linkId: string,
+  limit: number = 50
+): Promise<{ success: boolean; data?: ShareAccessEvent[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('video_analytics')
+      .select('id, user_id, event_data, user_agent, created_at')
+      .eq('event_type', 'share_access')
+      .eq('event_data->>share_id', linkId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    const events: ShareAccessEvent[] = (data || []).map(item => ({
+      id: item.id,
+      outcome: item.event_data?.outcome || 'ok',
+      userAgent: item.user_agent,
+      viewerId: item.user_id,
+      createdAt: item.created_at,
+    }));
+
+    return { success: true, data: events };
+  } catch (error) {
+    console.error('Error fetching share access history:', error);
+    return { success: false, error: 'Failed to fetch access history' };
+  }
+};
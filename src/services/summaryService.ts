@@ -0,0 +1,85 @@
+import { TranscriptSegment } from '../types';
+import { isSupabaseConfigured, checkSupabaseConnection } from '../lib/supabase';
+import { GeneratedSummary, summarizeExtractive } from '../../supabase/functions/_shared/extractiveSummary.ts';
+
+export interface SummaryInput {
+  videoId: string;
+  title?: string;
+  language?: string;
+  transcript: TranscriptSegment[];
+}
+
+export interface SummaryProvider {
+  name: string;
+  summarize: (input: SummaryInput) => Promise<GeneratedSummary>;
+}
+
+/**
+ * Offline extractive summarizer, the same one the edge functions fall back to.
+ * Every field is lifted from the transcript itself, so the output is only as
+ * good as the captions, but it never calls out
+ */
+export const createExtractiveSummaryProvider = (): SummaryProvider => ({
+  name: 'extractive',
+  summarize: async (input: SummaryInput): Promise<GeneratedSummary> => summarizeExtractive(input.transcript),
+});
+
+/**
+ * Summarizer running in the `summarize` edge function, which calls the LLM
+ * configured in the function's secrets so its key never reaches the browser
+ */
+export const createServerSummaryProvider = (): SummaryProvider => ({
+  name: 'llm',
+  summarize: async (input: SummaryInput): Promise<GeneratedSummary> => {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.functions.invoke('summarize', {
+      body: {
+        title: input.title,
+        language: input.language,
+        transcript: input.transcript.map(({ text, start, timestamp }) => ({ text, start, timestamp })),
+      },
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Summary request failed');
+    }
+
+    return data.data as GeneratedSummary;
+  },
+});
+
+/**
+ * Provider selected by VITE_SUMMARY_PROVIDER ('extractive' or 'llm'). LLM
+ * summaries need a signed-in user; anyone else gets the extractive fallback.
+ */
+export const getSummaryProvider = (): SummaryProvider => {
+  const providerName = import.meta.env.VITE_SUMMARY_PROVIDER || 'extractive';
+
+  if (providerName === 'llm' && isSupabaseConfigured) {
+    return createServerSummaryProvider();
+  }
+
+  if (providerName === 'llm') {
+    console.warn('⚠️ VITE_SUMMARY_PROVIDER is "llm" but Supabase is not configured, using extractive summaries');
+  }
+
+  return createExtractiveSummaryProvider();
+};
+
+/**
+ * Summarize with the configured provider, falling back to the extractive
+ * provider if a remote provider fails
+ */
+export const summarizeTranscript = async (
+  input: SummaryInput,
+  provider: SummaryProvider = getSummaryProvider()
+): Promise<GeneratedSummary> => {
+  try {
+    return await provider.summarize(input);
+  } catch (error) {
+    if (provider.name === 'extractive') throw error;
+    console.error(`❌ ${provider.name} summary provider failed, falling back to extractive:`, error);
+    return createExtractiveSummaryProvider().summarize(input);
+  }
+};
@@ -0,0 +1,369 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+
+export type TeamRole = 'admin' | 'editor' | 'viewer';
+
+export type TeamPermission = 'can_view' | 'can_edit' | 'can_delete' | 'can_share';
+
+export type TeamPermissions = Record<TeamPermission, boolean>;
+
+export type TeamMemberStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface TeamMember {
+  id: string;
+  collaboratorId: string | null;
+  email: string | null;
+  role: TeamRole;
+  permissions: TeamPermissions;
+  status: TeamMemberStatus;
+  invitedAt: string;
+  acceptedAt: string | null;
+}
+
+export interface TeamMembership {
+  id: string;
+  teamOwnerId: string;
+  ownerEmail: string;
+  role: TeamRole;
+  permissions: TeamPermissions;
+  status: TeamMemberStatus;
+  invitedAt: string;
+  acceptedAt: string | null;
+}
+
+interface TeamMembershipRow {
+  id: string;
+  team_owner_id: string;
+  owner_email: string;
+  role: TeamRole;
+  permissions: Partial<TeamPermissions> | null;
+  status: TeamMemberStatus;
+  invited_at: string;
+  accepted_at: string | null;
+}
+
+/**
+ * Usage and API key activity for one member over the current month
+ */
+export interface TeamMemberActivity {
+  membershipId: string | null;
+  userId: string;
+  email: string;
+  role: TeamRole | 'owner';
+  analysesToday: number;
+  analysesThisMonth: number;
+  exportsThisMonth: number;
+  translationsThisMonth: number;
+  apiCallsThisMonth: number;
+  activeApiKeys: number;
+  apiKeyRequests: number;
+  apiLastUsed: string | null;
+}
+
+interface TeamMemberActivityRow {
+  membership_id: string | null;
+  user_id: string;
+  email: string;
+  role: TeamRole | 'owner';
+  analyses_today: number;
+  analyses_this_month: number;
+  exports_this_month: number;
+  translations_this_month: number;
+  api_calls_this_month: number;
+  active_api_keys: number;
+  api_key_requests: number;
+  api_last_used: string | null;
+}
+
+/**
+ * Where videos and collections are read from and saved to. The personal
+ * workspace has no team owner; a team workspace scopes rows by `team_owner_id`.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  teamOwnerId: string | null;
+  role: TeamRole | 'owner';
+  permissions: TeamPermissions;
+}
+
+export const ALL_PERMISSIONS: TeamPermissions = {
+  can_view: true,
+  can_edit: true,
+  can_delete: true,
+  can_share: true,
+};
+
+/**
+ * Defaults applied when a role is assigned; must match `team_role_permissions` in SQL
+ */
+export const ROLE_PERMISSIONS: Record<TeamRole, TeamPermissions> = {
+  admin: ALL_PERMISSIONS,
+  editor: { can_view: true, can_edit: true, can_delete: false, can_share: true },
+  viewer: { can_view: true, can_edit: false, can_delete: false, can_share: false },
+};
+
+export const PERMISSION_LABELS: Record<TeamPermission, string> = {
+  can_view: 'View',
+  can_edit: 'Edit',
+  can_delete: 'Delete',
+  can_share: 'Share',
+};
+
+export const PERSONAL_WORKSPACE: Workspace = {
+  id: 'personal',
+  name: 'Personal',
+  teamOwnerId: null,
+  role: 'owner',
+  permissions: ALL_PERMISSIONS,
+};
+
+/**
+ * Client-side mirror of the `team_permission` SQL check, used to hide actions
+ * the database would reject anyway
+ */
+export const hasWorkspacePermission = (workspace: Workspace, permission: TeamPermission): boolean =>
+  workspace.role === 'owner' || workspace.role === 'admin' || workspace.permissions[permission];
+
+const toPermissions = (value: Partial<TeamPermissions> | null | undefined): TeamPermissions => ({
+  can_view: !!value?.can_view,
+  can_edit: !!value?.can_edit,
+  can_delete: !!value?.can_delete,
+  can_share: !!value?.can_share,
+});
+
+export const getTeamMembers = async (
+  ownerId: string
+): Promise<{ success: boolean; data?: TeamMember[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('team_collaborators')
+      .select('*')
+      .eq('team_owner_id', ownerId)
+      .in('status', ['pending', 'accepted'])
+      .order('invited_at', { ascending: false });
+
+    if (error) throw error;
+
+    const members: TeamMember[] = (data || []).map(item => ({
+      id: item.id,
+      collaboratorId: item.collaborator_id,
+      email: item.invited_email,
+      role: item.role,
+      permissions: toPermissions(item.permissions),
+      status: item.status,
+      invitedAt: item.invited_at,
+      acceptedAt: item.accepted_at,
+    }));
+
+    return { success: true, data: members };
+  } catch (error) {
+    console.error('Error fetching team members:', error);
+    return { success: false, error: 'Failed to fetch team members' };
+  }
+};
+
+/**
+ * Record an invitation. No email is sent: the invitee finds it on their Team
+ * page after signing in (or signing up) with the invited address.
+ */
+export const inviteTeamMember = async (
+  email: string,
+  role: TeamRole
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('invite_team_member', {
+      p_email: email,
+      p_role: role,
+    });
+
+    if (error) throw error;
+    if (!data.success) {
+      return { success: false, error: data.error };
+    }
+
+    console.log('✉️ Team invitation created for:', email);
+    return { success: true };
+  } catch (error) {
+    console.error('Error inviting team member:', error);
+    return { success: false, error: 'Failed to create invitation' };
+  }
+};
+
+/**
+ * Change another member's role or permissions. Only team admins can, and never
+ * on their own membership; the change is recorded in the audit log.
+ */
+export const updateTeamMember = async (
+  memberId: string,
+  updates: { role?: TeamRole; permissions?: TeamPermissions }
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('update_team_member', {
+      p_membership_id: memberId,
+      p_role: updates.role ?? null,
+      p_permissions: updates.permissions ?? null,
+    });
+
+    if (error) throw error;
+    if (!data) {
+      return { success: false, error: 'You cannot change this member' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating team member:', error);
+    return { success: false, error: 'Failed to update team member' };
+  }
+};
+
+/**
+ * Revoke a membership or cancel a pending invitation. The row is kept so the
+ * person can be re-invited later.
+ */
+export const removeTeamMember = async (
+  memberId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('revoke_team_member', {
+      p_membership_id: memberId,
+    });
+
+    if (error) throw error;
+    if (!data) {
+      return { success: false, error: 'You cannot remove this member' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    return { success: false, error: 'Failed to remove team member' };
+  }
+};
+
+/**
+ * Per-member usage for a team; only the owner and admin members may call this
+ */
+export const getTeamMemberActivity = async (
+  ownerId: string
+): Promise<{ success: boolean; data?: TeamMemberActivity[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('get_team_member_activity', {
+      p_team_owner_id: ownerId,
+    });
+
+    if (error) throw error;
+
+    const activity: TeamMemberActivity[] = ((data || []) as TeamMemberActivityRow[]).map(item => ({
+      membershipId: item.membership_id,
+      userId: item.user_id,
+      email: item.email,
+      role: item.role,
+      analysesToday: Number(item.analyses_today),
+      analysesThisMonth: Number(item.analyses_this_month),
+      exportsThisMonth: Number(item.exports_this_month),
+      translationsThisMonth: Number(item.translations_this_month),
+      apiCallsThisMonth: Number(item.api_calls_this_month),
+      activeApiKeys: Number(item.active_api_keys),
+      apiKeyRequests: Number(item.api_key_requests),
+      apiLastUsed: item.api_last_used,
+    }));
+
+    return { success: true, data: activity };
+  } catch (error) {
+    console.error('Error fetching team member activity:', error);
+    return { success: false, error: 'Failed to fetch team member activity' };
+  }
+};
+
+/**
+ * Pending invitations and accepted memberships for the signed-in user
+ */
+export const getMyTeamMemberships = async (): Promise<{ success: boolean; data?: TeamMembership[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('get_my_team_memberships');
+
+    if (error) throw error;
+
+    const memberships: TeamMembership[] = ((data || []) as TeamMembershipRow[]).map(item => ({
+      id: item.id,
+      teamOwnerId: item.team_owner_id,
+      ownerEmail: item.owner_email,
+      role: item.role,
+      permissions: toPermissions(item.permissions),
+      status: item.status,
+      invitedAt: item.invited_at,
+      acceptedAt: item.accepted_at,
+    }));
+
+    return { success: true, data: memberships };
+  } catch (error) {
+    console.error('Error fetching team memberships:', error);
+    return { success: false, error: 'Failed to fetch team memberships' };
+  }
+};
+
+export const respondToInvitation = async (
+  invitationId: string,
+  accept: boolean
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('respond_to_team_invitation', {
+      p_invitation_id: invitationId,
+      p_accept: accept,
+    });
+
+    if (error) throw error;
+    if (!data) {
+      return { success: false, error: 'This invitation is no longer available' };
+    }
+
+    console.log(accept ? '✅ Team invitation accepted' : '👋 Team invitation declined');
+    return { success: true };
+  } catch (error) {
+    console.error('Error responding to invitation:', error);
+    return { success: false, error: 'Failed to respond to invitation' };
+  }
+};
+
+/**
+ * Workspaces the user can switch between: personal, their own team when the
+ * plan allows it, and every team they have joined
+ */
+export const buildWorkspaces = (
+  userId: string,
+  memberships: TeamMembership[],
+  ownsTeam: boolean
+): Workspace[] => {
+  const workspaces: Workspace[] = [PERSONAL_WORKSPACE];
+
+  if (ownsTeam) {
+    workspaces.push({
+      id: userId,
+      name: 'My Team',
+      teamOwnerId: userId,
+      role: 'owner',
+      permissions: ALL_PERMISSIONS,
+    });
+  }
+
+  memberships
+    .filter(membership => membership.status === 'accepted')
+    .forEach(membership => {
+      workspaces.push({
+        id: membership.teamOwnerId,
+        name: `${membership.ownerEmail.split('@')[0]}'s Team`,
+        teamOwnerId: membership.teamOwnerId,
+        role: membership.role,
+        permissions: membership.permissions,
+      });
+    });
+
+  return workspaces;
+};
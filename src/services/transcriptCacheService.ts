@@ -0,0 +1,91 @@
+import { checkSupabaseConnection } from '../lib/supabase';
+
+export interface TranscriptCacheEntry {
+  cacheKey: string;
+  videoId: string;
+  languageCode: string | null;
+  captionKind: 'manual' | 'asr' | null;
+  title: string | null;
+  // Set when the entry records that the video has no usable captions
+  error: string | null;
+  fetchedAt: string;
+  expiresAt: string;
+  hitCount: number;
+  lastHitAt: string | null;
+}
+
+/**
+ * Whether the user operates the service. Platform admins are added with SQL,
+ * so this only reads the user's own row.
+ */
+export const isPlatformAdmin = async (userId: string): Promise<boolean> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('platform_admins')
+      .select('user_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  } catch (error) {
+    console.warn('⚠️ Failed to check platform admin status:', error);
+    return false;
+  }
+};
+
+export const getTranscriptCacheEntries = async (
+  videoId?: string
+): Promise<{ success: boolean; data?: TranscriptCacheEntry[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('transcript_cache_entries', {
+      p_video_id: videoId || null,
+      p_limit: 200,
+    });
+
+    if (error) throw error;
+
+    const entries: TranscriptCacheEntry[] = (data || []).map((item: Record<string, unknown>) => ({
+      cacheKey: item.cache_key as string,
+      videoId: item.video_id as string,
+      languageCode: (item.language_code as string | null) ?? null,
+      captionKind: (item.caption_kind as 'manual' | 'asr' | null) ?? null,
+      title: (item.title as string | null) ?? null,
+      error: (item.error as string | null) ?? null,
+      fetchedAt: item.fetched_at as string,
+      expiresAt: item.expires_at as string,
+      hitCount: item.hit_count as number,
+      lastHitAt: (item.last_hit_at as string | null) ?? null,
+    }));
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error('Error fetching transcript cache:', error);
+    return { success: false, error: 'Failed to fetch transcript cache' };
+  }
+};
+
+/**
+ * Drop a video's cached transcripts so the next request fetches them again,
+ * or every cached transcript when no video is given
+ */
+export const invalidateTranscriptCache = async (
+  videoId?: string
+): Promise<{ success: boolean; data?: { removed: number }; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('invalidate_transcript_cache', {
+      p_video_id: videoId || null,
+    });
+
+    if (error) throw error;
+
+    console.log('🗑️ Invalidated transcript cache:', videoId || 'all videos', data);
+    return { success: true, data: { removed: data ?? 0 } };
+  } catch (error) {
+    console.error('Error invalidating transcript cache:', error);
+    return { success: false, error: 'Failed to invalidate transcript cache' };
+  }
+};
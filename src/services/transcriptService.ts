@@ -1,4 +1,5 @@
-import { supabase } from '../lib/supabase';
+import { checkSupabaseConnection, supabase } from '../lib/supabase';
+import { CaptionTrack, CaptionTrackChoice } from '../types';
 
 export interface TranscriptSegment {
   start: number;
@@ -12,30 +13,69 @@ export interface TranscriptResponse {
     videoId: string;
     transcript: any[]; // Frontend format with timestamp, text, start
     language: string;
+    track?: CaptionTrack;
     title?: string;
     duration?: string;
     channelName?: string;
     thumbnail?: string;
+    cached?: boolean; // Served from the shared transcript cache
   };
   error?: string;
+  code?: string; // Set when the server refused the request because of the user's plan
 }
 
+// Plan refusals from the edge function; these must not fall back to mock data
+const PLAN_ERROR_CODES = ['feature_not_available', 'usage_limit_reached'];
+
+/**
+ * Caption tracks a video offers, creator captions first
+ */
+export const listCaptionTracks = async (
+  url: string
+): Promise<{ success: boolean; data?: CaptionTrack[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.functions.invoke('fetch-transcript', {
+      body: { url, action: 'tracks' }
+    });
+
+    if (error) {
+      const body = error.context instanceof Response
+        ? await error.context.json().catch(() => null)
+        : null;
+      return { success: false, error: body?.error || 'Could not load caption tracks' };
+    }
+
+    console.log(`🗂️ Found ${data.data.tracks.length} caption tracks`);
+    return { success: true, data: data.data.tracks };
+  } catch (error) {
+    console.error('❌ Error listing caption tracks:', error);
+    return { success: false, error: 'Could not load caption tracks' };
+  }
+};
+
 /**
- * Fetch real YouTube transcript using Supabase Edge Function
+ * Fetch real YouTube transcript using Supabase Edge Function. Without a track
+ * the server picks one, preferring English.
  */
-export const fetchYouTubeTranscript = async (url: string): Promise<TranscriptResponse> => {
+export const fetchYouTubeTranscript = async (url: string, track?: CaptionTrackChoice): Promise<TranscriptResponse> => {
   try {
     console.log('🎬 Fetching real transcript for URL:', url);
 
     const { data, error } = await supabase.functions.invoke('fetch-transcript', {
-      body: { url }
+      body: { url, ...(track ? { languageCode: track.languageCode, kind: track.kind } : {}) }
     });
 
     if (error) {
       console.error('❌ Supabase function error:', error);
+      // Non-2xx responses carry the function's JSON body in `context`
+      const body = error.context instanceof Response
+        ? await error.context.json().catch(() => null)
+        : null;
       return {
         success: false,
-        error: error.message || 'Failed to fetch transcript'
+        error: body?.error || error.message || 'Failed to fetch transcript',
+        code: body?.code
       };
     }
 
@@ -70,11 +110,12 @@ export const fetchYouTubeTranscript = async (url: string): Promise<TranscriptRes
 /**
  * Fallback to mock transcript if real transcript fails
  */
-export const fetchTranscriptWithFallback = async (url: string): Promise<TranscriptResponse> => {
+export const fetchTranscriptWithFallback = async (url: string, track?: CaptionTrackChoice): Promise<TranscriptResponse> => {
   // First try to fetch real transcript
-  const realTranscript = await fetchYouTubeTranscript(url);
+  const realTranscript = await fetchYouTubeTranscript(url, track);
   
-  if (realTranscript.success) {
+  // A track the user picked is not swapped for mock data in another language
+  if (realTranscript.success || track || (realTranscript.code && PLAN_ERROR_CODES.includes(realTranscript.code))) {
     return realTranscript;
   }
 
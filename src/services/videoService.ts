@@ -1,17 +1,25 @@
-import { supabase } from '../lib/supabase';
-import { VideoSummary, ApiResponse, HighlightedSegment } from '../types';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, checkSupabaseConnection } from '../lib/supabase';
+import { VideoSummary, ApiResponse, HighlightedSegment, Chapter, CaptionTrackChoice, TranscriptSegment, TranscriptSource, UploadedCaptions } from '../types';
+import { Database } from '../types/database';
 import { translateVideoSummary } from './translationService';
 import { fetchTranscriptWithFallback } from './transcriptService';
+import { summarizeTranscript } from './summaryService';
+import { detectHighlights } from '../../supabase/functions/_shared/highlights.ts';
+import { detectChapters } from '../../supabase/functions/_shared/chapters.ts';
+import { formatTimestamp, parseDuration } from '../utils/timeUtils';
 
 export const saveVideoSummary = async (
   userId: string,
-  videoData: VideoSummary
+  videoData: VideoSummary,
+  teamOwnerId: string | null = null
 ): Promise<{ success: boolean; error?: string }> => {
   try {
     const { error } = await supabase
       .from('video_summaries')
       .upsert({
         user_id: userId,
+        team_owner_id: teamOwnerId,
         video_id: videoData.videoId,
         title: videoData.title,
         thumbnail: videoData.thumbnail,
@@ -22,7 +30,11 @@ export const saveVideoSummary = async (
         key_quote: videoData.keyQuote,
         transcript: videoData.transcript,
         highlighted_segments: videoData.highlightedSegments || [],
+        suggested_highlights: videoData.suggestedHighlights || [],
+        chapters: videoData.chapters || [],
         language: videoData.language || 'en',
+        caption_track: videoData.captionTrack || null,
+        transcript_source: videoData.transcriptSource || 'youtube',
         translated_summary: videoData.translatedSummary || {},
         translated_transcript: videoData.translatedTranscript || {},
       }, {
@@ -41,12 +53,16 @@ export const saveVideoSummary = async (
 export const updateVideoHighlights = async (
   userId: string,
   videoId: string,
-  highlights: HighlightedSegment[]
+  highlights: HighlightedSegment[],
+  suggestedHighlights?: HighlightedSegment[]
 ): Promise<{ success: boolean; error?: string }> => {
   try {
     const { error } = await supabase
       .from('video_summaries')
-      .update({ highlighted_segments: highlights })
+      .update({
+        highlighted_segments: highlights,
+        ...(suggestedHighlights ? { suggested_highlights: suggestedHighlights } : {})
+      })
       .eq('user_id', userId)
       .eq('video_id', videoId);
 
@@ -101,6 +117,43 @@ export const translateAndSaveVideoSummary = async (
   }
 };
 
+// Columns added to video_summaries since src/types/database.ts was written
+type VideoSummaryRow = Database['public']['Tables']['video_summaries']['Row'] & {
+  team_owner_id: string | null;
+  highlighted_segments: HighlightedSegment[] | null;
+  suggested_highlights: HighlightedSegment[] | null;
+  chapters: Chapter[] | null;
+  language: string | null;
+  caption_track: CaptionTrackChoice | null;
+  transcript_source: TranscriptSource | null;
+  translated_summary: VideoSummary['translatedSummary'] | null;
+  translated_transcript: VideoSummary['translatedTranscript'] | null;
+};
+
+const formatVideoSummary = (item: VideoSummaryRow): VideoSummary => ({
+  id: item.id,
+  title: item.title,
+  thumbnail: item.thumbnail,
+  duration: item.duration,
+  channelName: item.channel_name,
+  summary: item.summary,
+  bulletPoints: item.bullet_points,
+  keyQuote: item.key_quote,
+  transcript: item.transcript,
+  videoId: item.video_id,
+  teamOwnerId: item.team_owner_id,
+  createdAt: item.created_at,
+  updatedAt: item.updated_at,
+  highlightedSegments: item.highlighted_segments || [],
+  suggestedHighlights: item.suggested_highlights || [],
+  chapters: item.chapters || [],
+  language: item.language || 'en',
+  captionTrack: item.caption_track,
+  transcriptSource: item.transcript_source || 'youtube',
+  translatedSummary: item.translated_summary || {},
+  translatedTranscript: item.translated_transcript || {},
+});
+
 export const getUserVideoSummaries = async (
   userId: string
 ): Promise<{ success: boolean; data?: VideoSummary[]; error?: string }> => {
@@ -113,24 +166,7 @@ export const getUserVideoSummaries = async (
 
     if (error) throw error;
 
-    const formattedVideos: VideoSummary[] = data.map(item => ({
-      id: item.id,
-      title: item.title,
-      thumbnail: item.thumbnail,
-      duration: item.duration,
-      channelName: item.channel_name,
-      summary: item.summary,
-      bulletPoints: item.bullet_points,
-      keyQuote: item.key_quote,
-      transcript: item.transcript,
-      videoId: item.video_id,
-      createdAt: item.created_at,
-      updatedAt: item.updated_at,
-      highlightedSegments: item.highlighted_segments || [],
-      language: item.language || 'en',
-      translatedSummary: item.translated_summary || {},
-      translatedTranscript: item.translated_transcript || {},
-    }));
+    const formattedVideos: VideoSummary[] = data.map(formatVideoSummary);
 
     return { success: true, data: formattedVideos };
   } catch (error) {
@@ -139,6 +175,61 @@ export const getUserVideoSummaries = async (
   }
 };
 
+/**
+ * A single saved summary, e.g. the result of a finished analysis job
+ */
+export const getVideoSummary = async (
+  summaryId: string
+): Promise<{ success: boolean; data?: VideoSummary; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('video_summaries')
+      .select('*')
+      .eq('id', summaryId)
+      .single();
+
+    if (error) throw error;
+
+    return { success: true, data: formatVideoSummary(data) };
+  } catch (error) {
+    console.error('Error fetching video summary:', error);
+    return { success: false, error: 'Failed to fetch video summary' };
+  }
+};
+
+/**
+ * Delete summaries from a workspace. The database records each deletion in the
+ * audit log. Personal deletes are limited to the user's own rows; team deletes rely on the
+ * `can_delete` policy.
+ */
+export const deleteVideoSummaries = async (
+  userId: string,
+  summaries: Pick<VideoSummary, 'id'>[],
+  teamOwnerId: string | null = null
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    let query = client
+      .from('video_summaries')
+      .delete()
+      .in('id', summaries.map(summary => summary.id));
+    query = teamOwnerId
+      ? query.eq('team_owner_id', teamOwnerId)
+      : query.eq('user_id', userId);
+
+    const { error } = await query;
+
+    if (error) throw error;
+
+    console.log(`🗑️ Deleted ${summaries.length} video summary(ies)`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting video summaries:', error);
+    return { success: false, error: 'Failed to delete video summaries' };
+  }
+};
+
 /**
  * Enhanced YouTube video ID extraction function
  * Supports all YouTube URL formats and logs extraction process for debugging
@@ -204,6 +295,73 @@ export const extractVideoId = (url: string): string | null => {
   return null;
 };
 
+export type VideoSource =
+  | { type: 'video'; videoId: string }
+  | { type: 'playlist'; id: string }
+  | { type: 'channel'; path: string };
+
+export interface ListedVideo {
+  videoId: string;
+  title: string;
+}
+
+/**
+ * Work out what a pasted URL points at for batch analysis: a playlist (including
+ * a video opened from one, except auto-generated mixes), a channel or a single
+ * video
+ */
+export const parseVideoSource = (url: string): VideoSource | null => {
+  const cleanUrl = url.trim();
+  if (!cleanUrl) return null;
+
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(cleanUrl) ? cleanUrl : `https://${cleanUrl}`);
+  } catch {
+    parsed = null;
+  }
+
+  if (parsed && /(^|\.)youtube\.com$/i.test(parsed.hostname)) {
+    const list = parsed.searchParams.get('list');
+    if (list && /^[\w-]{10,64}$/.test(list) && !list.startsWith('RD')) {
+      return { type: 'playlist', id: list };
+    }
+
+    const channelMatch = parsed.pathname.match(/^\/(@[\w.-]+|channel\/UC[\w-]{22}|c\/[\w.-]+|user\/[\w.-]+)(\/|$)/);
+    if (channelMatch) {
+      return { type: 'channel', path: channelMatch[1] };
+    }
+  }
+
+  const videoId = extractVideoId(cleanUrl);
+  return videoId ? { type: 'video', videoId } : null;
+};
+
+/**
+ * List the videos in a playlist or a channel's uploads (first 100)
+ */
+export const resolveVideoSource = async (
+  source: Exclude<VideoSource, { type: 'video' }>
+): Promise<{ success: boolean; data?: { title: string; videos: ListedVideo[] }; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.functions.invoke('resolve-videos', { body: source });
+
+    if (error instanceof FunctionsHttpError) {
+      // e.g. a private playlist or unknown channel
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) return { success: false, error: body.error };
+    }
+    if (error) throw error;
+
+    console.log(`📃 Resolved ${source.type} to ${data.data.videos.length} videos`);
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error('Error resolving video source:', error);
+    return { success: false, error: source.type === 'playlist' ? 'Could not load playlist' : 'Could not load channel' };
+  }
+};
+
 /**
  * Validate YouTube URL format
  */
@@ -217,244 +375,64 @@ export const validateYouTubeURL = (url: string): boolean => {
   return isValid;
 };
 
-/**
- * Generate AI summary and analysis from transcript
- */
-const generateAISummary = async (transcriptData: any): Promise<{
-  summary: string;
-  bulletPoints: string[];
-  keyQuote: string;
-  memorableQuotes?: {
-    best: string;
-    viral: string;
-    powerful: string;
-  };
-}> => {
-  // For now, we'll use the existing mock generation logic
-  // In production, this would call OpenAI or another AI service
-  
-  const hash = hashCode(transcriptData.videoId);
-  const title = transcriptData.title || 'Video Analysis';
-  
-  // Determine content complexity based on duration
-  const durationParts = transcriptData.duration?.split(':') || ['10', '00'];
-  let totalMinutes: number;
-  
-  if (durationParts.length === 3) {
-    // H:MM:SS format
-    totalMinutes = parseInt(durationParts[0]) * 60 + parseInt(durationParts[1]);
-  } else {
-    // MM:SS format
-    totalMinutes = parseInt(durationParts[0]);
-  }
-  
-  const contentDepth = totalMinutes < 10 ? 'basic' : 
-                      totalMinutes < 30 ? 'intermediate' : 
-                      totalMinutes < 90 ? 'advanced' : 'comprehensive';
-  
-  const summary = generateSummary(title, contentDepth, hash);
-  const bulletPoints = generateBulletPoints(contentDepth, hash);
-  const keyQuote = generateKeyQuote(contentDepth, hash);
-  const memorableQuotes = generateMemorableQuotes(contentDepth, hash);
-  
-  return {
-    summary,
-    bulletPoints,
-    keyQuote,
-    memorableQuotes
-  };
-};
+// Uploads without a YouTube video get an ID of their own, which can't be a YouTube ID
+const UPLOAD_VIDEO_ID_PREFIX = 'upload-';
 
-// Helper functions for generating content (existing logic)
-const hashCode = (str: string): number => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash);
-};
+// Shown for uploads without a YouTube video; served from public/
+export const UPLOAD_THUMBNAIL = '/caption-file-thumbnail.svg';
 
-const generateSummary = (title: string, depth: string, hash: number): string => {
-  const baseSummaries = {
-    basic: [
-      'This video provides essential insights into the topic, covering key concepts and practical applications that viewers can immediately implement.',
-      'A focused presentation that breaks down complex ideas into digestible segments, offering clear explanations and actionable takeaways.',
-      'This educational content delivers valuable information in an accessible format, highlighting the most important aspects of the subject matter.',
-    ],
-    intermediate: [
-      'This comprehensive video explores the topic in detail, providing both theoretical foundations and practical applications. The content covers essential concepts, methodologies, and real-world examples.',
-      'An in-depth analysis that examines multiple perspectives and approaches to the subject matter. The presentation includes case studies, expert insights, and actionable strategies.',
-      'This detailed exploration covers fundamental principles and advanced techniques, offering a balanced approach between theory and practice.',
-    ],
-    advanced: [
-      'This extensive video provides a thorough examination of the topic, covering advanced concepts, methodologies, and industry best practices. The content includes detailed analysis and expert commentary.',
-      'A comprehensive deep-dive that explores complex aspects of the subject matter, featuring expert insights, detailed methodologies, and extensive practical examples.',
-      'This detailed analysis examines the topic from multiple angles, providing extensive coverage of theoretical frameworks and practical applications.',
-    ],
-    comprehensive: [
-      'This extensive presentation offers a complete exploration of the topic, featuring comprehensive coverage of all major aspects, detailed analysis of complex concepts, and extensive practical applications.',
-      'A comprehensive examination that covers the topic exhaustively, including historical context, current developments, future trends, and practical applications.',
-      'This thorough analysis provides complete coverage of the topic, examining theoretical foundations, practical applications, and industry best practices.',
-    ]
-  };
-  
-  const summaries = baseSummaries[depth as keyof typeof baseSummaries] || baseSummaries.basic;
-  return summaries[hash % summaries.length];
-};
+export const createUploadVideoId = (): string =>
+  `${UPLOAD_VIDEO_ID_PREFIX}${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
 
-const generateBulletPoints = (depth: string, hash: number): string[] => {
-  const pointCounts = {
-    basic: { min: 3, max: 5 },
-    intermediate: { min: 5, max: 7 },
-    advanced: { min: 7, max: 10 },
-    comprehensive: { min: 10, max: 15 }
-  };
-  
-  const range = pointCounts[depth as keyof typeof pointCounts] || pointCounts.basic;
-  const numPoints = range.min + (hash % (range.max - range.min + 1));
-  
-  const allPoints = [
-    'Fundamental concepts and principles that form the foundation of effective implementation',
-    'Practical strategies and methodologies for achieving optimal results in real-world scenarios',
-    'Common challenges and proven solutions based on industry experience and best practices',
-    'Advanced techniques that enhance performance and deliver superior outcomes',
-    'Integration approaches that connect different systems and processes seamlessly',
-    'Quality assurance methods that ensure reliability and consistency in implementation',
-    'Performance optimization strategies that maximize efficiency and minimize resource usage',
-    'Risk management frameworks that identify and mitigate potential issues proactively',
-    'Scalability considerations for growing and adapting solutions over time',
-    'Cost-effective approaches that balance quality with budget constraints',
-    'Innovation opportunities that leverage emerging technologies and methodologies',
-    'Collaboration strategies that enhance team effectiveness and project success',
-    'Measurement and analytics frameworks for tracking progress and outcomes',
-    'Continuous improvement processes that drive ongoing optimization and refinement',
-    'Future-proofing strategies that ensure long-term viability and adaptability',
-  ];
-  
-  const selectedPoints: string[] = [];
-  for (let i = 0; i < numPoints; i++) {
-    const pointIndex = (hash + i * 17) % allPoints.length;
-    if (!selectedPoints.includes(allPoints[pointIndex])) {
-      selectedPoints.push(allPoints[pointIndex]);
-    }
-  }
-  
-  return selectedPoints;
-};
+export const isUploadVideoId = (videoId: string): boolean => videoId.startsWith(UPLOAD_VIDEO_ID_PREFIX);
 
-const generateKeyQuote = (depth: string, hash: number): string => {
-  const quotes = {
-    basic: [
-      'Success comes from understanding the fundamentals and applying them consistently.',
-      'The key to effective implementation is focusing on what truly matters.',
-      'Simple solutions often provide the most powerful and lasting results.',
-    ],
-    intermediate: [
-      'Mastery is achieved through the combination of solid fundamentals and practical experience.',
-      'The most effective approach balances theoretical knowledge with real-world application.',
-      'True understanding comes from seeing how all the pieces fit together in practice.',
-    ],
-    advanced: [
-      'Excellence is not a destination but a continuous journey of improvement and refinement.',
-      'The difference between good and great lies in the attention to detail and commitment to quality.',
-      'Innovation happens when deep expertise meets creative problem-solving and strategic thinking.',
-    ],
-    comprehensive: [
-      'Transformational results require a comprehensive understanding of both the technical and human elements involved.',
-      'The most successful implementations are those that consider not just what needs to be done, but how it impacts all stakeholders.',
-      'True expertise is demonstrated not just in knowing what to do, but in understanding why it works and how to adapt it to different contexts.',
-    ]
-  };
-  
-  const depthQuotes = quotes[depth as keyof typeof quotes] || quotes.basic;
-  return depthQuotes[hash % depthQuotes.length];
-};
+/**
+ * Summarize a transcript, suggest highlights and split it into chapters. Shared
+ * by fetched transcripts and uploaded caption files.
+ */
+const analyzeTranscript = async (source: {
+  videoId: string;
+  title?: string;
+  language: string;
+  duration?: string;
+  transcript: TranscriptSegment[];
+}) => {
+  // Generate AI summary from real transcript
+  console.log('🤖 Generating AI summary...');
+  const aiSummary = await summarizeTranscript({
+    videoId: source.videoId,
+    title: source.title,
+    language: source.language,
+    transcript: source.transcript
+  });
 
-const generateMemorableQuotes = (depth: string, hash: number): { best: string; viral: string; powerful: string } => {
-  const quoteCategories = {
-    best: {
-      basic: [
-        'The foundation of success is built on understanding the basics and executing them flawlessly.',
-        'Clarity of purpose transforms ordinary efforts into extraordinary achievements.',
-        'The most profound insights often come from the simplest observations.',
-      ],
-      intermediate: [
-        'Excellence emerges when preparation meets opportunity in the arena of focused action.',
-        'The bridge between knowledge and wisdom is built through deliberate practice and reflection.',
-        'True mastery reveals itself not in complexity, but in the elegant simplicity of expert execution.',
-      ],
-      advanced: [
-        'Innovation is not about creating something new, but about seeing familiar things in revolutionary ways.',
-        'The highest form of intelligence is the ability to adapt principles to ever-changing circumstances.',
-        'Expertise is the art of making the complex appear simple through deep understanding.',
-      ],
-      comprehensive: [
-        'Transformational leadership requires the courage to challenge assumptions while honoring timeless principles.',
-        'The most sustainable solutions emerge from the intersection of human insight and systematic thinking.',
-        'True wisdom lies in knowing not just what to do, but when to do it and why it matters.',
-      ]
-    },
-    viral: {
-      basic: [
-        'Stop overthinking and start doing - action beats perfection every time.',
-        'The secret to getting ahead is getting started, even when you don\'t feel ready.',
-        'Your biggest competitor is who you were yesterday.',
-      ],
-      intermediate: [
-        'Success isn\'t about having all the answers - it\'s about asking better questions.',
-        'The gap between where you are and where you want to be is called action.',
-        'Don\'t wait for opportunity to knock - build a door and open it yourself.',
-      ],
-      advanced: [
-        'The future belongs to those who can adapt faster than the rate of change.',
-        'Innovation happens when you stop asking "what if" and start asking "why not".',
-        'Your comfort zone is a beautiful place, but nothing ever grows there.',
-      ],
-      comprehensive: [
-        'The most dangerous phrase in any organization is "we\'ve always done it this way".',
-        'Disruption is not about technology - it\'s about reimagining what\'s possible.',
-        'The only way to make sense of change is to plunge into it, move with it, and join the dance.',
-      ]
-    },
-    powerful: {
-      basic: [
-        'Every expert was once a beginner who refused to give up.',
-        'The only impossible journey is the one you never begin.',
-        'Your potential is not determined by your past, but by your commitment to growth.',
-      ],
-      intermediate: [
-        'Greatness is not about being better than others - it\'s about being better than you used to be.',
-        'The most powerful force in the universe is a human being living in alignment with their purpose.',
-        'Success is not final, failure is not fatal - it is the courage to continue that counts.',
-      ],
-      advanced: [
-        'The ultimate measure of a person is not where they stand in moments of comfort, but where they stand in times of challenge.',
-        'Leadership is not about being in charge - it\'s about taking care of those in your charge.',
-        'The greatest revolution of our generation is the discovery that human beings can alter their lives by altering their attitudes.',
-      ],
-      comprehensive: [
-        'The price of greatness is responsibility - to yourself, to your team, and to the future you\'re creating.',
-        'True power is not in controlling others, but in empowering them to become the best versions of themselves.',
-        'The legacy you leave is not what you accomplish, but what you inspire others to accomplish after you\'re gone.',
-      ]
-    }
-  };
+  // Suggest highlights by comparing each segment against the summary
+  console.log('✨ Detecting highlight suggestions...');
+  const suggestedHighlights = detectHighlights(source.transcript, {
+    summary: aiSummary.summary,
+    bulletPoints: aiSummary.bulletPoints
+  });
+
+  // Split long videos into chapters at topic boundaries
+  console.log('📑 Detecting chapters...');
+  const chapters = detectChapters(source.transcript, {
+    totalDuration: parseDuration(source.duration) ?? undefined
+  });
 
-  const depthLevel = depth as keyof typeof quoteCategories.best;
-  
   return {
-    best: quoteCategories.best[depthLevel]?.[hash % quoteCategories.best[depthLevel].length] || quoteCategories.best.basic[0],
-    viral: quoteCategories.viral[depthLevel]?.[(hash + 1) % quoteCategories.viral[depthLevel].length] || quoteCategories.viral.basic[0],
-    powerful: quoteCategories.powerful[depthLevel]?.[(hash + 2) % quoteCategories.powerful[depthLevel].length] || quoteCategories.powerful.basic[0],
+    summary: aiSummary.summary,
+    bulletPoints: aiSummary.bulletPoints,
+    keyQuote: aiSummary.keyQuote,
+    memorableQuotes: aiSummary.memorableQuotes,
+    suggestedHighlights,
+    chapters
   };
 };
 
 /**
  * Main video analysis function that fetches real transcript and generates AI summary
  */
-export const analyzeVideo = async (url: string): Promise<ApiResponse> => {
+export const analyzeVideo = async (url: string, track?: CaptionTrackChoice): Promise<ApiResponse> => {
   console.log('🚀 Starting video analysis for URL:', url);
   
   const videoId = extractVideoId(url);
@@ -472,7 +450,7 @@ export const analyzeVideo = async (url: string): Promise<ApiResponse> => {
   try {
     // Fetch real transcript
     console.log('📡 Fetching real transcript...');
-    const transcriptResult = await fetchTranscriptWithFallback(url);
+    const transcriptResult = await fetchTranscriptWithFallback(url, track);
     
     if (!transcriptResult.success || !transcriptResult.data) {
       console.error('❌ Failed to fetch transcript:', transcriptResult.error);
@@ -489,10 +467,8 @@ export const analyzeVideo = async (url: string): Promise<ApiResponse> => {
       language: transcriptData.language
     });
     
-    // Generate AI summary from real transcript
-    console.log('🤖 Generating AI summary...');
-    const aiSummary = await generateAISummary(transcriptData);
-    
+    const analysis = await analyzeTranscript(transcriptData);
+
     // Combine transcript data with AI-generated summary
     const videoData: VideoSummary = {
       videoId: transcriptData.videoId,
@@ -501,10 +477,11 @@ export const analyzeVideo = async (url: string): Promise<ApiResponse> => {
       duration: transcriptData.duration || '0:00',
       channelName: transcriptData.channelName || 'Unknown Channel',
       language: transcriptData.language,
-      summary: aiSummary.summary,
-      bulletPoints: aiSummary.bulletPoints,
-      keyQuote: aiSummary.keyQuote,
-      memorableQuotes: aiSummary.memorableQuotes,
+      captionTrack: transcriptData.track
+        ? { languageCode: transcriptData.track.languageCode, kind: transcriptData.track.kind, name: transcriptData.track.name }
+        : null,
+      transcriptSource: 'youtube',
+      ...analysis,
       transcript: transcriptData.transcript,
       highlightedSegments: []
     };
@@ -522,4 +499,53 @@ export const analyzeVideo = async (url: string): Promise<ApiResponse> => {
       error: 'Failed to analyze video. Please try again.'
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Analyze a parsed caption file the same way as a fetched transcript. Attached
+ * to its YouTube video when it has one, otherwise to the given upload ID.
+ */
+export const analyzeUploadedCaptions = async (
+  upload: UploadedCaptions,
+  videoId: string
+): Promise<ApiResponse> => {
+  console.log('🚀 Starting analysis of uploaded captions:', upload.fileName);
+
+  try {
+    const last = upload.transcript[upload.transcript.length - 1];
+    const duration = last ? formatTimestamp(last.start + (last.duration ?? 0)) : '0:00';
+    const analysis = await analyzeTranscript({
+      videoId,
+      title: upload.title,
+      language: upload.language,
+      duration,
+      transcript: upload.transcript
+    });
+
+    const videoData: VideoSummary = {
+      videoId,
+      title: upload.title || upload.fileName,
+      thumbnail: upload.videoId ? `https://img.youtube.com/vi/${upload.videoId}/maxresdefault.jpg` : UPLOAD_THUMBNAIL,
+      duration,
+      channelName: 'Uploaded captions',
+      language: upload.language,
+      captionTrack: { languageCode: upload.language, kind: 'manual', name: upload.fileName },
+      transcriptSource: 'caption_file',
+      ...analysis,
+      transcript: upload.transcript,
+      highlightedSegments: []
+    };
+
+    console.log('🎉 Caption file analysis completed successfully');
+    return {
+      success: true,
+      data: videoData
+    };
+  } catch (error) {
+    console.error('❌ Error analyzing uploaded captions:', error);
+    return {
+      success: false,
+      error: 'Failed to analyze the caption file. Please try again.'
+    };
+  }
+};
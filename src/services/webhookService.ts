@@ -0,0 +1,231 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { checkSupabaseConnection } from '../lib/supabase';
+
+export type WebhookEventType = 'summary.created' | 'summary.translated' | 'share.viewed' | 'quota.exceeded';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export const WEBHOOK_EVENTS: { type: WebhookEventType; description: string }[] = [
+  { type: 'summary.created', description: 'A video summary was saved' },
+  { type: 'summary.translated', description: 'A summary was translated into a new language' },
+  { type: 'share.viewed', description: 'Someone opened one of your share links' },
+  { type: 'quota.exceeded', description: 'You reached your daily or monthly limit' },
+];
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface WebhookAttempt {
+  id: string;
+  attempt: number;
+  statusCode: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  attemptedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: string;
+  lastStatusCode: number | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  attempts: WebhookAttempt[];
+}
+
+export const getWebhookEndpoints = async (): Promise<{ success: boolean; data?: WebhookEndpoint[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client
+      .from('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const endpoints: WebhookEndpoint[] = (data || []).map(item => ({
+      id: item.id,
+      url: item.url,
+      description: item.description,
+      secret: item.secret,
+      events: item.events,
+      isActive: item.is_active,
+      createdAt: item.created_at,
+    }));
+
+    return { success: true, data: endpoints };
+  } catch (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return { success: false, error: 'Failed to fetch webhook endpoints' };
+  }
+};
+
+/**
+ * Endpoints are created by the `webhook-endpoints` function, which refuses URLs
+ * that aren't https or that resolve to private addresses (apart from a receiver
+ * on the developer's machine, on a local Supabase stack)
+ */
+export const createWebhookEndpoint = async (
+  endpoint: { url: string; description?: string; events: WebhookEventType[] }
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client.functions.invoke('webhook-endpoints', {
+      body: {
+        url: endpoint.url.trim(),
+        description: endpoint.description?.trim() || null,
+        events: endpoint.events,
+      },
+    });
+
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) return { success: false, error: body.error };
+    }
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return { success: false, error: 'Failed to create webhook endpoint' };
+  }
+};
+
+export const updateWebhookEndpoint = async (
+  endpointId: string,
+  updates: { events?: WebhookEventType[]; isActive?: boolean }
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client
+      .from('webhook_endpoints')
+      .update({
+        ...(updates.events ? { events: updates.events } : {}),
+        ...(updates.isActive !== undefined ? { is_active: updates.isActive } : {}),
+      })
+      .eq('id', endpointId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+    return { success: false, error: 'Failed to update webhook endpoint' };
+  }
+};
+
+export const deleteWebhookEndpoint = async (endpointId: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', endpointId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return { success: false, error: 'Failed to delete webhook endpoint' };
+  }
+};
+
+/**
+ * Most recent deliveries with every attempt's response code, newest first
+ */
+export const getWebhookDeliveries = async (
+  options: { endpointId?: string; limit?: number } = {}
+): Promise<{ success: boolean; data?: WebhookDelivery[]; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    let query = client
+      .from('webhook_deliveries')
+      .select('*, webhook_delivery_attempts(*)');
+
+    if (options.endpointId) {
+      query = query.eq('endpoint_id', options.endpointId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (error) throw error;
+
+    const deliveries: WebhookDelivery[] = (data || []).map(item => ({
+      id: item.id,
+      endpointId: item.endpoint_id,
+      eventId: item.event_id,
+      eventType: item.event_type,
+      payload: item.payload,
+      status: item.status,
+      attemptCount: item.attempt_count,
+      nextAttemptAt: item.next_attempt_at,
+      lastStatusCode: item.last_status_code,
+      redeliveryOf: item.redelivery_of,
+      createdAt: item.created_at,
+      attempts: (item.webhook_delivery_attempts || [])
+        .map((attempt: Record<string, unknown>) => ({
+          id: attempt.id as string,
+          attempt: attempt.attempt as number,
+          statusCode: attempt.status_code as number | null,
+          responseBody: attempt.response_body as string | null,
+          error: attempt.error as string | null,
+          durationMs: attempt.duration_ms as number | null,
+          attemptedAt: attempt.attempted_at as string,
+        }))
+        .sort((a: WebhookAttempt, b: WebhookAttempt) => b.attempt - a.attempt),
+    }));
+
+    return { success: true, data: deliveries };
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return { success: false, error: 'Failed to fetch webhook deliveries' };
+  }
+};
+
+/**
+ * Send the user's due deliveries now instead of waiting for the scheduled run
+ */
+export const dispatchWebhooks = async (): Promise<void> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { error } = await client.functions.invoke('webhook-dispatch', { body: {} });
+    if (error) throw error;
+  } catch (error) {
+    console.warn('⚠️ Failed to dispatch webhooks:', error);
+  }
+};
+
+/**
+ * Queue a copy of a delivery (same event id and payload) and send it right away
+ */
+export const redeliverWebhook = async (deliveryId: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const client = checkSupabaseConnection();
+    const { data, error } = await client.rpc('redeliver_webhook', { p_delivery_id: deliveryId });
+
+    if (error) throw error;
+    if (data.status !== 'queued') {
+      return { success: false, error: 'Delivery not found' };
+    }
+
+    await dispatchWebhooks();
+    return { success: true };
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return { success: false, error: 'Failed to redeliver webhook' };
+  }
+};
@@ -0,0 +1,121 @@
+import { TranscriptSegment, HighlightedSegment, Chapter } from './index';
+
+/*
+ * Request and response shapes of the public `/v1` REST API (the `api` edge
+ * function). `npm run openapi` generates `public/openapi.json` from this file,
+ * so keep every type here plain: interfaces, string literal unions and arrays.
+ */
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'insufficient_scope'
+  | 'ip_not_allowed'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'feature_not_available'
+  | 'video_too_long'
+  | 'workspace_conflict'
+  | 'usage_limit_reached'
+  | 'rate_limited'
+  | 'transcript_unavailable'
+  | 'translation_unavailable'
+  | 'internal_error';
+
+export type TranscriptFormat = 'json' | 'txt' | 'srt' | 'vtt';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  details?: { [key: string]: unknown };
+}
+
+/** Every non-2xx response has this body */
+export interface ApiErrorResponse {
+  success: false;
+  error: ApiError;
+}
+
+export interface ApiPagination {
+  /** Pass as `cursor` to fetch the next page; null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+  limit: number;
+}
+
+export interface AnalyzeVideoRequest {
+  /** YouTube URL or 11 character video ID */
+  url: string;
+}
+
+export interface CreateTranslationRequest {
+  /** ISO 639-1 language code, e.g. "es" */
+  targetLanguage: string;
+}
+
+export interface ApiSummaryListItem {
+  id: string;
+  videoId: string;
+  title: string;
+  thumbnail: string;
+  duration: string;
+  channelName: string;
+  language: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApiSummary extends ApiSummaryListItem {
+  summary: string;
+  bulletPoints: string[];
+  keyQuote: string;
+  highlightedSegments: HighlightedSegment[];
+  chapters: Chapter[];
+  /** Translated summaries keyed by language code */
+  translatedSummary: { [languageCode: string]: string };
+}
+
+export interface ApiTranscript {
+  summaryId: string;
+  videoId: string;
+  language: string;
+  segments: TranscriptSegment[];
+}
+
+export interface ApiTranslation {
+  summaryId: string;
+  language: string;
+  summary: string;
+  transcript: TranscriptSegment[];
+}
+
+export interface ApiDeletedSummary {
+  id: string;
+  deleted: boolean;
+}
+
+export interface ApiSummaryResponse {
+  success: true;
+  data: ApiSummary;
+}
+
+export interface ApiSummaryListResponse {
+  success: true;
+  data: ApiSummaryListItem[];
+  pagination: ApiPagination;
+}
+
+export interface ApiTranscriptResponse {
+  success: true;
+  data: ApiTranscript;
+}
+
+export interface ApiTranslationResponse {
+  success: true;
+  data: ApiTranslation;
+}
+
+export interface ApiDeleteResponse {
+  success: true;
+  data: ApiDeletedSummary;
+}
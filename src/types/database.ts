@@ -56,4 +56,5 @@ export interface TranscriptSegment {
   timestamp: string;
   text: string;
   start: number;
+  duration?: number;
 }
\ No newline at end of file
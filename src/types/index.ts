@@ -14,18 +14,78 @@ export interface VideoSummary {
   };
   transcript: TranscriptSegment[];
   videoId: string;
+  teamOwnerId?: string | null;
   createdAt?: string;
   updatedAt?: string;
   highlightedSegments?: HighlightedSegment[];
+  suggestedHighlights?: HighlightedSegment[];
+  chapters?: Chapter[];
   language?: string;
+  // The caption track the transcript came from; missing on older summaries
+  captionTrack?: CaptionTrackChoice | null;
+  transcriptSource?: TranscriptSource;
   translatedSummary?: { [languageCode: string]: string };
   translatedTranscript?: { [languageCode: string]: TranscriptSegment[] };
 }
 
+// 'manual' captions were uploaded by the creator; 'asr' are YouTube's automatic captions
+export type CaptionKind = 'manual' | 'asr';
+
+// A video has at most one track of each kind per language, so these identify it
+export interface CaptionTrackChoice {
+  languageCode: string;
+  kind: CaptionKind;
+  name?: string;
+}
+
+export interface CaptionTrack extends CaptionTrackChoice {
+  // YouTube's label, e.g. "English (auto-generated)"
+  name: string;
+  isTranslatable: boolean;
+}
+
+// 'caption_file' transcripts were parsed from a file the user uploaded;
+// 'speech_to_text' ones were transcribed from an uploaded recording
+export type TranscriptSource = 'youtube' | 'caption_file' | 'speech_to_text';
+
+/**
+ * A parsed caption file, ready to analyze like a fetched transcript
+ */
+export interface UploadedCaptions {
+  fileName: string;
+  format: 'srt' | 'vtt' | 'sbv';
+  // The YouTube video the captions belong to, or null for a standalone upload
+  videoId: string | null;
+  title: string;
+  language: string;
+  transcript: TranscriptSegment[];
+}
+
+/**
+ * A recording in storage, waiting to be transcribed
+ */
+export interface MediaUpload {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  // Null lets the speech-to-text provider detect it
+  language: string | null;
+}
+
+export interface CaptionWord {
+  text: string;
+  start: number;
+  duration: number;
+}
+
 export interface TranscriptSegment {
   timestamp: string;
   text: string;
   start: number;
+  duration?: number;
+  // When the captions time each word, as YouTube's automatic captions do
+  words?: CaptionWord[];
 }
 
 export interface HighlightedSegment {
@@ -34,6 +94,15 @@ export interface HighlightedSegment {
   timestamp: string;
   text: string;
   reason: string;
+  source?: 'user' | 'auto';
+  score?: number;
+}
+
+export interface Chapter {
+  start: number;
+  end: number;
+  title: string;
+  summary: string;
 }
 
 export interface ApiResponse {
@@ -0,0 +1,215 @@
+import { TranscriptSegment } from '../types';
+import { formatTimestamp } from './timeUtils';
+
+/**
+ * Parse caption files users upload (SubRip, WebVTT and YouTube SBV) into
+ * transcript segments. Problems are collected with the 1-based line they were
+ * found on rather than thrown, so the user can fix them all in one go.
+ */
+
+export type CaptionFileFormat = 'srt' | 'vtt' | 'sbv';
+
+export interface CaptionParseIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedCaptionFile {
+  format: CaptionFileFormat;
+  segments: TranscriptSegment[];
+  errors: CaptionParseIssue[];
+}
+
+export const CAPTION_FILE_EXTENSIONS = ['.srt', '.vtt', '.sbv'];
+
+// Larger files are almost certainly not caption files
+export const MAX_CAPTION_FILE_BYTES = 5 * 1024 * 1024;
+
+// Past this many the rest are usually the same mistake repeated
+const MAX_REPORTED_ERRORS = 20;
+
+interface Block {
+  // Line number of the block's first line
+  line: number;
+  lines: string[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', lrm: '', rlm: '',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.substring(2), 16) : parseInt(body.substring(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[body] ?? entity;
+  });
+
+/**
+ * Join a cue's lines and drop styling: HTML-like tags (`<i>`, `<font>`,
+ * WebVTT's `<v Speaker>` and `<00:00:01.000>`) and SubRip's `{\an8}` positions
+ */
+const cleanCueText = (lines: string[]): string =>
+  decodeEntities(
+    lines
+      .join(' ')
+      .replace(/<\/?[a-zA-Z][^<>]*>|<\d[\d:.]*>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Split into blank-line separated blocks, remembering where each starts
+ */
+const splitBlocks = (lines: string[]): Block[] => {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  lines.forEach((text, index) => {
+    if (text.trim() === '') {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(text);
+  });
+
+  return blocks;
+};
+
+/**
+ * `HH:MM:SS,mmm` / `HH:MM:SS.mmm`, or `MM:SS.mmm` when hours may be left out
+ * (WebVTT, SBV). Returns seconds, or null when the text is not a timestamp.
+ */
+const parseClock = (text: string, allowShort: boolean): number | null => {
+  const match = text.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match || (!match[1] && !allowShort)) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  const milliseconds = fraction ? Number(fraction.padEnd(3, '0')) : 0;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + milliseconds / 1000;
+};
+
+const describeExpected: Record<CaptionFileFormat, string> = {
+  srt: '00:00:01,000 --> 00:00:04,000',
+  vtt: '00:00:01.000 --> 00:00:04.000',
+  sbv: '0:00:01.000,0:00:04.000',
+};
+
+/**
+ * The start and end of a timing line, or a message saying what is wrong with it
+ */
+const parseTimingLine = (
+  text: string,
+  format: CaptionFileFormat
+): { start: number; end: number } | { error: string } => {
+  const parts = format === 'sbv' ? text.split(',') : text.split('-->');
+  if (parts.length !== 2) {
+    return { error: `Expected a timing line like "${describeExpected[format]}"` };
+  }
+
+  // WebVTT cue settings ("align:start position:10%") follow the end time
+  const endText = format === 'vtt' ? parts[1].trim().split(/\s+/)[0] : parts[1];
+  const allowShort = format !== 'srt';
+  const start = parseClock(parts[0], allowShort);
+  const end = parseClock(endText, allowShort);
+
+  if (start === null) return { error: `Invalid start time "${parts[0].trim()}"` };
+  if (end === null) return { error: `Invalid end time "${endText.trim()}"` };
+  if (end < start) return { error: `End time ${endText.trim()} is before start time ${parts[0].trim()}` };
+  return { start, end };
+};
+
+const isTimingLine = (text: string, format: CaptionFileFormat) =>
+  format === 'sbv' ? /^\s*\d+:\d{2}:\d{2}(?:\.\d+)?,\d/.test(text) : text.includes('-->');
+
+/**
+ * Guess the format from the file name, then from the content
+ */
+export const detectCaptionFileFormat = (content: string, fileName = ''): CaptionFileFormat | null => {
+  const extension = fileName.toLowerCase().match(/\.(srt|vtt|sbv)$/);
+  if (extension) return extension[1] as CaptionFileFormat;
+
+  const text = content.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('WEBVTT')) return 'vtt';
+  if (/^\s*\d+:\d{2}:\d{2}[.,]\d+\s*-->/m.test(text)) return 'srt';
+  if (/^\s*\d+:\d{2}:\d{2}\.\d+,\d+:\d{2}:\d{2}\.\d+\s*$/m.test(text)) return 'sbv';
+  return null;
+};
+
+export const parseCaptionFile = (content: string, fileName = ''): ParsedCaptionFile => {
+  const format = detectCaptionFileFormat(content, fileName) ?? 'srt';
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const errors: CaptionParseIssue[] = [];
+  const cues: { start: number; end: number; text: string }[] = [];
+  const addError = (line: number, message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, message });
+  };
+
+  let blocks = splitBlocks(lines);
+
+  if (format === 'vtt') {
+    if (!lines[0]?.startsWith('WEBVTT')) {
+      addError(1, 'A WebVTT file must start with "WEBVTT"');
+      return { format, segments: [], errors };
+    }
+    // The header runs up to the first blank line
+    blocks = blocks.slice(1);
+  }
+
+  blocks.forEach(block => {
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(block.lines[0])) return;
+
+    // SubRip numbers every cue and WebVTT may name one; either comes before the timing
+    let timingIndex = 0;
+    if (format !== 'sbv' && !isTimingLine(block.lines[0], format) && block.lines.length > 1) {
+      if (format === 'srt' && !/^\d+$/.test(block.lines[0].trim())) {
+        addError(block.line, `Expected a cue number, found "${block.lines[0].trim()}"`);
+        return;
+      }
+      timingIndex = 1;
+    }
+
+    const lineNumber = block.line + timingIndex;
+    const timing = parseTimingLine(block.lines[timingIndex], format);
+    if ('error' in timing) {
+      addError(lineNumber, timing.error);
+      return;
+    }
+
+    const textLines = block.lines.slice(timingIndex + 1);
+    const strayTiming = textLines.findIndex(line => isTimingLine(line, format));
+    if (strayTiming >= 0) {
+      addError(lineNumber + 1 + strayTiming, 'Expected a blank line before this cue');
+      return;
+    }
+
+    const text = cleanCueText(textLines);
+    if (!text) return;
+
+    cues.push({ start: timing.start, end: timing.end, text });
+  });
+
+  if (cues.length === 0 && errors.length === 0) {
+    addError(1, 'The file has no captions');
+  }
+
+  const segments: TranscriptSegment[] = cues
+    .sort((a, b) => a.start - b.start)
+    .map(cue => ({
+      timestamp: formatTimestamp(cue.start),
+      text: cue.text,
+      start: Math.round(cue.start * 1000) / 1000,
+      duration: Math.round((cue.end - cue.start) * 1000) / 1000,
+    }));
+
+  return { format, segments, errors };
+};
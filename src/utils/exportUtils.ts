@@ -1,247 +1,592 @@
 import jsPDF from 'jspdf';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
-import { VideoSummary, HighlightedSegment } from '../types';
+import { VideoSummary, HighlightedSegment, Chapter, TranscriptSegment } from '../types';
+import { formatTimestamp } from './timeUtils';
 
-export const exportToTxt = async (
-  videoData: VideoSummary,
-  highlightedSegments: HighlightedSegment[] = [],
-  filename: string
-) => {
-  const content = generateTextContent(videoData, highlightedSegments);
-  
-  const blob = new Blob([content], { type: 'text/plain' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `${filename}.txt`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-};
+export type ExportFormat = 'txt' | 'pdf' | 'docx' | 'md' | 'json' | 'html';
+
+export type ExportSection = 'summary' | 'bulletPoints' | 'quotes' | 'highlights' | 'chapters' | 'transcript';
+
+export const EXPORT_SECTIONS: { section: ExportSection; label: string }[] = [
+  { section: 'summary', label: 'Summary' },
+  { section: 'bulletPoints', label: 'Key learning points' },
+  { section: 'quotes', label: 'Quotes' },
+  { section: 'highlights', label: 'Highlighted segments' },
+  { section: 'chapters', label: 'Chapters' },
+  { section: 'transcript', label: 'Full transcript' },
+];
+
+export const ALL_EXPORT_SECTIONS: ExportSection[] = EXPORT_SECTIONS.map(({ section }) => section);
+
+/**
+ * Format-neutral view of a video summary. Every renderer works from this so
+ * the section layout is defined once; sections the user left out are undefined.
+ */
+export interface ExportDocument {
+  title: string;
+  metadata: {
+    videoId: string;
+    url: string;
+    channelName: string;
+    duration: string;
+    language: string;
+    generatedAt: string;
+  };
+  summary?: string;
+  bulletPoints?: string[];
+  quotes?: {
+    keyQuote: string;
+    best?: string;
+    viral?: string;
+    powerful?: string;
+  };
+  highlights?: HighlightedSegment[];
+  chapters?: Chapter[];
+  transcript?: TranscriptSegment[];
+}
 
-export const exportToPdf = async (
+export interface ExportRenderer {
+  extension: string;
+  mimeType: string;
+  render: (doc: ExportDocument) => Promise<Blob>;
+}
+
+export const buildExportDocument = (
   videoData: VideoSummary,
   highlightedSegments: HighlightedSegment[] = [],
-  filename: string
-) => {
-  const pdf = new jsPDF();
-  const pageWidth = pdf.internal.pageSize.getWidth();
-  const margin = 20;
-  const maxWidth = pageWidth - 2 * margin;
-  let yPosition = margin;
-
-  // Helper function to add text with word wrapping
-  const addText = (text: string, fontSize: number = 12, isBold: boolean = false) => {
-    pdf.setFontSize(fontSize);
-    if (isBold) {
-      pdf.setFont(undefined, 'bold');
-    } else {
-      pdf.setFont(undefined, 'normal');
-    }
-    
-    const lines = pdf.splitTextToSize(text, maxWidth);
-    
-    // Check if we need a new page
-    if (yPosition + (lines.length * fontSize * 0.5) > pdf.internal.pageSize.getHeight() - margin) {
-      pdf.addPage();
-      yPosition = margin;
-    }
-    
-    pdf.text(lines, margin, yPosition);
-    yPosition += lines.length * fontSize * 0.5 + 5;
+  sections: ExportSection[] = ALL_EXPORT_SECTIONS
+): ExportDocument => {
+  const includes = (section: ExportSection) => sections.includes(section);
+  const chapters = videoData.chapters || [];
+
+  return {
+    title: videoData.title,
+    metadata: {
+      videoId: videoData.videoId,
+      url: `https://www.youtube.com/watch?v=${videoData.videoId}`,
+      channelName: videoData.channelName,
+      duration: videoData.duration,
+      language: videoData.language || 'en',
+      generatedAt: new Date().toISOString(),
+    },
+    summary: includes('summary') ? videoData.summary : undefined,
+    bulletPoints: includes('bulletPoints') ? videoData.bulletPoints : undefined,
+    quotes: includes('quotes') && videoData.keyQuote ? {
+      keyQuote: videoData.keyQuote,
+      ...videoData.memorableQuotes,
+    } : undefined,
+    highlights: includes('highlights') && highlightedSegments.length > 0 ? highlightedSegments : undefined,
+    chapters: includes('chapters') && chapters.length > 0 ? chapters : undefined,
+    transcript: includes('transcript') ? videoData.transcript : undefined,
   };
+};
+
+/**
+ * YouTube link that starts playback at the given second
+ */
+export const timestampUrl = (doc: ExportDocument, seconds: number): string =>
+  `${doc.metadata.url}&t=${Math.floor(seconds)}s`;
+
+const extraQuotes = (quotes: NonNullable<ExportDocument['quotes']>) =>
+  [
+    { label: 'Best quote', text: quotes.best },
+    { label: 'Viral quote', text: quotes.viral },
+    { label: 'Powerful quote', text: quotes.powerful },
+  ].filter((quote): quote is { label: string; text: string } => !!quote.text && quote.text !== quotes.keyQuote);
+
+const textRenderer: ExportRenderer = {
+  extension: 'txt',
+  mimeType: 'text/plain',
+  render: async (doc) => {
+    const heading = (text: string) => `${text}\n${'-'.repeat(text.length)}\n`;
+
+    let content = `${doc.title}\n`;
+    content += `${'='.repeat(doc.title.length)}\n\n`;
+    content += `Channel: ${doc.metadata.channelName}\n`;
+    content += `Duration: ${doc.metadata.duration}\n`;
+    content += `Generated: ${new Date(doc.metadata.generatedAt).toLocaleDateString()}\n\n`;
+
+    if (doc.chapters) {
+      content += heading('TABLE OF CONTENTS');
+      doc.chapters.forEach((chapter, index) => {
+        content += `${index + 1}. [${formatTimestamp(chapter.start)}] ${chapter.title}\n`;
+        if (chapter.summary) {
+          content += `   ${chapter.summary}\n`;
+        }
+      });
+      content += `\n`;
+    }
+
+    if (doc.summary) {
+      content += heading('SUMMARY');
+      content += `${doc.summary}\n\n`;
+    }
+
+    if (doc.bulletPoints) {
+      content += heading('KEY LEARNING POINTS');
+      doc.bulletPoints.forEach(point => {
+        content += `• ${point}\n`;
+      });
+      content += `\n`;
+    }
+
+    if (doc.quotes) {
+      content += heading('MEMORABLE QUOTE');
+      content += `"${doc.quotes.keyQuote}"\n\n`;
+      extraQuotes(doc.quotes).forEach(quote => {
+        content += `${quote.label}: "${quote.text}"\n`;
+      });
+      content += extraQuotes(doc.quotes).length > 0 ? `\n` : '';
+    }
 
-  // Title
-  addText(videoData.title, 18, true);
-  addText(`Channel: ${videoData.channelName}`, 12);
-  addText(`Duration: ${videoData.duration}`, 12);
-  yPosition += 10;
-
-  // Summary
-  addText('SUMMARY', 14, true);
-  addText(videoData.summary, 12);
-  yPosition += 10;
-
-  // Bullet Points
-  addText('KEY LEARNING POINTS', 14, true);
-  videoData.bulletPoints.forEach(point => {
-    addText(`• ${point}`, 12);
-  });
-  yPosition += 10;
-
-  // Key Quote
-  addText('MEMORABLE QUOTE', 14, true);
-  addText(`"${videoData.keyQuote}"`, 12);
-  yPosition += 10;
-
-  // Highlighted Segments
-  if (highlightedSegments.length > 0) {
-    addText('HIGHLIGHTED SEGMENTS', 14, true);
-    highlightedSegments.forEach(segment => {
-      addText(`[${segment.timestamp}] ${segment.text}`, 10);
-      addText(`Reason: ${segment.reason}`, 9);
+    if (doc.highlights) {
+      content += heading('HIGHLIGHTED SEGMENTS');
+      doc.highlights.forEach(segment => {
+        content += `[${segment.timestamp}] ${segment.text}\n`;
+        content += `Reason: ${segment.reason}\n\n`;
+      });
+    }
+
+    if (doc.transcript) {
+      content += heading('FULL TRANSCRIPT');
+      doc.transcript.forEach(segment => {
+        content += `[${segment.timestamp}] ${segment.text}\n\n`;
+      });
+    }
+
+    return new Blob([content], { type: 'text/plain;charset=utf-8' });
+  },
+};
+
+const pdfRenderer: ExportRenderer = {
+  extension: 'pdf',
+  mimeType: 'application/pdf',
+  render: async (doc) => {
+    const pdf = new jsPDF();
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const margin = 20;
+    const maxWidth = pageWidth - 2 * margin;
+    let yPosition = margin;
+
+    // Helper function to add text with word wrapping
+    const addText = (text: string, fontSize: number = 12, isBold: boolean = false) => {
+      pdf.setFontSize(fontSize);
+      pdf.setFont('helvetica', isBold ? 'bold' : 'normal');
+
+      const lines = pdf.splitTextToSize(text, maxWidth);
+
+      // Check if we need a new page
+      if (yPosition + (lines.length * fontSize * 0.5) > pdf.internal.pageSize.getHeight() - margin) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+
+      pdf.text(lines, margin, yPosition);
+      yPosition += lines.length * fontSize * 0.5 + 5;
+    };
+
+    // Title
+    addText(doc.title, 18, true);
+    addText(`Channel: ${doc.metadata.channelName}`, 12);
+    addText(`Duration: ${doc.metadata.duration}`, 12);
+    yPosition += 10;
+
+    if (doc.chapters) {
+      addText('TABLE OF CONTENTS', 14, true);
+      doc.chapters.forEach((chapter, index) => {
+        addText(`${index + 1}. [${formatTimestamp(chapter.start)}] ${chapter.title}`, 12);
+        if (chapter.summary) {
+          addText(chapter.summary, 10);
+        }
+      });
+      yPosition += 10;
+    }
+
+    if (doc.summary) {
+      addText('SUMMARY', 14, true);
+      addText(doc.summary, 12);
+      yPosition += 10;
+    }
+
+    if (doc.bulletPoints) {
+      addText('KEY LEARNING POINTS', 14, true);
+      doc.bulletPoints.forEach(point => {
+        addText(`• ${point}`, 12);
+      });
+      yPosition += 10;
+    }
+
+    if (doc.quotes) {
+      addText('MEMORABLE QUOTE', 14, true);
+      addText(`"${doc.quotes.keyQuote}"`, 12);
+      extraQuotes(doc.quotes).forEach(quote => {
+        addText(`${quote.label}: "${quote.text}"`, 10);
+      });
+      yPosition += 10;
+    }
+
+    if (doc.highlights) {
+      addText('HIGHLIGHTED SEGMENTS', 14, true);
+      doc.highlights.forEach(segment => {
+        addText(`[${segment.timestamp}] ${segment.text}`, 10);
+        addText(`Reason: ${segment.reason}`, 9);
+        yPosition += 5;
+      });
       yPosition += 5;
-    });
-  }
+    }
+
+    if (doc.transcript) {
+      addText('FULL TRANSCRIPT', 14, true);
+      doc.transcript.forEach(segment => {
+        addText(`[${segment.timestamp}] ${segment.text}`, 10);
+      });
+    }
 
-  pdf.save(`${filename}.pdf`);
+    return pdf.output('blob');
+  },
 };
 
-export const exportToDocx = async (
-  videoData: VideoSummary,
-  highlightedSegments: HighlightedSegment[] = [],
-  filename: string
-) => {
-  const doc = new Document({
-    sections: [{
-      properties: {},
-      children: [
-        // Title
-        new Paragraph({
-          text: videoData.title,
-          heading: HeadingLevel.TITLE,
-        }),
-        
-        // Video Info
-        new Paragraph({
-          children: [
-            new TextRun({ text: 'Channel: ', bold: true }),
-            new TextRun(videoData.channelName),
-          ],
-        }),
-        new Paragraph({
-          children: [
-            new TextRun({ text: 'Duration: ', bold: true }),
-            new TextRun(videoData.duration),
-          ],
-        }),
-        new Paragraph({ text: '' }), // Empty line
-
-        // Summary
-        new Paragraph({
-          text: 'SUMMARY',
-          heading: HeadingLevel.HEADING_1,
-        }),
-        new Paragraph({
-          text: videoData.summary,
-        }),
-        new Paragraph({ text: '' }),
-
-        // Bullet Points
-        new Paragraph({
-          text: 'KEY LEARNING POINTS',
-          heading: HeadingLevel.HEADING_1,
-        }),
-        ...videoData.bulletPoints.map(point => 
+const docxRenderer: ExportRenderer = {
+  extension: 'docx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  render: async (doc) => {
+    const heading = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_1 });
+    const spacer = () => new Paragraph({ text: '' });
+
+    const document = new Document({
+      sections: [{
+        properties: {},
+        children: [
+          // Title
           new Paragraph({
-            text: `• ${point}`,
-          })
-        ),
-        new Paragraph({ text: '' }),
-
-        // Key Quote
-        new Paragraph({
-          text: 'MEMORABLE QUOTE',
-          heading: HeadingLevel.HEADING_1,
-        }),
-        new Paragraph({
-          children: [
-            new TextRun({ text: `"${videoData.keyQuote}"`, italics: true }),
-          ],
-        }),
-        new Paragraph({ text: '' }),
-
-        // Highlighted Segments
-        ...(highlightedSegments.length > 0 ? [
+            text: doc.title,
+            heading: HeadingLevel.TITLE,
+          }),
+
+          // Video Info
           new Paragraph({
-            text: 'HIGHLIGHTED SEGMENTS',
-            heading: HeadingLevel.HEADING_1,
+            children: [
+              new TextRun({ text: 'Channel: ', bold: true }),
+              new TextRun(doc.metadata.channelName),
+            ],
           }),
-          ...highlightedSegments.flatMap(segment => [
-            new Paragraph({
-              children: [
-                new TextRun({ text: `[${segment.timestamp}] `, bold: true }),
-                new TextRun(segment.text),
-              ],
-            }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: 'Duration: ', bold: true }),
+              new TextRun(doc.metadata.duration),
+            ],
+          }),
+          spacer(),
+
+          // Table of Contents
+          ...(doc.chapters ? [
+            heading('TABLE OF CONTENTS'),
+            ...doc.chapters.flatMap((chapter, index) => [
+              new Paragraph({
+                children: [
+                  new TextRun({ text: `${index + 1}. [${formatTimestamp(chapter.start)}] `, bold: true }),
+                  new TextRun({ text: chapter.title, bold: true }),
+                ],
+              }),
+              ...(chapter.summary ? [
+                new Paragraph({
+                  children: [new TextRun({ text: chapter.summary, size: 20 })],
+                }),
+              ] : []),
+            ]),
+            spacer(),
+          ] : []),
+
+          // Summary
+          ...(doc.summary ? [
+            heading('SUMMARY'),
+            new Paragraph({ text: doc.summary }),
+            spacer(),
+          ] : []),
+
+          // Bullet Points
+          ...(doc.bulletPoints ? [
+            heading('KEY LEARNING POINTS'),
+            ...doc.bulletPoints.map(point => new Paragraph({ text: `• ${point}` })),
+            spacer(),
+          ] : []),
+
+          // Quotes
+          ...(doc.quotes ? [
+            heading('MEMORABLE QUOTE'),
             new Paragraph({
               children: [
-                new TextRun({ text: 'Reason: ', bold: true, size: 20 }),
-                new TextRun({ text: segment.reason, size: 20 }),
+                new TextRun({ text: `"${doc.quotes.keyQuote}"`, italics: true }),
               ],
             }),
-            new Paragraph({ text: '' }),
-          ])
-        ] : []),
-
-        // Full Transcript
-        new Paragraph({
-          text: 'FULL TRANSCRIPT',
-          heading: HeadingLevel.HEADING_1,
-        }),
-        ...videoData.transcript.map(segment =>
-          new Paragraph({
-            children: [
-              new TextRun({ text: `[${segment.timestamp}] `, bold: true, size: 20 }),
-              new TextRun({ text: segment.text, size: 20 }),
-            ],
-          })
-        ),
-      ],
-    }],
-  });
-
-  const buffer = await Packer.toBlob(doc);
-  const url = URL.createObjectURL(buffer);
+            ...extraQuotes(doc.quotes).map(quote =>
+              new Paragraph({
+                children: [
+                  new TextRun({ text: `${quote.label}: `, bold: true, size: 20 }),
+                  new TextRun({ text: `"${quote.text}"`, italics: true, size: 20 }),
+                ],
+              })
+            ),
+            spacer(),
+          ] : []),
+
+          // Highlighted Segments
+          ...(doc.highlights ? [
+            heading('HIGHLIGHTED SEGMENTS'),
+            ...doc.highlights.flatMap(segment => [
+              new Paragraph({
+                children: [
+                  new TextRun({ text: `[${segment.timestamp}] `, bold: true }),
+                  new TextRun(segment.text),
+                ],
+              }),
+              new Paragraph({
+                children: [
+                  new TextRun({ text: 'Reason: ', bold: true, size: 20 }),
+                  new TextRun({ text: segment.reason, size: 20 }),
+                ],
+              }),
+              spacer(),
+            ]),
+          ] : []),
+
+          // Full Transcript
+          ...(doc.transcript ? [
+            heading('FULL TRANSCRIPT'),
+            ...doc.transcript.map(segment =>
+              new Paragraph({
+                children: [
+                  new TextRun({ text: `[${segment.timestamp}] `, bold: true, size: 20 }),
+                  new TextRun({ text: segment.text, size: 20 }),
+                ],
+              })
+            ),
+          ] : []),
+        ],
+      }],
+    });
+
+    return Packer.toBlob(document);
+  },
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+
+const yamlString = (text: string): string => JSON.stringify(text);
+
+/**
+ * Markdown for Obsidian and Notion: YAML front matter, headings, and every
+ * timestamp linked back to that moment on YouTube
+ */
+const markdownRenderer: ExportRenderer = {
+  extension: 'md',
+  mimeType: 'text/markdown',
+  render: async (doc) => {
+    const link = (label: string, seconds: number) => `[${label}](${timestampUrl(doc, seconds)})`;
+    const lines: string[] = [
+      '---',
+      `title: ${yamlString(doc.title)}`,
+      `channel: ${yamlString(doc.metadata.channelName)}`,
+      `duration: ${yamlString(doc.metadata.duration)}`,
+      `source: ${doc.metadata.url}`,
+      `language: ${doc.metadata.language}`,
+      `created: ${doc.metadata.generatedAt.split('T')[0]}`,
+      'tags: [youtube, transcripto]',
+      '---',
+      '',
+      `# ${escapeMarkdown(doc.title)}`,
+      '',
+      `**Channel:** ${escapeMarkdown(doc.metadata.channelName)} · **Duration:** ${doc.metadata.duration} · [Watch on YouTube](${doc.metadata.url})`,
+      '',
+    ];
+
+    if (doc.chapters) {
+      lines.push('## Table of Contents', '');
+      doc.chapters.forEach((chapter, index) => {
+        lines.push(`${index + 1}. ${link(formatTimestamp(chapter.start), chapter.start)} ${escapeMarkdown(chapter.title)}`);
+        if (chapter.summary) {
+          lines.push(`    - ${escapeMarkdown(chapter.summary)}`);
+        }
+      });
+      lines.push('');
+    }
+
+    if (doc.summary) {
+      lines.push('## Summary', '', escapeMarkdown(doc.summary), '');
+    }
+
+    if (doc.bulletPoints) {
+      lines.push('## Key Learning Points', '');
+      doc.bulletPoints.forEach(point => lines.push(`- ${escapeMarkdown(point)}`));
+      lines.push('');
+    }
+
+    if (doc.quotes) {
+      lines.push('## Memorable Quotes', '', `> ${escapeMarkdown(doc.quotes.keyQuote)}`, '');
+      extraQuotes(doc.quotes).forEach(quote => {
+        lines.push(`**${quote.label}**`, '', `> ${escapeMarkdown(quote.text)}`, '');
+      });
+    }
+
+    if (doc.highlights) {
+      lines.push('## Highlights', '');
+      doc.highlights.forEach(segment => {
+        const start = doc.transcript?.[segment.segmentIndex]?.start;
+        const timestamp = start !== undefined ? link(segment.timestamp, start) : segment.timestamp;
+        lines.push(`- ${timestamp} ${escapeMarkdown(segment.text)}`, `    - *${escapeMarkdown(segment.reason)}*`);
+      });
+      lines.push('');
+    }
+
+    if (doc.transcript) {
+      lines.push('## Transcript', '');
+      doc.transcript.forEach(segment => {
+        lines.push(`${link(segment.timestamp, segment.start)} ${escapeMarkdown(segment.text)}`, '');
+      });
+    }
+
+    return new Blob([lines.join('\n')], { type: 'text/markdown;charset=utf-8' });
+  },
+};
+
+const jsonRenderer: ExportRenderer = {
+  extension: 'json',
+  mimeType: 'application/json',
+  render: async (doc) => {
+    const payload = { schemaVersion: 1, ...doc };
+    return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json;charset=utf-8' });
+  },
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 20px; color: #1f2937; line-height: 1.6; }
+  h1 { font-size: 1.9rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.25rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.9rem; }
+  a { color: #2563eb; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  .ts { font-family: ui-monospace, monospace; font-size: 0.85rem; background: #eff6ff; padding: 1px 6px; border-radius: 4px; margin-right: 8px; }
+  blockquote { margin: 1rem 0; padding: 0.75rem 1rem; border-left: 4px solid #8b5cf6; background: #f5f3ff; font-style: italic; }
+  .reason { color: #6b7280; font-size: 0.85rem; }
+  .segment { margin: 0.5rem 0; }
+`;
+
+const htmlRenderer: ExportRenderer = {
+  extension: 'html',
+  mimeType: 'text/html',
+  render: async (doc) => {
+    const link = (label: string, seconds: number) =>
+      `<a class="ts" href="${escapeHtml(timestampUrl(doc, seconds))}" target="_blank" rel="noopener">${escapeHtml(label)}</a>`;
+    const body: string[] = [
+      `<h1>${escapeHtml(doc.title)}</h1>`,
+      `<p class="meta">${escapeHtml(doc.metadata.channelName)} · ${escapeHtml(doc.metadata.duration)} · ` +
+        `<a href="${escapeHtml(doc.metadata.url)}" target="_blank" rel="noopener">Watch on YouTube</a></p>`,
+    ];
+
+    if (doc.chapters) {
+      body.push('<h2>Table of Contents</h2>', '<ol>');
+      doc.chapters.forEach(chapter => {
+        body.push(
+          `<li>${link(formatTimestamp(chapter.start), chapter.start)}<strong>${escapeHtml(chapter.title)}</strong>` +
+          (chapter.summary ? `<div class="reason">${escapeHtml(chapter.summary)}</div>` : '') +
+          '</li>'
+        );
+      });
+      body.push('</ol>');
+    }
+
+    if (doc.summary) {
+      body.push('<h2>Summary</h2>', `<p>${escapeHtml(doc.summary)}</p>`);
+    }
+
+    if (doc.bulletPoints) {
+      body.push('<h2>Key Learning Points</h2>', '<ul>');
+      doc.bulletPoints.forEach(point => body.push(`<li>${escapeHtml(point)}</li>`));
+      body.push('</ul>');
+    }
+
+    if (doc.quotes) {
+      body.push('<h2>Memorable Quotes</h2>', `<blockquote>${escapeHtml(doc.quotes.keyQuote)}</blockquote>`);
+      extraQuotes(doc.quotes).forEach(quote => {
+        body.push(`<p><strong>${escapeHtml(quote.label)}</strong></p>`, `<blockquote>${escapeHtml(quote.text)}</blockquote>`);
+      });
+    }
+
+    if (doc.highlights) {
+      body.push('<h2>Highlights</h2>');
+      doc.highlights.forEach(segment => {
+        const start = doc.transcript?.[segment.segmentIndex]?.start;
+        const timestamp = start !== undefined
+          ? link(segment.timestamp, start)
+          : `<span class="ts">${escapeHtml(segment.timestamp)}</span>`;
+        body.push(
+          `<div class="segment">${timestamp}${escapeHtml(segment.text)}` +
+          `<div class="reason">${escapeHtml(segment.reason)}</div></div>`
+        );
+      });
+    }
+
+    if (doc.transcript) {
+      body.push('<h2>Transcript</h2>');
+      doc.transcript.forEach(segment => {
+        body.push(`<p class="segment">${link(segment.timestamp, segment.start)}${escapeHtml(segment.text)}</p>`);
+      });
+    }
+
+    const html = '<!DOCTYPE html>\n' +
+      `<html lang="${escapeHtml(doc.metadata.language)}">\n<head>\n<meta charset="utf-8">\n` +
+      '<meta name="viewport" content="width=device-width, initial-scale=1">\n' +
+      `<title>${escapeHtml(doc.title)}</title>\n<style>${HTML_STYLES}</style>\n</head>\n<body>\n` +
+      `${body.join('\n')}\n` +
+      `<p class="meta">Generated by Transcripto on ${escapeHtml(new Date(doc.metadata.generatedAt).toLocaleDateString())}</p>\n` +
+      '</body>\n</html>\n';
+
+    return new Blob([html], { type: 'text/html;charset=utf-8' });
+  },
+};
+
+export const EXPORT_RENDERERS: Record<ExportFormat, ExportRenderer> = {
+  txt: textRenderer,
+  pdf: pdfRenderer,
+  docx: docxRenderer,
+  md: markdownRenderer,
+  json: jsonRenderer,
+  html: htmlRenderer,
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `${filename}.docx`;
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 };
 
-const generateTextContent = (
+/**
+ * Render a video summary in the given format and download it
+ */
+export const exportVideo = async (
   videoData: VideoSummary,
-  highlightedSegments: HighlightedSegment[] = []
-): string => {
-  let content = `${videoData.title}\n`;
-  content += `${'='.repeat(videoData.title.length)}\n\n`;
-  content += `Channel: ${videoData.channelName}\n`;
-  content += `Duration: ${videoData.duration}\n`;
-  content += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-
-  content += `SUMMARY\n`;
-  content += `-------\n`;
-  content += `${videoData.summary}\n\n`;
-
-  content += `KEY LEARNING POINTS\n`;
-  content += `------------------\n`;
-  videoData.bulletPoints.forEach(point => {
-    content += `• ${point}\n`;
-  });
-  content += `\n`;
-
-  content += `MEMORABLE QUOTE\n`;
-  content += `--------------\n`;
-  content += `"${videoData.keyQuote}"\n\n`;
-
-  if (highlightedSegments.length > 0) {
-    content += `HIGHLIGHTED SEGMENTS\n`;
-    content += `-------------------\n`;
-    highlightedSegments.forEach(segment => {
-      content += `[${segment.timestamp}] ${segment.text}\n`;
-      content += `Reason: ${segment.reason}\n\n`;
-    });
-  }
-
-  content += `FULL TRANSCRIPT\n`;
-  content += `--------------\n`;
-  videoData.transcript.forEach(segment => {
-    content += `[${segment.timestamp}] ${segment.text}\n\n`;
-  });
-
-  return content;
-};
\ No newline at end of file
+  format: ExportFormat,
+  filename: string,
+  options: {
+    highlightedSegments?: HighlightedSegment[];
+    sections?: ExportSection[];
+  } = {}
+) => {
+  const renderer = EXPORT_RENDERERS[format];
+  const doc = buildExportDocument(videoData, options.highlightedSegments, options.sections);
+  const blob = await renderer.render(doc);
+  downloadBlob(blob, `${filename}.${renderer.extension}`);
+};
@@ -0,0 +1,389 @@
+import { TranscriptSegment } from '../types';
+
+export type SearchMode = 'literal' | 'word' | 'regex' | 'fuzzy' | 'boolean';
+
+export const SEARCH_MODES: { mode: SearchMode; label: string; hint: string }[] = [
+  { mode: 'literal', label: 'Exact', hint: 'Finds the text as typed, including symbols like c++' },
+  { mode: 'word', label: 'Whole word', hint: 'Only matches complete words, so "art" skips "start"' },
+  { mode: 'regex', label: 'Regex', hint: 'JavaScript regular expression, e.g. colou?r|gr[ae]y' },
+  { mode: 'fuzzy', label: 'Fuzzy', hint: 'Tolerates typos and misheard captions' },
+  { mode: 'boolean', label: 'Boolean', hint: 'react AND hooks, vue OR svelte, "exact phrase", -exclude' },
+];
+
+export interface SearchOptions {
+  mode: SearchMode;
+  caseSensitive?: boolean;
+  // Let a match run from one segment into the next, e.g. a phrase split across captions
+  acrossSegments?: boolean;
+  // Typos allowed per word in fuzzy mode; by default 0 for short words, 1 up to 6 letters, then 2
+  maxEdits?: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SegmentRange extends TextRange {
+  segmentIndex: number;
+}
+
+export interface SearchHit {
+  // Segment the match starts in
+  segmentIndex: number;
+  // One range per segment the match covers, offsets into that segment's text
+  ranges: SegmentRange[];
+  text: string;
+}
+
+export interface TranscriptSearchResult {
+  hits: SearchHit[];
+  rangesBySegment: Map<number, TextRange[]>;
+  // Segments with at least one hit
+  segmentCount: number;
+  // Stopped after MAX_HITS
+  truncated: boolean;
+  error?: string;
+}
+
+type Matcher = (text: string) => TextRange[];
+
+interface BooleanTerm {
+  pattern: RegExp;
+  negated: boolean;
+}
+
+const MAX_HITS = 2000;
+const SEGMENT_SEPARATOR = ' ';
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'-]*/gu;
+
+const EMPTY_RESULT: TranscriptSearchResult = {
+  hits: [],
+  rangesBySegment: new Map(),
+  segmentCount: 0,
+  truncated: false,
+};
+
+export class SearchQueryError extends Error {}
+
+/**
+ * Escape text so it matches literally inside a RegExp
+ */
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Wrap a pattern so it only matches whole words
+ */
+const wholeWord = (pattern: string): string => `(?<![\\p{L}\\p{N}_])(?:${pattern})(?![\\p{L}\\p{N}_])`;
+
+/**
+ * Every non-overlapping match of a global RegExp, skipping empty matches
+ */
+const regexRanges = (regex: RegExp, text: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null && ranges.length < MAX_HITS) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+};
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swapped neighbours each count as one edit. Gives up once `limit` is exceeded.
+ */
+export const editDistance = (a: string, b: string, limit = Infinity): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedEdits = (word: string, maxEdits?: number): number => {
+  if (maxEdits !== undefined) return maxEdits;
+  if (word.length <= 3) return 0;
+  return word.length <= 6 ? 1 : 2;
+};
+
+/**
+ * Runs of consecutive words that each sit within a few edits of the query's words
+ */
+const fuzzyMatcher = (query: string, caseSensitive: boolean, maxEdits?: number): Matcher => {
+  const normalize = (word: string) => (caseSensitive ? word : word.toLowerCase());
+  const queryWords = (query.match(WORD_PATTERN) || []).map(normalize);
+  if (queryWords.length === 0) throw new SearchQueryError('Enter a word to search for');
+
+  return (text) => {
+    const words = [...text.matchAll(WORD_PATTERN)].map(match => ({
+      word: normalize(match[0]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+
+    const ranges: TextRange[] = [];
+    for (let i = 0; i + queryWords.length <= words.length && ranges.length < MAX_HITS; i++) {
+      const matches = queryWords.every((queryWord, offset) => {
+        const limit = allowedEdits(queryWord, maxEdits);
+        return editDistance(words[i + offset].word, queryWord, limit) <= limit;
+      });
+      if (matches) {
+        ranges.push({ start: words[i].start, end: words[i + queryWords.length - 1].end });
+        i += queryWords.length - 1;
+      }
+    }
+    return ranges;
+  };
+};
+
+/**
+ * Parse `a AND b`, `a OR b`, `"a phrase"` and `-excluded`. Words side by side
+ * are ANDed, and AND binds tighter than OR, so the query becomes a list of
+ * alternatives that each require all of their terms.
+ */
+export const parseBooleanQuery = (query: string, caseSensitive: boolean): BooleanTerm[][] => {
+  const tokens = query.match(/-?"[^"]*"?|\S+/g) || [];
+  const groups: BooleanTerm[][] = [[]];
+
+  for (const token of tokens) {
+    if (token === 'OR' || token === '|') {
+      if (groups[groups.length - 1].length > 0) groups.push([]);
+      continue;
+    }
+    if (token === 'AND' || token === '&') continue;
+
+    const negated = token.startsWith('-') && token.length > 1;
+    const body = (negated ? token.slice(1) : token).replace(/^"|"$/g, '').trim();
+    if (!body) continue;
+
+    const phrase = body.split(/\s+/).map(escapeRegExp).join('\\s+');
+    groups[groups.length - 1].push({
+      pattern: new RegExp(wholeWord(phrase), caseSensitive ? 'gu' : 'giu'),
+      negated,
+    });
+  }
+
+  const alternatives = groups.filter(group => group.some(term => !term.negated));
+  if (alternatives.length === 0) {
+    throw new SearchQueryError('Add at least one word that should appear');
+  }
+  return alternatives;
+};
+
+/**
+ * Positive term matches in a unit of text that satisfies at least one
+ * alternative; none when it satisfies none
+ */
+const booleanMatcher = (alternatives: BooleanTerm[][]): Matcher => (text) => {
+  const ranges: TextRange[] = [];
+  for (const terms of alternatives) {
+    const termRanges = terms.map(term => regexRanges(term.pattern, text));
+    const satisfied = terms.every((term, i) => (term.negated ? termRanges[i].length === 0 : termRanges[i].length > 0));
+    if (!satisfied) continue;
+    terms.forEach((term, i) => {
+      if (!term.negated) ranges.push(...termRanges[i]);
+    });
+  }
+  return mergeRanges(ranges);
+};
+
+/**
+ * Sort ranges and merge any that overlap
+ */
+const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: TextRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start < last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+const buildMatcher = (query: string, options: SearchOptions): Matcher => {
+  const caseSensitive = options.caseSensitive ?? false;
+  const flags = caseSensitive ? 'gu' : 'giu';
+
+  switch (options.mode) {
+    case 'literal': {
+      const regex = new RegExp(escapeRegExp(query), flags);
+      return (text) => regexRanges(regex, text);
+    }
+    case 'word': {
+      const regex = new RegExp(wholeWord(escapeRegExp(query.trim())), flags);
+      return (text) => regexRanges(regex, text);
+    }
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(query, flags);
+      } catch {
+        // Patterns written for non-unicode mode, e.g. an escaped hyphen
+        try {
+          regex = new RegExp(query, caseSensitive ? 'g' : 'gi');
+        } catch (error) {
+          throw new SearchQueryError(error instanceof Error ? error.message : 'Invalid regular expression');
+        }
+      }
+      return (text) => regexRanges(regex, text);
+    }
+    case 'fuzzy':
+      return fuzzyMatcher(query, caseSensitive, options.maxEdits);
+    case 'boolean': {
+      const alternatives = parseBooleanQuery(query, caseSensitive);
+      return booleanMatcher(alternatives);
+    }
+  }
+};
+
+/**
+ * Find every match of `query` in a transcript. Matches are found per segment,
+ * or with `acrossSegments` in the whole transcript joined by spaces so a match
+ * may span several segments. Boolean queries are then checked against each
+ * segment together with the next one.
+ */
+export const searchTranscript = (
+  transcript: TranscriptSegment[],
+  query: string,
+  options: SearchOptions
+): TranscriptSearchResult => {
+  if (!query.trim() || transcript.length === 0) return EMPTY_RESULT;
+
+  let matcher: Matcher;
+  try {
+    matcher = buildMatcher(query, options);
+  } catch (error) {
+    return {
+      ...EMPTY_RESULT,
+      error: error instanceof SearchQueryError ? error.message : 'Invalid search',
+    };
+  }
+
+  const hits: SearchHit[] = [];
+
+  if (!options.acrossSegments) {
+    transcript.forEach((segment, segmentIndex) => {
+      if (hits.length >= MAX_HITS) return;
+      matcher(segment.text).forEach(range => {
+        hits.push({
+          segmentIndex,
+          ranges: [{ segmentIndex, ...range }],
+          text: segment.text.slice(range.start, range.end),
+        });
+      });
+    });
+  } else {
+    // Offsets of each segment in the joined text
+    const offsets: number[] = [];
+    let joined = '';
+    transcript.forEach((segment, i) => {
+      if (i > 0) joined += SEGMENT_SEPARATOR;
+      offsets.push(joined.length);
+      joined += segment.text;
+    });
+
+    const toSegmentRanges = (range: TextRange): SegmentRange[] => {
+      // Last segment starting at or before the match
+      let low = 0;
+      let high = offsets.length - 1;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (offsets[middle] <= range.start) low = middle;
+        else high = middle - 1;
+      }
+
+      const ranges: SegmentRange[] = [];
+      for (let segmentIndex = low; segmentIndex < transcript.length && offsets[segmentIndex] < range.end; segmentIndex++) {
+        const segmentStart = offsets[segmentIndex];
+        const start = Math.max(range.start, segmentStart);
+        const end = Math.min(range.end, segmentStart + transcript[segmentIndex].text.length);
+        if (start < end) ranges.push({ segmentIndex, start: start - segmentStart, end: end - segmentStart });
+      }
+      return ranges;
+    };
+
+    let ranges: TextRange[];
+    if (options.mode === 'boolean') {
+      // Each segment plus the next, so terms and phrases split across a caption still count
+      const windows: TextRange[] = [];
+      transcript.forEach((segment, i) => {
+        const next = transcript[i + 1];
+        const windowText = next ? segment.text + SEGMENT_SEPARATOR + next.text : segment.text;
+        matcher(windowText).forEach(range => {
+          windows.push({ start: offsets[i] + range.start, end: offsets[i] + range.end });
+        });
+      });
+      ranges = mergeRanges(windows);
+    } else {
+      ranges = matcher(joined);
+    }
+
+    for (const range of ranges) {
+      if (hits.length >= MAX_HITS) break;
+      const segmentRanges = toSegmentRanges(range);
+      // Skip matches of nothing but the separator
+      if (segmentRanges.length === 0) continue;
+      hits.push({
+        segmentIndex: segmentRanges[0].segmentIndex,
+        ranges: segmentRanges,
+        text: joined.slice(range.start, range.end),
+      });
+    }
+  }
+
+  const rangesBySegment = new Map<number, TextRange[]>();
+  hits.forEach(hit => {
+    hit.ranges.forEach(({ segmentIndex, start, end }) => {
+      const existing = rangesBySegment.get(segmentIndex) || [];
+      existing.push({ start, end });
+      rangesBySegment.set(segmentIndex, existing);
+    });
+  });
+
+  return {
+    hits: hits.slice(0, MAX_HITS),
+    rangesBySegment,
+    segmentCount: rangesBySegment.size,
+    truncated: hits.length >= MAX_HITS,
+  };
+};
+
+/**
+ * Split text into plain and matched parts for rendering
+ */
+export const splitByRanges = (text: string, ranges: TextRange[]): { text: string; match: boolean; start: number }[] => {
+  const parts: { text: string; match: boolean; start: number }[] = [];
+  let position = 0;
+  mergeRanges(ranges).forEach(({ start, end }) => {
+    if (start > position) parts.push({ text: text.slice(position, start), match: false, start: position });
+    parts.push({ text: text.slice(start, end), match: true, start });
+    position = end;
+  });
+  if (position < text.length) parts.push({ text: text.slice(position), match: false, start: position });
+  return parts;
+};
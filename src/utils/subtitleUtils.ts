@@ -0,0 +1,284 @@
+import { TranscriptSegment, VideoSummary } from '../types';
+import { downloadBlob } from './exportUtils';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'sbv' | 'ttml';
+
+export interface SubtitleOptions {
+  maxLineLength: number;
+  maxCharsPerCue: number;
+  maxCueDuration: number;
+  minCueDuration: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxCharsPerCue: 84,
+  maxCueDuration: 7,
+  minCueDuration: 1,
+};
+
+export const SUBTITLE_FORMATS: { format: SubtitleFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'sbv', label: 'YouTube SBV (.sbv)', extension: 'sbv', mimeType: 'text/plain' },
+  { format: 'ttml', label: 'TTML (.ttml)', extension: 'ttml', mimeType: 'application/ttml+xml' },
+];
+
+// Reading speed used to estimate an end time when a segment has no duration
+const CHARS_PER_SECOND = 15;
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Resolve each segment's end time: its own duration if the caption track
+ * provided one, otherwise the next segment's start, otherwise a reading-speed
+ * estimate
+ */
+const segmentEnd = (segments: TranscriptSegment[], index: number): number => {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  const estimated = segment.start + Math.max(1, segment.text.length / CHARS_PER_SECOND);
+
+  if (segment.duration !== undefined && segment.duration > 0) {
+    // Auto-generated tracks overlap consecutive segments; clip to the next start
+    const end = segment.start + segment.duration;
+    return next && next.start > segment.start ? Math.min(end, next.start) : end;
+  }
+  return next && next.start > segment.start ? next.start : estimated;
+};
+
+/**
+ * Spread each segment's time span across its words in proportion to their length
+ */
+const toTimedWords = (segments: TranscriptSegment[]): TimedWord[] => {
+  const words: TimedWord[] = [];
+
+  segments.forEach((segment, index) => {
+    const parts = segment.text.replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+    if (parts.length === 0) return;
+
+    const end = segmentEnd(segments, index);
+    const span = Math.max(end - segment.start, 0.001);
+    const totalChars = parts.reduce((sum, part) => sum + part.length + 1, 0);
+
+    let cursor = segment.start;
+    parts.forEach(part => {
+      const wordSpan = span * ((part.length + 1) / totalChars);
+      words.push({ text: part, start: cursor, end: cursor + wordSpan });
+      cursor += wordSpan;
+    });
+  });
+
+  return words;
+};
+
+/**
+ * Break cue text into two balanced lines no longer than maxLineLength,
+ * or more lines when the cue is too long to fit in two
+ */
+const wrapLines = (text: string, maxLineLength: number): string[] => {
+  if (text.length <= maxLineLength) return [text];
+
+  const words = text.split(' ');
+  let bestSplit = -1;
+  let bestDifference = Infinity;
+  let firstLength = 0;
+
+  for (let i = 0; i < words.length - 1; i++) {
+    firstLength += (i > 0 ? 1 : 0) + words[i].length;
+    const secondLength = text.length - firstLength - 1;
+    if (firstLength > maxLineLength) break;
+    const difference = Math.abs(firstLength - secondLength);
+    if (secondLength <= maxLineLength && difference < bestDifference) {
+      bestDifference = difference;
+      bestSplit = i;
+    }
+  }
+
+  if (bestSplit < 0) {
+    // Cannot balance within the limit; fall back to greedy wrapping
+    const lines: string[] = [];
+    let line = '';
+    words.forEach(word => {
+      if (line && line.length + 1 + word.length > maxLineLength) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  return [words.slice(0, bestSplit + 1).join(' '), words.slice(bestSplit + 1).join(' ')];
+};
+
+/**
+ * Re-flow transcript segments into readable cues. Caption tracks often split
+ * mid-sentence or pack too much into one segment, so words are re-packed
+ * up to the character and duration limits, preferring sentence ends as breaks.
+ */
+export const buildCues = (
+  segments: TranscriptSegment[],
+  options: Partial<SubtitleOptions> = {}
+): SubtitleCue[] => {
+  const settings = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+  const maxChars = Math.max(settings.maxCharsPerCue, settings.maxLineLength);
+  const words = toTimedWords(segments);
+  const cues: SubtitleCue[] = [];
+
+  let current: TimedWord[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    const text = current.map(word => word.text).join(' ');
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrapLines(text, settings.maxLineLength),
+    });
+    current = [];
+  };
+
+  words.forEach(word => {
+    const text = current.map(w => w.text).join(' ');
+    const nextLength = text ? text.length + 1 + word.text.length : word.text.length;
+    const duration = current.length > 0 ? word.end - current[0].start : 0;
+
+    if (current.length > 0 && (nextLength > maxChars || duration > settings.maxCueDuration)) {
+      flush();
+    }
+
+    current.push(word);
+
+    // End a cue at a sentence boundary once it has a reasonable amount of text
+    const currentText = current.map(w => w.text).join(' ');
+    if (/[.!?]["')\]]?$/.test(word.text) && currentText.length >= maxChars / 2) {
+      flush();
+    }
+  });
+  flush();
+
+  // Enforce minimum display time without overlapping the next cue
+  return cues.map((cue, index) => {
+    const next = cues[index + 1];
+    const minEnd = cue.start + settings.minCueDuration;
+    const end = Math.max(cue.end, next ? Math.min(minEnd, next.start) : minEnd);
+    return { ...cue, end };
+  });
+};
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3600000),
+    minutes: Math.floor((totalMs % 3600000) / 60000),
+    seconds: Math.floor((totalMs % 60000) / 1000),
+    milliseconds: totalMs % 1000,
+  };
+};
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+const formatClock = (seconds: number, separator: string, padHours: boolean = true): string => {
+  const time = splitTime(seconds);
+  const hours = padHours ? pad(time.hours) : time.hours.toString();
+  return `${hours}:${pad(time.minutes)}:${pad(time.seconds)}${separator}${pad(time.milliseconds, 3)}`;
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map((cue, index) =>
+      `${index + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+    )
+    .join('\n');
+
+export const toWebVtt = (cues: SubtitleCue[]): string =>
+  'WEBVTT\n\n' +
+  cues
+    .map(cue =>
+      `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${cue.lines.join('\n').replace(/-->/g, '->')}\n`
+    )
+    .join('\n');
+
+export const toSbv = (cues: SubtitleCue[]): string =>
+  cues
+    .map(cue =>
+      `${formatClock(cue.start, '.', false)},${formatClock(cue.end, '.', false)}\n${cue.lines.join('\n')}\n`
+    )
+    .join('\n');
+
+export const toTtml = (cues: SubtitleCue[], language: string = 'en'): string => {
+  const paragraphs = cues
+    .map(cue =>
+      `      <p begin="${formatClock(cue.start, '.')}" end="${formatClock(cue.end, '.')}">` +
+      `${cue.lines.map(escapeXml).join('<br/>')}</p>`
+    )
+    .join('\n');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeXml(language)}">\n` +
+    '  <body>\n' +
+    '    <div>\n' +
+    `${paragraphs}\n` +
+    '    </div>\n' +
+    '  </body>\n' +
+    '</tt>\n';
+};
+
+export const renderSubtitles = (
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  options: Partial<SubtitleOptions> = {},
+  language: string = 'en'
+): string => {
+  const cues = buildCues(segments, options);
+  switch (format) {
+    case 'srt':
+      return toSrt(cues);
+    case 'vtt':
+      return toWebVtt(cues);
+    case 'sbv':
+      return toSbv(cues);
+    case 'ttml':
+      return toTtml(cues, language);
+  }
+};
+
+/**
+ * Export the original transcript, or one of its translations, as a caption file
+ */
+export const exportToSubtitles = async (
+  videoData: VideoSummary,
+  format: SubtitleFormat,
+  filename: string,
+  options: Partial<SubtitleOptions> = {},
+  languageCode?: string
+) => {
+  const translated = languageCode ? videoData.translatedTranscript?.[languageCode] : undefined;
+  const segments = translated || videoData.transcript;
+  const language = translated && languageCode ? languageCode : videoData.language || 'en';
+  const formatInfo = SUBTITLE_FORMATS.find(item => item.format === format) || SUBTITLE_FORMATS[0];
+
+  const content = renderSubtitles(segments, format, options, language);
+
+  const blob = new Blob([content], { type: `${formatInfo.mimeType};charset=utf-8` });
+  downloadBlob(blob, `${filename}.${language}.${formatInfo.extension}`);
+};
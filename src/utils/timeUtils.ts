@@ -0,0 +1,24 @@
+/**
+ * Format seconds as M:SS or H:MM:SS, matching transcript timestamps
+ */
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Parse a M:SS or H:MM:SS duration string into seconds
+ */
+export const parseDuration = (duration: string | undefined): number | null => {
+  if (!duration) return null;
+  const parts = duration.split(':').map(part => parseInt(part, 10));
+  if (parts.length < 2 || parts.some(part => isNaN(part))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
@@ -0,0 +1,212 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AnalysisJob, processJob } from './analysisJobs.ts'
+import { PlanFeature, PlanStatus } from './plan.ts'
+
+const USER_ID = '8f14e45f-ceea-4e7a-9c1d-6f0e2b9a1c11'
+const TEAM_OWNER_ID = '2c9a7e51-6b3d-4f08-9e12-7a5d4c3b2a10'
+const SUMMARY_ID = '4b6f3a2e-1d0c-4f5e-8a7b-9c8d7e6f5a4b'
+
+Deno.env.set('STT_PROVIDER', 'stub')
+
+const freePlan = (maxVideoMinutes = 30): PlanStatus => ({
+  plan_type: 'free',
+  status: 'active',
+  features: {} as Record<PlanFeature, boolean>,
+  daily_limit: 5,
+  monthly_limit: 50,
+  daily_usage: 0,
+  monthly_usage: 0,
+  max_video_minutes: maxVideoMinutes,
+  can_perform_action: true,
+})
+
+/**
+ * The calls `processJob` makes, answered in memory. Every upserted summary, job
+ * update and removed recording is kept for the test to inspect. `existing` is the
+ * user's saved summary of the video, if any.
+ */
+function fakeClient(plan: PlanStatus, existing: { team_owner_id: string | null } | null = null, canEdit = true) {
+  const summaries: Record<string, unknown>[] = []
+  const jobUpdates: Record<string, unknown>[] = []
+  const removed: string[] = []
+  const rpcCalls: string[] = []
+
+  const respond = (data: unknown) => {
+    const result = Promise.resolve({ data, error: null })
+    return Object.assign(result, { single: () => result })
+  }
+
+  const rpcResults: Record<string, unknown> = {
+    check_usage_limit: { can_perform_action: true, current_usage: 0, daily_limit: 5, monthly_limit: 50, monthly_usage: 0 },
+    get_plan_status: plan,
+    user_team_permission: canEdit,
+  }
+
+  // Filters and selects return the query itself; awaiting it returns `data`,
+  // the saved summary's id unless given
+  type Query = Promise<{ data: unknown; error: null }> & {
+    eq(): Query
+    select(): Query
+    single(): Query
+    maybeSingle(): Query
+  }
+  const query = (data: unknown = { id: SUMMARY_ID }): Query => {
+    const builder: Query = Object.assign(Promise.resolve({ data, error: null as null }), {
+      eq: () => builder,
+      select: () => builder,
+      single: () => builder,
+      maybeSingle: () => builder,
+    })
+    return builder
+  }
+
+  const client = {
+    rpc: (fn: string) => {
+      rpcCalls.push(fn)
+      return respond(rpcResults[fn] ?? null)
+    },
+    from: () => ({
+      select: () => query(existing),
+      update: (values: Record<string, unknown>) => {
+        jobUpdates.push(values)
+        return query()
+      },
+      upsert: (row: Record<string, unknown>) => {
+        summaries.push(row)
+        return query()
+      },
+      delete: () => query(),
+      insert: () => query(),
+    }),
+    storage: {
+      from: () => ({
+        download: async () => ({ data: new Blob([new Uint8Array(16)], { type: 'audio/mpeg' }), error: null }),
+        remove: async (paths: string[]) => {
+          removed.push(...paths)
+          return { data: null, error: null }
+        },
+      }),
+    },
+  } as unknown as SupabaseClient
+
+  return { client, summaries, jobUpdates, removed, rpcCalls }
+}
+
+const job = (fields: Partial<AnalysisJob>): AnalysisJob => ({
+  id: crypto.randomUUID(),
+  user_id: USER_ID,
+  team_owner_id: null,
+  video_url: '',
+  video_id: `upload-${crypto.randomUUID()}`,
+  video_title: 'Quarterly review',
+  caption_language: null,
+  caption_kind: null,
+  uploaded_captions: null,
+  media_upload: null,
+  ...fields,
+})
+
+const recordingJob = () => job({
+  media_upload: {
+    path: `${USER_ID}/quarterly-review.mp3`,
+    fileName: 'quarterly-review.mp3',
+    mimeType: 'audio/mpeg',
+    size: 16,
+    language: null,
+  },
+})
+
+const captionJob = (segments: { start: number; duration: number; text: string }[]) => job({
+  uploaded_captions: { fileName: 'quarterly-review.srt', format: 'srt', language: 'en', transcript: segments },
+})
+
+Deno.test('a transcribed recording is saved with the same fields as a caption file', async () => {
+  const recording = fakeClient(freePlan())
+  await processJob(recording.client, recordingJob())
+
+  assertEquals(recording.jobUpdates.at(-1)?.status, 'done')
+  assertEquals(recording.jobUpdates.at(-1)?.summary_id, SUMMARY_ID)
+  assertEquals(recording.removed, [`${USER_ID}/quarterly-review.mp3`])
+  assert(recording.rpcCalls.includes('increment_usage'))
+
+  const [saved] = recording.summaries
+  assertEquals(saved.transcript_source, 'speech_to_text')
+  assertEquals(saved.duration, '0:30')
+  assertEquals(saved.caption_track, { languageCode: 'en', kind: 'asr', name: 'quarterly-review.mp3' })
+
+  const transcript = saved.transcript as { timestamp: string; start: number; duration: number; text: string }[]
+  assertEquals(transcript.length, 6)
+  assertEquals(transcript.map(segment => segment.timestamp), ['0:00', '0:05', '0:10', '0:15', '0:20', '0:25'])
+  assertEquals(transcript[1], {
+    timestamp: '0:05',
+    text: 'First we will go over the results from last quarter.',
+    start: 5,
+    duration: 5,
+  })
+  assert(typeof saved.summary === 'string' && saved.summary.length > 0)
+  assert(Array.isArray(saved.bullet_points) && saved.bullet_points.length > 0)
+  assert(Array.isArray(saved.chapters))
+
+  // The same transcript from a caption file
+  const captions = fakeClient(freePlan())
+  await processJob(captions.client, captionJob(
+    transcript.map(({ start, duration, text }) => ({ start, duration, text }))
+  ))
+
+  const [fromCaptions] = captions.summaries
+  assertEquals(Object.keys(saved).sort(), Object.keys(fromCaptions).sort())
+  assertEquals(fromCaptions.transcript, saved.transcript)
+  assertEquals(fromCaptions.transcript_source, 'caption_file')
+})
+
+Deno.test('recordings longer than the plan allows fail the job', async () => {
+  // 15 seconds, shorter than the stub's 30 second recording
+  const harness = fakeClient(freePlan(0.25))
+  await processJob(harness.client, recordingJob())
+
+  const last = harness.jobUpdates.at(-1)
+  assertEquals(last?.status, 'failed')
+  assertEquals(last?.error, 'Your plan analyzes videos up to 0.25 minutes long. Upgrade to analyze this one.')
+  assertEquals(harness.summaries.length, 0)
+  assert(!harness.rpcCalls.includes('increment_usage'))
+  assertEquals(harness.removed, [`${USER_ID}/quarterly-review.mp3`])
+})
+
+Deno.test('caption files longer than the plan allows fail the job', async () => {
+  const harness = fakeClient(freePlan())
+  await processJob(harness.client, captionJob([
+    { start: 0, duration: 5, text: 'Welcome back.' },
+    { start: 3600, duration: 5, text: 'That is all for today.' },
+  ]))
+
+  const last = harness.jobUpdates.at(-1)
+  assertEquals(last?.status, 'failed')
+  assertEquals(last?.error, 'Your plan analyzes videos up to 30 minutes long. Upgrade to analyze this one.')
+  assertEquals(harness.summaries.length, 0)
+})
+
+Deno.test('a video saved in another workspace is not moved by analyzing it again', async () => {
+  const harness = fakeClient(freePlan(), { team_owner_id: TEAM_OWNER_ID })
+  await processJob(harness.client, captionJob([{ start: 0, duration: 5, text: 'Welcome back.' }]))
+
+  const last = harness.jobUpdates.at(-1)
+  assertEquals(last?.status, 'failed')
+  assertEquals(last?.error, 'You already saved this video in another workspace. Analyze it again from there.')
+  assertEquals(harness.summaries.length, 0)
+  assert(!harness.rpcCalls.includes('increment_usage'))
+})
+
+Deno.test('a team job fails when the user can no longer edit in the team', async () => {
+  const harness = fakeClient(freePlan(), { team_owner_id: TEAM_OWNER_ID }, false)
+  await processJob(harness.client, {
+    ...captionJob([{ start: 0, duration: 5, text: 'Welcome back.' }]),
+    team_owner_id: TEAM_OWNER_ID,
+  })
+
+  const last = harness.jobUpdates.at(-1)
+  assertEquals(last?.status, 'failed')
+  assertEquals(last?.error, 'You no longer have permission to edit in this workspace.')
+  assertEquals(harness.summaries.length, 0)
+  assert(harness.rpcCalls.includes('user_team_permission'))
+})
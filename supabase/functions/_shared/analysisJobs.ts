@@ -0,0 +1,348 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPlanDenial, getPlanStatus, PlanStatus } from './plan.ts'
+import { getUsageQuota } from './rateLimit.ts'
+import { formatTranscriptForFrontend, parseDuration } from './youtube.ts'
+import { CachedTranscriptResult, fetchTranscriptCached } from './transcriptCache.ts'
+import { summarizeTranscript } from './summary.ts'
+import { detectHighlights } from './highlights.ts'
+import { detectChapters } from './chapters.ts'
+import { indexSummary } from './embeddings.ts'
+import { Transcription, getSpeechToTextProvider } from './speechToText.ts'
+import { getSummaryWriteDenial } from './workspace.ts'
+
+/*
+ * One analysis job from start to finish: fetch the transcript (or take the one
+ * parsed from an uploaded caption file, or transcribe an uploaded recording),
+ * summarize, detect highlights and chapters, then save the summary. Each stage
+ * is written to `analysis_jobs`, which the client follows over Realtime.
+ * Claiming jobs is left to the analysis-worker function.
+ */
+
+type JobStatus = 'queued' | 'fetching_transcript' | 'summarizing' | 'highlighting' | 'done' | 'failed'
+
+export interface AnalysisJob {
+  id: string
+  user_id: string
+  team_owner_id: string | null
+  video_url: string
+  video_id: string
+  video_title: string | null
+  caption_language: string | null
+  caption_kind: 'manual' | 'asr' | null
+  uploaded_captions: UploadedCaptions | null
+  media_upload: MediaUpload | null
+}
+
+// A caption file parsed by the web app; see src/utils/captionFileParser.ts
+interface UploadedCaptions {
+  fileName: string
+  format: 'srt' | 'vtt' | 'sbv'
+  language: string
+  transcript: unknown
+}
+
+// A recording in the media-uploads bucket
+interface MediaUpload {
+  path: string
+  fileName: string
+  mimeType: string
+  size: number
+  language: string | null
+}
+
+type JobTranscript = Pick<CachedTranscriptResult, 'title' | 'duration' | 'channelName' | 'thumbnail' | 'language'> & {
+  transcript: ReturnType<typeof formatTranscriptForFrontend>
+  captionTrack: { languageCode: string; kind: 'manual' | 'asr'; name: string }
+  source: 'youtube' | 'caption_file' | 'speech_to_text'
+}
+
+const STAGE_PROGRESS: Record<JobStatus, number> = {
+  queued: 0,
+  fetching_transcript: 10,
+  summarizing: 40,
+  highlighting: 70,
+  done: 100,
+  failed: 100,
+}
+
+class JobError extends Error {}
+
+// Served by the web app; uploads without a YouTube video have no thumbnail of their own
+const UPLOAD_THUMBNAIL = '/caption-file-thumbnail.svg'
+const MAX_UPLOADED_SEGMENTS = 20000
+const MEDIA_BUCKET = 'media-uploads'
+
+const formatClock = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const rest = String(seconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`
+}
+
+/**
+ * Fail the job when the video is longer than the plan allows, before any time
+ * is spent summarizing it
+ */
+function checkVideoLength(plan: PlanStatus, seconds: number): void {
+  const denial = getPlanDenial(plan, { videoSeconds: seconds })
+  if (denial) {
+    throw new JobError(`${denial.message}. Upgrade to analyze this one.`)
+  }
+}
+
+/**
+ * The uploaded transcript, checked since it comes straight from the client
+ */
+function readUploadedCaptions(job: AnalysisJob, upload: UploadedCaptions, plan: PlanStatus): JobTranscript {
+  const segments = Array.isArray(upload.transcript) ? upload.transcript : []
+  const valid = segments.length > 0 && segments.length <= MAX_UPLOADED_SEGMENTS && segments.every(segment =>
+    typeof segment?.text === 'string' && typeof segment?.start === 'number' && Number.isFinite(segment.start) && segment.start >= 0
+  )
+  if (!valid) {
+    throw new JobError('The uploaded caption file could not be read. Check the file and upload it again.')
+  }
+
+  const transcript = formatTranscriptForFrontend(segments.map(segment => ({
+    start: segment.start,
+    duration: typeof segment.duration === 'number' && segment.duration >= 0 ? segment.duration : 0,
+    text: segment.text.trim(),
+  })))
+  const last = transcript[transcript.length - 1]
+  checkVideoLength(plan, last.start + last.duration)
+  const language = typeof upload.language === 'string' && upload.language ? upload.language : 'en'
+  const fileName = typeof upload.fileName === 'string' && upload.fileName ? upload.fileName : 'Uploaded captions'
+  const standalone = job.video_id.startsWith('upload-')
+
+  return {
+    transcript,
+    title: job.video_title || fileName,
+    duration: formatClock(last.start + last.duration),
+    channelName: 'Uploaded captions',
+    thumbnail: standalone ? UPLOAD_THUMBNAIL : undefined,
+    language,
+    captionTrack: { languageCode: language, kind: 'manual', name: fileName },
+    source: 'caption_file',
+  }
+}
+
+/**
+ * Transcribe the job's recording. Long recordings can take longer than an edge
+ * function may run; deployments expecting those should run this worker with a
+ * longer limit.
+ */
+async function transcribeMediaUpload(
+  client: SupabaseClient,
+  job: AnalysisJob,
+  upload: MediaUpload,
+  plan: PlanStatus
+): Promise<JobTranscript> {
+  // The service role reads any file, so only take ones from the job owner's folder
+  if (typeof upload.path !== 'string' || !upload.path.startsWith(`${job.user_id}/`)) {
+    throw new JobError('The uploaded recording could not be found. Upload it again.')
+  }
+
+  const provider = getSpeechToTextProvider()
+  if (!provider) {
+    throw new JobError('Transcribing recordings is not available on this server yet.')
+  }
+
+  const { data: file, error: downloadError } = await client.storage.from(MEDIA_BUCKET).download(upload.path)
+  if (downloadError || !file) {
+    throw new JobError('The uploaded recording could not be found. Upload it again.')
+  }
+
+  const fileName = typeof upload.fileName === 'string' && upload.fileName ? upload.fileName : 'Recording'
+  let transcription: Transcription
+  try {
+    transcription = await provider.transcribe(
+      { data: new Uint8Array(await file.arrayBuffer()), fileName, mimeType: upload.mimeType || file.type },
+      { language: upload.language || undefined }
+    )
+  } catch (error) {
+    console.error('❌ Transcription failed:', provider.name, error)
+    throw new JobError('The recording could not be transcribed. Check that it has an audio track and try again.')
+  }
+
+  if (transcription.segments.length === 0) {
+    throw new JobError('No speech was found in the recording.')
+  }
+  checkVideoLength(plan, transcription.duration)
+
+  return {
+    transcript: formatTranscriptForFrontend(transcription.segments),
+    title: job.video_title || fileName,
+    duration: formatClock(transcription.duration),
+    channelName: 'Uploaded recording',
+    thumbnail: UPLOAD_THUMBNAIL,
+    language: transcription.language,
+    captionTrack: { languageCode: transcription.language, kind: 'asr', name: fileName },
+    source: 'speech_to_text',
+  }
+}
+
+/**
+ * Recordings are only kept until their job finishes
+ */
+async function removeMediaUpload(client: SupabaseClient, job: AnalysisJob): Promise<void> {
+  const path = job.media_upload?.path
+  if (typeof path !== 'string' || !path.startsWith(`${job.user_id}/`)) return
+
+  const { error } = await client.storage.from(MEDIA_BUCKET).remove([path])
+  if (error) {
+    console.error('⚠️ Could not delete uploaded recording:', job.id, error)
+  }
+}
+
+async function fetchJobTranscript(client: SupabaseClient, job: AnalysisJob, plan: PlanStatus): Promise<JobTranscript> {
+  let transcriptData: CachedTranscriptResult
+  try {
+    transcriptData = await fetchTranscriptCached(
+      client,
+      job.video_id,
+      job.caption_language ? { languageCode: job.caption_language, kind: job.caption_kind ?? undefined } : undefined
+    )
+  } catch (error) {
+    throw new JobError(error instanceof Error ? error.message : 'No transcript is available for this video.')
+  }
+  checkVideoLength(plan, parseDuration(transcriptData.duration))
+
+  return {
+    transcript: formatTranscriptForFrontend(transcriptData.transcript),
+    title: transcriptData.title,
+    duration: transcriptData.duration,
+    channelName: transcriptData.channelName,
+    thumbnail: transcriptData.thumbnail,
+    language: transcriptData.language,
+    captionTrack: {
+      languageCode: transcriptData.track.languageCode,
+      kind: transcriptData.track.kind,
+      name: transcriptData.track.name,
+    },
+    source: 'youtube',
+  }
+}
+
+async function updateJob(
+  client: SupabaseClient,
+  jobId: string,
+  status: JobStatus,
+  fields: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await client
+    .from('analysis_jobs')
+    .update({ status, progress: STAGE_PROGRESS[status], ...fields })
+    .eq('id', jobId)
+
+  if (error) {
+    console.error('❌ Failed to update analysis job:', jobId, status, error)
+  }
+}
+
+export async function processJob(client: SupabaseClient, job: AnalysisJob): Promise<void> {
+  try {
+    const quota = await getUsageQuota(client, job.user_id, 'video_analysis')
+    if (!quota.allowed) {
+      throw new JobError('Usage limit reached for your plan. Upgrade or try again after your limit resets.')
+    }
+
+    const plan = await getPlanStatus(client, job.user_id)
+
+    await updateJob(client, job.id, 'fetching_transcript')
+    const transcriptData = job.media_upload
+      ? await transcribeMediaUpload(client, job, job.media_upload, plan)
+      : job.uploaded_captions
+      ? readUploadedCaptions(job, job.uploaded_captions, plan)
+      : await fetchJobTranscript(client, job, plan)
+    const transcript = transcriptData.transcript
+
+    // Same rule as fetch-transcript and the API, whichever source the transcript came from
+    if (!transcriptData.language.toLowerCase().startsWith('en')) {
+      const denial = getPlanDenial(plan, { feature: 'nonEnglishSupport' })
+      if (denial) {
+        throw new JobError(`${denial.message}: videos in languages other than English. Upgrade to analyze this one.`)
+      }
+    }
+
+    await updateJob(client, job.id, 'summarizing')
+    const generated = await summarizeTranscript(transcript, {
+      title: transcriptData.title,
+      language: transcriptData.language,
+    })
+
+    await updateJob(client, job.id, 'highlighting')
+    const suggestedHighlights = detectHighlights(transcript, {
+      summary: generated.summary,
+      bulletPoints: generated.bulletPoints,
+    })
+    const chapters = detectChapters(transcript, { totalDuration: parseDuration(transcriptData.duration) })
+
+    const title = transcriptData.title || `YouTube Video ${job.video_id}`
+    const channelName = transcriptData.channelName || 'Unknown Channel'
+
+    // Checked here rather than when queueing, as the user's team role can change meanwhile
+    const writeDenial = await getSummaryWriteDenial(client, job.user_id, job.video_id, job.team_owner_id)
+    if (writeDenial) throw new JobError(writeDenial)
+
+    const { data: summary, error: saveError } = await client
+      .from('video_summaries')
+      .upsert({
+        user_id: job.user_id,
+        team_owner_id: job.team_owner_id,
+        video_id: job.video_id,
+        title,
+        thumbnail: transcriptData.thumbnail || `https://img.youtube.com/vi/${job.video_id}/maxresdefault.jpg`,
+        duration: transcriptData.duration || '0:00',
+        channel_name: channelName,
+        summary: generated.summary,
+        bullet_points: generated.bulletPoints,
+        key_quote: generated.keyQuote,
+        transcript,
+        highlighted_segments: [],
+        suggested_highlights: suggestedHighlights,
+        chapters,
+        language: transcriptData.language,
+        caption_track: transcriptData.captionTrack,
+        transcript_source: transcriptData.source,
+        translated_summary: {},
+        translated_transcript: {},
+      }, {
+        onConflict: 'user_id,video_id',
+      })
+      .select('id')
+      .single()
+
+    if (saveError) throw saveError
+
+    // Semantic search indexes anything missed here on first use, so this is not fatal
+    try {
+      await indexSummary(client, summary.id, transcript)
+    } catch (error) {
+      console.error('⚠️ Could not index transcript for semantic search:', job.id, error)
+    }
+
+    await client.rpc('increment_usage', {
+      p_user_id: job.user_id,
+      p_action_type: 'video_analysis',
+      p_metadata: { video_id: job.video_id, video_title: title, channel_name: channelName, job_id: job.id },
+    })
+
+    await updateJob(client, job.id, 'done', {
+      summary_id: summary.id,
+      uploaded_captions: null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    await removeMediaUpload(client, job)
+    console.log('✅ Analysis job finished:', job.id, job.video_id)
+  } catch (error) {
+    console.error('❌ Analysis job failed:', job.id, error)
+    await updateJob(client, job.id, 'failed', {
+      error: error instanceof JobError ? error.message : 'Failed to analyze video. Please try again.',
+      uploaded_captions: null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    await removeMediaUpload(client, job)
+  }
+}
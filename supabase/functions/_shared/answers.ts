@@ -0,0 +1,178 @@
+import { EmbeddingProvider } from './embeddings.ts'
+import { contentTerms, toDisplaySentence } from './text.ts'
+
+/**
+ * A transcript passage retrieved for a question, numbered [1], [2]... in the
+ * order given
+ */
+export interface AnswerPassage {
+  segmentIndex: number
+  start: number
+  timestamp: string
+  content: string
+}
+
+export interface GeneratedAnswer {
+  answer: string
+  // 1-based passage numbers cited in the answer
+  citations: number[]
+  grounded: boolean
+}
+
+export interface AnswerProvider {
+  name: string
+  answer(question: string, passages: AnswerPassage[]): Promise<GeneratedAnswer>
+}
+
+const NOT_FOUND = "I couldn't find an answer to that in this video's transcript."
+const MAX_ANSWER_SENTENCES = 3
+const MIN_SENTENCE_SCORE = 0.15
+// Sentences scoring well below the best one are usually just on the same topic
+const RELATIVE_SCORE_CUTOFF = 0.7
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0)
+
+/**
+ * Answers with the transcript sentences closest to the question: embedding
+ * similarity plus the share of question terms each sentence contains. Quotes
+ * the video rather than paraphrasing it, but needs no LLM.
+ */
+export function createExtractiveAnswerProvider(embeddings: EmbeddingProvider): AnswerProvider {
+  return {
+    name: 'extractive',
+    answer: async (question, passages) => {
+      const sentences = passages.flatMap((passage, passageIndex) =>
+        passage.content
+          .split(/(?<=[.!?])\s+/)
+          .map(text => text.trim())
+          .filter(text => contentTerms(text).length >= 3)
+          .map(text => ({ text, passage: passageIndex + 1 }))
+      )
+      if (sentences.length === 0) return { answer: NOT_FOUND, citations: [], grounded: false }
+
+      const questionTerms = new Set(contentTerms(question))
+      const [questionVector, ...sentenceVectors] = await embeddings.embed([
+        question,
+        ...sentences.map(sentence => sentence.text),
+      ])
+
+      const ranked = sentences
+        .map((sentence, index) => {
+          const terms = new Set(contentTerms(sentence.text))
+          const overlap = questionTerms.size > 0
+            ? [...questionTerms].filter(term => terms.has(term)).length / questionTerms.size
+            : 0
+          return { ...sentence, index, score: 0.6 * dot(questionVector, sentenceVectors[index]) + 0.4 * overlap }
+        })
+        .filter(sentence => sentence.score >= MIN_SENTENCE_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .filter((sentence, _index, sorted) => sentence.score >= sorted[0].score * RELATIVE_SCORE_CUTOFF)
+        .slice(0, MAX_ANSWER_SENTENCES)
+        // Read the picked sentences in the order they were said
+        .sort((a, b) => a.index - b.index)
+
+      if (ranked.length === 0) return { answer: NOT_FOUND, citations: [], grounded: false }
+
+      return {
+        answer: ranked.map(sentence => `${toDisplaySentence(sentence.text)} [${sentence.passage}]`).join(' '),
+        citations: [...new Set(ranked.map(sentence => sentence.passage))],
+        grounded: true,
+      }
+    },
+  }
+}
+
+/**
+ * Answers with the OpenAI-compatible `/chat/completions` endpoint, limited to
+ * the numbered passages and required to cite them
+ */
+export function createLlmAnswerProvider(config: {
+  baseUrl: string
+  apiKey?: string
+  model: string
+}): AnswerProvider {
+  return {
+    name: 'llm',
+    answer: async (question, passages) => {
+      const context = passages
+        .map((passage, index) => `[${index + 1}] (${passage.timestamp}) ${passage.content}`)
+        .join('\n\n')
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0.1,
+          messages: [
+            {
+              role: 'system',
+              content: 'You answer questions about a video using only the numbered transcript passages given. ' +
+                'Cite every claim with the passage number in square brackets, like [2]. ' +
+                `If the passages do not answer the question, reply exactly: ${NOT_FOUND}`,
+            },
+            {
+              role: 'user',
+              content: `Passages:\n${context}\n\nQuestion: ${question}`,
+            },
+          ],
+        }),
+        signal: AbortSignal.timeout(60000),
+      })
+
+      if (!response.ok) throw new Error(`LLM request failed: ${response.status}`)
+
+      const data = await response.json()
+      const answer = data?.choices?.[0]?.message?.content?.trim()
+      if (typeof answer !== 'string' || !answer) throw new Error('LLM response is missing an answer')
+
+      const citations = [...new Set(
+        [...answer.matchAll(/\[(\d+)\]/g)]
+          .map(match => Number(match[1]))
+          .filter(number => number >= 1 && number <= passages.length)
+      )]
+      return { answer, citations, grounded: citations.length > 0 }
+    },
+  }
+}
+
+/**
+ * The LLM when QA_PROVIDER (or, failing that, SUMMARY_PROVIDER) is 'llm' and
+ * LLM_BASE_URL is set, otherwise extractive answers
+ */
+export function getAnswerProvider(embeddings: EmbeddingProvider): AnswerProvider {
+  const baseUrl = Deno.env.get('LLM_BASE_URL')
+  const provider = Deno.env.get('QA_PROVIDER') ?? Deno.env.get('SUMMARY_PROVIDER')
+  if (provider === 'llm' && baseUrl) {
+    return createLlmAnswerProvider({
+      baseUrl,
+      apiKey: Deno.env.get('LLM_API_KEY'),
+      model: Deno.env.get('LLM_MODEL') ?? 'gpt-4o-mini',
+    })
+  }
+  return createExtractiveAnswerProvider(embeddings)
+}
+
+/**
+ * Answer from the given passages, falling back to the extractive answer when
+ * the configured provider fails
+ */
+export async function answerQuestion(
+  question: string,
+  passages: AnswerPassage[],
+  embeddings: EmbeddingProvider
+): Promise<GeneratedAnswer> {
+  if (passages.length === 0) return { answer: NOT_FOUND, citations: [], grounded: false }
+
+  const provider = getAnswerProvider(embeddings)
+  try {
+    return await provider.answer(question, passages)
+  } catch (error) {
+    if (provider.name === 'extractive') throw error
+    console.error('❌ LLM answer failed, falling back to extractive:', error)
+    return createExtractiveAnswerProvider(embeddings).answer(question, passages)
+  }
+}
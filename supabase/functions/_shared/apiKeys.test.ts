@@ -0,0 +1,26 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { getClientIp } from './apiKeys.ts'
+
+const request = (headers: Record<string, string>) => new Request('https://api.example.com/v1/summaries', { headers })
+
+Deno.test('only the hop appended by our proxy is trusted', () => {
+  Deno.env.delete('CLIENT_IP_HEADER')
+  assertEquals(getClientIp(request({ 'x-forwarded-for': '203.0.113.9' })), '203.0.113.9')
+  // A client spoofing an allowlisted address gets its real one appended after it
+  assertEquals(getClientIp(request({ 'x-forwarded-for': '10.0.0.1, 198.51.100.7' })), '198.51.100.7')
+  assertEquals(getClientIp(request({ 'cf-connecting-ip': '10.0.0.1' })), null)
+  assertEquals(getClientIp(request({})), null)
+})
+
+Deno.test('a configured platform header replaces x-forwarded-for', () => {
+  Deno.env.set('CLIENT_IP_HEADER', 'cf-connecting-ip')
+  try {
+    assertEquals(
+      getClientIp(request({ 'cf-connecting-ip': '198.51.100.7', 'x-forwarded-for': '10.0.0.1, 172.16.0.2' })),
+      '198.51.100.7'
+    )
+    assertEquals(getClientIp(request({ 'x-forwarded-for': '198.51.100.7' })), null)
+  } finally {
+    Deno.env.delete('CLIENT_IP_HEADER')
+  }
+})
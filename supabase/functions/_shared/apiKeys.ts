@@ -0,0 +1,76 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type ApiKeyScope = 'read' | 'analyze' | 'translate' | 'delete'
+
+export interface ApiKeyOwner {
+  keyId: string
+  userId: string
+  scopes: ApiKeyScope[]
+}
+
+export type ApiKeyCheck =
+  | { ok: true; key: ApiKeyOwner }
+  | { ok: false; status: 401 | 403; code: 'unauthorized' | 'ip_not_allowed'; message: string }
+
+const KEY_ERRORS: Record<string, Extract<ApiKeyCheck, { ok: false }>> = {
+  invalid: { ok: false, status: 401, code: 'unauthorized', message: 'Missing or invalid API key' },
+  inactive: { ok: false, status: 401, code: 'unauthorized', message: 'This API key has been disabled' },
+  expired: { ok: false, status: 401, code: 'unauthorized', message: 'This API key has expired' },
+  ip_not_allowed: {
+    ok: false,
+    status: 403,
+    code: 'ip_not_allowed',
+    message: 'This API key cannot be used from your IP address',
+  },
+}
+
+/**
+ * The caller's address, for IP allowlists. Clients can send their own
+ * `x-forwarded-for`, so only the entry appended by our proxy (the rightmost) is
+ * trusted. Behind a platform that sets its own client IP header, name it in
+ * `CLIENT_IP_HEADER` (e.g. `cf-connecting-ip`) to use that instead.
+ */
+export function getClientIp(req: Request): string | null {
+  const platformHeader = Deno.env.get('CLIENT_IP_HEADER')
+  if (platformHeader) return req.headers.get(platformHeader)?.trim() || null
+
+  const hops = (req.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean)
+  return hops[hops.length - 1] ?? null
+}
+
+/**
+ * Check the key sent as `Authorization: Bearer <key>`. Only its hash is stored;
+ * `verify_api_key` also enforces expiry (including a rotated key's grace period)
+ * and the key's IP allowlist.
+ */
+export async function authenticateApiKey(client: SupabaseClient, req: Request): Promise<ApiKeyCheck> {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return KEY_ERRORS.invalid
+
+  const { data, error } = await client.rpc('verify_api_key', {
+    p_key: authHeader.substring(7),
+    p_ip: getClientIp(req),
+  })
+
+  if (error) throw error
+  if (data.status !== 'valid') return KEY_ERRORS[data.status] ?? KEY_ERRORS.invalid
+
+  return {
+    ok: true,
+    key: { keyId: data.key_id, userId: data.user_id, scopes: data.scopes },
+  }
+}
+
+export function hasScope(key: ApiKeyOwner, scope: ApiKeyScope): boolean {
+  return key.scopes.includes(scope)
+}
+
+/**
+ * Count a request against the key's usage and update `last_used`
+ */
+export async function recordApiKeyUse(client: SupabaseClient, keyId: string): Promise<void> {
+  const { error } = await client.rpc('record_api_key_use', { p_key_id: keyId })
+  if (error) {
+    console.error('Failed to record API key use:', error)
+  }
+}
@@ -0,0 +1,238 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { PGlite } from 'npm:@electric-sql/pglite@0.5'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createMockProvider, handleBillingWebhook, isLocalSupabase, ProviderSubscription } from './billing.ts'
+
+const SECRET = 'whsec_test'
+const USER_ID = '8f14e45f-ceea-4e7a-9c1d-6f0e2b9a1c11'
+
+// Just enough of the Supabase schema for the billing migration
+const SCHEMA = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id uuid PRIMARY KEY);
+  CREATE TABLE user_subscriptions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    plan_type text NOT NULL DEFAULT 'free' CHECK (plan_type IN ('free', 'pro', 'team')),
+    status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'canceled', 'past_due', 'trialing', 'incomplete')),
+    current_period_start timestamptz DEFAULT now(),
+    current_period_end timestamptz DEFAULT (now() + interval '1 month'),
+    stripe_subscription_id text,
+    stripe_customer_id text,
+    trial_end timestamptz,
+    cancel_at_period_end boolean DEFAULT false,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+  );
+  INSERT INTO auth.users (id) VALUES ('${USER_ID}');
+  INSERT INTO user_subscriptions (user_id) VALUES ('${USER_ID}');
+`
+
+async function createDatabase(): Promise<PGlite> {
+  const db = new PGlite()
+  await db.exec(SCHEMA)
+  await db.exec(await Deno.readTextFile(new URL('../../migrations/20261019110000_copper_invoice.sql', import.meta.url)))
+  return db
+}
+
+// The one client call `handleBillingWebhook` makes, run against the test database
+function rpcClient(db: PGlite): SupabaseClient {
+  return {
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      try {
+        const { rows } = await db.query<{ result: unknown }>(
+          `SELECT ${fn}($1, $2, $3::timestamptz, $4::jsonb) AS result`,
+          [args.p_event_id, args.p_event_type, args.p_event_created, JSON.stringify(args.p_data)]
+        )
+        return { data: rows[0].result, error: null }
+      } catch (error) {
+        return { data: null, error }
+      }
+    },
+  } as unknown as SupabaseClient
+}
+
+interface Delivery {
+  payload: string
+  signature: string
+}
+
+/**
+ * A mock provider whose events are queued instead of delivered, so a test can
+ * deliver them late, twice or out of order. The clock starts two minutes ago
+ * to keep every signature inside the replay window.
+ */
+function setup(db: PGlite) {
+  const client = rpcClient(db)
+  const queue: Delivery[] = []
+  let clock = Date.now() - 120_000
+
+  const provider = createMockProvider({
+    secret: SECRET,
+    deliver: async (payload, signature) => {
+      queue.push({ payload, signature })
+    },
+    now: () => new Date(clock),
+  })
+
+  return {
+    provider,
+    tick: (seconds: number) => {
+      clock += seconds * 1000
+    },
+    next: (): Delivery => {
+      const delivery = queue.shift()
+      assert(delivery, 'expected the provider to emit an event')
+      return delivery
+    },
+    deliver: (delivery: Delivery) => handleBillingWebhook(client, SECRET, delivery.payload, delivery.signature),
+  }
+}
+
+async function paidSubscription(db: PGlite) {
+  const { rows } = await db.query<{
+    plan_type: string
+    status: string
+    cancel_at_period_end: boolean
+    stripe_subscription_id: string
+    stripe_customer_id: string
+    current_period_end: Date
+  }>(
+    `SELECT plan_type, status, cancel_at_period_end, stripe_subscription_id, stripe_customer_id, current_period_end
+     FROM user_subscriptions WHERE stripe_subscription_id IS NOT NULL`
+  )
+  return rows
+}
+
+async function checkout(db: PGlite, harness: ReturnType<typeof setup>, plan: 'pro' | 'team' = 'pro') {
+  const { url } = await harness.provider.createCheckout({
+    userId: USER_ID,
+    email: 'buyer@example.com',
+    plan,
+    billingCycle: 'monthly',
+    successUrl: 'https://app.example.com?checkout=success',
+    cancelUrl: 'https://app.example.com?checkout=canceled',
+  })
+  assertEquals(url, 'https://app.example.com?checkout=success')
+
+  const result = await harness.deliver(harness.next())
+  assertEquals(result.status, 200)
+  assertEquals(result.body.outcome, 'applied')
+
+  const [row] = await paidSubscription(db)
+  const subscription: ProviderSubscription = {
+    subscriptionId: row.stripe_subscription_id,
+    customerId: row.stripe_customer_id,
+    currentPeriodEnd: row.current_period_end.toISOString(),
+  }
+  return subscription
+}
+
+Deno.test('mock checkout creates the paid subscription through the webhook', async () => {
+  const db = await createDatabase()
+  const harness = setup(db)
+
+  await checkout(db, harness, 'team')
+
+  const rows = await paidSubscription(db)
+  assertEquals(rows.length, 1)
+  assertEquals(rows[0].plan_type, 'team')
+  assertEquals(rows[0].status, 'trialing')
+
+  const { rows: events } = await db.query<{ type: string; outcome: string }>('SELECT type, outcome FROM billing_events')
+  assertEquals(events, [{ type: 'checkout.completed', outcome: 'applied' }])
+})
+
+Deno.test('redelivered events are acknowledged without being applied twice', async () => {
+  const db = await createDatabase()
+  const harness = setup(db)
+
+  await harness.provider.createCheckout({
+    userId: USER_ID,
+    email: null,
+    plan: 'pro',
+    billingCycle: 'yearly',
+    successUrl: 'https://app.example.com?checkout=success',
+    cancelUrl: 'https://app.example.com?checkout=canceled',
+  })
+  const delivery = harness.next()
+
+  assertEquals((await harness.deliver(delivery)).body.outcome, 'applied')
+  const again = await harness.deliver(delivery)
+  assertEquals(again.status, 200)
+  assertEquals(again.body.outcome, 'duplicate')
+
+  assertEquals((await paidSubscription(db)).length, 1)
+})
+
+Deno.test('events older than the last one applied are recorded as stale', async () => {
+  const db = await createDatabase()
+  const harness = setup(db)
+  const subscription = await checkout(db, harness)
+
+  harness.tick(10)
+  await harness.provider.changePlan(subscription, 'team', 'monthly')
+  const upgrade = harness.next()
+
+  harness.tick(10)
+  await harness.provider.cancelSubscription(subscription, true)
+  const cancel = harness.next()
+
+  // The provider delivers the later event first
+  assertEquals((await harness.deliver(cancel)).body.outcome, 'applied')
+  assertEquals((await harness.deliver(upgrade)).body.outcome, 'stale')
+
+  const [row] = await paidSubscription(db)
+  assertEquals(row.plan_type, 'pro')
+  assertEquals(row.cancel_at_period_end, true)
+})
+
+Deno.test('payment failures and renewals move the subscription between statuses', async () => {
+  const db = await createDatabase()
+  const harness = setup(db)
+  const subscription = await checkout(db, harness)
+
+  harness.tick(10)
+  await harness.provider.failPayment(subscription)
+  assertEquals((await harness.deliver(harness.next())).body.outcome, 'applied')
+  assertEquals((await paidSubscription(db))[0].status, 'past_due')
+
+  harness.tick(10)
+  await harness.provider.payInvoice(subscription, 'monthly')
+  assertEquals((await harness.deliver(harness.next())).body.outcome, 'applied')
+
+  const [row] = await paidSubscription(db)
+  assertEquals(row.status, 'active')
+  assert(row.current_period_end.getTime() > new Date(subscription.currentPeriodEnd ?? 0).getTime())
+})
+
+Deno.test('events with a bad signature are rejected before reaching the database', async () => {
+  const db = await createDatabase()
+  const harness = setup(db)
+
+  await harness.provider.createCheckout({
+    userId: USER_ID,
+    email: null,
+    plan: 'pro',
+    billingCycle: 'monthly',
+    successUrl: 'https://app.example.com?checkout=success',
+    cancelUrl: 'https://app.example.com?checkout=canceled',
+  })
+  const { payload, signature } = harness.next()
+  const forged = payload.replace('"plan":"pro"', '"plan":"team"')
+
+  assertEquals((await harness.deliver({ payload: forged, signature })).status, 401)
+  assertEquals((await harness.deliver({ payload, signature: null as unknown as string })).status, 401)
+  assertEquals((await paidSubscription(db)).length, 0)
+  assertEquals((await db.query('SELECT 1 FROM billing_events')).rows.length, 0)
+})
+
+Deno.test('the mock provider is only allowed on a local Supabase stack', () => {
+  assertEquals(isLocalSupabase('http://kong:8000'), true)
+  assertEquals(isLocalSupabase('http://127.0.0.1:54321'), true)
+  assertEquals(isLocalSupabase('https://abcdefghijklmnop.supabase.co'), false)
+  assertEquals(isLocalSupabase(''), false)
+})
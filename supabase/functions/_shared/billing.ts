@@ -0,0 +1,229 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { signPayload, verifySignature } from './signing.ts'
+
+export type PaidPlan = 'pro' | 'team'
+export type BillingCycle = 'monthly' | 'yearly'
+
+export type BillingEventType =
+  | 'checkout.completed'
+  | 'subscription.updated'
+  | 'subscription.deleted'
+  | 'invoice.paid'
+  | 'invoice.payment_failed'
+
+export interface BillingEventData {
+  subscription_id: string
+  customer_id?: string
+  user_id?: string
+  plan?: PaidPlan
+  billing_cycle?: BillingCycle
+  status?: 'active' | 'trialing' | 'past_due' | 'canceled' | 'incomplete'
+  current_period_start?: string
+  current_period_end?: string
+  trial_end?: string | null
+  cancel_at_period_end?: boolean
+}
+
+export interface BillingEvent {
+  id: string
+  type: BillingEventType
+  /** Unix seconds */
+  created: number
+  data: BillingEventData
+}
+
+/** The subscription as we last stored it, for providers that need current state */
+export interface ProviderSubscription {
+  subscriptionId: string
+  customerId: string | null
+  currentPeriodEnd: string | null
+}
+
+export interface CheckoutRequest {
+  userId: string
+  email: string | null
+  plan: PaidPlan
+  billingCycle: BillingCycle
+  successUrl: string
+  cancelUrl: string
+}
+
+/**
+ * What the checkout function needs from a payment provider. Subscription
+ * changes are never written here; they arrive later as signed webhook events.
+ */
+export interface BillingProvider {
+  name: string
+  createCheckout(request: CheckoutRequest): Promise<{ url: string }>
+  changePlan(subscription: ProviderSubscription, plan: PaidPlan, billingCycle: BillingCycle): Promise<void>
+  cancelSubscription(subscription: ProviderSubscription, atPeriodEnd: boolean): Promise<void>
+  resumeSubscription(subscription: ProviderSubscription): Promise<void>
+}
+
+export const SIGNATURE_HEADER = 'x-billing-signature'
+const TEAM_TRIAL_DAYS = 14
+
+/**
+ * Verify and apply one webhook delivery. `apply_billing_event` records the event
+ * id first, so redelivered events are acknowledged without being applied twice.
+ */
+export async function handleBillingWebhook(
+  client: SupabaseClient,
+  secret: string,
+  payload: string,
+  signature: string | null
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  if (!(await verifySignature(secret, payload, signature))) {
+    return { status: 401, body: { success: false, error: 'Invalid signature' } }
+  }
+
+  let event: BillingEvent
+  try {
+    event = JSON.parse(payload)
+  } catch {
+    return { status: 400, body: { success: false, error: 'Invalid JSON payload' } }
+  }
+
+  if (!event.id || !event.type || !event.created || !event.data) {
+    return { status: 400, body: { success: false, error: 'Malformed event' } }
+  }
+
+  const { data, error } = await client.rpc('apply_billing_event', {
+    p_event_id: event.id,
+    p_event_type: event.type,
+    p_event_created: new Date(event.created * 1000).toISOString(),
+    p_data: event.data,
+  })
+
+  if (error) {
+    console.error('❌ Failed to apply billing event:', event.id, error)
+    // Non-2xx makes the provider retry; the event id is only stored on success
+    return { status: 500, body: { success: false, error: 'Failed to apply event' } }
+  }
+
+  console.log(`✅ Billing event ${event.id} (${event.type}): ${data.outcome}`)
+  return { status: 200, body: { success: true, outcome: data.outcome } }
+}
+
+// Hosts the functions see as SUPABASE_URL when running on `supabase start`
+const LOCAL_SUPABASE_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', 'kong', 'host.docker.internal'])
+
+/**
+ * The mock provider upgrades whoever asks, so it may only run against a local
+ * Supabase stack, never a hosted project
+ */
+export function isLocalSupabase(supabaseUrl: string): boolean {
+  try {
+    return LOCAL_SUPABASE_HOSTS.has(new URL(supabaseUrl).hostname)
+  } catch {
+    return false
+  }
+}
+
+function addPeriod(from: Date, billingCycle: BillingCycle): Date {
+  const end = new Date(from)
+  if (billingCycle === 'yearly') {
+    end.setFullYear(end.getFullYear() + 1)
+  } else {
+    end.setMonth(end.getMonth() + 1)
+  }
+  return end
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').substring(0, 24)}`
+}
+
+/**
+ * Local stand-in for a hosted payment provider. Nothing leaves the process:
+ * every action produces the signed event a real provider would send and hands
+ * it to `deliver`, which normally feeds it straight into `handleBillingWebhook`.
+ * Checkout completes immediately and redirects to the success URL.
+ */
+export function createMockProvider(options: {
+  secret: string
+  deliver: (payload: string, signature: string) => Promise<void>
+  now?: () => Date
+}): BillingProvider & {
+  failPayment(subscription: ProviderSubscription): Promise<void>
+  payInvoice(subscription: ProviderSubscription, billingCycle: BillingCycle): Promise<void>
+} {
+  const now = options.now || (() => new Date())
+
+  const emit = async (type: BillingEventType, data: BillingEventData) => {
+    const event: BillingEvent = {
+      id: randomId('evt_mock'),
+      type,
+      created: Math.floor(now().getTime() / 1000),
+      data,
+    }
+    const payload = JSON.stringify(event)
+    await options.deliver(payload, await signPayload(options.secret, payload, event.created))
+  }
+
+  return {
+    name: 'mock',
+
+    async createCheckout(request) {
+      const start = now()
+      const trialEnd = request.plan === 'team'
+        ? new Date(start.getTime() + TEAM_TRIAL_DAYS * 24 * 60 * 60 * 1000)
+        : null
+
+      await emit('checkout.completed', {
+        subscription_id: randomId('sub_mock'),
+        customer_id: `cus_mock_${request.userId.replace(/-/g, '').substring(0, 16)}`,
+        user_id: request.userId,
+        plan: request.plan,
+        billing_cycle: request.billingCycle,
+        status: trialEnd ? 'trialing' : 'active',
+        current_period_start: start.toISOString(),
+        current_period_end: addPeriod(trialEnd || start, request.billingCycle).toISOString(),
+        trial_end: trialEnd ? trialEnd.toISOString() : null,
+      })
+
+      return { url: request.successUrl }
+    },
+
+    async changePlan(subscription, plan, billingCycle) {
+      await emit('subscription.updated', {
+        subscription_id: subscription.subscriptionId,
+        plan,
+        billing_cycle: billingCycle,
+        status: 'active',
+        cancel_at_period_end: false,
+      })
+    },
+
+    async cancelSubscription(subscription, atPeriodEnd) {
+      if (atPeriodEnd) {
+        await emit('subscription.updated', {
+          subscription_id: subscription.subscriptionId,
+          cancel_at_period_end: true,
+        })
+      } else {
+        await emit('subscription.deleted', { subscription_id: subscription.subscriptionId })
+      }
+    },
+
+    async resumeSubscription(subscription) {
+      await emit('subscription.updated', {
+        subscription_id: subscription.subscriptionId,
+        cancel_at_period_end: false,
+      })
+    },
+
+    async failPayment(subscription) {
+      await emit('invoice.payment_failed', { subscription_id: subscription.subscriptionId })
+    },
+
+    async payInvoice(subscription, billingCycle) {
+      const start = subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd) : now()
+      await emit('invoice.paid', {
+        subscription_id: subscription.subscriptionId,
+        current_period_start: start.toISOString(),
+        current_period_end: addPeriod(start, billingCycle).toISOString(),
+      })
+    },
+  }
+}
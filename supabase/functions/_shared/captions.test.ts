@@ -0,0 +1,58 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import {
+  CaptionCue,
+  CaptionFormat,
+  decodeEntities,
+  detectCaptionFormat,
+  parseCaptions,
+  parseClassicXml,
+  parseJson3,
+  parseSrv3,
+} from './captions.ts'
+
+const FIXTURES = new URL('./fixtures/captions/', import.meta.url)
+
+const PARSERS: Record<CaptionFormat, (payload: string) => CaptionCue[]> = {
+  classic: parseClassicXml,
+  srv3: parseSrv3,
+  json3: parseJson3,
+}
+
+const payloads: string[] = []
+for await (const entry of Deno.readDir(FIXTURES)) {
+  if (entry.isFile && /\.(xml|json)$/.test(entry.name) && !entry.name.endsWith('.expected.json')) {
+    payloads.push(entry.name)
+  }
+}
+payloads.sort()
+
+for (const name of payloads) {
+  Deno.test(`parses fixtures/captions/${name}`, async () => {
+    const payload = await Deno.readTextFile(new URL(name, FIXTURES))
+    const expected: { format: CaptionFormat; cues: CaptionCue[] } = JSON.parse(
+      await Deno.readTextFile(new URL(name.replace(/\.(xml|json)$/, '.expected.json'), FIXTURES))
+    )
+
+    assertEquals(detectCaptionFormat(payload), expected.format)
+    assertEquals(PARSERS[expected.format](payload), expected.cues)
+    assertEquals(parseCaptions(payload), expected.cues)
+  })
+}
+
+Deno.test('every caption format has a fixture', () => {
+  const formats = new Set(payloads.map(name => name.split('-')[0]))
+  assertEquals([...formats].sort(), Object.keys(PARSERS).sort())
+})
+
+Deno.test('decodeEntities handles named, decimal and hex references', () => {
+  assertEquals(decodeEntities('Tom &amp; Jerry &quot;live&quot;'), 'Tom & Jerry "live"')
+  assertEquals(decodeEntities('it&#39;s &#8217;quoted&#x2019; &#X1F600;'), 'it\'s ’quoted’ 😀')
+  assertEquals(decodeEntities('caf&eacute; &mdash; 24&deg;C'), 'café — 24°C')
+  // Double-escaped text only loses one level per pass
+  assertEquals(decodeEntities('&amp;#39;'), '&#39;')
+})
+
+Deno.test('decodeEntities leaves unknown and invalid references readable', () => {
+  assertEquals(decodeEntities('&notanentity; & a &lt b'), '&notanentity; & a &lt b')
+  assertEquals(decodeEntities('&#0; &#xD800; &#1114112;'), '� � �')
+})
@@ -0,0 +1,226 @@
+/**
+ * Parsers for the caption formats YouTube's timedtext endpoint returns:
+ *
+ * - classic XML: `<transcript><text start="1.2" dur="3.4">...</text></transcript>`,
+ *   seconds, with the text HTML-escaped a second time inside the XML
+ * - srv3 (`fmt=srv3`): `<timedtext format="3"><body><p t="1200" d="3400">`, in
+ *   milliseconds, with `<s t="..">` word spans on automatic captions
+ * - json3 (`fmt=json3`): `{ "events": [{ "tStartMs", "dDurationMs", "segs": [{ "utf8", "tOffsetMs" }] }] }`
+ *
+ * Sample payloads of each are in `fixtures/captions`, next to the segments they
+ * should parse into.
+ */
+
+export interface CaptionWord {
+  text: string
+  start: number
+  duration: number
+}
+
+export interface CaptionCue {
+  start: number
+  duration: number
+  text: string
+  // Only for tracks that time each word, which is YouTube's automatic captions
+  words?: CaptionWord[]
+}
+
+export type CaptionFormat = 'classic' | 'srv3' | 'json3'
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  laquo: '«', raquo: '»', bull: '•', middot: '·', deg: '°', copy: '©', reg: '®', trade: '™',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶', times: '×', divide: '÷',
+  iexcl: '¡', iquest: '¿', shy: '\u00ad', zwj: '\u200d', zwnj: '\u200c', lrm: '\u200e', rlm: '\u200f',
+  aacute: 'á', eacute: 'é', iacute: 'í', oacute: 'ó', uacute: 'ú', yacute: 'ý',
+  Aacute: 'Á', Eacute: 'É', Iacute: 'Í', Oacute: 'Ó', Uacute: 'Ú', Yacute: 'Ý',
+  agrave: 'à', egrave: 'è', igrave: 'ì', ograve: 'ò', ugrave: 'ù',
+  Agrave: 'À', Egrave: 'È', Igrave: 'Ì', Ograve: 'Ò', Ugrave: 'Ù',
+  acirc: 'â', ecirc: 'ê', icirc: 'î', ocirc: 'ô', ucirc: 'û',
+  Acirc: 'Â', Ecirc: 'Ê', Icirc: 'Î', Ocirc: 'Ô', Ucirc: 'Û',
+  auml: 'ä', euml: 'ë', iuml: 'ï', ouml: 'ö', uuml: 'ü', yuml: 'ÿ',
+  Auml: 'Ä', Euml: 'Ë', Iuml: 'Ï', Ouml: 'Ö', Uuml: 'Ü',
+  atilde: 'ã', otilde: 'õ', ntilde: 'ñ', Atilde: 'Ã', Otilde: 'Õ', Ntilde: 'Ñ',
+  aring: 'å', Aring: 'Å', aelig: 'æ', AElig: 'Æ', oslash: 'ø', Oslash: 'Ø',
+  ccedil: 'ç', Ccedil: 'Ç', szlig: 'ß', eth: 'ð', thorn: 'þ',
+}
+
+/**
+ * Decode named and numeric (`&#8217;`, `&#x2019;`) character references.
+ * Unknown names are left as written.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.substring(2), 16) : parseInt(body.substring(1), 10)
+      const valid = codePoint > 0 && codePoint <= 0x10ffff && !(codePoint >= 0xd800 && codePoint <= 0xdfff)
+      return valid ? String.fromCodePoint(codePoint) : '\ufffd'
+    }
+    return NAMED_ENTITIES[body] ?? entity
+  })
+}
+
+// Formatting tags such as <font color="#E5E5E5">, <i> and <br/>. A lone `<`
+// in speech ("a < b") is not followed by a tag name, so it is kept.
+const TAG_PATTERN = /<\/?[a-zA-Z][\w:-]*(?:\s[^<>]*)?\/?>/g
+const LINE_BREAK_PATTERN = /<br\s*\/?>/gi
+
+/**
+ * Captions wrap long lines; join them into one line of text
+ */
+export const normalizeLineBreaks = (text: string) =>
+  text
+    .replace(/\r\n?|\n|\u2028|\u2029/g, ' ')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .trim()
+
+const stripTags = (markup: string) => markup.replace(LINE_BREAK_PATTERN, '\n').replace(TAG_PATTERN, '')
+
+const readAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[2] ?? match[3]
+  }
+  return attributes
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+/**
+ * Give each word the time until the next one starts, and the last one the
+ * time left in its cue
+ */
+function timeWords(words: { text: string; start: number }[], cueEnd: number): CaptionWord[] {
+  return words.map((word, index) => {
+    const end = index + 1 < words.length ? words[index + 1].start : cueEnd
+    return { text: word.text, start: roundTime(word.start), duration: roundTime(Math.max(end - word.start, 0)) }
+  })
+}
+
+/**
+ * `<transcript><text start dur>` in seconds. The text is escaped twice, so a
+ * quote arrives as `&amp;#39;`, and may hold escaped formatting tags.
+ */
+export function parseClassicXml(xml: string): CaptionCue[] {
+  const cues: CaptionCue[] = []
+
+  for (const match of xml.matchAll(/<text\b([^>]*?)(?:\/>|>([\s\S]*?)<\/text>)/g)) {
+    const attributes = readAttributes(match[1])
+    const start = parseFloat(attributes.start)
+    const duration = parseFloat(attributes.dur ?? '0')
+    if (isNaN(start)) continue
+
+    // XML escaping, then the HTML escaping inside it, each followed by the tags it revealed
+    const text = normalizeLineBreaks(stripTags(decodeEntities(stripTags(decodeEntities(stripTags(match[2] ?? ''))))))
+    if (!text) continue
+
+    cues.push({ start: roundTime(start), duration: roundTime(isNaN(duration) ? 0 : duration), text })
+  }
+
+  return cues
+}
+
+/**
+ * srv3 paragraphs in milliseconds. Automatic captions split a paragraph into
+ * `<s t="offset">` word spans; creator captions hold plain text.
+ */
+export function parseSrv3(xml: string): CaptionCue[] {
+  const cues: CaptionCue[] = []
+
+  for (const match of xml.matchAll(/<p\b([^>]*?)(?:\/>|>([\s\S]*?)<\/p>)/g)) {
+    const attributes = readAttributes(match[1])
+    const startMs = parseInt(attributes.t, 10)
+    const durationMs = parseInt(attributes.d ?? '0', 10)
+    if (isNaN(startMs)) continue
+
+    const content = match[2] ?? ''
+    const text = normalizeLineBreaks(decodeEntities(stripTags(content)))
+    if (!text) continue
+
+    const start = startMs / 1000
+    const duration = isNaN(durationMs) ? 0 : durationMs / 1000
+    const cue: CaptionCue = { start: roundTime(start), duration: roundTime(duration), text }
+
+    const spans = [...content.matchAll(/<s\b([^>]*)>([\s\S]*?)<\/s>/g)]
+    if (spans.length > 0) {
+      const words = spans
+        .map(span => {
+          const offset = parseInt(readAttributes(span[1]).t ?? '0', 10)
+          return {
+            text: normalizeLineBreaks(decodeEntities(stripTags(span[2]))),
+            start: start + (isNaN(offset) ? 0 : offset) / 1000,
+          }
+        })
+        .filter(word => word.text)
+      if (words.length > 0) cue.words = timeWords(words, start + duration)
+    }
+
+    cues.push(cue)
+  }
+
+  return cues
+}
+
+interface Json3Event {
+  tStartMs?: number
+  dDurationMs?: number
+  aAppend?: number
+  segs?: { utf8?: string; tOffsetMs?: number }[]
+}
+
+/**
+ * json3 events in milliseconds. Automatic captions give one seg per word with
+ * its offset; events holding only a line break are skipped.
+ */
+export function parseJson3(json: string): CaptionCue[] {
+  const data = JSON.parse(json)
+  const events: Json3Event[] = Array.isArray(data?.events) ? data.events : []
+  const cues: CaptionCue[] = []
+
+  for (const event of events) {
+    if (!event.segs || typeof event.tStartMs !== 'number') continue
+
+    const text = normalizeLineBreaks(event.segs.map(seg => seg.utf8 ?? '').join(''))
+    if (!text) continue
+
+    const start = event.tStartMs / 1000
+    const duration = (event.dDurationMs ?? 0) / 1000
+    const cue: CaptionCue = { start: roundTime(start), duration: roundTime(duration), text }
+
+    if (event.segs.length > 1) {
+      const words = event.segs
+        .map(seg => ({ text: normalizeLineBreaks(seg.utf8 ?? ''), start: start + (seg.tOffsetMs ?? 0) / 1000 }))
+        .filter(word => word.text)
+      if (words.length > 0) cue.words = timeWords(words, start + duration)
+    }
+
+    cues.push(cue)
+  }
+
+  return cues
+}
+
+export function detectCaptionFormat(payload: string): CaptionFormat | null {
+  const head = payload.trimStart().substring(0, 500)
+  if (head.startsWith('{')) return 'json3'
+  if (/<timedtext\b[^>]*\bformat="3"/.test(head) || /<p\s[^>]*\bt="\d+"/.test(payload)) return 'srv3'
+  if (/<transcript\b/.test(head) || /<text\s[^>]*\bstart="/.test(payload)) return 'classic'
+  return null
+}
+
+/**
+ * Parse a timedtext payload in whichever format it is in
+ */
+export function parseCaptions(payload: string): CaptionCue[] {
+  switch (detectCaptionFormat(payload)) {
+    case 'json3':
+      return parseJson3(payload)
+    case 'srv3':
+      return parseSrv3(payload)
+    case 'classic':
+      return parseClassicXml(payload)
+    default:
+      throw new Error('Unrecognized caption format')
+  }
+}
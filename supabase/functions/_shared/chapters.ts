@@ -0,0 +1,156 @@
+/**
+ * Chapter detection (TextTiling) for new summaries, in analysis jobs and in the
+ * web app.
+ */
+import { rankSentences } from './extractiveSummary.ts'
+import {
+  TextSegment,
+  contentTerms,
+  cosineSimilarity,
+  inverseDocumentFrequencies,
+  isStopWord,
+  splitTranscriptIntoSentences,
+  stem,
+  termFrequencies,
+  toDisplaySentence,
+  tokenize,
+} from './text.ts'
+
+export interface Chapter {
+  start: number
+  end: number
+  title: string
+  summary: string
+}
+
+export interface ChapterOptions {
+  // Length of the video in seconds, used for the end of the last chapter
+  totalDuration?: number
+  // Segments on each side of a gap compared for lexical cohesion
+  windowSize?: number
+  minChapterSeconds?: number
+  maxChapters?: number
+}
+
+/**
+ * Cohesion between the windows before and after every gap between segments.
+ * Gaps where vocabulary shifts sharply score low.
+ */
+const gapCohesion = (termLists: string[][], windowSize: number): number[] => {
+  const cohesion: number[] = []
+  for (let gap = 1; gap < termLists.length; gap++) {
+    const before = termFrequencies(termLists.slice(Math.max(0, gap - windowSize), gap).flat())
+    const after = termFrequencies(termLists.slice(gap, gap + windowSize).flat())
+    cohesion.push(cosineSimilarity(before, after))
+  }
+  return cohesion
+}
+
+/**
+ * TextTiling depth score: how far a gap's cohesion dips below the peaks on
+ * either side of it
+ */
+const depthScores = (cohesion: number[]): number[] => {
+  return cohesion.map((value, i) => {
+    let leftPeak = value
+    for (let j = i - 1; j >= 0 && cohesion[j] >= leftPeak; j--) leftPeak = cohesion[j]
+    let rightPeak = value
+    for (let j = i + 1; j < cohesion.length && cohesion[j] >= rightPeak; j++) rightPeak = cohesion[j]
+    return (leftPeak - value) + (rightPeak - value)
+  })
+}
+
+const titleCase = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1)
+
+/**
+ * Name a chapter after the terms that are most specific to it compared with
+ * the rest of the video
+ */
+const chapterTitle = (segments: TextSegment[], idf: Map<string, number>, index: number): string => {
+  const surfaceForms = new Map<string, Map<string, number>>()
+  const weights = new Map<string, number>()
+
+  segments.forEach(segment => {
+    tokenize(segment.text)
+      .filter(word => word.length > 2 && !isStopWord(word) && !/^\d+$/.test(word))
+      .forEach(word => {
+        const term = stem(word)
+        weights.set(term, (weights.get(term) || 0) + (idf.get(term) || 0))
+        const forms = surfaceForms.get(term) || new Map<string, number>()
+        forms.set(word, (forms.get(word) || 0) + 1)
+        surfaceForms.set(term, forms)
+      })
+  })
+
+  const keywords = [...weights.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([term]) => {
+      const forms = [...(surfaceForms.get(term)?.entries() || [])].sort((a, b) => b[1] - a[1])
+      return titleCase(forms[0]?.[0] || term)
+    })
+
+  if (keywords.length === 0) return `Part ${index + 1}`
+  if (keywords.length === 1) return keywords[0]
+  return `${keywords.slice(0, -1).join(', ')} and ${keywords[keywords.length - 1]}`
+}
+
+const chapterSummary = (segments: TextSegment[]): string => {
+  const sentences = splitTranscriptIntoSentences(segments)
+  if (sentences.length === 0) return ''
+  const [top] = rankSentences(sentences).sort((a, b) => b.score - a.score)
+  return toDisplaySentence(top.text)
+}
+
+/**
+ * Split a transcript into chapters at topic boundaries found by lexical
+ * cohesion over sliding windows (TextTiling)
+ */
+export const detectChapters = (transcript: TextSegment[], options: ChapterOptions = {}): Chapter[] => {
+  if (transcript.length === 0) return []
+
+  const lastStart = transcript[transcript.length - 1].start
+  const totalDuration = Math.max(options.totalDuration ?? 0, lastStart + 5)
+  const windowSize = options.windowSize ?? 6
+  const minChapterSeconds = options.minChapterSeconds ?? Math.max(60, totalDuration / 20)
+  const maxChapters = options.maxChapters ?? Math.min(20, Math.max(1, Math.floor(totalDuration / minChapterSeconds)))
+
+  const termLists = transcript.map(segment => contentTerms(segment.text))
+  const idf = inverseDocumentFrequencies(termLists)
+
+  const boundaries: number[] = []
+  if (transcript.length > windowSize * 2 && maxChapters > 1) {
+    const depths = depthScores(gapCohesion(termLists, windowSize))
+    const mean = depths.reduce((sum, depth) => sum + depth, 0) / depths.length
+    const deviation = Math.sqrt(depths.reduce((sum, depth) => sum + (depth - mean) ** 2, 0) / depths.length)
+    const threshold = mean + deviation / 2
+
+    // Gap i sits before segment i + 1; take the deepest gaps first
+    const candidates = depths
+      .map((depth, i) => ({ depth, segmentIndex: i + 1 }))
+      .filter(candidate => candidate.depth > threshold)
+      .sort((a, b) => b.depth - a.depth)
+
+    for (const candidate of candidates) {
+      if (boundaries.length >= maxChapters - 1) break
+      const start = transcript[candidate.segmentIndex].start
+      const edges = [0, ...boundaries.map(index => transcript[index].start), totalDuration]
+      const tooClose = edges.some(edge => Math.abs(edge - start) < minChapterSeconds)
+      if (!tooClose) boundaries.push(candidate.segmentIndex)
+    }
+    boundaries.sort((a, b) => a - b)
+  }
+
+  const starts = [0, ...boundaries]
+  return starts.map((startIndex, i) => {
+    const endIndex = i + 1 < starts.length ? starts[i + 1] : transcript.length
+    const segments = transcript.slice(startIndex, endIndex)
+
+    return {
+      start: i === 0 ? 0 : transcript[startIndex].start,
+      end: endIndex < transcript.length ? transcript[endIndex].start : totalDuration,
+      title: chapterTitle(segments, idf, i),
+      summary: chapterSummary(segments),
+    }
+  })
+}
@@ -0,0 +1,231 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { contentTerms, countWords, normalizeCaptionText } from './text.ts'
+
+/**
+ * Turns text into vectors for semantic search. The model name is stored with
+ * every chunk, so vectors from different providers are never compared.
+ */
+export interface EmbeddingProvider {
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface EmbeddingSegment {
+  text: string
+  start: number
+  duration?: number
+  timestamp?: string
+}
+
+export interface TranscriptChunk {
+  chunkIndex: number
+  segmentIndex: number
+  startTime: number
+  endTime: number
+  timestamp: string
+  content: string
+}
+
+const CHUNK_WORDS = 60
+const EMBEDDING_BATCH_SIZE = 64
+
+// FNV-1a, so the same term always lands in the same dimension
+const hashTerm = (term: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+const normalize = (vector: number[]) => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+/**
+ * Hashed bag-of-words vectors: stemmed content terms and their bigrams hashed
+ * into a fixed number of dimensions. Deterministic and offline, so it works in
+ * tests and without an embeddings API, but only matches shared word stems.
+ */
+export function createHashedEmbeddingProvider(dimensions = 512): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0)
+    const terms = contentTerms(text)
+    const features = new Map<string, number>()
+
+    terms.forEach((term, index) => {
+      features.set(term, (features.get(term) ?? 0) + 1)
+      if (index > 0) {
+        const bigram = `${terms[index - 1]} ${term}`
+        features.set(bigram, (features.get(bigram) ?? 0) + 0.5)
+      }
+    })
+
+    features.forEach((count, feature) => {
+      const hash = hashTerm(feature)
+      // The top bit picks the sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1
+      vector[hash % dimensions] += sign * (1 + Math.log(count))
+    })
+
+    return normalize(vector)
+  }
+
+  return {
+    model: `hashed-bow-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  }
+}
+
+/**
+ * Embeddings from the OpenAI-compatible `/embeddings` endpoint in LLM_BASE_URL
+ */
+export function createLlmEmbeddingProvider(config: {
+  baseUrl: string
+  apiKey?: string
+  model: string
+}): EmbeddingProvider {
+  return {
+    model: config.model,
+    embed: async (texts) => {
+      const vectors: number[][] = []
+
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE)
+        const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/embeddings`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model: config.model, input: batch }),
+          signal: AbortSignal.timeout(60000),
+        })
+
+        if (!response.ok) throw new Error(`Embedding request failed: ${response.status}`)
+
+        const data = await response.json()
+        const items: { index: number; embedding: number[] }[] = Array.isArray(data?.data) ? data.data : []
+        if (items.length !== batch.length) {
+          throw new Error('Embedding service returned the wrong number of vectors')
+        }
+        items
+          .sort((a, b) => a.index - b.index)
+          .forEach(item => vectors.push(item.embedding))
+      }
+
+      return vectors
+    },
+  }
+}
+
+/**
+ * The embeddings API when EMBEDDING_PROVIDER is 'llm' and LLM_BASE_URL is set,
+ * otherwise hashed bag-of-words vectors
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const baseUrl = Deno.env.get('LLM_BASE_URL')
+  if (Deno.env.get('EMBEDDING_PROVIDER') === 'llm' && baseUrl) {
+    return createLlmEmbeddingProvider({
+      baseUrl,
+      apiKey: Deno.env.get('LLM_API_KEY'),
+      model: Deno.env.get('EMBEDDING_MODEL') ?? 'text-embedding-3-small',
+    })
+  }
+  return createHashedEmbeddingProvider()
+}
+
+const formatStart = (seconds: number) => {
+  const total = Math.floor(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+/**
+ * Group consecutive segments into passages of about CHUNK_WORDS words. Each
+ * passage repeats the last segment of the one before, so an idea split across
+ * a boundary still appears whole in one of them.
+ */
+export function chunkTranscript(transcript: EmbeddingSegment[]): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = []
+  let first = 0
+
+  while (first < transcript.length) {
+    let last = first
+    let words = 0
+    const texts: string[] = []
+
+    while (last < transcript.length && (words < CHUNK_WORDS || texts.length === 0)) {
+      const text = normalizeCaptionText(transcript[last].text)
+      if (text) {
+        texts.push(text)
+        words += countWords(text)
+      }
+      last++
+    }
+
+    const end = transcript[last - 1]
+    if (texts.length > 0) {
+      chunks.push({
+        chunkIndex: chunks.length,
+        segmentIndex: first,
+        startTime: transcript[first].start,
+        endTime: end.start + (end.duration ?? 0),
+        timestamp: transcript[first].timestamp ?? formatStart(transcript[first].start),
+        content: texts.join(' '),
+      })
+    }
+
+    if (last >= transcript.length) break
+    first = last - 1 > first ? last - 1 : last
+  }
+
+  return chunks
+}
+
+// pgvector accepts vectors as '[x,y,...]' text
+export const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`
+
+/**
+ * Replace a summary's chunks for the provider's model. Needs a service-role
+ * client, since `transcript_chunks` has no policies.
+ */
+export async function indexSummary(
+  client: SupabaseClient,
+  summaryId: string,
+  transcript: EmbeddingSegment[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> {
+  const chunks = chunkTranscript(transcript)
+  const vectors = chunks.length > 0 ? await provider.embed(chunks.map(chunk => chunk.content)) : []
+
+  const { error: deleteError } = await client
+    .from('transcript_chunks')
+    .delete()
+    .eq('summary_id', summaryId)
+    .eq('embedding_model', provider.model)
+  if (deleteError) throw deleteError
+
+  if (chunks.length === 0) return 0
+
+  const { error } = await client.from('transcript_chunks').insert(
+    chunks.map((chunk, index) => ({
+      summary_id: summaryId,
+      embedding_model: provider.model,
+      chunk_index: chunk.chunkIndex,
+      segment_index: chunk.segmentIndex,
+      start_time: chunk.startTime,
+      end_time: chunk.endTime,
+      start_timestamp: chunk.timestamp,
+      content: chunk.content,
+      embedding: toVectorLiteral(vectors[index]),
+    }))
+  )
+  if (error) throw error
+
+  return chunks.length
+}
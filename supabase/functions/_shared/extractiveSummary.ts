@@ -0,0 +1,196 @@
+/**
+ * Offline extractive summarizer. Every field is lifted from the transcript
+ * itself, so the output is only as good as the captions, but it never calls
+ * out. Used by the web app for guests and as the fallback when an LLM summary
+ * fails; `summary.ts` adds the LLM provider for edge functions.
+ */
+import {
+  TextSegment,
+  TranscriptSentence,
+  contentTerms,
+  cosineSimilarity,
+  countWords,
+  inverseDocumentFrequencies,
+  splitTranscriptIntoSentences,
+  tfidfVector,
+  toDisplaySentence,
+} from './text.ts'
+
+export interface GeneratedSummary {
+  summary: string
+  bulletPoints: string[]
+  keyQuote: string
+  memorableQuotes?: {
+    best: string
+    viral: string
+    powerful: string
+  }
+}
+
+export interface RankedSentence extends TranscriptSentence {
+  position: number
+  score: number
+  vector: Map<string, number>
+}
+
+const DAMPING = 0.85
+const MAX_ITERATIONS = 50
+const CONVERGENCE = 1e-4
+
+// Words that mark a sentence as emphatic or quotable
+const EMPHASIS_WORDS = new Set([
+  'always', 'never', 'every', 'everything', 'nothing', 'must', 'remember', 'key', 'secret', 'truth',
+  'important', 'biggest', 'best', 'worst', 'only', 'real', 'truly', 'powerful', 'change', 'matter',
+])
+
+/**
+ * Score sentences with TextRank: PageRank over a graph whose edge weights are
+ * the TF-IDF cosine similarity between sentences
+ */
+export const rankSentences = (sentences: TranscriptSentence[]): RankedSentence[] => {
+  const termLists = sentences.map(sentence => contentTerms(sentence.text))
+  const idf = inverseDocumentFrequencies(termLists)
+  const vectors = termLists.map(terms => tfidfVector(terms, idf))
+  const count = sentences.length
+
+  const weights: number[][] = vectors.map((vector, i) =>
+    vectors.map((other, j) => (i === j ? 0 : cosineSimilarity(vector, other)))
+  )
+  const outgoing = weights.map(row => row.reduce((sum, weight) => sum + weight, 0))
+
+  // Keep only non-zero edges, pre-normalized by the source's outgoing weight
+  const incoming = sentences.map((_, i) =>
+    weights
+      .map((row, j) => ({ from: j, weight: outgoing[j] > 0 ? row[i] / outgoing[j] : 0 }))
+      .filter(edge => edge.weight > 0)
+  )
+
+  let scores: number[] = new Array(count).fill(1 / Math.max(count, 1))
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = incoming.map(edges => {
+      const received = edges.reduce((sum, edge) => sum + edge.weight * scores[edge.from], 0)
+      return (1 - DAMPING) / count + DAMPING * received
+    })
+
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0)
+    scores = next
+    if (delta < CONVERGENCE) break
+  }
+
+  return sentences.map((sentence, position) => ({
+    ...sentence,
+    position,
+    score: scores[position],
+    vector: vectors[position],
+  }))
+}
+
+/**
+ * Pick up to `limit` sentences by score while skipping near-duplicates of ones
+ * already chosen (maximal marginal relevance)
+ */
+const selectDiverse = (
+  candidates: RankedSentence[],
+  limit: number,
+  exclude: RankedSentence[] = [],
+  lambda = 0.7
+): RankedSentence[] => {
+  const selected: RankedSentence[] = []
+  const pool = candidates.filter(candidate => !exclude.includes(candidate))
+  const maxScore = Math.max(...pool.map(candidate => candidate.score), Number.EPSILON)
+
+  while (selected.length < limit && pool.length > 0) {
+    let bestIndex = 0
+    let bestValue = -Infinity
+
+    pool.forEach((candidate, index) => {
+      const redundancy = Math.max(
+        0,
+        ...[...selected, ...exclude].map(chosen => cosineSimilarity(candidate.vector, chosen.vector))
+      )
+      const value = lambda * (candidate.score / maxScore) - (1 - lambda) * redundancy
+      if (value > bestValue) {
+        bestValue = value
+        bestIndex = index
+      }
+    })
+
+    selected.push(pool.splice(bestIndex, 1)[0])
+  }
+
+  return selected
+}
+
+const byPosition = (a: RankedSentence, b: RankedSentence) => a.position - b.position
+
+const inWordRange = (sentence: RankedSentence, min: number, max: number) => {
+  const words = countWords(sentence.text)
+  return words >= min && words <= max
+}
+
+const emphasisScore = (sentence: RankedSentence): number => {
+  const words = sentence.text.toLowerCase().match(/[\p{L}']+/gu) || []
+  const cues = words.filter(word => EMPHASIS_WORDS.has(word)).length
+  const exclamation = sentence.text.includes('!') ? 1 : 0
+  return cues + exclamation
+}
+
+const pickQuote = (
+  ranked: RankedSentence[],
+  used: Set<RankedSentence>,
+  value: (sentence: RankedSentence) => number
+): RankedSentence | undefined => {
+  const quotable = ranked.filter(sentence => !used.has(sentence) && inWordRange(sentence, 6, 35))
+  const pool = quotable.length > 0 ? quotable : ranked.filter(sentence => !used.has(sentence))
+  const choice = [...pool].sort((a, b) => value(b) - value(a))[0]
+  if (choice) used.add(choice)
+  return choice
+}
+
+export const summarizeExtractive = (transcript: TextSegment[]): GeneratedSummary => {
+  const sentences = splitTranscriptIntoSentences(transcript)
+
+  if (sentences.length === 0) {
+    return {
+      summary: 'No transcript content was available to summarize for this video.',
+      bulletPoints: [],
+      keyQuote: '',
+    }
+  }
+
+  const ranked = rankSentences(sentences)
+  const byScore = [...ranked].sort((a, b) => b.score - a.score)
+
+  const summaryLength = Math.min(5, Math.max(2, Math.round(sentences.length / 25)))
+  const summarySentences = selectDiverse(byScore, summaryLength).sort(byPosition)
+
+  const bulletCount = Math.min(8, Math.max(3, Math.round(sentences.length / 15)))
+  const bulletSentences = selectDiverse(
+    byScore.filter(sentence => inWordRange(sentence, 5, 40)),
+    bulletCount,
+    summarySentences
+  ).sort(byPosition)
+
+  const maxScore = byScore[0].score || Number.EPSILON
+  const used = new Set<RankedSentence>()
+  const best = pickQuote(byScore, used, sentence => sentence.score)
+  const viral = pickQuote(byScore, used, sentence =>
+    sentence.score / maxScore + (inWordRange(sentence, 6, 18) ? 0.5 : 0) + 0.2 * emphasisScore(sentence)
+  )
+  const powerful = pickQuote(byScore, used, sentence =>
+    sentence.score / maxScore + 0.4 * emphasisScore(sentence)
+  )
+
+  const keyQuote = best ? toDisplaySentence(best.text) : toDisplaySentence(byScore[0].text)
+
+  return {
+    summary: summarySentences.map(sentence => toDisplaySentence(sentence.text)).join(' '),
+    bulletPoints: bulletSentences.map(sentence => toDisplaySentence(sentence.text)),
+    keyQuote,
+    memorableQuotes: {
+      best: keyQuote,
+      viral: viral ? toDisplaySentence(viral.text) : keyQuote,
+      powerful: powerful ? toDisplaySentence(powerful.text) : keyQuote,
+    },
+  }
+}
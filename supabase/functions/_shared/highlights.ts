@@ -0,0 +1,200 @@
+/**
+ * Highlight suggestions for new summaries, in analysis jobs and in the web app.
+ */
+import {
+  TextSegment,
+  contentTerms,
+  cosineSimilarity,
+  countWords,
+  inverseDocumentFrequencies,
+  normalizeCaptionText,
+  tfidfVector,
+} from './text.ts'
+
+export interface SuggestedHighlight {
+  segmentIndex: number
+  type: 'important' | 'key_moment'
+  timestamp: string
+  text: string
+  reason: string
+  source: 'auto'
+  score: number
+}
+
+export interface HighlightContext {
+  summary?: string
+  bulletPoints?: string[]
+}
+
+export interface HighlightOptions {
+  maxHighlights?: number
+  // Segments closer together than this (in seconds) compete for one slot
+  minGapSeconds?: number
+}
+
+interface SegmentSignals {
+  index: number
+  keywordDensity: number
+  novelty: number
+  emphasis: number
+  summarySimilarity: number
+  keywords: string[]
+  cues: string[]
+  score: number
+}
+
+const WEIGHTS = {
+  keywordDensity: 0.3,
+  novelty: 0.2,
+  emphasis: 0.2,
+  summarySimilarity: 0.3,
+}
+
+const NOVELTY_WINDOW = 12
+const TOP_KEYWORD_SHARE = 0.05
+
+// Phrases speakers use to flag something worth remembering
+const EMPHASIS_CUES: { pattern: RegExp; label: string }[] = [
+  { pattern: /\b(the )?(most )?important(ly)?\b/i, label: 'flagged as important' },
+  { pattern: /\bkey (point|takeaway|idea|insight|lesson)s?\b|\bthe key\b/i, label: 'calls out a key point' },
+  { pattern: /\bremember\b|\bdon'?t forget\b|\bkeep in mind\b/i, label: 'asks viewers to remember' },
+  { pattern: /\bin (summary|conclusion)\b|\bto (sum|wrap) (it )?up\b|\bbottom line\b/i, label: 'sums up' },
+  { pattern: /\bthe (secret|trick|truth|problem|answer) (is|was)\b/i, label: 'reveals an answer' },
+  { pattern: /\b(research|studies|study|data) (shows?|suggests?|found)\b/i, label: 'cites evidence' },
+  { pattern: /\d+(\.\d+)?\s?(%|percent)/i, label: 'quotes a statistic' },
+  { pattern: /\b(first|second|third|finally|step \d+)\b/i, label: 'marks a step' },
+  { pattern: /!/, label: 'is emphatic' },
+]
+
+const normalize = (values: number[]): number[] => {
+  const max = Math.max(...values, 0)
+  const min = Math.min(...values, 0)
+  const range = max - min
+  return values.map(value => (range > 0 ? (value - min) / range : 0))
+}
+
+/**
+ * Compute the four raw signals for every transcript segment
+ */
+const scoreSegments = (transcript: TextSegment[], context: HighlightContext): SegmentSignals[] => {
+  const texts = transcript.map(segment => normalizeCaptionText(segment.text))
+  const termLists = texts.map(text => contentTerms(text))
+  const idf = inverseDocumentFrequencies(termLists)
+
+  // Global keywords: terms with the highest total TF-IDF weight across the video
+  const totals = new Map<string, number>()
+  termLists.forEach(terms => {
+    terms.forEach(term => totals.set(term, (totals.get(term) || 0) + (idf.get(term) || 0)))
+  })
+  const keywordCount = Math.max(5, Math.round(totals.size * TOP_KEYWORD_SHARE))
+  const topKeywords = new Set(
+    [...totals.entries()].sort((a, b) => b[1] - a[1]).slice(0, keywordCount).map(([term]) => term)
+  )
+
+  const summaryText = [context.summary || '', ...(context.bulletPoints || [])].join(' ')
+  const summaryVector = tfidfVector(contentTerms(summaryText), idf)
+
+  return termLists.map((terms, index) => {
+    const keywords = [...new Set(terms.filter(term => topKeywords.has(term)))]
+    const keywordDensity = terms.length > 0 ? keywords.length / Math.sqrt(terms.length) : 0
+
+    const recent = new Set(termLists.slice(Math.max(0, index - NOVELTY_WINDOW), index).flat())
+    const fresh = terms.filter(term => !recent.has(term))
+    const novelty = terms.length > 0 ? fresh.length / terms.length : 0
+
+    const cues = EMPHASIS_CUES.filter(cue => cue.pattern.test(texts[index])).map(cue => cue.label)
+
+    return {
+      index,
+      keywordDensity,
+      novelty: countWords(texts[index]) >= 4 ? novelty : 0,
+      emphasis: cues.length,
+      summarySimilarity: summaryVector.size > 0 ? cosineSimilarity(tfidfVector(terms, idf), summaryVector) : 0,
+      keywords,
+      cues,
+      score: 0,
+    }
+  })
+}
+
+const describe = (signals: SegmentSignals, normalized: Record<keyof typeof WEIGHTS, number>): string => {
+  const reasons: string[] = []
+
+  if (normalized.summarySimilarity >= 0.5) {
+    reasons.push('Echoes the main summary')
+  }
+  if (signals.cues.length > 0) {
+    reasons.push(`Speaker ${signals.cues.slice(0, 2).join(' and ')}`)
+  }
+  if (normalized.keywordDensity >= 0.5 && signals.keywords.length > 0) {
+    reasons.push(`Dense with key terms (${signals.keywords.slice(0, 3).join(', ')})`)
+  }
+  if (normalized.novelty >= 0.7) {
+    reasons.push('Introduces a new topic')
+  }
+
+  return reasons.length > 0 ? reasons.slice(0, 3).join(' · ') : 'Strong overall relevance'
+}
+
+/**
+ * Suggest transcript segments worth highlighting, ranked best first. Each
+ * suggestion carries a reason built from whichever signals drove its score.
+ */
+export const detectHighlights = (
+  transcript: TextSegment[],
+  context: HighlightContext = {},
+  options: HighlightOptions = {}
+): SuggestedHighlight[] => {
+  if (transcript.length === 0) return []
+
+  const maxHighlights = options.maxHighlights ?? Math.min(12, Math.max(3, Math.round(transcript.length / 20)))
+  const minGapSeconds = options.minGapSeconds ?? 20
+
+  const signals = scoreSegments(transcript, context)
+  const keywordDensity = normalize(signals.map(s => s.keywordDensity))
+  const novelty = normalize(signals.map(s => s.novelty))
+  const emphasis = normalize(signals.map(s => s.emphasis))
+  const summarySimilarity = normalize(signals.map(s => s.summarySimilarity))
+
+  const normalizedByIndex = signals.map((s, i) => {
+    const normalized = {
+      keywordDensity: keywordDensity[i],
+      novelty: novelty[i],
+      emphasis: emphasis[i],
+      summarySimilarity: summarySimilarity[i],
+    }
+    s.score =
+      WEIGHTS.keywordDensity * normalized.keywordDensity +
+      WEIGHTS.novelty * normalized.novelty +
+      WEIGHTS.emphasis * normalized.emphasis +
+      WEIGHTS.summarySimilarity * normalized.summarySimilarity
+    return normalized
+  })
+
+  const ranked = [...signals]
+    .filter(s => countWords(transcript[s.index].text) >= 4)
+    .sort((a, b) => b.score - a.score)
+
+  const chosen: SegmentSignals[] = []
+  for (const candidate of ranked) {
+    if (chosen.length >= maxHighlights) break
+    const start = transcript[candidate.index].start
+    const tooClose = chosen.some(other => Math.abs(transcript[other.index].start - start) < minGapSeconds)
+    if (!tooClose) chosen.push(candidate)
+  }
+
+  return chosen.map(s => {
+    const normalized = normalizedByIndex[s.index]
+    const isKeyMoment = normalized.summarySimilarity >= 0.6 || s.cues.length >= 2
+
+    return {
+      segmentIndex: s.index,
+      type: isKeyMoment ? 'key_moment' : 'important',
+      timestamp: transcript[s.index].timestamp ?? '',
+      text: transcript[s.index].text,
+      reason: describe(s, normalized),
+      source: 'auto',
+      score: Math.round(s.score * 1000) / 1000,
+    }
+  })
+}
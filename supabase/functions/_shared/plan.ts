@@ -0,0 +1,136 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type PlanFeature =
+  | 'unlimitedSummaries'
+  | 'enhancedAI'
+  | 'transcriptSearch'
+  | 'autoHighlight'
+  | 'pdfDocxExport'
+  | 'translation'
+  | 'nonEnglishSupport'
+  | 'savedHistory'
+  | 'dashboard'
+  | 'apiAccess'
+  | 'prioritySupport'
+  | 'teamCollaboration'
+  | 'adminPanel'
+
+export interface PlanStatus {
+  plan_type: 'free' | 'pro' | 'team'
+  status: string
+  features: Record<PlanFeature, boolean>
+  daily_limit: number
+  monthly_limit: number
+  daily_usage: number
+  monthly_usage: number
+  // Longest video the plan analyzes
+  max_video_minutes: number
+  can_perform_action: boolean
+}
+
+/**
+ * Resolve a user's plan with the same `get_plan_status` function the web app uses.
+ * Requires a service role client; anonymous callers get the free plan.
+ */
+export async function getPlanStatus(
+  client: SupabaseClient,
+  userId: string | null,
+  actionType = 'video_analysis',
+  visitorId: string | null = null
+): Promise<PlanStatus> {
+  const { data, error } = await client.rpc('get_plan_status', {
+    p_user_id: userId,
+    p_visitor_id: visitorId,
+    p_action_type: actionType,
+  })
+
+  if (error) throw error
+  return data as PlanStatus
+}
+
+/**
+ * The signed-in user behind a request's Authorization header, if it carries a
+ * user session rather than just the anon key
+ */
+export async function getRequestUserId(client: SupabaseClient, req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const { data, error } = await client.auth.getUser(authHeader.substring(7))
+  if (error || !data.user) return null
+  return data.user.id
+}
+
+export interface PlanDenial {
+  status: 403 | 429
+  code: 'feature_not_available' | 'video_too_long' | 'usage_limit_reached'
+  message: string
+  details: Record<string, unknown>
+}
+
+/**
+ * Why the plan refuses a request, or null when allowed
+ */
+export function getPlanDenial(
+  status: PlanStatus,
+  options: { feature?: PlanFeature; videoSeconds?: number; enforceLimit?: boolean }
+): PlanDenial | null {
+  if (options.feature && !status.features[options.feature]) {
+    return {
+      status: 403,
+      code: 'feature_not_available',
+      message: 'Your plan does not include this feature',
+      details: { feature: options.feature, plan: status.plan_type },
+    }
+  }
+
+  if (options.videoSeconds !== undefined && options.videoSeconds > status.max_video_minutes * 60) {
+    return {
+      status: 403,
+      code: 'video_too_long',
+      message: `Your plan analyzes videos up to ${status.max_video_minutes} minutes long`,
+      details: { plan: status.plan_type, max_video_minutes: status.max_video_minutes },
+    }
+  }
+
+  if (options.enforceLimit && !status.can_perform_action) {
+    return {
+      status: 429,
+      code: 'usage_limit_reached',
+      message: 'Usage limit reached for your plan',
+      details: {
+        plan: status.plan_type,
+        daily_limit: status.daily_limit,
+        monthly_limit: status.monthly_limit,
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * 403 for a missing feature or a video that is too long, 429 for an exhausted
+ * quota, or null when allowed
+ */
+export function checkPlanAccess(
+  status: PlanStatus,
+  options: { feature?: PlanFeature; videoSeconds?: number; enforceLimit?: boolean },
+  headers: Record<string, string>
+): Response | null {
+  const denial = getPlanDenial(status, options)
+  if (!denial) return null
+
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: denial.message,
+      code: denial.code,
+      ...denial.details,
+    }),
+    {
+      status: denial.status,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    }
+  )
+}
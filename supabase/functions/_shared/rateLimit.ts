@@ -0,0 +1,91 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface RateLimitState {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number
+  retryAfter: number
+}
+
+export interface UsageQuota {
+  allowed: boolean
+  dailyLimit: number
+  dailyUsage: number
+  monthlyLimit: number
+  monthlyUsage: number
+  periodEnd: string
+}
+
+/**
+ * Take one token from the API key's bucket. Bucket size and refill rate come from
+ * the key owner's plan (`plan_rate_limits`).
+ */
+export async function takeRateLimitToken(client: SupabaseClient, keyId: string): Promise<RateLimitState> {
+  const { data, error } = await client.rpc('take_rate_limit_token', { p_key_id: keyId })
+  if (error) throw error
+
+  return {
+    allowed: data.allowed,
+    limit: data.limit,
+    remaining: data.remaining,
+    resetAt: data.reset_at,
+    retryAfter: data.retry_after,
+  }
+}
+
+/**
+ * The user's quota for an action type, from the same `check_usage_limit` the web
+ * app's limits are built on, so API and web usage share one budget
+ */
+export async function getUsageQuota(
+  client: SupabaseClient,
+  userId: string,
+  actionType: string
+): Promise<UsageQuota> {
+  const { data, error } = await client
+    .rpc('check_usage_limit', { p_user_id: userId, p_action_type: actionType })
+    .single()
+  if (error) throw error
+
+  return {
+    allowed: data.can_perform_action,
+    dailyLimit: data.daily_limit,
+    dailyUsage: data.current_usage,
+    monthlyLimit: data.monthly_limit,
+    monthlyUsage: data.monthly_usage,
+    periodEnd: data.period_end,
+  }
+}
+
+/**
+ * `X-RateLimit-*` for the key's bucket, `Retry-After` once it is empty, and
+ * `X-Quota-*` for the monthly quota when one applies to the request
+ */
+export function rateLimitHeaders(rate: RateLimitState, quota?: UsageQuota | null): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(rate.limit),
+    'X-RateLimit-Remaining': String(rate.remaining),
+    'X-RateLimit-Reset': String(rate.resetAt),
+  }
+
+  if (!rate.allowed) {
+    headers['Retry-After'] = String(rate.retryAfter)
+  }
+
+  if (quota) {
+    headers['X-Quota-Limit'] = String(quota.monthlyLimit)
+    headers['X-Quota-Remaining'] = String(Math.max(0, quota.monthlyLimit - quota.monthlyUsage))
+    headers['X-Quota-Reset'] = String(Math.floor(Date.parse(`${quota.periodEnd}T00:00:00Z`) / 1000))
+  }
+
+  return headers
+}
+
+/**
+ * Copy headers onto a response, e.g. the rate limit headers once the handler is done
+ */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value))
+  return response
+}
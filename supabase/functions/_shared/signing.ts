@@ -0,0 +1,68 @@
+/*
+ * HMAC signatures shared by inbound billing webhooks and outbound user webhooks.
+ * Header format: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.payload">`
+ */
+
+const SIGNATURE_TOLERANCE_SECONDS = 300
+
+const encoder = new TextEncoder()
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Signature header for a raw payload: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.payload">`
+ */
+export async function signPayload(
+  secret: string,
+  payload: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${payload}`)}`
+}
+
+/**
+ * Checks the signature and rejects timestamps outside the tolerance window, so a
+ * captured request cannot be replayed later
+ */
+export async function verifySignature(
+  secret: string,
+  payload: string,
+  header: string | null,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  if (!header) return false
+
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=')
+      return [key, rest.join('=')]
+    })
+  )
+  const timestamp = Number(parts.t)
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = await hmacHex(secret, `${timestamp}.${payload}`)
+  return timingSafeEqual(expected, parts.v1)
+}
@@ -0,0 +1,164 @@
+import { CaptionWord } from './captions.ts'
+import { TranscriptSegment } from './youtube.ts'
+
+/**
+ * Turns uploaded recordings into timed transcript segments, in the same shape
+ * as YouTube captions so the rest of the pipeline can't tell them apart.
+ */
+export interface SpeechToTextProvider {
+  name: string
+  transcribe(media: MediaFile, options?: TranscriptionOptions): Promise<Transcription>
+}
+
+export interface MediaFile {
+  data: Uint8Array
+  fileName: string
+  mimeType: string
+}
+
+export interface TranscriptionOptions {
+  // ISO 639-1 code; the provider detects the language when it is missing
+  language?: string
+}
+
+export interface Transcription {
+  language: string
+  // Seconds of audio
+  duration: number
+  segments: TranscriptSegment[]
+}
+
+// Whisper reports the language it detected by name
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en', spanish: 'es', french: 'fr', german: 'de', italian: 'it', portuguese: 'pt',
+  dutch: 'nl', russian: 'ru', polish: 'pl', turkish: 'tr', arabic: 'ar', hindi: 'hi',
+  japanese: 'ja', korean: 'ko', chinese: 'zh', swedish: 'sv', danish: 'da', norwegian: 'no',
+  finnish: 'fi', ukrainian: 'uk', czech: 'cs', greek: 'el', hebrew: 'he', indonesian: 'id',
+}
+
+const toLanguageCode = (language: unknown, fallback: string) => {
+  if (typeof language !== 'string' || !language) return fallback
+  const lower = language.toLowerCase()
+  return /^[a-z]{2,3}$/.test(lower) ? lower : LANGUAGE_CODES[lower] ?? fallback
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+interface WhisperSegment {
+  start: number
+  end: number
+  text: string
+}
+
+interface WhisperWord {
+  word: string
+  start: number
+  end: number
+}
+
+/**
+ * A Whisper server on our own hardware, through the OpenAI-compatible
+ * `/audio/transcriptions` endpoint. Both faster-whisper-server (with an int8
+ * model) and whisper.cpp's server (started with
+ * `--inference-path /v1/audio/transcriptions`) run it on CPU alone.
+ */
+export function createWhisperProvider(config: {
+  baseUrl: string
+  apiKey?: string
+  model: string
+  timeoutMs?: number
+}): SpeechToTextProvider {
+  return {
+    name: 'whisper',
+    transcribe: async (media, options = {}) => {
+      const form = new FormData()
+      form.append('file', new Blob([media.data], { type: media.mimeType }), media.fileName)
+      form.append('model', config.model)
+      form.append('response_format', 'verbose_json')
+      form.append('timestamp_granularities[]', 'segment')
+      form.append('timestamp_granularities[]', 'word')
+      if (options.language) form.append('language', options.language)
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        body: form,
+        signal: AbortSignal.timeout(config.timeoutMs ?? 600000),
+      })
+
+      if (!response.ok) throw new Error(`Transcription request failed: ${response.status}`)
+
+      const data = await response.json()
+      const rawSegments: WhisperSegment[] = Array.isArray(data?.segments) ? data.segments : []
+      const words: WhisperWord[] = Array.isArray(data?.words) ? data.words : []
+
+      const segments: TranscriptSegment[] = rawSegments
+        .map(segment => {
+          const text = String(segment.text ?? '').replace(/\s+/g, ' ').trim()
+          const segmentWords: CaptionWord[] = words
+            .filter(word => word.start >= segment.start && word.start < segment.end)
+            .map(word => ({
+              text: word.word.trim(),
+              start: roundTime(word.start),
+              duration: roundTime(Math.max(word.end - word.start, 0)),
+            }))
+            .filter(word => word.text)
+
+          return {
+            start: roundTime(segment.start),
+            duration: roundTime(Math.max(segment.end - segment.start, 0)),
+            text,
+            ...(segmentWords.length > 0 ? { words: segmentWords } : {}),
+          }
+        })
+        .filter(segment => segment.text)
+
+      const last = rawSegments[rawSegments.length - 1]
+      return {
+        language: toLanguageCode(data?.language, options.language ?? 'en'),
+        duration: typeof data?.duration === 'number' ? data.duration : last?.end ?? 0,
+        segments,
+      }
+    },
+  }
+}
+
+const STUB_SCRIPT = [
+  'Welcome everyone, and thanks for joining the call today.',
+  'First we will go over the results from last quarter.',
+  'Revenue grew by twelve percent, mostly from the new subscription plans.',
+  'Next, the product team will share the roadmap for the coming months.',
+  'We are focusing on faster exports and better search across the library.',
+  'Finally, let us agree on the action items before we wrap up.',
+]
+
+/**
+ * A fixed transcript, five seconds per sentence, without looking at the audio.
+ * For tests and local development without a Whisper server.
+ */
+export function createStubSpeechToTextProvider(script: string[] = STUB_SCRIPT): SpeechToTextProvider {
+  return {
+    name: 'stub',
+    transcribe: async (_media, options = {}) => ({
+      language: options.language ?? 'en',
+      duration: script.length * 5,
+      segments: script.map((text, index) => ({ start: index * 5, duration: 5, text })),
+    }),
+  }
+}
+
+/**
+ * The stub when STT_PROVIDER is 'stub', the Whisper server in WHISPER_BASE_URL
+ * when set, otherwise null: uploads can't be transcribed on this deployment
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider | null {
+  if (Deno.env.get('STT_PROVIDER') === 'stub') return createStubSpeechToTextProvider()
+
+  const baseUrl = Deno.env.get('WHISPER_BASE_URL')
+  if (!baseUrl) return null
+  return createWhisperProvider({
+    baseUrl,
+    apiKey: Deno.env.get('WHISPER_API_KEY'),
+    model: Deno.env.get('WHISPER_MODEL') ?? 'Systran/faster-whisper-small',
+  })
+}
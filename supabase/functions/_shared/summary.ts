@@ -0,0 +1,75 @@
+/**
+ * Summarizer for the public API, analysis jobs and the summarize function: the
+ * LLM in the function's secrets when configured, otherwise the extractive
+ * summarizer the web app also uses.
+ */
+import { GeneratedSummary, summarizeExtractive } from './extractiveSummary.ts'
+import { TextSegment } from './text.ts'
+
+/**
+ * Summarize with the OpenAI-compatible endpoint in LLM_BASE_URL when
+ * SUMMARY_PROVIDER is 'llm', falling back to the extractive summary
+ */
+export async function summarizeTranscript(
+  transcript: TextSegment[],
+  meta: { title?: string; language?: string } = {}
+): Promise<GeneratedSummary> {
+  const baseUrl = Deno.env.get('LLM_BASE_URL')
+  if (Deno.env.get('SUMMARY_PROVIDER') !== 'llm' || !baseUrl) {
+    return summarizeExtractive(transcript)
+  }
+
+  try {
+    let transcriptText = transcript.map(segment => `[${segment.timestamp ?? segment.start}] ${segment.text}`).join('\n')
+    if (transcriptText.length > 24000) {
+      transcriptText = `${transcriptText.substring(0, 24000)}\n[transcript truncated]`
+    }
+
+    const apiKey = Deno.env.get('LLM_API_KEY')
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: Deno.env.get('LLM_MODEL') ?? 'gpt-4o-mini',
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: 'You summarize video transcripts. Only use information present in the transcript.',
+          },
+          {
+            role: 'user',
+            content: `Title: ${meta.title || 'Untitled video'}\nLanguage: ${meta.language || 'en'}\n\n` +
+              `Transcript:\n${transcriptText}\n\n` +
+              'Respond with a JSON object with "summary" (3-5 sentences), "bulletPoints" (3-8 strings) ' +
+              'and "keyQuote" (one sentence quoted verbatim). Write in the language of the transcript.',
+          },
+        ],
+      }),
+      signal: AbortSignal.timeout(60000),
+    })
+
+    if (!response.ok) throw new Error(`LLM request failed: ${response.status}`)
+
+    const data = await response.json()
+    const parsed = JSON.parse(data?.choices?.[0]?.message?.content?.match(/\{[\s\S]*\}/)?.[0] ?? '')
+    if (typeof parsed.summary !== 'string' || !Array.isArray(parsed.bulletPoints)) {
+      throw new Error('LLM response is missing summary or bulletPoints')
+    }
+
+    const keyQuote = typeof parsed.keyQuote === 'string' ? parsed.keyQuote : ''
+    return {
+      summary: parsed.summary.trim(),
+      bulletPoints: parsed.bulletPoints.filter((point: unknown) => typeof point === 'string' && point.trim()),
+      keyQuote,
+      memorableQuotes: { best: keyQuote, viral: keyQuote, powerful: keyQuote },
+    }
+  } catch (error) {
+    console.error('❌ LLM summary failed, falling back to extractive:', error)
+    return summarizeExtractive(transcript)
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Text helpers for the summarizer, highlight and chapter detection and search.
+ * Plain TypeScript with no Deno or browser APIs: the web app imports this and
+ * the other analysis modules from here too, for guests analyzing in the browser.
+ */
+
+// Common English function words that carry no topical signal
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'done', 'down', 'during', 'each', 'even', 'few', 'for', 'from', 'further', 'get', 'gets', 'getting',
+  'go', 'goes', 'going', 'gonna', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him',
+  'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'kind', 'know', 'let', 'like',
+  'lot', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'oh',
+  'okay', 'ok', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'really',
+  'right', 'said', 'same', 'say', 'says', 'see', 'she', 'should', 'so', 'some', 'something', 'such', 'than', 'that',
+  'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this',
+  'those', 'through', 'to', 'too', 'um', 'uh', 'under', 'until', 'up', 'us', 'very', 'want', 'was', 'way', 'we',
+  'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'yeah',
+  'yes', 'you', 'your', 'yours', 'yourself', 'yourselves', 'actually', 'basically', 'wanna',
+])
+
+const MAX_SENTENCE_WORDS = 40
+const CHUNK_WORDS = 25
+
+/** The parts of a transcript segment the analysis modules read */
+export interface TextSegment {
+  text: string
+  start: number
+  timestamp?: string
+}
+
+export interface TranscriptSentence {
+  text: string
+  start: number
+  segmentIndex: number
+}
+
+/**
+ * Lowercase word tokens (letters and digits in any script)
+ */
+export const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu) || []
+
+/**
+ * Light suffix stripping so "habits" and "habit" land on the same term
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 4) return word
+  return word
+    .replace(/'s$/, '')
+    .replace(/(ies)$/, 'y')
+    .replace(/(ing|edly|ed|ly|es)$/, '')
+    .replace(/([^s])s$/, '$1')
+}
+
+/**
+ * Tokens with stop words and very short words removed, stemmed
+ */
+export const contentTerms = (text: string): string[] =>
+  tokenize(text)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stem)
+
+export const isStopWord = (word: string): boolean => STOP_WORDS.has(word.toLowerCase())
+
+export const termFrequencies = (terms: string[]): Map<string, number> => {
+  const frequencies = new Map<string, number>()
+  terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1))
+  return frequencies
+}
+
+/**
+ * Inverse document frequency for each term across a set of term lists
+ */
+export const inverseDocumentFrequencies = (documents: string[][]): Map<string, number> => {
+  const documentCounts = new Map<string, number>()
+  documents.forEach(terms => {
+    new Set(terms).forEach(term => documentCounts.set(term, (documentCounts.get(term) || 0) + 1))
+  })
+
+  const idf = new Map<string, number>()
+  documentCounts.forEach((count, term) => {
+    idf.set(term, Math.log(1 + documents.length / count))
+  })
+  return idf
+}
+
+export const tfidfVector = (terms: string[], idf: Map<string, number>): Map<string, number> => {
+  const vector = new Map<string, number>()
+  termFrequencies(terms).forEach((count, term) => {
+    vector.set(term, count * (idf.get(term) || 0))
+  })
+  return vector
+}
+
+export const cosineSimilarity = (a: Map<string, number>, b: Map<string, number>): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+
+  a.forEach((value, term) => {
+    normA += value * value
+    const other = b.get(term)
+    if (other) dot += value * other
+  })
+  b.forEach(value => {
+    normB += value * value
+  })
+
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length
+
+/**
+ * Split a transcript into sentences, keeping the start time of each one.
+ * Auto-generated captions often have no punctuation at all, so when the
+ * punctuation-based split produces run-on sentences we fall back to grouping
+ * consecutive segments into chunks of roughly sentence length.
+ */
+export const splitTranscriptIntoSentences = (transcript: TextSegment[]): TranscriptSentence[] => {
+  const sentences: TranscriptSentence[] = []
+  let buffer = ''
+  let bufferStart = 0
+  let bufferSegment = 0
+
+  transcript.forEach((segment, segmentIndex) => {
+    const text = normalizeCaptionText(segment.text)
+    if (!text) return
+
+    const parts = text.split(/(?<=[.!?])\s+/)
+    parts.forEach(part => {
+      if (!buffer) {
+        bufferStart = segment.start
+        bufferSegment = segmentIndex
+      }
+      buffer = buffer ? `${buffer} ${part}` : part
+
+      if (/[.!?]["')\]]?$/.test(part)) {
+        sentences.push({ text: buffer, start: bufferStart, segmentIndex: bufferSegment })
+        buffer = ''
+      }
+    })
+  })
+
+  if (buffer) {
+    sentences.push({ text: buffer, start: bufferStart, segmentIndex: bufferSegment })
+  }
+
+  const runOnCount = sentences.filter(sentence => countWords(sentence.text) > MAX_SENTENCE_WORDS).length
+  if (sentences.length > 0 && runOnCount / sentences.length <= 0.3) {
+    return sentences
+  }
+
+  return chunkSegments(transcript)
+}
+
+const chunkSegments = (transcript: TextSegment[]): TranscriptSentence[] => {
+  const chunks: TranscriptSentence[] = []
+  let current: TranscriptSentence | null = null
+
+  for (const [segmentIndex, segment] of transcript.entries()) {
+    const text = normalizeCaptionText(segment.text)
+    if (!text) continue
+
+    if (!current) {
+      current = { text, start: segment.start, segmentIndex }
+    } else {
+      current.text = `${current.text} ${text}`
+    }
+
+    if (countWords(current.text) >= CHUNK_WORDS) {
+      chunks.push(current)
+      current = null
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Collapse whitespace and drop caption artefacts like [Music] or >> speaker marks
+ */
+export const normalizeCaptionText = (text: string): string =>
+  text
+    .replace(/\[(?:music|applause|laughter|inaudible)\]/gi, '')
+    .replace(/>>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+/**
+ * Capitalize and terminate a sentence fragment for display
+ */
+export const toDisplaySentence = (text: string): string => {
+  const trimmed = text.trim().replace(/^[,;:\-\s]+/, '')
+  if (!trimmed) return trimmed
+  const capitalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1)
+  return /[.!?]["')\]]?$/.test(capitalized) ? capitalized : `${capitalized}.`
+}
@@ -0,0 +1,176 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CaptionTrackRequest, fetchYouTubeTranscript } from './youtube.ts'
+
+/**
+ * Transcripts fetched from YouTube, shared across users and requests through the
+ * `transcript_cache` table. Needs a service-role client.
+ */
+
+export type FetchedTranscript = Awaited<ReturnType<typeof fetchYouTubeTranscript>>
+
+export interface CachedTranscriptResult extends FetchedTranscript {
+  // True when no request to YouTube was made for this call
+  cached: boolean
+}
+
+const HOUR_MS = 60 * 60 * 1000
+// Videos without captions rarely gain them within the hour
+const NEGATIVE_TTL_MS = HOUR_MS
+const LEASE_SECONDS = 30
+const WAIT_INTERVAL_MS = 500
+const MAX_WAIT_MS = 15000
+
+// Errors that describe the video rather than this attempt, and so are cached
+const PERMANENT_ERRORS = ['No captions available', 'No caption tracks found', 'caption track is not available']
+
+// Requests in this isolate that are fetching right now, by cache key
+const inflight = new Map<string, Promise<CachedTranscriptResult>>()
+
+const cacheTtlMs = () => {
+  const hours = Number(Deno.env.get('TRANSCRIPT_CACHE_TTL_HOURS'))
+  return (Number.isFinite(hours) && hours > 0 ? hours : 72) * HOUR_MS
+}
+
+export const transcriptCacheKey = (videoId: string, request?: CaptionTrackRequest) =>
+  request ? `${videoId}:${request.languageCode}:${request.kind ?? 'any'}` : `${videoId}:default`
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * The entry when it holds a transcript or a cached failure that has not expired
+ */
+async function readEntry(client: SupabaseClient, cacheKey: string): Promise<CachedTranscriptResult | null> {
+  const { data, error } = await client
+    .from('transcript_cache')
+    .select('payload, error')
+    .eq('cache_key', cacheKey)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data || (!data.payload && !data.error)) return null
+
+  client.rpc('record_transcript_cache_hit', { p_cache_key: cacheKey }).then(({ error: hitError }) => {
+    if (hitError) console.warn('⚠️ Could not count transcript cache hit:', hitError)
+  })
+
+  if (data.error) throw new Error(data.error)
+  return { ...(data.payload as FetchedTranscript), cached: true }
+}
+
+async function writeEntry(
+  client: SupabaseClient,
+  cacheKey: string,
+  videoId: string,
+  request: CaptionTrackRequest | undefined,
+  entry: { payload: FetchedTranscript | null; error: string | null },
+  ttlMs: number
+): Promise<void> {
+  const now = Date.now()
+  const { error } = await client.from('transcript_cache').upsert({
+    cache_key: cacheKey,
+    video_id: videoId,
+    language_code: request?.languageCode ?? null,
+    caption_kind: request?.kind ?? null,
+    payload: entry.payload,
+    error: entry.error,
+    fetched_at: new Date(now).toISOString(),
+    expires_at: new Date(now + ttlMs).toISOString(),
+    lease_until: null,
+  })
+  if (error) throw error
+}
+
+// Let the next request retry the fetch instead of waiting out the lease
+async function releaseLease(client: SupabaseClient, cacheKey: string): Promise<void> {
+  const { error } = await client.from('transcript_cache').update({ lease_until: null }).eq('cache_key', cacheKey)
+  if (error) throw error
+}
+
+async function fetchAndStore(
+  client: SupabaseClient,
+  cacheKey: string,
+  videoId: string,
+  request?: CaptionTrackRequest
+): Promise<CachedTranscriptResult> {
+  let fetched: FetchedTranscript
+  try {
+    fetched = await fetchYouTubeTranscript(videoId, request)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const permanent = PERMANENT_ERRORS.some(text => message.includes(text))
+    await (permanent
+      ? writeEntry(client, cacheKey, videoId, request, { payload: null, error: message }, NEGATIVE_TTL_MS)
+      : releaseLease(client, cacheKey)
+    ).catch(cacheError => console.warn('⚠️ Could not update transcript cache:', cacheError))
+    throw error
+  }
+
+  const ttlMs = cacheTtlMs()
+  const resolvedRequest = { languageCode: fetched.track.languageCode, kind: fetched.track.kind }
+  const resolvedKey = transcriptCacheKey(videoId, resolvedRequest)
+  try {
+    await writeEntry(client, cacheKey, videoId, request, { payload: fetched, error: null }, ttlMs)
+    // Also file it under the exact track, for users who pick that track later
+    if (resolvedKey !== cacheKey) {
+      await writeEntry(client, resolvedKey, videoId, resolvedRequest, { payload: fetched, error: null }, ttlMs)
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not store transcript in cache:', error)
+  }
+
+  return { ...fetched, cached: false }
+}
+
+async function fetchThroughCache(
+  client: SupabaseClient,
+  cacheKey: string,
+  videoId: string,
+  request?: CaptionTrackRequest
+): Promise<CachedTranscriptResult> {
+  try {
+    const hit = await readEntry(client, cacheKey)
+    if (hit) return hit
+
+    const { data: claimed, error } = await client.rpc('claim_transcript_fetch', {
+      p_cache_key: cacheKey,
+      p_video_id: videoId,
+      p_lease_seconds: LEASE_SECONDS,
+    })
+    if (error) throw error
+
+    if (!claimed) {
+      // Another request is fetching this video; use its result when it lands
+      for (let waited = 0; waited < MAX_WAIT_MS; waited += WAIT_INTERVAL_MS) {
+        await sleep(WAIT_INTERVAL_MS)
+        const filled = await readEntry(client, cacheKey)
+        if (filled) return filled
+      }
+      console.warn('⚠️ Gave up waiting for another transcript fetch:', cacheKey)
+    }
+  } catch (error) {
+    // Cached failures are answers; anything else means the cache is unusable
+    if (error instanceof Error && PERMANENT_ERRORS.some(text => error.message.includes(text))) throw error
+    console.warn('⚠️ Transcript cache unavailable, fetching directly:', error)
+  }
+
+  return fetchAndStore(client, cacheKey, videoId, request)
+}
+
+/**
+ * `fetchYouTubeTranscript` through the shared cache. Concurrent calls for the
+ * same video and track share one fetch, in this isolate and across instances.
+ */
+export function fetchTranscriptCached(
+  client: SupabaseClient,
+  videoId: string,
+  request?: CaptionTrackRequest
+): Promise<CachedTranscriptResult> {
+  const cacheKey = transcriptCacheKey(videoId, request)
+  const pending = inflight.get(cacheKey)
+  if (pending) return pending.then(result => ({ ...result, cached: true }))
+
+  const fetching = fetchThroughCache(client, cacheKey, videoId, request).finally(() => inflight.delete(cacheKey))
+  inflight.set(cacheKey, fetching)
+  return fetching
+}
@@ -0,0 +1,37 @@
+/**
+ * Translate a batch of strings with a LibreTranslate-compatible service at
+ * TRANSLATION_API_URL. Returns null when no service is configured.
+ */
+export async function translateTexts(
+  texts: string[],
+  targetLanguage: string,
+  sourceLanguage = 'auto'
+): Promise<string[] | null> {
+  const baseUrl = Deno.env.get('TRANSLATION_API_URL')
+  if (!baseUrl) return null
+  if (texts.length === 0) return []
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/translate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      q: texts,
+      source: sourceLanguage,
+      target: targetLanguage,
+      format: 'text',
+      api_key: Deno.env.get('TRANSLATION_API_KEY') ?? undefined,
+    }),
+    signal: AbortSignal.timeout(60000),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Translation request failed: ${response.status}`)
+  }
+
+  const data = await response.json()
+  const translated = Array.isArray(data.translatedText) ? data.translatedText : [data.translatedText]
+  if (translated.length !== texts.length) {
+    throw new Error('Translation service returned the wrong number of texts')
+  }
+  return translated
+}
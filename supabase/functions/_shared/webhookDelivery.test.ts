@@ -0,0 +1,117 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createReceiver } from '../../../scripts/webhook-receiver.js'
+import { ClaimedDelivery, deliverWebhook, MAX_ATTEMPTS, nextRetryAt } from './webhookDelivery.ts'
+
+const SECRET = 'whsec_test_5f2b8c1e9a7d4063'
+const MINUTE = 60000
+
+// Local receiver URLs are only allowed on a local stack
+Deno.env.set('SUPABASE_URL', 'http://127.0.0.1:54321')
+
+/** The local receiver on a free port, with everything it printed */
+async function startReceiver(options: { secret?: string; failCount?: number } = {}) {
+  const logs: string[] = []
+  const server = createReceiver({ secret: options.secret ?? SECRET, failCount: options.failCount, log: line => logs.push(line) })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as { port: number }
+  const close = () => new Promise<void>(resolve => server.close(() => resolve()))
+  return { url: `http://127.0.0.1:${port}/webhooks`, logs, close }
+}
+
+/** Records every `record_webhook_attempt` call and answers like the database would */
+function fakeClient() {
+  const recorded: Record<string, unknown>[] = []
+  const client = {
+    rpc: (_fn: string, params: Record<string, unknown>) => {
+      recorded.push(params)
+      const status = params.p_status_code === 200 ? 'succeeded' : params.p_retry_at ? 'pending' : 'failed'
+      return Promise.resolve({ data: { status }, error: null })
+    },
+  } as unknown as SupabaseClient
+  return { client, recorded }
+}
+
+const delivery = (url: string, fields: Partial<ClaimedDelivery> = {}): ClaimedDelivery => ({
+  delivery_id: crypto.randomUUID(),
+  event_id: 'evt_quarterly_review',
+  event_type: 'summary.created',
+  payload: { id: 'evt_quarterly_review', type: 'summary.created', data: { videoId: 'dQw4w9WgXcQ' } },
+  attempt: 1,
+  url,
+  secret: SECRET,
+  ...fields,
+})
+
+Deno.test('failed attempts back off 1, 2, 4 ... 64 minutes and then give up', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const delays = Array.from({ length: MAX_ATTEMPTS }, (_, index) => {
+    const retryAt = nextRetryAt(index + 1, now)
+    return retryAt && (retryAt.getTime() - now.getTime()) / MINUTE
+  })
+  assertEquals(delays, [1, 2, 4, 8, 16, 32, 64, null])
+})
+
+Deno.test('the local receiver accepts signed deliveries after its simulated failures', async () => {
+  const receiver = await startReceiver({ failCount: 2 })
+  try {
+    const { client, recorded } = fakeClient()
+    const first = delivery(receiver.url)
+
+    const results = []
+    for (const attempt of [1, 2, 3]) {
+      const startedAt = Date.now()
+      results.push(await deliverWebhook(client, { ...first, attempt }))
+
+      // Failures are retried on the schedule; success leaves nothing to retry
+      const retryAt = recorded.at(-1)?.p_retry_at as string | null
+      if (attempt < 3) {
+        const delay = new Date(retryAt as string).getTime() - startedAt
+        assert(Math.abs(delay - MINUTE * 2 ** (attempt - 1)) < 5000, `attempt ${attempt} retries after ${delay}ms`)
+      } else {
+        assertEquals(retryAt, null)
+      }
+    }
+
+    assertEquals(results, [false, false, true])
+    assertEquals(recorded.map(call => call.p_status_code), [500, 500, 200])
+    assertEquals(recorded.map(call => call.p_delivery_id), [first.delivery_id, first.delivery_id, first.delivery_id])
+    assertEquals(recorded[2].p_response_body, '{"received":true}')
+    assert(receiver.logs.includes('✅ summary.created evt_quarterly_review (attempt 3)'))
+
+    // A manual redelivery is a new delivery of the same event, signed again
+    const redelivery = delivery(receiver.url)
+    assertEquals(await deliverWebhook(client, redelivery), true)
+    assertEquals(recorded.at(-1)?.p_delivery_id, redelivery.delivery_id)
+    assert(receiver.logs.includes('✅ summary.created evt_quarterly_review (attempt 1)'))
+  } finally {
+    await receiver.close()
+  }
+})
+
+Deno.test('the local receiver rejects deliveries signed with another secret', async () => {
+  const receiver = await startReceiver({ secret: 'whsec_someone_else' })
+  try {
+    const { client, recorded } = fakeClient()
+    assertEquals(await deliverWebhook(client, delivery(receiver.url)), false)
+
+    assertEquals(recorded[0].p_status_code, 401)
+    assertEquals(recorded[0].p_response_body, '{"error":"Invalid signature"}')
+    assert(recorded[0].p_retry_at !== null)
+    assert(receiver.logs.includes('🚫 summary.created evt_quarterly_review: invalid signature'))
+  } finally {
+    await receiver.close()
+  }
+})
+
+Deno.test('the last failed attempt is not retried', async () => {
+  const receiver = await startReceiver({ failCount: MAX_ATTEMPTS })
+  try {
+    const { client, recorded } = fakeClient()
+    assertEquals(await deliverWebhook(client, delivery(receiver.url, { attempt: MAX_ATTEMPTS })), false)
+    assertEquals(recorded[0].p_status_code, 500)
+    assertEquals(recorded[0].p_retry_at, null)
+  } finally {
+    await receiver.close()
+  }
+})
@@ -0,0 +1,111 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { signPayload } from './signing.ts'
+import { checkWebhookUrl, UnsafeWebhookUrlError } from './webhookUrl.ts'
+
+/*
+ * Sends one webhook delivery and records the attempt. Each request carries:
+ * - `X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`
+ *   signed with the endpoint's secret
+ * - `X-Webhook-Event` and `X-Webhook-Id` (the event id, stable across retries
+ *   and redeliveries, so receivers can dedupe)
+ *
+ * Redirects are not followed; a 3xx counts as a failed attempt.
+ */
+
+const REQUEST_TIMEOUT_MS = 10000
+// How much of a response the delivery log keeps
+const RESPONSE_PREVIEW_BYTES = 500
+
+// Failed attempts are retried after 1, 2, 4 ... 64 minutes, about two hours in all
+export const MAX_ATTEMPTS = 8
+
+export interface ClaimedDelivery {
+  delivery_id: string
+  event_id: string
+  event_type: string
+  payload: Record<string, unknown>
+  attempt: number
+  url: string
+  secret: string
+}
+
+/** When to try again after a failed attempt (counting from 1), or null to give up */
+export function nextRetryAt(attempt: number, now = new Date()): Date | null {
+  if (attempt >= MAX_ATTEMPTS) return null
+  return new Date(now.getTime() + 60000 * 2 ** (attempt - 1))
+}
+
+async function readPreview(response: Response): Promise<string> {
+  if (!response.body) return ''
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (size < RESPONSE_PREVIEW_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.length
+  }
+  await reader.cancel().catch(() => {})
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return new TextDecoder().decode(bytes.subarray(0, RESPONSE_PREVIEW_BYTES))
+}
+
+/** Send the delivery and record the attempt; true when the receiver answered 2xx */
+export async function deliverWebhook(client: SupabaseClient, delivery: ClaimedDelivery): Promise<boolean> {
+  const body = JSON.stringify(delivery.payload)
+  const startedAt = Date.now()
+  let statusCode: number | null = null
+  let responseBody: string | null = null
+  let errorMessage: string | null = null
+
+  try {
+    const url = await checkWebhookUrl(delivery.url)
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Transcripto-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Id': delivery.event_id,
+        'X-Webhook-Attempt': String(delivery.attempt),
+        'X-Webhook-Signature': await signPayload(delivery.secret, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    statusCode = response.status
+    responseBody = await readPreview(response)
+  } catch (error) {
+    errorMessage = error instanceof UnsafeWebhookUrlError
+      ? `Not sent: ${error.message}`
+      : error instanceof Error ? error.message : String(error)
+  }
+
+  const succeeded = statusCode !== null && statusCode >= 200 && statusCode < 300
+  const retryAt = succeeded ? null : nextRetryAt(delivery.attempt)
+
+  const { data, error } = await client.rpc('record_webhook_attempt', {
+    p_delivery_id: delivery.delivery_id,
+    p_status_code: statusCode,
+    p_response_body: responseBody,
+    p_error: errorMessage,
+    p_duration_ms: Date.now() - startedAt,
+    p_retry_at: retryAt?.toISOString() ?? null,
+  })
+
+  if (error) {
+    console.error('❌ Failed to record webhook attempt:', delivery.delivery_id, error)
+    return false
+  }
+
+  console.log(`📬 ${delivery.event_type} → ${delivery.url}: ${statusCode ?? errorMessage} (${data.status})`)
+  return data.status === 'succeeded'
+}
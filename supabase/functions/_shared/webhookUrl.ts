@@ -0,0 +1,166 @@
+import { isLocalSupabase } from './billing.ts'
+
+/*
+ * Webhook URLs are chosen by users and requested from inside our network, so
+ * each one must be https and resolve only to public addresses. Checked when an
+ * endpoint is saved and again right before every delivery, since DNS can change
+ * in between.
+ *
+ * On a local Supabase stack, http URLs on the developer's machine are allowed
+ * too, so scripts/webhook-receiver.js can be used without a tunnel.
+ */
+
+export class UnsafeWebhookUrlError extends Error {}
+
+export type ResolveHost = (hostname: string) => Promise<string[]>
+
+// Hosts the local receiver is reached at, from the host or from the functions' container
+const LOCAL_RECEIVER_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', 'host.docker.internal'])
+
+// Names that only mean something inside a network
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa']
+
+// [first address, prefix length] of IPv4 ranges that are not publicly routable
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+]
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null
+  return parts.reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = parseIpv4(address)
+  if (value === null) return true
+  return BLOCKED_IPV4.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix)
+    return Math.floor(value / size) === Math.floor((parseIpv4(base) as number) / size)
+  })
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when it doesn't parse */
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '')
+
+  // A trailing dotted IPv4 part, as in ::ffff:127.0.0.1
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const value = parseIpv4(dotted[2])
+    if (value === null) return null
+    text = `${dotted[1]}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map(group => parseInt(group, 16))
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = parseIpv6(address)
+  if (!groups) return true
+
+  const embeddedIpv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`
+  const [first] = groups
+
+  if (groups.slice(0, 7).every(group => group === 0)) return true // :: and ::1
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isBlockedIpv4(embeddedIpv4()) // IPv4-mapped
+  }
+  if (first === 0x64 && groups[1] === 0xff9b) return isBlockedIpv4(embeddedIpv4()) // NAT64
+  if (first === 0x2002) return true // 6to4 can tunnel to any IPv4 address
+  if ((first & 0xfe00) === 0xfc00) return true // unique local, including fd00:ec2::254 metadata
+  if ((first & 0xffc0) === 0xfe80) return true // link-local
+  if ((first & 0xff00) === 0xff00) return true // multicast
+  if (first === 0x2001 && groups[1] === 0x0db8) return true // documentation
+  if (first === 0x0100 && groups.slice(1, 4).every(group => group === 0)) return true // discard
+  return false
+}
+
+/** Whether a resolved address must never be requested */
+export function isBlockedAddress(address: string): boolean {
+  return address.includes(':') ? isBlockedIpv6(address) : isBlockedIpv4(address)
+}
+
+async function resolveWithDeno(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ])
+  return lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []))
+}
+
+/**
+ * Parse a webhook URL and make sure it may be requested. Throws
+ * `UnsafeWebhookUrlError` with a message that can be shown to the user.
+ * `allowLocal` lets through http and https URLs on the developer's machine.
+ */
+export async function checkWebhookUrl(
+  rawUrl: string,
+  resolve: ResolveHost = resolveWithDeno,
+  allowLocal = isLocalSupabase(Deno.env.get('SUPABASE_URL') ?? '')
+): Promise<URL> {
+  let url: URL
+  try {
+    url = new URL(rawUrl.trim())
+  } catch {
+    throw new UnsafeWebhookUrlError('Enter a valid URL')
+  }
+
+  if (url.username || url.password) {
+    throw new UnsafeWebhookUrlError('Webhook URLs cannot contain credentials')
+  }
+  if (allowLocal && ['http:', 'https:'].includes(url.protocol) && LOCAL_RECEIVER_HOSTS.has(url.hostname)) {
+    return url
+  }
+  if (url.protocol !== 'https:') {
+    throw new UnsafeWebhookUrlError('Webhook URLs must use https://')
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '')
+  const isIpLiteral = url.hostname.startsWith('[') || parseIpv4(hostname) !== null
+  if (
+    hostname === 'localhost' ||
+    (!isIpLiteral && !hostname.includes('.')) ||
+    INTERNAL_SUFFIXES.some(suffix => hostname.endsWith(suffix))
+  ) {
+    throw new UnsafeWebhookUrlError('Webhook URLs must point to a public host')
+  }
+
+  let addresses: string[]
+  try {
+    addresses = isIpLiteral ? [hostname] : await resolve(hostname)
+  } catch {
+    addresses = []
+  }
+  if (addresses.length === 0) {
+    throw new UnsafeWebhookUrlError(`Could not resolve ${hostname}`)
+  }
+  if (addresses.some(isBlockedAddress)) {
+    throw new UnsafeWebhookUrlError('Webhook URLs must point to a public address')
+  }
+
+  return url
+}
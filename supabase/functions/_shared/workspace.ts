@@ -0,0 +1,55 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/*
+ * Checks for saving summaries with the service role, which skips the team
+ * policies on `video_summaries`. Summaries are upserted on (user_id, video_id),
+ * so analyzing a video again replaces the user's existing row wherever it is.
+ */
+
+/**
+ * Whether the user can edit in a workspace: their own personal one, or a team
+ * they have `can_edit` in
+ */
+export async function canEditWorkspace(
+  client: SupabaseClient,
+  userId: string,
+  teamOwnerId: string | null
+): Promise<boolean> {
+  if (!teamOwnerId) return true
+
+  const { data, error } = await client.rpc('user_team_permission', {
+    p_user_id: userId,
+    p_team_owner_id: teamOwnerId,
+    p_permission: 'can_edit',
+  })
+  if (error) throw error
+  return data === true
+}
+
+/**
+ * Why the user's summary of a video may not be saved into a workspace, or null
+ * when it may. An existing summary has to be in that same workspace, so saving
+ * never moves a summary out of a team.
+ */
+export async function getSummaryWriteDenial(
+  client: SupabaseClient,
+  userId: string,
+  videoId: string,
+  teamOwnerId: string | null
+): Promise<string | null> {
+  const { data: existing, error } = await client
+    .from('video_summaries')
+    .select('team_owner_id')
+    .eq('user_id', userId)
+    .eq('video_id', videoId)
+    .maybeSingle()
+  if (error) throw error
+
+  if (existing && (existing.team_owner_id ?? null) !== teamOwnerId) {
+    return 'You already saved this video in another workspace. Analyze it again from there.'
+  }
+  if (!(await canEditWorkspace(client, userId, teamOwnerId))) {
+    return 'You no longer have permission to edit in this workspace.'
+  }
+  return null
+}
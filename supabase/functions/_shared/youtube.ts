@@ -0,0 +1,418 @@
+import { CaptionWord, decodeEntities, parseCaptions } from './captions.ts';
+
+export interface TranscriptSegment {
+  start: number;
+  duration: number;
+  text: string;
+  words?: CaptionWord[];
+}
+
+export type CaptionKind = 'manual' | 'asr';
+
+/**
+ * A caption track as offered to users. A video has at most one track of each
+ * kind per language, so `languageCode` and `kind` identify it.
+ */
+export interface CaptionTrack {
+  languageCode: string;
+  kind: CaptionKind;
+  // YouTube's label, e.g. "English (auto-generated)"
+  name: string;
+  isTranslatable: boolean;
+}
+
+export interface CaptionTrackRequest {
+  languageCode: string;
+  // Any kind in the language when omitted, preferring creator captions
+  kind?: CaptionKind;
+}
+
+interface PlayerCaptionTrack extends CaptionTrack {
+  baseUrl: string;
+}
+
+/**
+ * Enhanced YouTube video ID extraction function
+ * Supports all YouTube URL formats
+ */
+export function extractVideoId(url: string): string | null {
+  if (!url || typeof url !== 'string') {
+    return null;
+  }
+
+  const cleanUrl = url.trim();
+
+  // Comprehensive regex patterns for different YouTube URL formats
+  const patterns = [
+    // Standard watch URLs: https://www.youtube.com/watch?v=VIDEO_ID
+    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
+    
+    // Short URLs: https://youtu.be/VIDEO_ID
+    /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
+    
+    // Embed URLs: https://www.youtube.com/embed/VIDEO_ID
+    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/,
+    
+    // YouTube mobile URLs: https://m.youtube.com/watch?v=VIDEO_ID
+    /(?:https?:\/\/)?m\.youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
+    
+    // YouTube gaming URLs: https://gaming.youtube.com/watch?v=VIDEO_ID
+    /(?:https?:\/\/)?gaming\.youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
+    
+    // YouTube music URLs: https://music.youtube.com/watch?v=VIDEO_ID
+    /(?:https?:\/\/)?music\.youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
+    
+    // Direct video ID (11 characters, alphanumeric + _ -)
+    /^([a-zA-Z0-9_-]{11})$/
+  ];
+
+  // Try each pattern
+  for (const pattern of patterns) {
+    const match = cleanUrl.match(pattern);
+    
+    if (match && match[1]) {
+      const videoId = match[1];
+      
+      // Validate video ID format (11 characters, alphanumeric + underscore + hyphen)
+      if (/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+        return videoId;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The JSON array or object starting at `start`, found by matching brackets
+ * outside of strings. Track names can contain brackets, so a regex up to the
+ * first `]` is not enough.
+ */
+function readJsonValue(text: string, start: number): string | null {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Caption tracks listed in a watch page's player response
+ */
+function extractCaptionTracks(videoPageHtml: string): PlayerCaptionTrack[] {
+  const match = /"captionTracks":\s*\[/.exec(videoPageHtml);
+  if (!match) return [];
+
+  const json = readJsonValue(videoPageHtml, match.index + match[0].length - 1);
+  if (!json) return [];
+
+  const rawTracks: Record<string, any>[] = JSON.parse(json);
+  return rawTracks
+    .filter(track => track.baseUrl && track.languageCode)
+    .map(track => ({
+      languageCode: track.languageCode,
+      kind: track.kind === 'asr' ? 'asr' : 'manual',
+      name: track.name?.simpleText ?? track.name?.runs?.map((run: { text: string }) => run.text).join('') ?? track.languageCode,
+      isTranslatable: !!track.isTranslatable,
+      baseUrl: track.baseUrl,
+    }));
+}
+
+/**
+ * The requested track, or by default auto-generated English, then any English
+ * track, then the first one listed
+ */
+function selectCaptionTrack(tracks: PlayerCaptionTrack[], request?: CaptionTrackRequest): PlayerCaptionTrack | undefined {
+  if (request) {
+    const inLanguage = tracks.filter(track => track.languageCode === request.languageCode);
+    return request.kind
+      ? inLanguage.find(track => track.kind === request.kind)
+      : inLanguage.find(track => track.kind === 'manual') || inLanguage[0];
+  }
+
+  return tracks.find(track => track.languageCode === 'en' && track.kind === 'asr')
+    || tracks.find(track => track.languageCode === 'en')
+    || tracks[0];
+}
+
+const publicTrack = ({ languageCode, kind, name, isTranslatable }: PlayerCaptionTrack): CaptionTrack => ({
+  languageCode,
+  kind,
+  name,
+  isTranslatable
+});
+
+async function fetchVideoPage(videoId: string): Promise<string> {
+  const videoPageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+    }
+  });
+
+  if (!videoPageResponse.ok) {
+    throw new Error(`Failed to fetch video page: ${videoPageResponse.status}`);
+  }
+
+  return videoPageResponse.text();
+}
+
+/**
+ * Every caption track a video offers, creator captions first, then by name
+ */
+export async function listCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  const tracks = extractCaptionTracks(await fetchVideoPage(videoId));
+  return tracks
+    .map(publicTrack)
+    .sort((a, b) => (a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'manual' ? -1 : 1));
+}
+
+/**
+ * Fetch transcript using YouTube's internal API
+ * This mimics the functionality of youtube-transcript-api
+ */
+export async function fetchYouTubeTranscript(videoId: string, request?: CaptionTrackRequest): Promise<{
+  transcript: TranscriptSegment[];
+  language: string;
+  track: CaptionTrack;
+  title?: string;
+  duration?: string;
+  channelName?: string;
+  thumbnail?: string;
+}> {
+  try {
+    // Step 1: Get the video page to extract necessary data
+    const videoPageHtml = await fetchVideoPage(videoId);
+
+    // Extract video metadata from the page
+    const titleMatch = videoPageHtml.match(/<title>([^<]+)<\/title>/);
+    const title = titleMatch ? titleMatch[1].replace(' - YouTube', '') : undefined;
+
+    // Extract channel name
+    const channelMatch = videoPageHtml.match(/"ownerChannelName":"([^"]+)"/);
+    const channelName = channelMatch ? channelMatch[1] : undefined;
+
+    // Extract thumbnail
+    const thumbnailMatch = videoPageHtml.match(/"videoDetails":\s*{[^}]*"thumbnail":\s*{[^}]*"thumbnails":\s*\[([^\]]+)\]/);
+    let thumbnail = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`; // Default thumbnail
+
+    // Extract duration
+    const durationMatch = videoPageHtml.match(/"lengthSeconds":"(\d+)"/);
+    let duration = undefined;
+    if (durationMatch) {
+      const seconds = parseInt(durationMatch[1]);
+      const hours = Math.floor(seconds / 3600);
+      const minutes = Math.floor((seconds % 3600) / 60);
+      const remainingSeconds = seconds % 60;
+      
+      if (hours > 0) {
+        duration = `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+      } else {
+        duration = `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+      }
+    }
+
+    // Extract caption tracks
+    if (!videoPageHtml.includes('"captionTracks"')) {
+      throw new Error('No captions available for this video');
+    }
+
+    const captionTracks = extractCaptionTracks(videoPageHtml);
+    
+    if (captionTracks.length === 0) {
+      throw new Error('No caption tracks found');
+    }
+
+    const selectedTrack = selectCaptionTrack(captionTracks, request);
+
+    if (!selectedTrack) {
+      throw new Error('The selected caption track is not available for this video');
+    }
+
+    // Step 2: Fetch and parse the captions
+    const transcript = await fetchCaptionTrack(selectedTrack.baseUrl);
+
+    return {
+      transcript,
+      language: selectedTrack.languageCode,
+      track: publicTrack(selectedTrack),
+      title,
+      duration,
+      channelName,
+      thumbnail
+    };
+
+  } catch (error) {
+    console.error('Error fetching YouTube transcript:', error);
+    throw error;
+  }
+}
+
+/**
+ * A track's captions, asking for json3 first since it times each word of
+ * automatic captions, then the track's own format
+ */
+async function fetchCaptionTrack(baseUrl: string): Promise<TranscriptSegment[]> {
+  const json3Url = new URL(baseUrl);
+  json3Url.searchParams.set('fmt', 'json3');
+
+  const json3Response = await fetch(json3Url.toString(), { headers: PAGE_HEADERS }).catch(() => null);
+  if (json3Response?.ok) {
+    try {
+      const cues = parseCaptions(await json3Response.text());
+      if (cues.length > 0) return cues;
+    } catch (error) {
+      console.warn('json3 captions unusable, fetching the default format:', error);
+    }
+  }
+
+  const transcriptResponse = await fetch(baseUrl, { headers: PAGE_HEADERS });
+  if (!transcriptResponse.ok) {
+    throw new Error(`Failed to fetch transcript: ${transcriptResponse.status}`);
+  }
+
+  const payload = await transcriptResponse.text();
+  return payload.trim() ? parseCaptions(payload) : [];
+}
+
+/**
+ * Convert transcript segments to the format expected by the frontend
+ */
+/**
+ * Seconds in a duration like "12:34" or "1:02:03", or 0 when it doesn't parse
+ */
+export function parseDuration(duration: string | undefined): number {
+  if (!duration) return 0;
+  const parts = duration.split(':').map(part => parseInt(part, 10));
+  if (parts.length < 2 || parts.some(part => isNaN(part))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export function formatTranscriptForFrontend(segments: TranscriptSegment[]): any[] {
+  return segments.map(segment => {
+    const totalSeconds = Math.floor(segment.start);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    
+    let timestamp: string;
+    if (hours > 0) {
+      timestamp = `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    } else {
+      timestamp = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    }
+    
+    return {
+      timestamp,
+      text: segment.text,
+      start: segment.start,
+      duration: segment.duration,
+      ...(segment.words ? { words: segment.words } : {})
+    };
+  });
+}
+
+export interface ListedVideo {
+  videoId: string;
+  title: string;
+}
+
+const PAGE_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+async function fetchPage(url: string): Promise<string> {
+  const response = await fetch(url, { headers: PAGE_HEADERS });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Collect every `playlistVideoRenderer` in the page's ytInitialData, in order
+ */
+function collectPlaylistVideos(node: unknown, videos: ListedVideo[]): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectPlaylistVideos(child, videos));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const record = node as Record<string, any>;
+  const renderer = record.playlistVideoRenderer;
+  if (renderer?.videoId) {
+    videos.push({
+      videoId: renderer.videoId,
+      title: renderer.title?.runs?.[0]?.text ?? renderer.title?.simpleText ?? renderer.videoId
+    });
+    return;
+  }
+  Object.values(record).forEach(child => collectPlaylistVideos(child, videos));
+}
+
+/**
+ * Videos on a playlist's page. YouTube renders the first 100 without paging,
+ * which is as far as this goes.
+ */
+export async function fetchPlaylistVideos(playlistId: string): Promise<{ title: string; videos: ListedVideo[] }> {
+  const html = await fetchPage(`https://www.youtube.com/playlist?list=${encodeURIComponent(playlistId)}`);
+
+  const dataMatch = html.match(/(?:var ytInitialData|window\["ytInitialData"\])\s*=\s*({.+?});\s*<\/script>/s);
+  if (!dataMatch) {
+    throw new Error('Playlist not found or private');
+  }
+
+  const videos: ListedVideo[] = [];
+  collectPlaylistVideos(JSON.parse(dataMatch[1]), videos);
+  if (videos.length === 0) {
+    throw new Error('Playlist has no public videos');
+  }
+
+  const titleMatch = html.match(/<meta property="og:title" content="([^"]+)"/);
+  return {
+    title: titleMatch ? decodeEntities(titleMatch[1]) : `Playlist ${playlistId}`,
+    videos: videos.filter((video, index) => videos.findIndex(other => other.videoId === video.videoId) === index)
+  };
+}
+
+/**
+ * A channel's uploads, read from its uploads playlist (the channel id with
+ * `UC` swapped for `UU`). `channelPath` is `@handle`, `channel/UC...`,
+ * `c/name` or `user/name`.
+ */
+export async function fetchChannelUploads(channelPath: string): Promise<{ title: string; videos: ListedVideo[] }> {
+  let channelId = channelPath.match(/^channel\/(UC[\w-]{22})$/)?.[1];
+  let channelTitle: string | undefined;
+
+  if (!channelId) {
+    const html = await fetchPage(`https://www.youtube.com/${channelPath}`);
+    channelId = html.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/)?.[1]
+      ?? html.match(/"externalId":"(UC[\w-]{22})"/)?.[1];
+    const titleMatch = html.match(/<meta property="og:title" content="([^"]+)"/);
+    channelTitle = titleMatch ? decodeEntities(titleMatch[1]) : undefined;
+  }
+
+  if (!channelId) {
+    throw new Error('Channel not found');
+  }
+
+  const uploads = await fetchPlaylistVideos(`UU${channelId.substring(2)}`);
+  return {
+    title: channelTitle ? `${channelTitle} uploads` : uploads.title,
+    videos: uploads.videos
+  };
+}
@@ -0,0 +1,95 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/plan.ts'
+import { AnalysisJob, processJob } from '../_shared/analysisJobs.ts'
+
+/*
+ * Processes analysis jobs queued from the web app; the stages of a job are in
+ * _shared/analysisJobs.ts.
+ *
+ * The web app calls this right after queueing a job, and only that user's jobs
+ * are claimed. Run it every minute with the service role key (e.g. a Supabase
+ * cron job) to pick up jobs whose worker stopped part way. The first job is
+ * claimed before responding and processed in the background, so closing the
+ * tab does not stop it. Further jobs (e.g. the rest of a batch) are claimed one
+ * at a time until the queue is empty or the time budget runs out.
+ */
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Stop claiming new jobs after this long so the last one finishes within the
+// function's wall clock limit
+const WORKER_BUDGET_MS = 120000
+
+async function claimJob(client: SupabaseClient, userId: string | null): Promise<AnalysisJob | undefined> {
+  const { data, error } = await client.rpc('claim_analysis_job', { p_user_id: userId })
+  if (error) throw error
+  return ((data || []) as AnalysisJob[])[0]
+}
+
+async function processQueue(client: SupabaseClient, userId: string | null, firstJob: AnalysisJob): Promise<void> {
+  const startedAt = Date.now()
+  let job: AnalysisJob | undefined = firstJob
+
+  while (job) {
+    await processJob(client, job)
+    if (Date.now() - startedAt > WORKER_BUDGET_MS) break
+
+    try {
+      job = await claimJob(client, userId)
+    } catch (error) {
+      console.error('❌ Failed to claim next analysis job:', error)
+      break
+    }
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    const isServiceRole = req.headers.get('authorization') === `Bearer ${serviceRoleKey}`
+    const userId = isServiceRole ? null : await getRequestUserId(client, req)
+    if (!isServiceRole && !userId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const job = await claimJob(client, userId)
+    if (job) {
+      EdgeRuntime.waitUntil(processQueue(client, userId, job))
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, jobId: job?.id ?? null }),
+      {
+        status: job ? 202 : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Analysis worker error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
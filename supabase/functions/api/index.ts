@@ -0,0 +1,523 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPlanStatus, getPlanDenial, PlanFeature, PlanStatus } from '../_shared/plan.ts'
+import { ApiKeyOwner, ApiKeyScope, authenticateApiKey, hasScope, recordApiKeyUse } from '../_shared/apiKeys.ts'
+import { extractVideoId, formatTranscriptForFrontend, parseDuration } from '../_shared/youtube.ts'
+import { CachedTranscriptResult, fetchTranscriptCached } from '../_shared/transcriptCache.ts'
+import { summarizeTranscript } from '../_shared/summary.ts'
+import { translateTexts } from '../_shared/translation.ts'
+import { getSummaryWriteDenial } from '../_shared/workspace.ts'
+import { UsageQuota, getUsageQuota, rateLimitHeaders, takeRateLimitToken, withHeaders } from '../_shared/rateLimit.ts'
+import { StoredSegment, TRANSCRIPT_FORMATS, TranscriptFormat, renderTranscript } from './transcriptFormats.ts'
+
+/*
+ * Public REST API, served at /functions/v1/api/v1/...
+ * Request and response bodies follow src/types/api.ts, which public/openapi.json
+ * is generated from; update both together.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers':
+    'x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, retry-after, x-quota-limit, x-quota-remaining, x-quota-reset, x-transcript-cache',
+}
+
+type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'insufficient_scope'
+  | 'ip_not_allowed'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'feature_not_available'
+  | 'video_too_long'
+  | 'workspace_conflict'
+  | 'usage_limit_reached'
+  | 'rate_limited'
+  | 'transcript_unavailable'
+  | 'translation_unavailable'
+  | 'internal_error'
+
+interface ApiContext {
+  client: SupabaseClient
+  owner: ApiKeyOwner
+  plan: PlanStatus
+  // Set by checkQuota for requests that use up quota; reported in X-Quota-* headers
+  quota: UsageQuota | null
+}
+
+interface SummaryRow {
+  id: string
+  video_id: string
+  title: string
+  thumbnail: string
+  duration: string
+  channel_name: string
+  language: string | null
+  created_at: string
+  updated_at: string
+  summary?: string
+  bullet_points?: string[]
+  key_quote?: string
+  transcript?: StoredSegment[]
+  highlighted_segments?: unknown[]
+  chapters?: unknown[]
+  translated_summary?: Record<string, string>
+  translated_transcript?: Record<string, StoredSegment[]>
+}
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+const LIST_COLUMNS = 'id, video_id, title, thumbnail, duration, channel_name, language, created_at, updated_at'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/
+
+function success(body: Record<string, unknown>, status = 200): Response {
+  return new Response(
+    JSON.stringify({ success: true, ...body }),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+function failure(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: { code, message, ...(details ? { details } : {}) } }),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+const notFound = () => failure(404, 'not_found', 'Summary not found')
+
+function checkPlan(ctx: ApiContext, options: { feature?: PlanFeature; videoSeconds?: number }): Response | null {
+  const denial = getPlanDenial(ctx.plan, options)
+  return denial ? failure(denial.status, denial.code, denial.message, denial.details) : null
+}
+
+// Quotas are shared with the web app: an analysis made through the API counts
+// against the same daily and monthly limits as one made in the browser
+async function checkQuota(ctx: ApiContext, actionType: 'video_analysis' | 'translation'): Promise<Response | null> {
+  const quota = await getUsageQuota(ctx.client, ctx.owner.userId, actionType)
+  ctx.quota = quota
+  if (quota.allowed) return null
+
+  return failure(429, 'usage_limit_reached', 'Usage limit reached for your plan', {
+    action: actionType,
+    plan: ctx.plan.plan_type,
+    daily_limit: quota.dailyLimit,
+    daily_usage: quota.dailyUsage,
+    monthly_limit: quota.monthlyLimit,
+    monthly_usage: quota.monthlyUsage,
+  })
+}
+
+function withScope(ctx: ApiContext, scope: ApiKeyScope, handler: () => Promise<Response>): Promise<Response> | Response {
+  if (hasScope(ctx.owner, scope)) return handler()
+  return failure(403, 'insufficient_scope', `This API key does not have the "${scope}" scope`, {
+    requiredScope: scope,
+    scopes: ctx.owner.scopes,
+  })
+}
+
+async function readJson(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json()
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null
+  } catch {
+    return null
+  }
+}
+
+async function recordUsage(ctx: ApiContext, actionType: string, metadata: Record<string, unknown>) {
+  await ctx.client.rpc('increment_usage', {
+    p_user_id: ctx.owner.userId,
+    p_action_type: actionType,
+    p_metadata: { ...metadata, key_id: ctx.owner.keyId },
+  })
+}
+
+function toListItem(row: SummaryRow) {
+  return {
+    id: row.id,
+    videoId: row.video_id,
+    title: row.title,
+    thumbnail: row.thumbnail,
+    duration: row.duration,
+    channelName: row.channel_name,
+    language: row.language || 'en',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toSummary(row: SummaryRow) {
+  return {
+    ...toListItem(row),
+    summary: row.summary,
+    bulletPoints: row.bullet_points || [],
+    keyQuote: row.key_quote,
+    highlightedSegments: row.highlighted_segments || [],
+    chapters: row.chapters || [],
+    translatedSummary: row.translated_summary || {},
+  }
+}
+
+// Cursors are opaque to clients: base64url of [created_at, id] of the last row
+function encodeCursor(row: SummaryRow): string {
+  return btoa(JSON.stringify([row.created_at, row.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const value = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))
+    if (
+      Array.isArray(value) && value.length === 2 &&
+      !isNaN(Date.parse(value[0])) && UUID_PATTERN.test(value[1])
+    ) {
+      return [value[0], value[1]]
+    }
+  } catch {
+    // Fall through to invalid
+  }
+  return null
+}
+
+// The API works on the key owner's personal summaries; team workspaces stay in the app
+async function fetchSummary(ctx: ApiContext, id: string, columns = '*'): Promise<SummaryRow | null> {
+  if (!UUID_PATTERN.test(id)) return null
+
+  const { data, error } = await ctx.client
+    .from('video_summaries')
+    .select(columns)
+    .eq('id', id)
+    .eq('user_id', ctx.owner.userId)
+    .is('team_owner_id', null)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as SummaryRow | null
+}
+
+async function analyzeVideo(ctx: ApiContext, req: Request): Promise<Response> {
+  const body = await readJson(req)
+  if (!body || typeof body.url !== 'string') {
+    return failure(400, 'invalid_request', 'Missing required field: url')
+  }
+
+  const videoId = extractVideoId(body.url)
+  if (!videoId) {
+    return failure(400, 'invalid_request', 'Invalid YouTube URL', { url: body.url })
+  }
+
+  const denied = await checkQuota(ctx, 'video_analysis')
+  if (denied) return denied
+
+  let transcriptData: CachedTranscriptResult
+  try {
+    transcriptData = await fetchTranscriptCached(ctx.client, videoId)
+  } catch (error) {
+    return failure(422, 'transcript_unavailable', error instanceof Error ? error.message : 'No transcript available', { videoId })
+  }
+
+  if (!transcriptData.language.toLowerCase().startsWith('en')) {
+    const languageDenied = checkPlan(ctx, { feature: 'nonEnglishSupport' })
+    if (languageDenied) return languageDenied
+  }
+
+  const lengthDenied = checkPlan(ctx, { videoSeconds: parseDuration(transcriptData.duration) })
+  if (lengthDenied) return lengthDenied
+
+  const transcript = formatTranscriptForFrontend(transcriptData.transcript)
+  const generated = await summarizeTranscript(transcript, {
+    title: transcriptData.title,
+    language: transcriptData.language,
+  })
+
+  // The API works in the personal workspace only
+  const writeDenial = await getSummaryWriteDenial(ctx.client, ctx.owner.userId, videoId, null)
+  if (writeDenial) return failure(409, 'workspace_conflict', writeDenial, { videoId })
+
+  // Highlights are left out so re-analyzing a video keeps the user's own
+  const { data: row, error } = await ctx.client
+    .from('video_summaries')
+    .upsert({
+      user_id: ctx.owner.userId,
+      team_owner_id: null,
+      video_id: videoId,
+      title: transcriptData.title || `YouTube Video ${videoId}`,
+      thumbnail: transcriptData.thumbnail || `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+      duration: transcriptData.duration || '0:00',
+      channel_name: transcriptData.channelName || 'Unknown Channel',
+      summary: generated.summary,
+      bullet_points: generated.bulletPoints,
+      key_quote: generated.keyQuote,
+      transcript,
+      language: transcriptData.language,
+      caption_track: {
+        languageCode: transcriptData.track.languageCode,
+        kind: transcriptData.track.kind,
+        name: transcriptData.track.name,
+      },
+    }, {
+      onConflict: 'user_id,video_id',
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+
+  await recordUsage(ctx, 'video_analysis', { source: 'api', video_id: videoId })
+  await recordUsage(ctx, 'api_call', { endpoint: 'analyze', video_id: videoId })
+  return withHeaders(
+    success({ data: toSummary(row as SummaryRow) }, 201),
+    { 'X-Transcript-Cache': transcriptData.cached ? 'hit' : 'miss' }
+  )
+}
+
+async function listSummaries(ctx: ApiContext, url: URL): Promise<Response> {
+  const limitParam = url.searchParams.get('limit')
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return failure(400, 'invalid_request', `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`)
+  }
+
+  let query = ctx.client
+    .from('video_summaries')
+    .select(LIST_COLUMNS)
+    .eq('user_id', ctx.owner.userId)
+    .is('team_owner_id', null)
+
+  const cursorParam = url.searchParams.get('cursor')
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam)
+    if (!cursor) {
+      return failure(400, 'invalid_request', 'Invalid cursor')
+    }
+    const [createdAt, id] = cursor
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`)
+  }
+
+  // One extra row tells us whether there is another page
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (error) throw error
+
+  const rows = data as SummaryRow[]
+  const page = rows.slice(0, limit)
+  const hasMore = rows.length > limit
+
+  return success({
+    data: page.map(toListItem),
+    pagination: {
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+      hasMore,
+      limit,
+    },
+  })
+}
+
+async function getSummary(ctx: ApiContext, id: string): Promise<Response> {
+  const row = await fetchSummary(ctx, id)
+  return row ? success({ data: toSummary(row) }) : notFound()
+}
+
+async function deleteSummary(ctx: ApiContext, id: string): Promise<Response> {
+  if (!UUID_PATTERN.test(id)) return notFound()
+
+  const { data, error } = await ctx.client
+    .from('video_summaries')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', ctx.owner.userId)
+    .is('team_owner_id', null)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) return notFound()
+
+  return success({ data: { id, deleted: true } })
+}
+
+async function getTranscript(ctx: ApiContext, id: string, url: URL): Promise<Response> {
+  const format = (url.searchParams.get('format') || 'json') as TranscriptFormat
+  if (format !== 'json' && !Object.hasOwn(TRANSCRIPT_FORMATS, format)) {
+    return failure(400, 'invalid_request', 'format must be one of json, txt, srt, vtt')
+  }
+
+  const row = await fetchSummary(ctx, id, 'id, video_id, language, transcript')
+  if (!row) return notFound()
+
+  const segments: StoredSegment[] = row.transcript || []
+  if (format === 'json') {
+    return success({
+      data: {
+        summaryId: row.id,
+        videoId: row.video_id,
+        language: row.language || 'en',
+        segments,
+      },
+    })
+  }
+
+  const { contentType, extension } = TRANSCRIPT_FORMATS[format]
+  return new Response(renderTranscript(segments, format), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${row.video_id}.${extension}"`,
+    },
+  })
+}
+
+async function createTranslation(ctx: ApiContext, id: string, req: Request): Promise<Response> {
+  const body = await readJson(req)
+  const targetLanguage = body?.targetLanguage
+  if (typeof targetLanguage !== 'string' || !LANGUAGE_PATTERN.test(targetLanguage)) {
+    return failure(400, 'invalid_request', 'targetLanguage must be a language code such as "es"')
+  }
+
+  const denied = checkPlan(ctx, { feature: 'translation' }) ?? await checkQuota(ctx, 'translation')
+  if (denied) return denied
+
+  const row = await fetchSummary(ctx, id)
+  if (!row) return notFound()
+
+  const segments: StoredSegment[] = row.transcript || []
+  let translated: string[] | null
+  try {
+    translated = await translateTexts(
+      [row.summary || '', ...segments.map(segment => segment.text)],
+      targetLanguage,
+      row.language || 'en'
+    )
+  } catch (error) {
+    console.error('Translation failed:', error)
+    return failure(503, 'translation_unavailable', 'The translation service failed. Try again later.')
+  }
+  if (!translated) {
+    return failure(503, 'translation_unavailable', 'Translation is not configured for this API')
+  }
+
+  const [summary, ...texts] = translated
+  const transcript = segments.map((segment, index) => ({ ...segment, text: texts[index] }))
+
+  const { error } = await ctx.client
+    .from('video_summaries')
+    .update({
+      translated_summary: { ...(row.translated_summary || {}), [targetLanguage]: summary },
+      translated_transcript: { ...(row.translated_transcript || {}), [targetLanguage]: transcript },
+    })
+    .eq('id', row.id)
+
+  if (error) throw error
+
+  await recordUsage(ctx, 'translation', { summary_id: row.id, language: targetLanguage })
+  await recordUsage(ctx, 'api_call', { endpoint: 'translations', summary_id: row.id })
+
+  return success({
+    data: { summaryId: row.id, language: targetLanguage, summary, transcript },
+  }, 201)
+}
+
+/**
+ * Match `/api/v1/<segments>` and dispatch on method and path. Each operation
+ * needs one key scope: GETs `read`, analyze `analyze`, translations `translate`
+ * and DELETE `delete`.
+ */
+function route(ctx: ApiContext, req: Request, url: URL, segments: string[]): Promise<Response> | Response {
+  const [resource, id, child] = segments
+  const methodNotAllowed = () => failure(405, 'method_not_allowed', `${req.method} is not supported on this path`)
+
+  if (resource === 'analyze' && segments.length === 1) {
+    return req.method === 'POST' ? withScope(ctx, 'analyze', () => analyzeVideo(ctx, req)) : methodNotAllowed()
+  }
+
+  if (resource === 'summaries') {
+    if (segments.length === 1) {
+      return req.method === 'GET' ? withScope(ctx, 'read', () => listSummaries(ctx, url)) : methodNotAllowed()
+    }
+    if (segments.length === 2) {
+      if (req.method === 'GET') return withScope(ctx, 'read', () => getSummary(ctx, id))
+      if (req.method === 'DELETE') return withScope(ctx, 'delete', () => deleteSummary(ctx, id))
+      return methodNotAllowed()
+    }
+    if (segments.length === 3 && child === 'transcript') {
+      return req.method === 'GET' ? withScope(ctx, 'read', () => getTranscript(ctx, id, url)) : methodNotAllowed()
+    }
+    if (segments.length === 3 && child === 'translations') {
+      return req.method === 'POST' ? withScope(ctx, 'translate', () => createTranslation(ctx, id, req)) : methodNotAllowed()
+    }
+  }
+
+  return failure(404, 'not_found', `No route for ${req.method} ${url.pathname}`)
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  const url = new URL(req.url)
+  const match = url.pathname.match(/^\/(?:functions\/v1\/)?api\/v1(?:\/(.*))?$/)
+  if (!match) {
+    return failure(404, 'not_found', 'Unknown API version. Use /v1.')
+  }
+
+  try {
+    const client = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const auth = await authenticateApiKey(client, req)
+    if (!auth.ok) {
+      return failure(auth.status, auth.code, auth.message)
+    }
+
+    const owner = auth.key
+    const rate = await takeRateLimitToken(client, owner.keyId)
+    if (!rate.allowed) {
+      return withHeaders(
+        failure(429, 'rate_limited', `Too many requests. Retry in ${rate.retryAfter} seconds.`, {
+          limit: rate.limit,
+          retryAfter: rate.retryAfter,
+        }),
+        rateLimitHeaders(rate)
+      )
+    }
+
+    const plan = await getPlanStatus(client, owner.userId)
+    const ctx: ApiContext = { client, owner, plan, quota: null }
+
+    const denied = checkPlan(ctx, { feature: 'apiAccess' })
+    if (denied) return withHeaders(denied, rateLimitHeaders(rate))
+
+    await recordApiKeyUse(client, owner.keyId)
+    const response = await route(ctx, req, url, (match[1] || '').split('/').filter(Boolean))
+    return withHeaders(response, rateLimitHeaders(rate, ctx.quota))
+  } catch (error) {
+    console.error('API error:', error)
+    return failure(500, 'internal_error', 'Internal server error')
+  }
+})
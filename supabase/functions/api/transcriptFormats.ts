@@ -0,0 +1,65 @@
+export type TranscriptFormat = 'json' | 'txt' | 'srt' | 'vtt'
+
+export interface StoredSegment {
+  timestamp: string
+  text: string
+  start: number
+  duration?: number
+}
+
+export const TRANSCRIPT_FORMATS: Record<Exclude<TranscriptFormat, 'json'>, { contentType: string; extension: string }> = {
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+  srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' },
+  vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt' },
+}
+
+// Reading speed used to estimate an end time when a segment has no duration,
+// same as src/utils/subtitleUtils.ts
+const CHARS_PER_SECOND = 15
+
+function segmentEnd(segments: StoredSegment[], index: number): number {
+  const segment = segments[index]
+  const next = segments[index + 1]
+  const estimated = segment.start + Math.max(1, segment.text.length / CHARS_PER_SECOND)
+
+  if (segment.duration !== undefined && segment.duration > 0) {
+    const end = segment.start + segment.duration
+    return next && next.start > segment.start ? Math.min(end, next.start) : end
+  }
+  return next && next.start > segment.start ? next.start : estimated
+}
+
+function formatClock(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const pad = (value: number, size = 2) => value.toString().padStart(size, '0')
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`
+}
+
+/**
+ * One cue per stored segment; the web app's subtitle export re-flows lines,
+ * the API returns the transcript as captured
+ */
+export function renderTranscript(segments: StoredSegment[], format: Exclude<TranscriptFormat, 'json'>): string {
+  if (format === 'txt') {
+    return segments.map(segment => `[${segment.timestamp}] ${segment.text}`).join('\n') + '\n'
+  }
+
+  const cues = segments.map((segment, index) => ({
+    start: segment.start,
+    end: segmentEnd(segments, index),
+    text: segment.text,
+  }))
+
+  if (format === 'srt') {
+    return cues
+      .map((cue, index) => `${index + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.text}\n`)
+      .join('\n')
+  }
+
+  return 'WEBVTT\n\n' + cues
+    .map(cue => `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${cue.text.replace(/-->/g, '->')}\n`)
+    .join('\n')
+}
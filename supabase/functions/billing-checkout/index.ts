@@ -0,0 +1,165 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  BillingCycle,
+  BillingProvider,
+  PaidPlan,
+  ProviderSubscription,
+  createMockProvider,
+  handleBillingWebhook,
+  isLocalSupabase,
+} from '../_shared/billing.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type CheckoutAction = 'checkout' | 'cancel' | 'resume'
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+/**
+ * The provider named by BILLING_PROVIDER. Only the local mock ships today; it
+ * delivers its signed events straight into the webhook handler, so it has to be
+ * asked for by name and is refused outside a local Supabase stack.
+ */
+function getBillingProvider(client: SupabaseClient, secret: string): BillingProvider | null {
+  if (Deno.env.get('BILLING_PROVIDER') !== 'mock') return null
+  if (!isLocalSupabase(Deno.env.get('SUPABASE_URL') ?? '')) {
+    console.error('❌ BILLING_PROVIDER=mock is only allowed on a local Supabase stack')
+    return null
+  }
+
+  return createMockProvider({
+    secret,
+    deliver: async (payload, signature) => {
+      const result = await handleBillingWebhook(client, secret, payload, signature)
+      if (result.status !== 200) {
+        throw new Error(String(result.body.error || 'Billing event was rejected'))
+      }
+    },
+  })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const authHeader = req.headers.get('authorization')
+    const { data: userData } = authHeader?.startsWith('Bearer ')
+      ? await supabaseClient.auth.getUser(authHeader.substring(7))
+      : { data: { user: null } }
+    const user = userData.user
+    if (!user) {
+      return jsonResponse({ success: false, error: 'Sign in to manage your subscription' }, 401)
+    }
+
+    const secret = Deno.env.get('BILLING_WEBHOOK_SECRET')
+    const provider = secret ? getBillingProvider(supabaseClient, secret) : null
+    if (!provider) {
+      return jsonResponse({ success: false, error: 'Billing is not configured' }, 501)
+    }
+
+    const {
+      action = 'checkout',
+      plan,
+      billing_cycle: billingCycle = 'monthly',
+      return_url: returnUrl,
+    } = await req.json() as {
+      action?: CheckoutAction
+      plan?: PaidPlan
+      billing_cycle?: BillingCycle
+      return_url?: string
+    }
+
+    if (action === 'checkout' && plan !== 'pro' && plan !== 'team') {
+      return jsonResponse({ success: false, error: 'Choose the Pro or Team plan' }, 400)
+    }
+    if (billingCycle !== 'monthly' && billingCycle !== 'yearly') {
+      return jsonResponse({ success: false, error: 'Invalid billing cycle' }, 400)
+    }
+
+    // The provider-backed subscription the user currently holds, if any
+    const { data: current } = await supabaseClient
+      .from('user_subscriptions')
+      .select('plan_type, cancel_at_period_end, stripe_subscription_id, stripe_customer_id, current_period_end')
+      .eq('user_id', user.id)
+      .in('status', ['active', 'trialing', 'past_due'])
+      .not('stripe_subscription_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const subscription: ProviderSubscription | null = current
+      ? {
+          subscriptionId: current.stripe_subscription_id,
+          customerId: current.stripe_customer_id,
+          currentPeriodEnd: current.current_period_end,
+        }
+      : null
+
+    if (action === 'cancel' || action === 'resume') {
+      if (!subscription) {
+        return jsonResponse({ success: false, error: 'You have no paid subscription' }, 400)
+      }
+      if (action === 'cancel') {
+        await provider.cancelSubscription(subscription, true)
+      } else {
+        await provider.resumeSubscription(subscription)
+      }
+      return jsonResponse({ success: true })
+    }
+
+    if (subscription && current) {
+      if (current.plan_type === plan) {
+        if (current.cancel_at_period_end) {
+          await provider.resumeSubscription(subscription)
+        }
+        return jsonResponse({ success: true })
+      }
+
+      // Upgrades and downgrades between paid plans don't need a new checkout
+      await provider.changePlan(subscription, plan as PaidPlan, billingCycle)
+      return jsonResponse({ success: true })
+    }
+
+    const origin = returnUrl || req.headers.get('origin') || ''
+    const { url } = await provider.createCheckout({
+      userId: user.id,
+      email: user.email ?? null,
+      plan: plan as PaidPlan,
+      billingCycle,
+      successUrl: `${origin}?checkout=success`,
+      cancelUrl: `${origin}?checkout=canceled`,
+    })
+
+    return jsonResponse({ success: true, url })
+  } catch (error) {
+    console.error('Billing checkout error:', error)
+    return jsonResponse({ success: false, error: 'Failed to update your subscription' }, 500)
+  }
+})
@@ -0,0 +1,61 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { handleBillingWebhook, SIGNATURE_HEADER } from '../_shared/billing.ts'
+
+// Called by the payment provider, not the browser, so no CORS headers
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+
+  const secret = Deno.env.get('BILLING_WEBHOOK_SECRET')
+  if (!secret) {
+    console.error('❌ BILLING_WEBHOOK_SECRET is not set')
+    return new Response(
+      JSON.stringify({ error: 'Webhook is not configured' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // The signature covers the exact bytes received, so read the body as text
+    const payload = await req.text()
+    const result = await handleBillingWebhook(
+      supabaseClient,
+      secret,
+      payload,
+      req.headers.get(SIGNATURE_HEADER)
+    )
+
+    return new Response(
+      JSON.stringify(result.body),
+      {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Billing webhook error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -1,4 +1,15 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPlanStatus, getRequestUserId, checkPlanAccess } from '../_shared/plan.ts'
+import {
+  CaptionTrack,
+  CaptionTrackRequest,
+  TranscriptSegment,
+  extractVideoId,
+  formatTranscriptForFrontend,
+  listCaptionTracks,
+} from '../_shared/youtube.ts'
+import { fetchTranscriptCached } from '../_shared/transcriptCache.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,269 +17,28 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 }
 
-interface TranscriptSegment {
-  start: number;
-  duration: number;
-  text: string;
-}
-
 interface TranscriptResponse {
   success: boolean;
   data?: {
     videoId: string;
     transcript: TranscriptSegment[];
     language: string;
+    track: CaptionTrack;
     title?: string;
     duration?: string;
     channelName?: string;
     thumbnail?: string;
+    // Served from the shared transcript cache rather than fetched from YouTube
+    cached: boolean;
   };
   error?: string;
 }
 
-/**
- * Enhanced YouTube video ID extraction function
- * Supports all YouTube URL formats
- */
-function extractVideoId(url: string): string | null {
-  if (!url || typeof url !== 'string') {
-    return null;
-  }
-
-  const cleanUrl = url.trim();
-
-  // Comprehensive regex patterns for different YouTube URL formats
-  const patterns = [
-    // Standard watch URLs: https://www.youtube.com/watch?v=VIDEO_ID
-    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
-    
-    // Short URLs: https://youtu.be/VIDEO_ID
-    /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
-    
-    // Embed URLs: https://www.youtube.com/embed/VIDEO_ID
-    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/,
-    
-    // YouTube mobile URLs: https://m.youtube.com/watch?v=VIDEO_ID
-    /(?:https?:\/\/)?m\.youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
-    
-    // YouTube gaming URLs: https://gaming.youtube.com/watch?v=VIDEO_ID
-    /(?:https?:\/\/)?gaming\.youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
-    
-    // YouTube music URLs: https://music.youtube.com/watch?v=VIDEO_ID
-    /(?:https?:\/\/)?music\.youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/,
-    
-    // Direct video ID (11 characters, alphanumeric + _ -)
-    /^([a-zA-Z0-9_-]{11})$/
-  ];
-
-  // Try each pattern
-  for (const pattern of patterns) {
-    const match = cleanUrl.match(pattern);
-    
-    if (match && match[1]) {
-      const videoId = match[1];
-      
-      // Validate video ID format (11 characters, alphanumeric + underscore + hyphen)
-      if (/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
-        return videoId;
-      }
-    }
-  }
-
-  return null;
-}
-
-/**
- * Fetch YouTube video metadata using YouTube Data API v3
+/*
+ * POST { "url": "..." } fetches the default caption track; add "languageCode"
+ * and optionally "kind" ('manual' | 'asr') for a specific one.
+ * POST { "url": "...", "action": "tracks" } lists the tracks to choose from.
  */
-async function fetchVideoMetadata(videoId: string): Promise<{
-  title?: string;
-  duration?: string;
-  channelName?: string;
-  thumbnail?: string;
-} | null> {
-  try {
-    // Note: In production, you would use the YouTube Data API v3
-    // For now, we'll return null and let the transcript fetcher handle metadata
-    return null;
-  } catch (error) {
-    console.error('Error fetching video metadata:', error);
-    return null;
-  }
-}
-
-/**
- * Fetch transcript using YouTube's internal API
- * This mimics the functionality of youtube-transcript-api
- */
-async function fetchYouTubeTranscript(videoId: string): Promise<{
-  transcript: TranscriptSegment[];
-  language: string;
-  title?: string;
-  duration?: string;
-  channelName?: string;
-  thumbnail?: string;
-}> {
-  try {
-    // Step 1: Get the video page to extract necessary data
-    const videoPageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}`, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
-    });
-
-    if (!videoPageResponse.ok) {
-      throw new Error(`Failed to fetch video page: ${videoPageResponse.status}`);
-    }
-
-    const videoPageHtml = await videoPageResponse.text();
-
-    // Extract video metadata from the page
-    const titleMatch = videoPageHtml.match(/<title>([^<]+)<\/title>/);
-    const title = titleMatch ? titleMatch[1].replace(' - YouTube', '') : undefined;
-
-    // Extract channel name
-    const channelMatch = videoPageHtml.match(/"ownerChannelName":"([^"]+)"/);
-    const channelName = channelMatch ? channelMatch[1] : undefined;
-
-    // Extract thumbnail
-    const thumbnailMatch = videoPageHtml.match(/"videoDetails":\s*{[^}]*"thumbnail":\s*{[^}]*"thumbnails":\s*\[([^\]]+)\]/);
-    let thumbnail = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`; // Default thumbnail
-
-    // Extract duration
-    const durationMatch = videoPageHtml.match(/"lengthSeconds":"(\d+)"/);
-    let duration = undefined;
-    if (durationMatch) {
-      const seconds = parseInt(durationMatch[1]);
-      const hours = Math.floor(seconds / 3600);
-      const minutes = Math.floor((seconds % 3600) / 60);
-      const remainingSeconds = seconds % 60;
-      
-      if (hours > 0) {
-        duration = `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-      } else {
-        duration = `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-      }
-    }
-
-    // Extract caption tracks
-    const captionTracksMatch = videoPageHtml.match(/"captionTracks":\s*(\[[^\]]+\])/);
-    
-    if (!captionTracksMatch) {
-      throw new Error('No captions available for this video');
-    }
-
-    const captionTracks = JSON.parse(captionTracksMatch[1]);
-    
-    if (!captionTracks || captionTracks.length === 0) {
-      throw new Error('No caption tracks found');
-    }
-
-    // Find the best caption track (prefer auto-generated English, then manual, then any available)
-    let selectedTrack = captionTracks.find((track: any) => 
-      track.languageCode === 'en' && track.kind === 'asr'
-    ) || captionTracks.find((track: any) => 
-      track.languageCode === 'en'
-    ) || captionTracks[0];
-
-    if (!selectedTrack || !selectedTrack.baseUrl) {
-      throw new Error('No valid caption track found');
-    }
-
-    // Step 2: Fetch the transcript XML
-    const transcriptResponse = await fetch(selectedTrack.baseUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
-    });
-
-    if (!transcriptResponse.ok) {
-      throw new Error(`Failed to fetch transcript: ${transcriptResponse.status}`);
-    }
-
-    const transcriptXml = await transcriptResponse.text();
-
-    // Step 3: Parse the XML transcript
-    const transcript = parseTranscriptXml(transcriptXml);
-
-    return {
-      transcript,
-      language: selectedTrack.languageCode || 'en',
-      title,
-      duration,
-      channelName,
-      thumbnail
-    };
-
-  } catch (error) {
-    console.error('Error fetching YouTube transcript:', error);
-    throw error;
-  }
-}
-
-/**
- * Parse YouTube transcript XML into structured data
- */
-function parseTranscriptXml(xml: string): TranscriptSegment[] {
-  const transcript: TranscriptSegment[] = [];
-  
-  // Extract text elements using regex (since we don't have a full XML parser)
-  const textMatches = xml.matchAll(/<text start="([^"]+)" dur="([^"]+)"[^>]*>([^<]+)<\/text>/g);
-  
-  for (const match of textMatches) {
-    const start = parseFloat(match[1]);
-    const duration = parseFloat(match[2]);
-    let text = match[3];
-    
-    // Decode HTML entities
-    text = text
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/&nbsp;/g, ' ');
-    
-    // Clean up the text
-    text = text.trim();
-    
-    if (text && !isNaN(start) && !isNaN(duration)) {
-      transcript.push({
-        start: Math.round(start * 1000) / 1000, // Round to 3 decimal places
-        duration: Math.round(duration * 1000) / 1000,
-        text
-      });
-    }
-  }
-  
-  return transcript;
-}
-
-/**
- * Convert transcript segments to the format expected by the frontend
- */
-function formatTranscriptForFrontend(segments: TranscriptSegment[]): any[] {
-  return segments.map(segment => {
-    const totalSeconds = Math.floor(segment.start);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
-    
-    let timestamp: string;
-    if (hours > 0) {
-      timestamp = `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-    } else {
-      timestamp = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-    }
-    
-    return {
-      timestamp,
-      text: segment.text,
-      start: segment.start
-    };
-  });
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -292,7 +62,7 @@ serve(async (req) => {
   }
 
   try {
-    const { url } = await req.json();
+    const { url, action, languageCode, kind } = await req.json();
     
     if (!url) {
       return new Response(
@@ -323,10 +93,49 @@ serve(async (req) => {
       );
     }
 
+    // Listing tracks is not an analysis, so it is not counted against the plan
+    if (action === 'tracks') {
+      console.log(`Listing caption tracks for video ID: ${videoId}`);
+      const tracks = await listCaptionTracks(videoId);
+      return new Response(
+        JSON.stringify({ success: true, data: { videoId, tracks } }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const trackRequest: CaptionTrackRequest | undefined = typeof languageCode === 'string' && languageCode
+      ? { languageCode, kind: kind === 'manual' || kind === 'asr' ? kind : undefined }
+      : undefined;
+
+    // Resolve the caller's plan; requests without a user session are on the free plan
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const userId = await getRequestUserId(supabaseClient, req);
+    const planStatus = await getPlanStatus(supabaseClient, userId);
+
+    if (userId) {
+      const limitDenied = checkPlanAccess(planStatus, { enforceLimit: true }, corsHeaders);
+      if (limitDenied) {
+        return limitDenied;
+      }
+    }
+
     console.log(`Fetching transcript for video ID: ${videoId}`);
 
-    // Fetch the transcript
-    const transcriptData = await fetchYouTubeTranscript(videoId);
+    // Fetch the transcript, or reuse one another request fetched recently
+    const transcriptData = await fetchTranscriptCached(supabaseClient, videoId, trackRequest);
+    console.log(`Transcript cache ${transcriptData.cached ? 'hit' : 'miss'} for ${videoId}`);
+
+    if (!transcriptData.language.toLowerCase().startsWith('en')) {
+      const languageDenied = checkPlanAccess(planStatus, { feature: 'nonEnglishSupport' }, corsHeaders);
+      if (languageDenied) {
+        return languageDenied;
+      }
+    }
     
     // Format transcript for frontend compatibility
     const formattedTranscript = formatTranscriptForFrontend(transcriptData.transcript);
@@ -337,10 +146,12 @@ serve(async (req) => {
         videoId,
         transcript: formattedTranscript,
         language: transcriptData.language,
+        track: transcriptData.track,
         title: transcriptData.title,
         duration: transcriptData.duration,
         channelName: transcriptData.channelName,
-        thumbnail: transcriptData.thumbnail
+        thumbnail: transcriptData.thumbnail,
+        cached: transcriptData.cached
       }
     };
 
@@ -1,11 +1,20 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticateApiKey, recordApiKeyUse } from '../_shared/apiKeys.ts'
+import { rateLimitHeaders, takeRateLimitToken } from '../_shared/rateLimit.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers':
+    'x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, retry-after',
 }
 
+/*
+ * Counts one request against the API key sent as `Authorization: Bearer <key>`.
+ * The key itself is the proof of ownership, so callers can no longer bump the
+ * counter of an arbitrary `key_id`. Each call also takes a rate limit token.
+ */
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -17,44 +26,53 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { key_id } = await req.json()
+    const auth = await authenticateApiKey(supabaseClient, req)
+    if (!auth.ok) {
+      return new Response(
+        JSON.stringify({ error: auth.message, code: auth.code }),
+        {
+          status: auth.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    if (!key_id) {
+    // key_id is optional now; when sent it has to be the key that authenticated
+    const body = await req.json().catch(() => ({}))
+    if (body?.key_id && body.key_id !== auth.key.keyId) {
       return new Response(
-        JSON.stringify({ error: 'Missing key_id parameter' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        JSON.stringify({ error: 'key_id does not match the API key used' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Increment usage count and update last_used
-    const { error } = await supabaseClient
-      .from('api_keys')
-      .update({ 
-        usage_count: supabaseClient.raw('usage_count + 1'),
-        last_used: new Date().toISOString()
-      })
-      .eq('id', key_id)
-
-    if (error) {
-      throw error
+    const rate = await takeRateLimitToken(supabaseClient, auth.key.keyId)
+    const headers = { ...corsHeaders, ...rateLimitHeaders(rate), 'Content-Type': 'application/json' }
+
+    if (!rate.allowed) {
+      return new Response(
+        JSON.stringify({ error: `Too many requests. Retry in ${rate.retryAfter} seconds.`, code: 'rate_limited' }),
+        { status: 429, headers }
+      )
     }
 
+    await recordApiKeyUse(supabaseClient, auth.key.keyId)
+
     return new Response(
-      JSON.stringify({ success: true }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
+      JSON.stringify({ success: true, remaining: rate.remaining }),
+      { headers }
     )
   } catch (error) {
+    console.error('Failed to record API usage:', error)
     return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
   }
-})
\ No newline at end of file
+})
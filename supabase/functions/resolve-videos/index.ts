@@ -0,0 +1,66 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/plan.ts'
+import { fetchChannelUploads, fetchPlaylistVideos } from '../_shared/youtube.ts'
+
+/*
+ * Lists the videos in a YouTube playlist or a channel's uploads for batch
+ * analysis. The browser cannot read YouTube pages itself, so the web app sends
+ * the parsed source here:
+ *
+ *   { "type": "playlist", "id": "PL..." }
+ *   { "type": "channel", "path": "@handle" | "channel/UC..." | "c/name" | "user/name" }
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const PLAYLIST_ID_PATTERN = /^[\w-]{10,64}$/
+const CHANNEL_PATH_PATTERN = /^(@[\w.-]+|channel\/UC[\w-]{22}|c\/[\w.-]+|user\/[\w.-]+)$/
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const client = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const userId = await getRequestUserId(client, req)
+    if (!userId) {
+      return json({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const body = await req.json().catch(() => null)
+    let listing: Awaited<ReturnType<typeof fetchPlaylistVideos>>
+
+    try {
+      if (body?.type === 'playlist' && PLAYLIST_ID_PATTERN.test(body.id ?? '')) {
+        listing = await fetchPlaylistVideos(body.id)
+      } else if (body?.type === 'channel' && CHANNEL_PATH_PATTERN.test(body.path ?? '')) {
+        listing = await fetchChannelUploads(body.path)
+      } else {
+        return json({ success: false, error: 'Expected a playlist id or channel path' }, 400)
+      }
+    } catch (error) {
+      return json({ success: false, error: error instanceof Error ? error.message : 'Could not list videos' }, 422)
+    }
+
+    console.log(`📃 Resolved ${body.type} to ${listing.videos.length} videos`)
+    return json({ success: true, data: listing })
+  } catch (error) {
+    console.error('Resolve videos error:', error)
+    return json({ success: false, error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,210 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/plan.ts'
+import { EmbeddingProvider, getEmbeddingProvider, indexSummary, toVectorLiteral } from '../_shared/embeddings.ts'
+import { answerQuestion } from '../_shared/answers.ts'
+
+/*
+ * Meaning-based search over transcript passages, and answers to questions
+ * about one video with the passages they came from:
+ *
+ *   { "action": "search", "query": "...", "summaryId"?: "...", "teamOwnerId"?: "...",
+ *     "filters"?: { "channel", "language", "collectionId", "from", "to" }, "limit"?: 10 }
+ *   { "action": "ask", "summaryId": "...", "question": "..." }
+ *
+ * Summaries analyzed before semantic search existed, or under another
+ * embedding model, are indexed on first use.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_QUERY_LENGTH = 500
+// Keeps a first library search within the function's time limit; the rest
+// are indexed by the searches after it
+const MAX_LAZY_INDEX = 10
+const ASK_PASSAGES = 6
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+interface MatchRow {
+  summary_id: string
+  video_id: string
+  title: string
+  channel_name: string
+  thumbnail: string
+  duration: string
+  language: string
+  created_at: string
+  segment_index: number
+  start_time: number | string
+  end_time: number | string
+  start_timestamp: string
+  content: string
+  similarity: number
+}
+
+/**
+ * Index the summaries in scope that have no chunks for the provider's model.
+ * `userClient` decides which summaries the caller may see.
+ */
+async function indexMissing(
+  userClient: SupabaseClient,
+  serviceClient: SupabaseClient,
+  provider: EmbeddingProvider,
+  scope: { summaryId: string | null; teamOwnerId: string | null }
+): Promise<void> {
+  const { data: missing, error } = await userClient.rpc('summaries_missing_embeddings', {
+    p_model: provider.model,
+    p_summary_id: scope.summaryId,
+    p_team_owner_id: scope.teamOwnerId,
+    p_limit: MAX_LAZY_INDEX,
+  })
+  if (error) throw error
+
+  for (const summaryId of (missing || []) as string[]) {
+    const { data: summary, error: summaryError } = await serviceClient
+      .from('video_summaries')
+      .select('transcript')
+      .eq('id', summaryId)
+      .single()
+    if (summaryError) throw summaryError
+
+    const count = await indexSummary(serviceClient, summaryId, summary.transcript || [], provider)
+    console.log(`🧭 Indexed ${count} passages for summary ${summaryId}`)
+  }
+}
+
+async function matchChunks(
+  userClient: SupabaseClient,
+  provider: EmbeddingProvider,
+  text: string,
+  params: Record<string, unknown>
+): Promise<MatchRow[]> {
+  const [vector] = await provider.embed([text])
+  // Nothing but stop words; every passage would be equally far away
+  if (!vector.some(value => value !== 0)) return []
+
+  const { data, error } = await userClient.rpc('match_transcript_chunks', {
+    p_embedding: toVectorLiteral(vector),
+    p_model: provider.model,
+    ...params,
+  })
+  if (error) throw error
+
+  return ((data || []) as MatchRow[]).filter(row => Number.isFinite(row.similarity))
+}
+
+const toMatch = (row: MatchRow) => ({
+  summaryId: row.summary_id,
+  videoId: row.video_id,
+  title: row.title,
+  channelName: row.channel_name,
+  thumbnail: row.thumbnail,
+  duration: row.duration,
+  language: row.language,
+  createdAt: row.created_at,
+  segmentIndex: row.segment_index,
+  start: Number(row.start_time),
+  end: Number(row.end_time),
+  timestamp: row.start_timestamp,
+  text: row.content,
+  similarity: row.similarity,
+})
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+    const userId = await getRequestUserId(serviceClient, req)
+    if (!userId) {
+      return json({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    // Runs the access-checked database functions as the caller
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const body = await req.json().catch(() => null)
+    const text = String((body?.action === 'ask' ? body?.question : body?.query) ?? '').trim()
+    const summaryId = typeof body?.summaryId === 'string' ? body.summaryId : null
+    const teamOwnerId = typeof body?.teamOwnerId === 'string' ? body.teamOwnerId : null
+
+    if (body?.action !== 'search' && body?.action !== 'ask') {
+      return json({ success: false, error: 'Expected action "search" or "ask"' }, 400)
+    }
+    if (text.length < 2 || text.length > MAX_QUERY_LENGTH) {
+      return json({ success: false, error: `Enter between 2 and ${MAX_QUERY_LENGTH} characters` }, 400)
+    }
+    if (body.action === 'ask' && !summaryId) {
+      return json({ success: false, error: 'Questions need a summaryId' }, 400)
+    }
+
+    const provider = getEmbeddingProvider()
+    await indexMissing(userClient, serviceClient, provider, { summaryId, teamOwnerId })
+
+    if (body.action === 'ask') {
+      const rows = await matchChunks(userClient, provider, text, {
+        p_summary_id: summaryId,
+        p_limit: ASK_PASSAGES,
+      })
+      // Passages in the order they appear in the video read better as context
+      const passages = rows
+        .sort((a, b) => a.segment_index - b.segment_index)
+        .map(row => ({
+          segmentIndex: row.segment_index,
+          start: Number(row.start_time),
+          timestamp: row.start_timestamp,
+          content: row.content,
+        }))
+
+      const generated = await answerQuestion(text, passages, provider)
+      console.log(`💬 Answered question for summary ${summaryId} with ${generated.citations.length} citations`)
+
+      return json({
+        success: true,
+        data: {
+          answer: generated.answer,
+          grounded: generated.grounded,
+          citations: generated.citations.map(number => ({
+            number,
+            segmentIndex: passages[number - 1].segmentIndex,
+            start: passages[number - 1].start,
+            timestamp: passages[number - 1].timestamp,
+            text: passages[number - 1].content,
+          })),
+        },
+      })
+    }
+
+    const filters = body.filters ?? {}
+    const rows = await matchChunks(userClient, provider, text, {
+      p_summary_id: summaryId,
+      p_team_owner_id: teamOwnerId,
+      p_channel: filters.channel || null,
+      p_language: filters.language || null,
+      p_collection_id: filters.collectionId || null,
+      p_from: filters.from || null,
+      p_to: filters.to || null,
+      p_limit: Math.min(Math.max(Number(body.limit) || 10, 1), 50),
+    })
+
+    console.log(`🧭 Semantic search returned ${rows.length} passages`)
+    return json({ success: true, data: { model: provider.model, matches: rows.map(toMatch) } })
+  } catch (error) {
+    console.error('Semantic search error:', error)
+    return json({ success: false, error: 'Internal server error' }, 500)
+  }
+})
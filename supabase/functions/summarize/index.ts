@@ -0,0 +1,73 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/plan.ts'
+import { summarizeTranscript } from '../_shared/summary.ts'
+import { TextSegment } from '../_shared/text.ts'
+
+/*
+ * Summarizes a transcript for the web app when VITE_SUMMARY_PROVIDER is 'llm':
+ *
+ *   { "transcript": [{ "text": "...", "start": 0, "timestamp": "0:00" }], "title"?: "...", "language"?: "en" }
+ *
+ * The LLM endpoint and its key (SUMMARY_PROVIDER, LLM_BASE_URL, LLM_MODEL,
+ * LLM_API_KEY) are function secrets and never reach the browser. Only signed-in
+ * users can spend them; the web app summarizes in the browser for everyone else.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Same cap as uploaded caption files in the analysis worker
+const MAX_SEGMENTS = 20000
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const isSegment = (segment: unknown): segment is TextSegment => {
+  const value = segment as TextSegment | null
+  return typeof value?.text === 'string' && typeof value.start === 'number' && Number.isFinite(value.start) &&
+    (value.timestamp === undefined || typeof value.timestamp === 'string')
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const client = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const userId = await getRequestUserId(client, req)
+    if (!userId) {
+      return json({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const body = await req.json().catch(() => null)
+    const transcript: unknown[] = Array.isArray(body?.transcript) ? body.transcript : []
+    if (transcript.length === 0 || transcript.length > MAX_SEGMENTS || !transcript.every(isSegment)) {
+      return json({ success: false, error: `Expected a transcript of up to ${MAX_SEGMENTS} segments` }, 400)
+    }
+
+    const summary = await summarizeTranscript(transcript as TextSegment[], {
+      title: typeof body.title === 'string' ? body.title : undefined,
+      language: typeof body.language === 'string' ? body.language : undefined,
+    })
+
+    return json({ success: true, data: summary })
+  } catch (error) {
+    console.error('Summarize error:', error)
+    return json({ success: false, error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,74 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/plan.ts'
+import { ClaimedDelivery, deliverWebhook } from '../_shared/webhookDelivery.ts'
+
+/*
+ * Sends due webhook deliveries queued by `enqueue_webhook_event`.
+ *
+ * Run it every minute with the service role key (e.g. a Supabase cron job) to
+ * process everyone's deliveries. A signed-in user may also call it, e.g. right
+ * after a manual redelivery, and only their own deliveries are sent. Sending and
+ * retrying a delivery is in _shared/webhookDelivery.ts.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BATCH_SIZE = 25
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    const isServiceRole = req.headers.get('authorization') === `Bearer ${serviceRoleKey}`
+    const userId = isServiceRole ? null : await getRequestUserId(client, req)
+    if (!isServiceRole && !userId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const { data, error } = await client.rpc('claim_webhook_deliveries', {
+      p_limit: BATCH_SIZE,
+      p_user_id: userId,
+    })
+    if (error) throw error
+
+    const deliveries = (data || []) as ClaimedDelivery[]
+    const results = await Promise.all(deliveries.map(delivery => deliverWebhook(client, delivery)))
+    const succeeded = results.filter(Boolean).length
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: deliveries.length,
+        succeeded,
+        failed: deliveries.length - succeeded,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Webhook dispatch error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,88 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/plan.ts'
+import { checkWebhookUrl, UnsafeWebhookUrlError } from '../_shared/webhookUrl.ts'
+
+/*
+ * Creates a webhook endpoint for the signed-in user:
+ *
+ *   { "url": "https://...", "description"?: "...", "events": ["summary.created", ...] }
+ *
+ * Endpoints are only created here, never by the client directly, so every URL
+ * has been resolved and checked against private addresses before it is saved.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const WEBHOOK_EVENTS = ['summary.created', 'summary.translated', 'share.viewed', 'quota.exceeded']
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const client = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const userId = await getRequestUserId(client, req)
+    if (!userId) {
+      return json({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const { url, description, events } = await req.json() as {
+      url?: string
+      description?: string
+      events?: string[]
+    }
+
+    if (!Array.isArray(events) || events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+      return json({ success: false, error: 'Select at least one event' }, 400)
+    }
+
+    let checkedUrl: URL
+    try {
+      checkedUrl = await checkWebhookUrl(typeof url === 'string' ? url : '')
+    } catch (error) {
+      if (error instanceof UnsafeWebhookUrlError) {
+        return json({ success: false, error: error.message }, 400)
+      }
+      throw error
+    }
+
+    const { data, error } = await client
+      .from('webhook_endpoints')
+      .insert({
+        user_id: userId,
+        url: checkedUrl.toString(),
+        description: description?.trim() || null,
+        events: [...new Set(events)],
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+
+    console.log('🪝 Created webhook endpoint:', data.id, checkedUrl.host)
+    return json({ success: true, data: { id: data.id } })
+  } catch (error) {
+    console.error('Webhook endpoint error:', error)
+    return json({ success: false, error: 'Failed to create webhook endpoint' }, 500)
+  }
+})
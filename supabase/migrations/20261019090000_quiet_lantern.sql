@@ -0,0 +1,19 @@
+/*
+  # Add Suggested Highlights
+
+  1. Changes
+    - `video_summaries`
+      - `suggested_highlights` (jsonb, new) - automatically detected highlights
+        awaiting review. Accepted suggestions move to `highlighted_segments`,
+        rejected ones are dropped.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'suggested_highlights'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN suggested_highlights jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+END $$;
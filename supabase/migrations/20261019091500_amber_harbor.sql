@@ -0,0 +1,18 @@
+/*
+  # Add Chapters to Video Summaries
+
+  1. Changes
+    - `video_summaries`
+      - `chapters` (jsonb, new) - array of `{ start, end, title, summary }`
+        detected from topic boundaries in the transcript
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'chapters'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN chapters jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+/*
+  # Allow Markdown, JSON and HTML as Default Export Formats
+
+  1. Changes
+    - `user_preferences`
+      - `default_export_format` check constraint now also accepts
+        `md`, `json` and `html`
+*/
+
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_default_export_format_check;
+
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_default_export_format_check
+  CHECK (default_export_format IN ('txt', 'pdf', 'docx', 'md', 'json', 'html'));
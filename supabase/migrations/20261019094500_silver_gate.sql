@@ -0,0 +1,110 @@
+/*
+  # Resolve Shared Summary Links Server-Side
+
+  1. Changes
+    - Drops the "Anyone can view public shared summaries" policy. It let anonymous
+      clients read share rows (including `password_hash`) directly and bypass
+      `max_views`, so shared links are now only readable through the function below.
+
+  2. New Functions
+    - `resolve_shared_summary(p_share_token, p_password)`
+      - Looks up a share link by token and enforces `expires_at`, `max_views`
+        and `password_hash` (SHA-256 hex of the password, as written by the share modal)
+      - On success atomically increments `view_count`, records a `view` event in
+        `video_analytics`, and returns the share settings with the video summary
+      - Returns `{ "status": ... }` with one of `ok`, `not_found`, `expired`,
+        `view_limit_reached`, `password_required`, `invalid_password`
+*/
+
+DROP POLICY IF EXISTS "Anyone can view public shared summaries" ON shared_summaries;
+
+CREATE OR REPLACE FUNCTION resolve_shared_summary(
+  p_share_token text,
+  p_password text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_share shared_summaries%ROWTYPE;
+  v_summary video_summaries%ROWTYPE;
+  v_view_count integer;
+BEGIN
+  SELECT * INTO v_share FROM shared_summaries WHERE share_token = p_share_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_share.expires_at IS NOT NULL AND v_share.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  IF v_share.max_views IS NOT NULL AND v_share.view_count >= v_share.max_views THEN
+    RETURN jsonb_build_object('status', 'view_limit_reached');
+  END IF;
+
+  IF v_share.password_hash IS NOT NULL THEN
+    IF p_password IS NULL OR p_password = '' THEN
+      RETURN jsonb_build_object('status', 'password_required', 'title', v_share.title);
+    END IF;
+
+    IF encode(digest(p_password, 'sha256'), 'hex') <> v_share.password_hash THEN
+      RETURN jsonb_build_object('status', 'invalid_password', 'title', v_share.title);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_summary FROM video_summaries WHERE id = v_share.video_summary_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Re-check the limit in the update so concurrent viewers cannot overshoot it
+  UPDATE shared_summaries
+  SET view_count = view_count + 1
+  WHERE id = v_share.id
+  AND (max_views IS NULL OR view_count < max_views)
+  RETURNING view_count INTO v_view_count;
+
+  IF v_view_count IS NULL THEN
+    RETURN jsonb_build_object('status', 'view_limit_reached');
+  END IF;
+
+  PERFORM track_video_event(
+    v_summary.id,
+    auth.uid(),
+    'view',
+    jsonb_build_object('source', 'share', 'share_id', v_share.id)
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'share', jsonb_build_object(
+      'title', v_share.title,
+      'description', v_share.description,
+      'allow_downloads', v_share.allow_downloads,
+      'view_count', v_view_count,
+      'max_views', v_share.max_views,
+      'expires_at', v_share.expires_at,
+      'created_at', v_share.created_at
+    ),
+    'summary', jsonb_build_object(
+      'video_id', v_summary.video_id,
+      'title', v_summary.title,
+      'thumbnail', v_summary.thumbnail,
+      'duration', v_summary.duration,
+      'channel_name', v_summary.channel_name,
+      'summary', v_summary.summary,
+      'bullet_points', v_summary.bullet_points,
+      'key_quote', v_summary.key_quote,
+      'transcript', v_summary.transcript,
+      'highlighted_segments', v_summary.highlighted_segments,
+      'chapters', v_summary.chapters,
+      'language', v_summary.language
+    )
+  );
+END;
+$$;
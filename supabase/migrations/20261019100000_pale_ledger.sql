@@ -0,0 +1,113 @@
+/*
+  # Share Link Access History
+
+  1. Changes
+    - `resolve_shared_summary` now records every access attempt on an existing
+      link as a `share` event in `video_analytics`, with
+      `event_data = { share_id, outcome }` and the caller's user agent.
+      Outcomes are `ok`, `expired`, `view_limit_reached` and `invalid_password`.
+    - Adds an index on `event_data->>'share_id'` for per-link history lookups
+
+  2. Security
+    - Owners read the history through the existing
+      "Users can view analytics for their own videos" policy
+*/
+
+CREATE OR REPLACE FUNCTION resolve_shared_summary(
+  p_share_token text,
+  p_password text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_share shared_summaries%ROWTYPE;
+  v_summary video_summaries%ROWTYPE;
+  v_view_count integer;
+  v_user_agent text;
+  v_outcome text;
+BEGIN
+  SELECT * INTO v_share FROM shared_summaries WHERE share_token = p_share_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_summary FROM video_summaries WHERE id = v_share.video_summary_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_share.expires_at IS NOT NULL AND v_share.expires_at <= now() THEN
+    v_outcome := 'expired';
+  ELSIF v_share.max_views IS NOT NULL AND v_share.view_count >= v_share.max_views THEN
+    v_outcome := 'view_limit_reached';
+  ELSIF v_share.password_hash IS NOT NULL AND (p_password IS NULL OR p_password = '') THEN
+    v_outcome := 'password_required';
+  ELSIF v_share.password_hash IS NOT NULL
+    AND encode(digest(p_password, 'sha256'), 'hex') <> v_share.password_hash THEN
+    v_outcome := 'invalid_password';
+  ELSE
+    -- Re-check the limit in the update so concurrent viewers cannot overshoot it
+    UPDATE shared_summaries
+    SET view_count = view_count + 1
+    WHERE id = v_share.id
+    AND (max_views IS NULL OR view_count < max_views)
+    RETURNING view_count INTO v_view_count;
+
+    v_outcome := CASE WHEN v_view_count IS NULL THEN 'view_limit_reached' ELSE 'ok' END;
+  END IF;
+
+  -- Prompting for a password is not an access attempt, so it is not logged
+  IF v_outcome <> 'password_required' THEN
+    v_user_agent := current_setting('request.headers', true)::jsonb ->> 'user-agent';
+
+    PERFORM track_video_event(
+      v_summary.id,
+      auth.uid(),
+      'share',
+      jsonb_build_object('share_id', v_share.id, 'outcome', v_outcome),
+      NULL,
+      v_user_agent
+    );
+  END IF;
+
+  IF v_outcome <> 'ok' THEN
+    RETURN jsonb_build_object('status', v_outcome, 'title', v_share.title);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'share', jsonb_build_object(
+      'title', v_share.title,
+      'description', v_share.description,
+      'allow_downloads', v_share.allow_downloads,
+      'view_count', v_view_count,
+      'max_views', v_share.max_views,
+      'expires_at', v_share.expires_at,
+      'created_at', v_share.created_at
+    ),
+    'summary', jsonb_build_object(
+      'video_id', v_summary.video_id,
+      'title', v_summary.title,
+      'thumbnail', v_summary.thumbnail,
+      'duration', v_summary.duration,
+      'channel_name', v_summary.channel_name,
+      'summary', v_summary.summary,
+      'bullet_points', v_summary.bullet_points,
+      'key_quote', v_summary.key_quote,
+      'transcript', v_summary.transcript,
+      'highlighted_segments', v_summary.highlighted_segments,
+      'chapters', v_summary.chapters,
+      'language', v_summary.language
+    )
+  );
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_video_analytics_share_id
+  ON video_analytics ((event_data->>'share_id'))
+  WHERE event_type = 'share';
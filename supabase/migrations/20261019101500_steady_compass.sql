@@ -0,0 +1,358 @@
+/*
+  # Team Workspaces
+
+  1. Changes
+    - `team_collaborators`
+      - `invited_email` (text, new) - address the invitation was sent to, so people
+        without an account yet can be invited and claim it after signing up
+      - `collaborator_id` is filled in when the invitation is accepted
+    - `video_summaries`, `video_collections`
+      - `team_owner_id` (uuid, new) - when set, the row belongs to that owner's team
+        workspace instead of the creator's personal workspace
+
+  2. New Functions
+    - `team_permission(p_team_owner_id, p_permission)` - whether the current user
+      holds `can_view`, `can_edit`, `can_delete` or `can_share` in a team. Owners
+      hold every permission; members need an accepted membership.
+    - `invite_team_member(p_email, p_role)` - team plan owners invite by email
+    - `respond_to_team_invitation(p_invitation_id, p_accept)` - invitees accept or decline
+    - `get_my_team_memberships()` - the current user's invitations and memberships,
+      with the owner's email for display
+
+  3. Security
+    - Team rows in `video_summaries`, `video_collections` and `collection_items` are
+      readable, editable and deletable according to the member's permissions
+    - Restrictive policies stop users from moving rows into a team they cannot edit
+      and from sharing videos they have no `can_share` permission for
+    - Collaborators can no longer update their own membership row directly, which
+      let them raise their own role; they respond through `respond_to_team_invitation`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'team_collaborators' AND column_name = 'invited_email'
+  ) THEN
+    ALTER TABLE team_collaborators ADD COLUMN invited_email text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'team_owner_id'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN team_owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_collections' AND column_name = 'team_owner_id'
+  ) THEN
+    ALTER TABLE video_collections ADD COLUMN team_owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_collaborators_owner_email
+  ON team_collaborators(team_owner_id, lower(invited_email));
+CREATE INDEX IF NOT EXISTS idx_team_collaborators_invited_email
+  ON team_collaborators(lower(invited_email));
+CREATE INDEX IF NOT EXISTS idx_video_summaries_team_owner_id ON video_summaries(team_owner_id);
+CREATE INDEX IF NOT EXISTS idx_video_collections_team_owner_id ON video_collections(team_owner_id);
+
+-- Permission check used by the policies below
+CREATE OR REPLACE FUNCTION team_permission(
+  p_team_owner_id uuid,
+  p_permission text
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_team_owner_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM team_collaborators tc
+    WHERE tc.team_owner_id = p_team_owner_id
+    AND tc.collaborator_id = auth.uid()
+    AND tc.status = 'accepted'
+    AND (tc.role = 'admin' OR COALESCE((tc.permissions ->> p_permission)::boolean, false))
+  );
+$$;
+
+-- Default permissions for each role
+CREATE OR REPLACE FUNCTION team_role_permissions(p_role text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'admin' THEN '{"can_view": true, "can_edit": true, "can_delete": true, "can_share": true}'::jsonb
+    WHEN 'editor' THEN '{"can_view": true, "can_edit": true, "can_delete": false, "can_share": true}'::jsonb
+    ELSE '{"can_view": true, "can_edit": false, "can_delete": false, "can_share": false}'::jsonb
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION invite_team_member(
+  p_email text,
+  p_role text DEFAULT 'viewer'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id uuid := auth.uid();
+  v_email text := lower(trim(p_email));
+  v_collaborator_id uuid;
+  v_plan record;
+  v_invitation team_collaborators%ROWTYPE;
+BEGIN
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sign in to invite team members');
+  END IF;
+
+  IF p_role NOT IN ('admin', 'editor', 'viewer') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid role');
+  END IF;
+
+  SELECT * INTO v_plan FROM get_user_subscription(v_owner_id);
+  IF COALESCE(v_plan.plan_type, 'free') <> 'team' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Team collaboration requires the Team plan');
+  END IF;
+
+  SELECT id INTO v_collaborator_id FROM auth.users WHERE lower(email) = v_email;
+
+  IF v_collaborator_id = v_owner_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot invite yourself');
+  END IF;
+
+  SELECT * INTO v_invitation FROM team_collaborators
+  WHERE team_owner_id = v_owner_id
+  AND (lower(invited_email) = v_email OR (v_collaborator_id IS NOT NULL AND collaborator_id = v_collaborator_id));
+
+  IF FOUND THEN
+    IF v_invitation.status IN ('pending', 'accepted') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'This person is already on your team or invited');
+    END IF;
+
+    -- Re-invite someone who declined or was removed
+    UPDATE team_collaborators
+    SET status = 'pending',
+        role = p_role,
+        permissions = team_role_permissions(p_role),
+        invited_email = v_email,
+        invited_at = now(),
+        accepted_at = NULL
+    WHERE id = v_invitation.id
+    RETURNING * INTO v_invitation;
+  ELSE
+    INSERT INTO team_collaborators (team_owner_id, collaborator_id, invited_email, role, permissions, status)
+    VALUES (v_owner_id, v_collaborator_id, v_email, p_role, team_role_permissions(p_role), 'pending')
+    RETURNING * INTO v_invitation;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', v_invitation.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_team_invitation(
+  p_invitation_id uuid,
+  p_accept boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE team_collaborators
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      collaborator_id = auth.uid(),
+      accepted_at = CASE WHEN p_accept THEN now() ELSE NULL END
+  WHERE id = p_invitation_id
+  AND status = 'pending'
+  AND (
+    collaborator_id = auth.uid() OR
+    lower(invited_email) = lower(auth.jwt() ->> 'email')
+  );
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_team_memberships()
+RETURNS TABLE (
+  id uuid,
+  team_owner_id uuid,
+  owner_email text,
+  role text,
+  permissions jsonb,
+  status text,
+  invited_at timestamptz,
+  accepted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    tc.id,
+    tc.team_owner_id,
+    u.email::text,
+    tc.role,
+    tc.permissions,
+    tc.status,
+    tc.invited_at,
+    tc.accepted_at
+  FROM team_collaborators tc
+  JOIN auth.users u ON u.id = tc.team_owner_id
+  WHERE tc.status IN ('pending', 'accepted')
+  AND (
+    tc.collaborator_id = auth.uid() OR
+    lower(tc.invited_email) = lower(auth.jwt() ->> 'email')
+  )
+  ORDER BY tc.invited_at DESC;
+$$;
+
+-- team_collaborators: invitees respond through respond_to_team_invitation only
+DROP POLICY IF EXISTS "Collaborators can update their own status" ON team_collaborators;
+DROP POLICY IF EXISTS "Collaborators can view their invitations" ON team_collaborators;
+
+CREATE POLICY "Collaborators can view their invitations"
+  ON team_collaborators
+  FOR SELECT
+  TO authenticated
+  USING (
+    collaborator_id = auth.uid() OR
+    lower(invited_email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Team members can view their teammates"
+  ON team_collaborators
+  FOR SELECT
+  TO authenticated
+  USING (status = 'accepted' AND team_permission(team_owner_id, 'can_view'));
+
+-- video_summaries
+CREATE POLICY "Team members can view team video summaries"
+  ON video_summaries
+  FOR SELECT
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_view'));
+
+CREATE POLICY "Team members can update team video summaries"
+  ON video_summaries
+  FOR UPDATE
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_edit'))
+  WITH CHECK (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_edit'));
+
+CREATE POLICY "Team members can delete team video summaries"
+  ON video_summaries
+  FOR DELETE
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_delete'));
+
+CREATE POLICY "Video summaries can only join editable teams"
+  ON video_summaries
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'));
+
+CREATE POLICY "Video summaries can only move to editable teams"
+  ON video_summaries
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'));
+
+-- video_collections
+CREATE POLICY "Team members can view team collections"
+  ON video_collections
+  FOR SELECT
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_view'));
+
+CREATE POLICY "Team members can update team collections"
+  ON video_collections
+  FOR UPDATE
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_edit'))
+  WITH CHECK (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_edit'));
+
+CREATE POLICY "Team members can delete team collections"
+  ON video_collections
+  FOR DELETE
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_delete'));
+
+CREATE POLICY "Collections can only join editable teams"
+  ON video_collections
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'));
+
+CREATE POLICY "Collections can only move to editable teams"
+  ON video_collections
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'));
+
+-- collection_items
+CREATE POLICY "Team members can view items in team collections"
+  ON collection_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM video_collections vc
+      WHERE vc.id = collection_items.collection_id
+      AND vc.team_owner_id IS NOT NULL
+      AND team_permission(vc.team_owner_id, 'can_view')
+    )
+  );
+
+CREATE POLICY "Team members can manage items in team collections"
+  ON collection_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM video_collections vc
+      WHERE vc.id = collection_items.collection_id
+      AND vc.team_owner_id IS NOT NULL
+      AND team_permission(vc.team_owner_id, 'can_edit')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM video_collections vc
+      WHERE vc.id = collection_items.collection_id
+      AND vc.team_owner_id IS NOT NULL
+      AND team_permission(vc.team_owner_id, 'can_edit')
+    )
+  );
+
+-- shared_summaries: only share your own videos, or team videos with can_share
+CREATE POLICY "Shared summaries require share permission"
+  ON shared_summaries
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM video_summaries vs
+      WHERE vs.id = shared_summaries.video_summary_id
+      AND (
+        (vs.team_owner_id IS NULL AND vs.user_id = auth.uid()) OR
+        (vs.team_owner_id IS NOT NULL AND team_permission(vs.team_owner_id, 'can_share'))
+      )
+    )
+  );
@@ -0,0 +1,207 @@
+/*
+  # Team Admin Panel and Audit Log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid) - user who performed the action
+      - `actor_email` (text) - email at the time of the action, kept for display
+      - `team_owner_id` (uuid) - team workspace the action happened in, null for personal
+      - `action` (text) - delete, share, export, member_update or member_revoke
+      - `resource_type` (text) - video_summary, collection, shared_link or team_member
+      - `resource_id` (text)
+      - `details` (jsonb)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `is_team_admin(p_team_owner_id)` - the owner or an accepted member with the admin role
+    - `record_audit_event(...)` - the only way to write to `audit_log`; the actor is
+      always taken from the session
+    - `get_team_member_activity(p_team_owner_id)` - per-member usage from
+      `usage_tracking` and API key activity from `api_keys`, for team admins only
+
+  3. Security
+    - `audit_log` is append-only: no insert, update or delete policies, and a trigger
+      rejects updates and deletes even for privileged roles. Columns deliberately have
+      no foreign keys so deleting a user cannot rewrite history through ON DELETE actions.
+    - Actors can read their own entries; team admins can read their team's entries
+    - Team admins (not just owners) can change roles and revoke other members
+*/
+
+CREATE OR REPLACE FUNCTION is_team_admin(p_team_owner_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_team_owner_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM team_collaborators tc
+    WHERE tc.team_owner_id = p_team_owner_id
+    AND tc.collaborator_id = auth.uid()
+    AND tc.status = 'accepted'
+    AND tc.role = 'admin'
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid NOT NULL,
+  actor_email text,
+  team_owner_id uuid,
+  action text NOT NULL CHECK (action IN ('delete', 'share', 'export', 'member_update', 'member_revoke')),
+  resource_type text NOT NULL CHECK (resource_type IN ('video_summary', 'collection', 'shared_link', 'team_member')),
+  resource_id text,
+  details jsonb DEFAULT '{}' NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_team_owner_id ON audit_log(team_owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audit entries"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (actor_id = auth.uid());
+
+CREATE POLICY "Team admins can view team audit entries"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (team_owner_id IS NOT NULL AND is_team_admin(team_owner_id));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_immutable ON audit_log;
+CREATE TRIGGER audit_log_immutable
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Entries for a team are only accepted from people who can see that team
+CREATE OR REPLACE FUNCTION record_audit_event(
+  p_action text,
+  p_resource_type text,
+  p_resource_id text DEFAULT NULL,
+  p_team_owner_id uuid DEFAULT NULL,
+  p_details jsonb DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_entry_id uuid;
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_team_owner_id IS NOT NULL AND NOT team_permission(p_team_owner_id, 'can_view') THEN
+    RAISE EXCEPTION 'Not a member of this team';
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_email, team_owner_id, action, resource_type, resource_id, details)
+  VALUES (
+    v_actor_id,
+    (SELECT email FROM auth.users WHERE id = v_actor_id),
+    p_team_owner_id,
+    p_action,
+    p_resource_type,
+    p_resource_id,
+    COALESCE(p_details, '{}')
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- usage_tracking and api_keys are private to each user, so admins read them through here
+CREATE OR REPLACE FUNCTION get_team_member_activity(p_team_owner_id uuid)
+RETURNS TABLE (
+  membership_id uuid,
+  user_id uuid,
+  email text,
+  role text,
+  analyses_today bigint,
+  analyses_this_month bigint,
+  exports_this_month bigint,
+  translations_this_month bigint,
+  api_calls_this_month bigint,
+  active_api_keys bigint,
+  api_key_requests bigint,
+  api_last_used timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_team_admin(p_team_owner_id) THEN
+    RAISE EXCEPTION 'Only team admins can view member activity';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT NULL::uuid AS membership_id, p_team_owner_id AS user_id, 'owner'::text AS role
+    UNION ALL
+    SELECT tc.id, tc.collaborator_id, tc.role
+    FROM team_collaborators tc
+    WHERE tc.team_owner_id = p_team_owner_id
+    AND tc.status = 'accepted'
+    AND tc.collaborator_id IS NOT NULL
+  )
+  SELECT
+    m.membership_id,
+    m.user_id,
+    u.email::text,
+    m.role,
+    COALESCE(SUM(ut.count) FILTER (
+      WHERE ut.action_type = 'video_analysis' AND ut.date = CURRENT_DATE
+    ), 0)::bigint,
+    COALESCE(SUM(ut.count) FILTER (WHERE ut.action_type = 'video_analysis'), 0)::bigint,
+    COALESCE(SUM(ut.count) FILTER (WHERE ut.action_type LIKE 'export_%'), 0)::bigint,
+    COALESCE(SUM(ut.count) FILTER (WHERE ut.action_type = 'translation'), 0)::bigint,
+    COALESCE(SUM(ut.count) FILTER (WHERE ut.action_type = 'api_call'), 0)::bigint,
+    (SELECT COUNT(*) FROM api_keys ak WHERE ak.user_id = m.user_id AND ak.is_active),
+    (SELECT COALESCE(SUM(ak.usage_count), 0)::bigint FROM api_keys ak WHERE ak.user_id = m.user_id),
+    (SELECT MAX(ak.last_used) FROM api_keys ak WHERE ak.user_id = m.user_id)
+  FROM members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN usage_tracking ut
+    ON ut.user_id = m.user_id
+    AND ut.date >= date_trunc('month', CURRENT_DATE)::date
+  GROUP BY m.membership_id, m.user_id, u.email, m.role
+  ORDER BY m.membership_id NULLS FIRST, u.email;
+END;
+$$;
+
+-- Admins may manage other members but not their own row, so they cannot promote themselves
+CREATE POLICY "Team admins can manage other collaborators"
+  ON team_collaborators
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_admin(team_owner_id) AND collaborator_id IS DISTINCT FROM auth.uid())
+  WITH CHECK (is_team_admin(team_owner_id) AND collaborator_id IS DISTINCT FROM auth.uid());
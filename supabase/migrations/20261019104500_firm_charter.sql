@@ -0,0 +1,280 @@
+/*
+  # Subscription Resolution
+
+  1. Changes
+    - `resolve_user_plan(p_user_id)` decides the plan a user is entitled to right now
+      from their latest `user_subscriptions` row:
+      - `active` keeps the plan; with `cancel_at_period_end` it lapses to free once
+        `current_period_end` has passed
+      - `trialing` keeps the plan until `trial_end`
+      - `past_due` keeps the plan for a 7 day grace period after `current_period_end`
+      - `canceled` and `incomplete` fall back to free
+    - `get_user_subscription` and `check_usage_limit` now use it, so the web app, the
+      edge functions and `invite_team_member` all agree on the plan
+    - `plan_features(p_plan)` and `plan_limits(p_plan)` are the single definition of
+      what each plan unlocks
+    - `get_plan_status(...)` returns plan, subscription state, features, limits and
+      usage in one call; it feeds both `useUserPlan` and `useUsageTracking`
+    - `has_plan_feature(p_user_id, p_feature)` for server-side feature gates
+
+  2. Security
+    - `get_plan_status` only reports on the caller; the service role may pass any user
+    - The per-user helpers are not callable from the browser
+*/
+
+CREATE OR REPLACE FUNCTION plan_features(p_plan text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_plan
+    WHEN 'team' THEN jsonb_build_object(
+      'unlimitedSummaries', true, 'enhancedAI', true, 'transcriptSearch', true,
+      'autoHighlight', true, 'pdfDocxExport', true, 'translation', true,
+      'nonEnglishSupport', true, 'savedHistory', true, 'dashboard', true,
+      'apiAccess', true, 'prioritySupport', true, 'teamCollaboration', true,
+      'adminPanel', true
+    )
+    WHEN 'pro' THEN jsonb_build_object(
+      'unlimitedSummaries', true, 'enhancedAI', true, 'transcriptSearch', true,
+      'autoHighlight', true, 'pdfDocxExport', true, 'translation', true,
+      'nonEnglishSupport', true, 'savedHistory', true, 'dashboard', true,
+      'apiAccess', true, 'prioritySupport', true, 'teamCollaboration', false,
+      'adminPanel', false
+    )
+    ELSE jsonb_build_object(
+      'unlimitedSummaries', false, 'enhancedAI', false, 'transcriptSearch', false,
+      'autoHighlight', false, 'pdfDocxExport', false, 'translation', false,
+      'nonEnglishSupport', false, 'savedHistory', false, 'dashboard', false,
+      'apiAccess', false, 'prioritySupport', false, 'teamCollaboration', false,
+      'adminPanel', false
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION plan_limits(p_plan text)
+RETURNS TABLE (daily_limit integer, monthly_limit integer)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT * FROM (
+    SELECT
+      CASE p_plan WHEN 'team' THEN 5000 WHEN 'pro' THEN 1000 ELSE 5 END,
+      CASE p_plan WHEN 'team' THEN 50000 WHEN 'pro' THEN 10000 ELSE 50 END
+  ) AS limits;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_user_plan(p_user_id uuid)
+RETURNS TABLE (
+  plan_type text,
+  subscribed_plan text,
+  status text,
+  current_period_end timestamptz,
+  trial_end timestamptz,
+  cancel_at_period_end boolean,
+  access_ends_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sub user_subscriptions%ROWTYPE;
+  v_grace_end timestamptz;
+BEGIN
+  SELECT * INTO v_sub
+  FROM user_subscriptions us
+  WHERE us.user_id = p_user_id
+  ORDER BY us.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'free'::text, 'free'::text, 'active'::text,
+      NULL::timestamptz, NULL::timestamptz, false, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  plan_type := 'free';
+  subscribed_plan := v_sub.plan_type;
+  status := v_sub.status;
+  current_period_end := v_sub.current_period_end;
+  trial_end := v_sub.trial_end;
+  cancel_at_period_end := COALESCE(v_sub.cancel_at_period_end, false);
+  access_ends_at := NULL;
+
+  CASE v_sub.status
+    WHEN 'active' THEN
+      IF cancel_at_period_end THEN
+        access_ends_at := v_sub.current_period_end;
+      END IF;
+    WHEN 'trialing' THEN
+      access_ends_at := v_sub.trial_end;
+    WHEN 'past_due' THEN
+      v_grace_end := COALESCE(v_sub.current_period_end, now()) + interval '7 days';
+      access_ends_at := v_grace_end;
+    ELSE
+      -- canceled, incomplete
+      access_ends_at := now();
+  END CASE;
+
+  IF access_ends_at IS NULL OR access_ends_at > now() THEN
+    plan_type := v_sub.plan_type;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Same signature as before; the plan is now the one the user is entitled to
+CREATE OR REPLACE FUNCTION get_user_subscription(p_user_id uuid)
+RETURNS TABLE (
+  plan_type text,
+  status text,
+  current_period_end timestamptz,
+  trial_end timestamptz,
+  cancel_at_period_end boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rp.plan_type, rp.status, rp.current_period_end, rp.trial_end, rp.cancel_at_period_end
+  FROM resolve_user_plan(p_user_id) rp;
+$$;
+
+CREATE OR REPLACE FUNCTION usage_counts(
+  p_user_id uuid,
+  p_visitor_id text,
+  p_action_type text,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (daily_usage integer, monthly_usage integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(ut.count) FILTER (WHERE ut.date = p_date), 0)::integer,
+    COALESCE(SUM(ut.count), 0)::integer
+  FROM usage_tracking ut
+  WHERE ut.action_type = p_action_type
+  AND ut.date >= date_trunc('month', p_date)::date
+  AND ut.date <= p_date
+  AND (
+    (p_user_id IS NOT NULL AND ut.user_id = p_user_id) OR
+    (p_user_id IS NULL AND ut.visitor_id = p_visitor_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_usage_limit(
+  p_user_id uuid DEFAULT NULL,
+  p_visitor_id text DEFAULT NULL,
+  p_action_type text DEFAULT 'video_analysis',
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  current_usage integer,
+  daily_limit integer,
+  monthly_limit integer,
+  can_perform_action boolean,
+  plan_type text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_type text := 'free';
+  v_limits record;
+  v_usage record;
+BEGIN
+  IF p_user_id IS NOT NULL THEN
+    SELECT rp.plan_type INTO v_plan_type FROM resolve_user_plan(p_user_id) rp;
+  END IF;
+
+  SELECT * INTO v_limits FROM plan_limits(v_plan_type);
+  SELECT * INTO v_usage FROM usage_counts(p_user_id, p_visitor_id, p_action_type, p_date);
+
+  RETURN QUERY
+  SELECT
+    v_usage.daily_usage,
+    v_limits.daily_limit,
+    v_limits.monthly_limit,
+    (v_usage.daily_usage < v_limits.daily_limit AND v_usage.monthly_usage < v_limits.monthly_limit),
+    v_plan_type;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_plan_status(
+  p_visitor_id text DEFAULT NULL,
+  p_action_type text DEFAULT 'video_analysis',
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := CASE
+    WHEN auth.role() = 'service_role' THEN COALESCE(p_user_id, auth.uid())
+    ELSE auth.uid()
+  END;
+  v_plan record;
+  v_limits record;
+  v_usage record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    SELECT 'free'::text AS plan_type, 'free'::text AS subscribed_plan, 'active'::text AS status,
+      NULL::timestamptz AS current_period_end, NULL::timestamptz AS trial_end,
+      false AS cancel_at_period_end, NULL::timestamptz AS access_ends_at
+    INTO v_plan;
+  ELSE
+    SELECT * INTO v_plan FROM resolve_user_plan(v_user_id);
+  END IF;
+
+  SELECT * INTO v_limits FROM plan_limits(v_plan.plan_type);
+  SELECT * INTO v_usage FROM usage_counts(
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN p_visitor_id END,
+    p_action_type
+  );
+
+  RETURN jsonb_build_object(
+    'plan_type', v_plan.plan_type,
+    'subscribed_plan', v_plan.subscribed_plan,
+    'status', v_plan.status,
+    'current_period_end', v_plan.current_period_end,
+    'trial_end', v_plan.trial_end,
+    'cancel_at_period_end', v_plan.cancel_at_period_end,
+    'access_ends_at', v_plan.access_ends_at,
+    'features', plan_features(v_plan.plan_type),
+    'daily_limit', v_limits.daily_limit,
+    'monthly_limit', v_limits.monthly_limit,
+    'daily_usage', v_usage.daily_usage,
+    'monthly_usage', v_usage.monthly_usage,
+    'can_perform_action',
+      v_usage.daily_usage < v_limits.daily_limit AND v_usage.monthly_usage < v_limits.monthly_limit
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_plan_feature(p_user_id uuid, p_feature text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((plan_features(rp.plan_type) ->> p_feature)::boolean, false)
+  FROM resolve_user_plan(p_user_id) rp;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_user_plan(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION usage_counts(uuid, text, text, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION has_plan_feature(uuid, text) FROM PUBLIC, anon, authenticated;
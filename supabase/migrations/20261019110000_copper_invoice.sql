@@ -0,0 +1,173 @@
+/*
+  # Billing Webhooks
+
+  1. New Tables
+    - `billing_events`
+      - `id` (text, primary key) - the provider's event id; a repeated delivery of the
+        same event is recognised here and skipped
+      - `type` (text)
+      - `event_created` (timestamptz) - when the provider created the event
+      - `data` (jsonb)
+      - `outcome` (text) - applied, duplicate, stale or ignored
+      - `received_at`, `processed_at` (timestamptz)
+
+  2. Changes
+    - `user_subscriptions.last_event_at` (timestamptz, new) - creation time of the last
+      event applied, so events delivered out of order cannot roll a subscription back
+    - `apply_billing_event(...)` moves a subscription between statuses for
+      `checkout.completed`, `subscription.updated`, `subscription.deleted`,
+      `invoice.paid` and `invoice.payment_failed`
+
+  3. Security
+    - Only the service role (the `billing-webhook` function) can call
+      `apply_billing_event` or read `billing_events`
+*/
+
+CREATE TABLE IF NOT EXISTS billing_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  event_created timestamptz NOT NULL,
+  data jsonb DEFAULT '{}' NOT NULL,
+  outcome text,
+  received_at timestamptz DEFAULT now() NOT NULL,
+  processed_at timestamptz
+);
+
+ALTER TABLE billing_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage billing events"
+  ON billing_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'last_event_at'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN last_event_at timestamptz;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_subscriptions_stripe_subscription_id
+  ON user_subscriptions(stripe_subscription_id)
+  WHERE stripe_subscription_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION apply_billing_event(
+  p_event_id text,
+  p_event_type text,
+  p_event_created timestamptz,
+  p_data jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription_id text := p_data ->> 'subscription_id';
+  v_user_id uuid;
+  v_sub user_subscriptions%ROWTYPE;
+  v_outcome text := 'applied';
+BEGIN
+  INSERT INTO billing_events (id, type, event_created, data)
+  VALUES (p_event_id, p_event_type, p_event_created, COALESCE(p_data, '{}'))
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('outcome', 'duplicate');
+  END IF;
+
+  IF v_subscription_id IS NULL THEN
+    v_outcome := 'ignored';
+  ELSE
+    SELECT * INTO v_sub
+    FROM user_subscriptions
+    WHERE stripe_subscription_id = v_subscription_id
+    FOR UPDATE;
+
+    IF FOUND AND v_sub.last_event_at IS NOT NULL AND v_sub.last_event_at > p_event_created THEN
+      v_outcome := 'stale';
+    ELSIF p_event_type = 'checkout.completed' THEN
+      v_user_id := (p_data ->> 'user_id')::uuid;
+
+      IF v_user_id IS NULL THEN
+        v_outcome := 'ignored';
+      ELSIF v_sub.id IS NULL THEN
+        -- A new checkout replaces whatever paid subscription the user had
+        UPDATE user_subscriptions
+        SET status = 'canceled', cancel_at_period_end = false, updated_at = now()
+        WHERE user_id = v_user_id
+        AND status IN ('active', 'trialing', 'past_due')
+        AND stripe_subscription_id IS NOT NULL;
+
+        INSERT INTO user_subscriptions (
+          user_id, plan_type, status, current_period_start, current_period_end,
+          trial_end, cancel_at_period_end, stripe_subscription_id, stripe_customer_id,
+          last_event_at
+        )
+        VALUES (
+          v_user_id,
+          p_data ->> 'plan',
+          COALESCE(p_data ->> 'status', 'active'),
+          COALESCE((p_data ->> 'current_period_start')::timestamptz, now()),
+          (p_data ->> 'current_period_end')::timestamptz,
+          (p_data ->> 'trial_end')::timestamptz,
+          false,
+          v_subscription_id,
+          p_data ->> 'customer_id',
+          p_event_created
+        );
+      END IF;
+    ELSIF v_sub.id IS NULL THEN
+      -- Updates for a subscription we never saw a checkout for
+      v_outcome := 'ignored';
+    ELSE
+      CASE p_event_type
+        WHEN 'subscription.updated' THEN
+          UPDATE user_subscriptions
+          SET
+            plan_type = COALESCE(p_data ->> 'plan', plan_type),
+            status = COALESCE(p_data ->> 'status', status),
+            current_period_start = COALESCE((p_data ->> 'current_period_start')::timestamptz, current_period_start),
+            current_period_end = COALESCE((p_data ->> 'current_period_end')::timestamptz, current_period_end),
+            trial_end = CASE WHEN p_data ? 'trial_end' THEN (p_data ->> 'trial_end')::timestamptz ELSE trial_end END,
+            cancel_at_period_end = COALESCE((p_data ->> 'cancel_at_period_end')::boolean, cancel_at_period_end),
+            last_event_at = p_event_created,
+            updated_at = now()
+          WHERE id = v_sub.id;
+        WHEN 'subscription.deleted' THEN
+          UPDATE user_subscriptions
+          SET status = 'canceled', cancel_at_period_end = false, last_event_at = p_event_created, updated_at = now()
+          WHERE id = v_sub.id;
+        WHEN 'invoice.paid' THEN
+          UPDATE user_subscriptions
+          SET
+            status = 'active',
+            current_period_start = COALESCE((p_data ->> 'current_period_start')::timestamptz, current_period_start),
+            current_period_end = COALESCE((p_data ->> 'current_period_end')::timestamptz, current_period_end),
+            last_event_at = p_event_created,
+            updated_at = now()
+          WHERE id = v_sub.id;
+        WHEN 'invoice.payment_failed' THEN
+          UPDATE user_subscriptions
+          SET status = 'past_due', last_event_at = p_event_created, updated_at = now()
+          WHERE id = v_sub.id;
+        ELSE
+          v_outcome := 'ignored';
+      END CASE;
+    END IF;
+  END IF;
+
+  UPDATE billing_events
+  SET outcome = v_outcome, processed_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object('outcome', v_outcome, 'subscription_id', v_subscription_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_billing_event(text, text, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
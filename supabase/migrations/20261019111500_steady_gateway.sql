@@ -0,0 +1,23 @@
+/*
+  # API Key Usage Counter
+
+  1. Changes
+    - `record_api_key_use(p_key_id)` bumps `api_keys.usage_count` and `last_used` in
+      one statement, so concurrent API requests don't lose increments
+
+  2. Security
+    - Only the service role (the API edge functions) can call it
+*/
+
+CREATE OR REPLACE FUNCTION record_api_key_use(p_key_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE api_keys
+  SET usage_count = usage_count + 1, last_used = now()
+  WHERE id = p_key_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_api_key_use(uuid) FROM PUBLIC, anon, authenticated;
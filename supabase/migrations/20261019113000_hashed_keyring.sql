@@ -0,0 +1,208 @@
+/*
+  # API Key Hashing, Scopes, Expiry and Rotation
+
+  1. Changes to `api_keys`
+    - `key_hash` (text, unique) - SHA-256 hex of the secret; existing keys are hashed
+      and the plaintext `key` column is dropped
+    - `key_prefix` (text) - first characters of the secret, enough to recognise a key
+    - `scopes` (text[]) - any of `read`, `analyze`, `translate`, `delete`; existing
+      keys get all four
+    - `expires_at` (timestamptz, nullable) - no expiry when null
+    - `allowed_ips` (cidr[]) - empty means any address
+    - `replaced_by` (uuid, nullable) - set on the old key when it is rotated
+
+  2. New Functions
+    - `create_api_key(p_name, p_scopes, p_expires_at, p_allowed_ips)` generates a
+      secret, stores its hash and returns the secret. This is the only time it is
+      available.
+    - `rotate_api_key(p_key_id, p_grace_period)` issues a replacement with the same
+      settings. The old key keeps working until the grace period ends.
+    - `verify_api_key(p_key, p_ip)` returns `{ "status": ... }` with one of `valid`,
+      `invalid`, `inactive`, `expired` or `ip_not_allowed`, plus the key id, owner
+      and scopes when valid
+
+  3. Security
+    - Keys can no longer be inserted directly; use `create_api_key`
+    - `verify_api_key` is not callable by anonymous clients
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'key_hash'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN key_hash text;
+    ALTER TABLE api_keys ADD COLUMN key_prefix text;
+    ALTER TABLE api_keys ADD COLUMN scopes text[] DEFAULT ARRAY['read', 'analyze', 'translate', 'delete'] NOT NULL;
+    ALTER TABLE api_keys ADD COLUMN expires_at timestamptz;
+    ALTER TABLE api_keys ADD COLUMN allowed_ips cidr[] DEFAULT '{}' NOT NULL;
+    ALTER TABLE api_keys ADD COLUMN replaced_by uuid REFERENCES api_keys(id) ON DELETE SET NULL;
+
+    UPDATE api_keys
+    SET
+      key_hash = encode(extensions.digest(key, 'sha256'), 'hex'),
+      key_prefix = substring(key FROM 1 FOR 11);
+
+    ALTER TABLE api_keys ALTER COLUMN key_hash SET NOT NULL;
+    ALTER TABLE api_keys ALTER COLUMN key_prefix SET NOT NULL;
+    ALTER TABLE api_keys DROP COLUMN key;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_check;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_scopes_check
+  CHECK (scopes <@ ARRAY['read', 'analyze', 'translate', 'delete'] AND cardinality(scopes) > 0);
+
+DROP POLICY IF EXISTS "Users can insert their own API keys" ON api_keys;
+
+CREATE OR REPLACE FUNCTION create_api_key(
+  p_name text,
+  p_scopes text[] DEFAULT ARRAY['read', 'analyze', 'translate', 'delete'],
+  p_expires_at timestamptz DEFAULT NULL,
+  p_allowed_ips cidr[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_secret text;
+  v_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  v_secret := 'tk_' || encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO api_keys (user_id, name, key_hash, key_prefix, scopes, expires_at, allowed_ips)
+  VALUES (
+    v_user_id,
+    trim(p_name),
+    encode(digest(v_secret, 'sha256'), 'hex'),
+    substring(v_secret FROM 1 FOR 11),
+    p_scopes,
+    p_expires_at,
+    COALESCE(p_allowed_ips, '{}')
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('id', v_id, 'key', v_secret);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rotate_api_key(
+  p_key_id uuid,
+  p_grace_period interval DEFAULT interval '24 hours'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_old api_keys%ROWTYPE;
+  v_secret text;
+  v_id uuid;
+  v_old_expires_at timestamptz;
+BEGIN
+  SELECT * INTO v_old
+  FROM api_keys
+  WHERE id = p_key_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+
+  IF v_old.replaced_by IS NOT NULL THEN
+    RAISE EXCEPTION 'This key has already been rotated';
+  END IF;
+
+  v_secret := 'tk_' || encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO api_keys (user_id, name, key_hash, key_prefix, scopes, expires_at, allowed_ips, is_active)
+  VALUES (
+    v_old.user_id,
+    v_old.name,
+    encode(digest(v_secret, 'sha256'), 'hex'),
+    substring(v_secret FROM 1 FOR 11),
+    v_old.scopes,
+    v_old.expires_at,
+    v_old.allowed_ips,
+    true
+  )
+  RETURNING id INTO v_id;
+
+  -- The old key keeps working until the grace period ends, or its own expiry if sooner
+  UPDATE api_keys
+  SET
+    replaced_by = v_id,
+    expires_at = LEAST(COALESCE(expires_at, 'infinity'), now() + GREATEST(p_grace_period, interval '0'))
+  WHERE id = v_old.id
+  RETURNING expires_at INTO v_old_expires_at;
+
+  RETURN jsonb_build_object('id', v_id, 'key', v_secret, 'replaced_key_expires_at', v_old_expires_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_api_key(p_key text, p_ip text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+  v_ip inet;
+BEGIN
+  SELECT * INTO v_key
+  FROM api_keys
+  WHERE key_hash = encode(digest(COALESCE(p_key, ''), 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF NOT v_key.is_active THEN
+    RETURN jsonb_build_object('status', 'inactive');
+  END IF;
+
+  IF v_key.expires_at IS NOT NULL AND v_key.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired', 'expired_at', v_key.expires_at);
+  END IF;
+
+  IF cardinality(v_key.allowed_ips) > 0 THEN
+    BEGIN
+      v_ip := p_ip::inet;
+    EXCEPTION WHEN others THEN
+      v_ip := NULL;
+    END;
+
+    IF v_ip IS NULL OR NOT (v_ip <<= ANY (v_key.allowed_ips)) THEN
+      RETURN jsonb_build_object('status', 'ip_not_allowed');
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'valid',
+    'key_id', v_key.id,
+    'user_id', v_key.user_id,
+    'scopes', to_jsonb(v_key.scopes),
+    'expires_at', v_key.expires_at
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_api_key(text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION create_api_key(text, text[], timestamptz, cidr[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION rotate_api_key(uuid, interval) FROM PUBLIC, anon;
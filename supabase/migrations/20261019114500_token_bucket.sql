@@ -0,0 +1,213 @@
+/*
+  # API Rate Limiting and Shared Quotas
+
+  1. New Tables
+    - `api_rate_limit_buckets` - one token bucket per API key
+      - `key_id` (uuid, primary key, references api_keys)
+      - `tokens` (double precision) - tokens left after the last request
+      - `refilled_at` (timestamptz) - when `tokens` was last brought up to date
+
+  2. New Functions
+    - `plan_rate_limits(p_plan)` - bucket size and refill rate per plan, next to
+      `plan_features` and `plan_limits`
+    - `take_rate_limit_token(p_key_id)` refills the key's bucket for the time since
+      the last request, takes one token if there is one and returns
+      `{ allowed, limit, remaining, reset_at, retry_after }`. Buckets are sized by
+      the key owner's current plan, so upgrades apply immediately.
+
+  3. Changes
+    - `check_usage_limit` also returns `monthly_usage` and `period_end`, so API
+      responses can report the monthly quota. The API now checks and records its
+      analyses and translations under the same action types as the web app, so both
+      draw from one budget.
+    - `get_plan_status` also returns `rate_limit_per_minute` for the API keys page
+
+  4. Security
+    - Buckets are only touched by the service role through `take_rate_limit_token`
+*/
+
+CREATE TABLE IF NOT EXISTS api_rate_limit_buckets (
+  key_id uuid PRIMARY KEY REFERENCES api_keys(id) ON DELETE CASCADE,
+  tokens double precision NOT NULL,
+  refilled_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE api_rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION plan_rate_limits(p_plan text)
+RETURNS TABLE (bucket_size integer, refill_per_minute integer)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT * FROM (
+    SELECT
+      CASE p_plan WHEN 'team' THEN 300 WHEN 'pro' THEN 60 ELSE 10 END,
+      CASE p_plan WHEN 'team' THEN 300 WHEN 'pro' THEN 60 ELSE 10 END
+  ) AS limits;
+$$;
+
+CREATE OR REPLACE FUNCTION take_rate_limit_token(p_key_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_limits record;
+  v_bucket api_rate_limit_buckets%ROWTYPE;
+  v_rate double precision;
+  v_tokens double precision;
+  v_allowed boolean;
+BEGIN
+  SELECT user_id INTO v_user_id FROM api_keys WHERE id = p_key_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+
+  SELECT pr.* INTO v_limits
+  FROM resolve_user_plan(v_user_id) rp, plan_rate_limits(rp.plan_type) pr;
+
+  v_rate := v_limits.refill_per_minute / 60.0;
+
+  INSERT INTO api_rate_limit_buckets (key_id, tokens, refilled_at)
+  VALUES (p_key_id, v_limits.bucket_size, now())
+  ON CONFLICT (key_id) DO NOTHING;
+
+  -- Concurrent requests for the same key queue here
+  SELECT * INTO v_bucket
+  FROM api_rate_limit_buckets
+  WHERE key_id = p_key_id
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    v_limits.bucket_size,
+    v_bucket.tokens + GREATEST(EXTRACT(EPOCH FROM now() - v_bucket.refilled_at), 0) * v_rate
+  );
+
+  v_allowed := v_tokens >= 1;
+  IF v_allowed THEN
+    v_tokens := v_tokens - 1;
+  END IF;
+
+  UPDATE api_rate_limit_buckets
+  SET tokens = v_tokens, refilled_at = now()
+  WHERE key_id = p_key_id;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'limit', v_limits.bucket_size,
+    'remaining', floor(v_tokens)::integer,
+    -- When the bucket is full again, as a Unix timestamp
+    'reset_at', ceil(EXTRACT(EPOCH FROM now()) + (v_limits.bucket_size - v_tokens) / v_rate)::bigint,
+    'retry_after', CASE WHEN v_allowed THEN 0 ELSE ceil((1 - v_tokens) / v_rate)::integer END
+  );
+END;
+$$;
+
+-- The result gains columns, so the function has to be recreated
+DROP FUNCTION IF EXISTS check_usage_limit(uuid, text, text, date);
+
+CREATE FUNCTION check_usage_limit(
+  p_user_id uuid DEFAULT NULL,
+  p_visitor_id text DEFAULT NULL,
+  p_action_type text DEFAULT 'video_analysis',
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  current_usage integer,
+  daily_limit integer,
+  monthly_limit integer,
+  can_perform_action boolean,
+  plan_type text,
+  monthly_usage integer,
+  period_end date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_type text := 'free';
+  v_limits record;
+  v_usage record;
+BEGIN
+  IF p_user_id IS NOT NULL THEN
+    SELECT rp.plan_type INTO v_plan_type FROM resolve_user_plan(p_user_id) rp;
+  END IF;
+
+  SELECT * INTO v_limits FROM plan_limits(v_plan_type);
+  SELECT * INTO v_usage FROM usage_counts(p_user_id, p_visitor_id, p_action_type, p_date);
+
+  RETURN QUERY
+  SELECT
+    v_usage.daily_usage,
+    v_limits.daily_limit,
+    v_limits.monthly_limit,
+    (v_usage.daily_usage < v_limits.daily_limit AND v_usage.monthly_usage < v_limits.monthly_limit),
+    v_plan_type,
+    v_usage.monthly_usage,
+    (date_trunc('month', p_date) + interval '1 month')::date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_plan_status(
+  p_visitor_id text DEFAULT NULL,
+  p_action_type text DEFAULT 'video_analysis',
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := CASE
+    WHEN auth.role() = 'service_role' THEN COALESCE(p_user_id, auth.uid())
+    ELSE auth.uid()
+  END;
+  v_plan record;
+  v_limits record;
+  v_usage record;
+  v_rate record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    SELECT 'free'::text AS plan_type, 'free'::text AS subscribed_plan, 'active'::text AS status,
+      NULL::timestamptz AS current_period_end, NULL::timestamptz AS trial_end,
+      false AS cancel_at_period_end, NULL::timestamptz AS access_ends_at
+    INTO v_plan;
+  ELSE
+    SELECT * INTO v_plan FROM resolve_user_plan(v_user_id);
+  END IF;
+
+  SELECT * INTO v_limits FROM plan_limits(v_plan.plan_type);
+  SELECT * INTO v_rate FROM plan_rate_limits(v_plan.plan_type);
+  SELECT * INTO v_usage FROM usage_counts(
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN p_visitor_id END,
+    p_action_type
+  );
+
+  RETURN jsonb_build_object(
+    'plan_type', v_plan.plan_type,
+    'subscribed_plan', v_plan.subscribed_plan,
+    'status', v_plan.status,
+    'current_period_end', v_plan.current_period_end,
+    'trial_end', v_plan.trial_end,
+    'cancel_at_period_end', v_plan.cancel_at_period_end,
+    'access_ends_at', v_plan.access_ends_at,
+    'features', plan_features(v_plan.plan_type),
+    'daily_limit', v_limits.daily_limit,
+    'monthly_limit', v_limits.monthly_limit,
+    'daily_usage', v_usage.daily_usage,
+    'monthly_usage', v_usage.monthly_usage,
+    'rate_limit_per_minute', v_rate.refill_per_minute,
+    'can_perform_action',
+      v_usage.daily_usage < v_limits.daily_limit AND v_usage.monthly_usage < v_limits.monthly_limit
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(uuid) FROM PUBLIC, anon, authenticated;
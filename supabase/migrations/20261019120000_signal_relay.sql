@@ -0,0 +1,427 @@
+/*
+  # Outbound Webhooks
+
+  1. New Tables
+    - `webhook_endpoints` - URLs a user wants events sent to
+      - `url` (text) - http(s) URL; plain http is meant for local receivers
+      - `description` (text, nullable)
+      - `secret` (text) - generated signing secret, readable by the owner
+      - `events` (text[]) - any of `summary.created`, `summary.translated`,
+        `share.viewed`, `quota.exceeded`
+      - `is_active` (boolean)
+    - `webhook_deliveries` - one event for one endpoint
+      - `event_id`, `event_type`, `payload` - the JSON body that is signed and sent
+      - `status` - `pending`, `succeeded` or `failed`
+      - `attempt_count`, `next_attempt_at`, `locked_until`, `last_status_code`
+      - `redelivery_of` (uuid, nullable) - set on manual redeliveries
+    - `webhook_delivery_attempts` - the delivery log: response code, a truncated
+      response body or network error, and duration for every attempt
+
+  2. Events
+    - `summary.created` - a summary was saved for the first time (web or API)
+    - `summary.translated` - one event per newly added translation language
+    - `share.viewed` - a share link was opened successfully
+    - `quota.exceeded` - the daily or monthly limit for analyses or translations
+      was just reached
+
+  3. New Functions
+    - `enqueue_webhook_event(p_user_id, p_event_type, p_data)` - queues one delivery
+      per active endpoint subscribed to the event
+    - `claim_webhook_deliveries(p_limit, p_user_id)` - due deliveries for the
+      `webhook-dispatch` function, locked for two minutes so concurrent runs skip them
+    - `record_webhook_attempt(...)` - logs an attempt. Failures retry with
+      exponential backoff (1, 2, 4 ... 64 minutes) and give up after 8 attempts.
+    - `redeliver_webhook(p_delivery_id)` - the owner queues a copy of a delivery
+      with the same event id and payload
+
+  4. Security
+    - Owners manage their endpoints and read their deliveries and attempts
+    - Queueing, claiming and recording are only callable by the service role
+
+  `webhook-dispatch` should run every minute, e.g. from a Supabase cron job.
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  description text,
+  secret text DEFAULT 'whsec_' || encode(extensions.gen_random_bytes(24), 'hex') NOT NULL,
+  events text[] NOT NULL CHECK (
+    events <@ ARRAY['summary.created', 'summary.translated', 'share.viewed', 'quota.exceeded']
+    AND cardinality(events) > 0
+  ),
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid REFERENCES webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_id uuid NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count integer DEFAULT 0 NOT NULL,
+  next_attempt_at timestamptz DEFAULT now() NOT NULL,
+  locked_until timestamptz,
+  last_status_code integer,
+  redelivery_of uuid REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  completed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid REFERENCES webhook_deliveries(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  attempt integer NOT NULL,
+  status_code integer,
+  response_body text,
+  error text,
+  duration_ms integer,
+  attempted_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user_created ON webhook_deliveries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhook endpoints"
+  ON webhook_endpoints FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own webhook endpoints"
+  ON webhook_endpoints FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own webhook endpoints"
+  ON webhook_endpoints FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own webhook endpoints"
+  ON webhook_endpoints FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own webhook deliveries"
+  ON webhook_deliveries FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own webhook delivery attempts"
+  ON webhook_delivery_attempts FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_user_id uuid,
+  p_event_type text,
+  p_data jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid := gen_random_uuid();
+  v_count integer;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, user_id, event_id, event_type, payload)
+  SELECT
+    we.id,
+    we.user_id,
+    v_event_id,
+    p_event_type,
+    jsonb_build_object(
+      'id', v_event_id,
+      'type', p_event_type,
+      'created_at', now(),
+      'data', p_data
+    )
+  FROM webhook_endpoints we
+  WHERE we.user_id = p_user_id
+  AND we.is_active
+  AND p_event_type = ANY (we.events);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit integer DEFAULT 25,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  delivery_id uuid,
+  event_id uuid,
+  event_type text,
+  payload jsonb,
+  attempt integer,
+  url text,
+  secret text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT wd.id
+    FROM webhook_deliveries wd
+    JOIN webhook_endpoints we ON we.id = wd.endpoint_id
+    WHERE wd.status = 'pending'
+    AND wd.next_attempt_at <= now()
+    AND (wd.locked_until IS NULL OR wd.locked_until < now())
+    AND we.is_active
+    AND (p_user_id IS NULL OR wd.user_id = p_user_id)
+    ORDER BY wd.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF wd SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE webhook_deliveries wd
+    SET locked_until = now() + interval '2 minutes'
+    FROM due
+    WHERE wd.id = due.id
+    RETURNING wd.*
+  )
+  SELECT c.id, c.event_id, c.event_type, c.payload, c.attempt_count + 1, we.url, we.secret
+  FROM claimed c
+  JOIN webhook_endpoints we ON we.id = c.endpoint_id;
+$$;
+
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_delivery_id uuid,
+  p_status_code integer,
+  p_response_body text,
+  p_error text,
+  p_duration_ms integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_max_attempts CONSTANT integer := 8;
+  v_delivery webhook_deliveries%ROWTYPE;
+  v_succeeded boolean := p_status_code BETWEEN 200 AND 299;
+BEGIN
+  UPDATE webhook_deliveries
+  SET attempt_count = attempt_count + 1
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  INSERT INTO webhook_delivery_attempts (
+    delivery_id, user_id, attempt, status_code, response_body, error, duration_ms
+  )
+  VALUES (
+    v_delivery.id, v_delivery.user_id, v_delivery.attempt_count, p_status_code,
+    left(p_response_body, 2000), left(p_error, 500), p_duration_ms
+  );
+
+  UPDATE webhook_deliveries
+  SET
+    last_status_code = p_status_code,
+    locked_until = NULL,
+    status = CASE
+      WHEN v_succeeded THEN 'succeeded'
+      WHEN v_delivery.attempt_count >= c_max_attempts THEN 'failed'
+      ELSE 'pending'
+    END,
+    completed_at = CASE
+      WHEN v_succeeded OR v_delivery.attempt_count >= c_max_attempts THEN now()
+    END,
+    next_attempt_at = CASE
+      WHEN v_succeeded OR v_delivery.attempt_count >= c_max_attempts THEN next_attempt_at
+      ELSE now() + interval '1 minute' * power(2, v_delivery.attempt_count - 1)
+    END
+  WHERE id = v_delivery.id
+  RETURNING * INTO v_delivery;
+
+  RETURN jsonb_build_object(
+    'status', v_delivery.status,
+    'attempt', v_delivery.attempt_count,
+    'next_attempt_at', CASE WHEN v_delivery.status = 'pending' THEN v_delivery.next_attempt_at END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeliver_webhook(p_delivery_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery webhook_deliveries%ROWTYPE;
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_delivery
+  FROM webhook_deliveries
+  WHERE id = p_delivery_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, user_id, event_id, event_type, payload, redelivery_of)
+  VALUES (
+    v_delivery.endpoint_id, v_delivery.user_id, v_delivery.event_id,
+    v_delivery.event_type, v_delivery.payload, v_delivery.id
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('status', 'queued', 'delivery_id', v_id);
+END;
+$$;
+
+-- Event sources
+
+CREATE OR REPLACE FUNCTION webhook_summary_created()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.user_id, 'summary.created', jsonb_build_object(
+    'summary_id', NEW.id,
+    'video_id', NEW.video_id,
+    'title', NEW.title,
+    'language', NEW.language,
+    'created_at', NEW.created_at
+  ));
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_summary_translated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_language text;
+BEGIN
+  FOR v_language IN
+    SELECT jsonb_object_keys(COALESCE(NEW.translated_summary, '{}'::jsonb))
+    EXCEPT
+    SELECT jsonb_object_keys(COALESCE(OLD.translated_summary, '{}'::jsonb))
+  LOOP
+    PERFORM enqueue_webhook_event(NEW.user_id, 'summary.translated', jsonb_build_object(
+      'summary_id', NEW.id,
+      'video_id', NEW.video_id,
+      'language', v_language
+    ));
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION webhook_share_viewed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(NEW.user_id, 'share.viewed', jsonb_build_object(
+    'share_id', NEW.id,
+    'summary_id', NEW.video_summary_id,
+    'view_count', NEW.view_count,
+    'max_views', NEW.max_views
+  ));
+  RETURN NEW;
+END;
+$$;
+
+-- Fires on the increment that reaches a limit, so each limit is reported once
+CREATE OR REPLACE FUNCTION webhook_quota_exceeded()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit record;
+  v_period text;
+BEGIN
+  SELECT * INTO v_limit
+  FROM check_usage_limit(NEW.user_id, NULL, NEW.action_type, NEW.date);
+
+  IF v_limit.monthly_usage = v_limit.monthly_limit THEN
+    v_period := 'monthly';
+  ELSIF v_limit.current_usage = v_limit.daily_limit THEN
+    v_period := 'daily';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_webhook_event(NEW.user_id, 'quota.exceeded', jsonb_build_object(
+    'action_type', NEW.action_type,
+    'period', v_period,
+    'plan', v_limit.plan_type,
+    'daily_limit', v_limit.daily_limit,
+    'daily_usage', v_limit.current_usage,
+    'monthly_limit', v_limit.monthly_limit,
+    'monthly_usage', v_limit.monthly_usage,
+    'resets_at', CASE WHEN v_period = 'monthly' THEN v_limit.period_end ELSE NEW.date + 1 END
+  ));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS webhook_summary_created ON video_summaries;
+CREATE TRIGGER webhook_summary_created
+  AFTER INSERT ON video_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_summary_created();
+
+DROP TRIGGER IF EXISTS webhook_summary_translated ON video_summaries;
+CREATE TRIGGER webhook_summary_translated
+  AFTER UPDATE OF translated_summary ON video_summaries
+  FOR EACH ROW
+  WHEN (NEW.translated_summary IS DISTINCT FROM OLD.translated_summary)
+  EXECUTE FUNCTION webhook_summary_translated();
+
+DROP TRIGGER IF EXISTS webhook_share_viewed ON shared_summaries;
+CREATE TRIGGER webhook_share_viewed
+  AFTER UPDATE OF view_count ON shared_summaries
+  FOR EACH ROW
+  WHEN (NEW.view_count > OLD.view_count)
+  EXECUTE FUNCTION webhook_share_viewed();
+
+DROP TRIGGER IF EXISTS webhook_quota_exceeded ON usage_tracking;
+CREATE TRIGGER webhook_quota_exceeded
+  AFTER INSERT OR UPDATE OF count ON usage_tracking
+  FOR EACH ROW
+  WHEN (NEW.user_id IS NOT NULL AND NEW.action_type IN ('video_analysis', 'translation'))
+  EXECUTE FUNCTION webhook_quota_exceeded();
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(uuid, integer, text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeliver_webhook(uuid) FROM PUBLIC, anon;
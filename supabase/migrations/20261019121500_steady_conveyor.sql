@@ -0,0 +1,126 @@
+/*
+  # Background Analysis Jobs
+
+  1. New Tables
+    - `analysis_jobs` - one video analysis requested from the web app
+      - `video_url`, `video_id` - what to analyze
+      - `team_owner_id` (uuid, nullable) - workspace the summary is saved to
+      - `status` - `queued`, `fetching_transcript`, `summarizing`, `highlighting`,
+        `done` or `failed`
+      - `progress` (integer) - 0 to 100, for the progress bar
+      - `error` (text, nullable) - shown to the user when the job failed
+      - `summary_id` (uuid, nullable) - the saved `video_summaries` row once done
+      - `attempt_count`, `locked_until` - claim bookkeeping for the worker
+
+  2. New Functions
+    - `claim_analysis_job(p_user_id)` - the oldest queued job, or one whose worker
+      stopped before finishing, locked for five minutes. Jobs that were claimed
+      three times without finishing are marked failed.
+
+  3. Realtime
+    - `analysis_jobs` is added to the `supabase_realtime` publication so the
+      client follows progress over a channel
+
+  4. Security
+    - Users see their own jobs and can only queue jobs for themselves, into
+      workspaces they may edit
+    - Claiming and progress updates are done by the `analysis-worker` function
+      with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  team_owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_url text NOT NULL,
+  video_id text NOT NULL,
+  status text DEFAULT 'queued' NOT NULL CHECK (
+    status IN ('queued', 'fetching_transcript', 'summarizing', 'highlighting', 'done', 'failed')
+  ),
+  progress integer DEFAULT 0 NOT NULL CHECK (progress BETWEEN 0 AND 100),
+  error text,
+  summary_id uuid REFERENCES video_summaries(id) ON DELETE SET NULL,
+  attempt_count integer DEFAULT 0 NOT NULL,
+  locked_until timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_created ON analysis_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_unfinished ON analysis_jobs(created_at)
+  WHERE status NOT IN ('done', 'failed');
+
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own analysis jobs"
+  ON analysis_jobs FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can queue their own analysis jobs"
+  ON analysis_jobs FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'queued'
+    AND progress = 0
+    AND summary_id IS NULL
+    AND (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'))
+  );
+
+CREATE TRIGGER update_analysis_jobs_updated_at
+  BEFORE UPDATE ON analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'analysis_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE analysis_jobs;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION claim_analysis_job(p_user_id uuid DEFAULT NULL)
+RETURNS SETOF analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_max_attempts CONSTANT integer := 3;
+BEGIN
+  UPDATE analysis_jobs
+  SET status = 'failed',
+      error = 'Analysis did not finish in time. Please try again.',
+      locked_until = NULL,
+      completed_at = now()
+  WHERE status NOT IN ('done', 'failed')
+  AND locked_until < now()
+  AND attempt_count >= c_max_attempts
+  AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  RETURN QUERY
+  WITH next_job AS (
+    SELECT aj.id
+    FROM analysis_jobs aj
+    WHERE aj.status NOT IN ('done', 'failed')
+    AND (aj.locked_until IS NULL OR aj.locked_until < now())
+    AND (p_user_id IS NULL OR aj.user_id = p_user_id)
+    ORDER BY aj.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE analysis_jobs aj
+  SET locked_until = now() + interval '5 minutes',
+      attempt_count = aj.attempt_count + 1,
+      started_at = COALESCE(aj.started_at, now())
+  FROM next_job
+  WHERE aj.id = next_job.id
+  RETURNING aj.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_analysis_job(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,177 @@
+/*
+  # Batch Analysis
+
+  1. New Tables
+    - `analysis_batches` - a group of analysis jobs started together from a list
+      of URLs, a playlist or a channel's uploads
+      - `name` (text) - also the name of the collection results are filed into
+      - `collection_id` (uuid, nullable) - the `video_collections` row created
+        for the batch
+      - `team_owner_id` (uuid, nullable) - workspace the batch runs in
+
+  2. Changes
+    - `analysis_jobs.batch_id`, `position` - the batch a job belongs to and its
+      place in the list
+    - `analysis_jobs.video_title` - title known when queueing (from the playlist),
+      shown before the job has run
+
+  3. New Functions
+    - `retry_analysis_job(p_job_id)` - the owner puts a failed job back in the queue
+    - `claim_analysis_job` now takes single analyses before batch jobs, and batch
+      jobs in list order
+    - Trigger `add_batch_result_to_collection` - a finished batch job's summary is
+      added to the batch's collection at the job's position
+
+  4. Security
+    - Users see and create their own batches, in workspaces they may edit, and can
+      only add jobs to their own batches
+*/
+
+CREATE TABLE IF NOT EXISTS analysis_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  team_owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  collection_id uuid REFERENCES video_collections(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'analysis_jobs' AND column_name = 'batch_id'
+  ) THEN
+    ALTER TABLE analysis_jobs ADD COLUMN batch_id uuid REFERENCES analysis_batches(id) ON DELETE CASCADE;
+    ALTER TABLE analysis_jobs ADD COLUMN position integer DEFAULT 0 NOT NULL;
+    ALTER TABLE analysis_jobs ADD COLUMN video_title text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_batches_user_created ON analysis_batches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_batch ON analysis_jobs(batch_id, position);
+
+ALTER TABLE analysis_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own analysis batches"
+  ON analysis_batches FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own analysis batches"
+  ON analysis_batches FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'))
+  );
+
+CREATE POLICY "Analysis jobs can only join the user's own batches"
+  ON analysis_jobs
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    batch_id IS NULL OR EXISTS (
+      SELECT 1 FROM analysis_batches ab
+      WHERE ab.id = analysis_jobs.batch_id
+      AND ab.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION add_batch_result_to_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO collection_items (collection_id, video_summary_id, position)
+  SELECT ab.collection_id, NEW.summary_id, NEW.position
+  FROM analysis_batches ab
+  WHERE ab.id = NEW.batch_id
+  AND ab.collection_id IS NOT NULL
+  ON CONFLICT (collection_id, video_summary_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_batch_result_to_collection ON analysis_jobs;
+CREATE TRIGGER add_batch_result_to_collection
+  AFTER UPDATE OF status ON analysis_jobs
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'done'
+    AND OLD.status IS DISTINCT FROM 'done'
+    AND NEW.batch_id IS NOT NULL
+    AND NEW.summary_id IS NOT NULL
+  )
+  EXECUTE FUNCTION add_batch_result_to_collection();
+
+CREATE OR REPLACE FUNCTION claim_analysis_job(p_user_id uuid DEFAULT NULL)
+RETURNS SETOF analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_max_attempts CONSTANT integer := 3;
+BEGIN
+  UPDATE analysis_jobs
+  SET status = 'failed',
+      error = 'Analysis did not finish in time. Please try again.',
+      locked_until = NULL,
+      completed_at = now()
+  WHERE status NOT IN ('done', 'failed')
+  AND locked_until < now()
+  AND attempt_count >= c_max_attempts
+  AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  RETURN QUERY
+  WITH next_job AS (
+    SELECT aj.id
+    FROM analysis_jobs aj
+    WHERE aj.status NOT IN ('done', 'failed')
+    AND (aj.locked_until IS NULL OR aj.locked_until < now())
+    AND (p_user_id IS NULL OR aj.user_id = p_user_id)
+    ORDER BY (aj.batch_id IS NOT NULL), aj.created_at, aj.position
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE analysis_jobs aj
+  SET locked_until = now() + interval '5 minutes',
+      attempt_count = aj.attempt_count + 1,
+      started_at = COALESCE(aj.started_at, now())
+  FROM next_job
+  WHERE aj.id = next_job.id
+  RETURNING aj.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retry_analysis_job(p_job_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE analysis_jobs
+  SET status = 'queued',
+      progress = 0,
+      error = NULL,
+      attempt_count = 0,
+      locked_until = NULL,
+      completed_at = NULL
+  WHERE id = p_job_id
+  AND user_id = auth.uid()
+  AND status = 'failed';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'queued');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_analysis_job(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION retry_analysis_job(uuid) FROM PUBLIC, anon;
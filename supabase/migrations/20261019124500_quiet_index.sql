@@ -0,0 +1,237 @@
+/*
+  # Transcript Full-Text Search
+
+  1. Changes
+    - `video_summaries`
+      - `search_config` (regconfig, new) - text search configuration picked from the
+        summary's language; `simple` for languages Postgres has no stemmer for
+      - `search_document` (tsvector, new) - title and channel (weight A), summary and
+        bullet points (B) and the transcript (C), kept current by a trigger
+    - GIN index on `search_document`
+
+  2. New Functions
+    - `search_language_configs()` - languages with a stemming configuration
+    - `language_search_config(p_language)` - configuration for a language code such
+      as `en` or `pt-BR`
+    - `search_video_summaries(...)` - ranked search across a workspace with optional
+      channel, language, collection and date filters. Each result carries a
+      highlighted snippet and up to three matching transcript segments so the app can
+      jump straight to them.
+
+  3. Security
+    - Searching a team workspace needs `can_view` in that team; the personal
+      workspace only covers the caller's own summaries
+*/
+
+CREATE OR REPLACE FUNCTION search_language_configs()
+RETURNS TABLE (language text, config regconfig)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM (VALUES
+    ('da', 'danish'::regconfig),
+    ('de', 'german'::regconfig),
+    ('en', 'english'::regconfig),
+    ('es', 'spanish'::regconfig),
+    ('fi', 'finnish'::regconfig),
+    ('fr', 'french'::regconfig),
+    ('hu', 'hungarian'::regconfig),
+    ('it', 'italian'::regconfig),
+    ('nl', 'dutch'::regconfig),
+    ('no', 'norwegian'::regconfig),
+    ('pt', 'portuguese'::regconfig),
+    ('ro', 'romanian'::regconfig),
+    ('ru', 'russian'::regconfig),
+    ('sv', 'swedish'::regconfig),
+    ('tr', 'turkish'::regconfig)
+  ) AS configs(language, config);
+$$;
+
+CREATE OR REPLACE FUNCTION language_search_config(p_language text)
+RETURNS regconfig
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT c.config FROM search_language_configs() c
+     WHERE c.language = split_part(lower(COALESCE(p_language, '')), '-', 1)),
+    'simple'::regconfig
+  );
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'search_config'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN search_config regconfig NOT NULL DEFAULT 'simple';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'search_document'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN search_document tsvector;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION update_video_summary_search_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_config := language_search_config(NEW.language);
+  NEW.search_document :=
+    setweight(to_tsvector(NEW.search_config, COALESCE(NEW.title, '') || ' ' || COALESCE(NEW.channel_name, '')), 'A') ||
+    setweight(to_tsvector(NEW.search_config, COALESCE(NEW.summary, '') || ' ' || COALESCE(
+      (SELECT string_agg(point, ' ') FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(NEW.bullet_points) = 'array' THEN NEW.bullet_points ELSE '[]'::jsonb END
+      ) AS point),
+      ''
+    )), 'B') ||
+    setweight(to_tsvector(NEW.search_config, COALESCE(
+      (SELECT string_agg(segment ->> 'text', ' ') FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(NEW.transcript) = 'array' THEN NEW.transcript ELSE '[]'::jsonb END
+      ) AS segment),
+      ''
+    )), 'C');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_video_summary_search_document ON video_summaries;
+CREATE TRIGGER update_video_summary_search_document
+  BEFORE INSERT OR UPDATE OF title, channel_name, summary, bullet_points, transcript, language
+  ON video_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_video_summary_search_document();
+
+-- Fill in existing rows; the trigger does the work
+UPDATE video_summaries SET language = language WHERE search_document IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_summaries_search_document
+  ON video_summaries USING gin(search_document);
+
+CREATE OR REPLACE FUNCTION search_video_summaries(
+  p_query text,
+  p_team_owner_id uuid DEFAULT NULL,
+  p_channel text DEFAULT NULL,
+  p_language text DEFAULT NULL,
+  p_collection_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  summary_id uuid,
+  video_id text,
+  title text,
+  channel_name text,
+  thumbnail text,
+  duration text,
+  language text,
+  created_at timestamptz,
+  rank real,
+  snippet text,
+  matches jsonb,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_team_owner_id IS NOT NULL AND NOT team_permission(p_team_owner_id, 'can_view') THEN
+    RAISE EXCEPTION 'You do not have access to this workspace';
+  END IF;
+
+  RETURN QUERY
+  -- One parsed query per configuration, so rows match with their own stemmer and
+  -- the join can use the GIN index
+  WITH queries AS (
+    SELECT c.config, websearch_to_tsquery(c.config, p_query) AS query
+    FROM (
+      SELECT DISTINCT sc.config FROM search_language_configs() sc
+      UNION
+      SELECT 'simple'::regconfig
+    ) c
+  ),
+  hits AS (
+    SELECT
+      vs.*,
+      q.query,
+      ts_rank_cd(vs.search_document, q.query) AS hit_rank,
+      COUNT(*) OVER () AS hit_count
+    FROM video_summaries vs
+    JOIN queries q ON q.config = vs.search_config AND vs.search_document @@ q.query
+    WHERE (
+      CASE WHEN p_team_owner_id IS NULL
+        THEN vs.user_id = auth.uid() AND vs.team_owner_id IS NULL
+        ELSE vs.team_owner_id = p_team_owner_id
+      END
+    )
+    AND (p_channel IS NULL OR vs.channel_name = p_channel)
+    AND (p_language IS NULL OR vs.language = p_language)
+    AND (p_from IS NULL OR vs.created_at >= p_from)
+    AND (p_to IS NULL OR vs.created_at < p_to)
+    AND (p_collection_id IS NULL OR EXISTS (
+      SELECT 1 FROM collection_items ci
+      WHERE ci.collection_id = p_collection_id
+      AND ci.video_summary_id = vs.id
+    ))
+    ORDER BY hit_rank DESC, vs.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    h.id,
+    h.video_id,
+    h.title,
+    h.channel_name,
+    h.thumbnail,
+    h.duration,
+    h.language,
+    h.created_at,
+    h.hit_rank,
+    ts_headline(
+      h.search_config,
+      h.summary,
+      h.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2'
+    ),
+    COALESCE((
+      SELECT jsonb_agg(m ORDER BY m.segment_index)
+      FROM (
+        SELECT
+          (s.ordinality - 1)::integer AS segment_index,
+          COALESCE((s.segment ->> 'start')::numeric, 0) AS start,
+          s.segment ->> 'timestamp' AS timestamp,
+          ts_headline(
+            h.search_config,
+            s.segment ->> 'text',
+            h.query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10'
+          ) AS snippet
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(h.transcript) = 'array' THEN h.transcript ELSE '[]'::jsonb END
+        ) WITH ORDINALITY AS s(segment, ordinality)
+        WHERE to_tsvector(h.search_config, COALESCE(s.segment ->> 'text', '')) @@ h.query
+        ORDER BY ts_rank_cd(to_tsvector(h.search_config, COALESCE(s.segment ->> 'text', '')), h.query) DESC,
+          s.ordinality
+        LIMIT 3
+      ) m
+    ), '[]'::jsonb),
+    h.hit_count
+  FROM hits h
+  ORDER BY h.hit_rank DESC, h.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_video_summaries(text, uuid, text, text, uuid, timestamptz, timestamptz, integer, integer) FROM PUBLIC, anon;
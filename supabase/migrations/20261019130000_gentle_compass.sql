@@ -0,0 +1,201 @@
+/*
+  # Semantic Transcript Search
+
+  1. New Tables
+    - `transcript_chunks`
+      - Consecutive transcript segments of a summary grouped into passages of about
+        60 words, each with an embedding from the configured embedding model
+      - `embedding_model` - models have different vector sizes, so every lookup is
+        limited to one model. Switching models re-indexes summaries lazily.
+      - `segment_index`, `start_time`, `start_timestamp` - where the passage begins, for
+        jumping to it in the transcript
+
+  2. Changes
+    - Chunks are removed when a summary's transcript changes, so they get rebuilt
+
+  3. New Functions
+    - `match_transcript_chunks(...)` - passages closest to a query embedding, in one
+      summary or across a workspace with the same filters as keyword search
+    - `summaries_missing_embeddings(...)` - summaries in scope that still need
+      indexing for a model
+
+  4. Security
+    - RLS on `transcript_chunks` with no policies; the edge functions write them with
+      the service role and users read them through `match_transcript_chunks`, which
+      checks access to the summary or workspace
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS transcript_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id uuid NOT NULL REFERENCES video_summaries(id) ON DELETE CASCADE,
+  embedding_model text NOT NULL,
+  chunk_index integer NOT NULL,
+  segment_index integer NOT NULL,
+  start_time numeric NOT NULL DEFAULT 0,
+  end_time numeric NOT NULL DEFAULT 0,
+  start_timestamp text NOT NULL DEFAULT '0:00',
+  content text NOT NULL,
+  embedding extensions.vector NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (summary_id, embedding_model, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_model_summary
+  ON transcript_chunks(embedding_model, summary_id);
+
+ALTER TABLE transcript_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION clear_transcript_chunks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.transcript IS DISTINCT FROM OLD.transcript THEN
+    DELETE FROM transcript_chunks WHERE summary_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_transcript_chunks ON video_summaries;
+CREATE TRIGGER clear_transcript_chunks
+  AFTER UPDATE OF transcript ON video_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_transcript_chunks();
+
+-- Summaries the caller may read: one summary, or a whole workspace
+CREATE OR REPLACE FUNCTION visible_summary_ids(
+  p_summary_id uuid DEFAULT NULL,
+  p_team_owner_id uuid DEFAULT NULL
+)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_summary_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT vs.id FROM video_summaries vs
+    WHERE vs.id = p_summary_id
+    AND (
+      (vs.team_owner_id IS NULL AND vs.user_id = auth.uid())
+      OR (vs.team_owner_id IS NOT NULL AND team_permission(vs.team_owner_id, 'can_view'))
+    );
+    RETURN;
+  END IF;
+
+  IF p_team_owner_id IS NOT NULL THEN
+    IF NOT team_permission(p_team_owner_id, 'can_view') THEN
+      RAISE EXCEPTION 'You do not have access to this workspace';
+    END IF;
+    RETURN QUERY SELECT vs.id FROM video_summaries vs WHERE vs.team_owner_id = p_team_owner_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT vs.id FROM video_summaries vs
+  WHERE vs.user_id = auth.uid() AND vs.team_owner_id IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION summaries_missing_embeddings(
+  p_model text,
+  p_summary_id uuid DEFAULT NULL,
+  p_team_owner_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.id
+  FROM visible_summary_ids(p_summary_id, p_team_owner_id) AS v(id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM transcript_chunks tc
+    WHERE tc.summary_id = v.id
+    AND tc.embedding_model = p_model
+  )
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION match_transcript_chunks(
+  p_embedding extensions.vector,
+  p_model text,
+  p_summary_id uuid DEFAULT NULL,
+  p_team_owner_id uuid DEFAULT NULL,
+  p_channel text DEFAULT NULL,
+  p_language text DEFAULT NULL,
+  p_collection_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  summary_id uuid,
+  video_id text,
+  title text,
+  channel_name text,
+  thumbnail text,
+  duration text,
+  language text,
+  created_at timestamptz,
+  segment_index integer,
+  start_time numeric,
+  end_time numeric,
+  start_timestamp text,
+  content text,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    tc.id,
+    vs.id,
+    vs.video_id,
+    vs.title,
+    vs.channel_name,
+    vs.thumbnail,
+    vs.duration,
+    vs.language,
+    vs.created_at,
+    tc.segment_index,
+    tc.start_time,
+    tc.end_time,
+    tc.start_timestamp,
+    tc.content,
+    1 - (tc.embedding <=> p_embedding)
+  FROM visible_summary_ids(p_summary_id, p_team_owner_id) AS v(id)
+  JOIN video_summaries vs ON vs.id = v.id
+  JOIN transcript_chunks tc ON tc.summary_id = vs.id AND tc.embedding_model = p_model
+  WHERE (p_channel IS NULL OR vs.channel_name = p_channel)
+  AND (p_language IS NULL OR vs.language = p_language)
+  AND (p_from IS NULL OR vs.created_at >= p_from)
+  AND (p_to IS NULL OR vs.created_at < p_to)
+  AND (p_collection_id IS NULL OR EXISTS (
+    SELECT 1 FROM collection_items ci
+    WHERE ci.collection_id = p_collection_id
+    AND ci.video_summary_id = vs.id
+  ))
+  ORDER BY tc.embedding <=> p_embedding
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+REVOKE EXECUTE ON FUNCTION visible_summary_ids(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION summaries_missing_embeddings(text, uuid, uuid, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION match_transcript_chunks(extensions.vector, text, uuid, uuid, text, text, uuid, timestamptz, timestamptz, integer) FROM PUBLIC, anon;
@@ -0,0 +1,30 @@
+/*
+  # Caption Track Choice
+
+  1. Changes
+    - `video_summaries.caption_track` (jsonb, nullable) - the caption track the
+      transcript came from: `{ "languageCode", "kind", "name" }`, where `kind` is
+      'manual' for captions uploaded by the creator or 'asr' for YouTube's
+      automatic captions. Null for summaries saved before this was recorded.
+    - `analysis_jobs.caption_language`, `caption_kind` (text, nullable) - the track
+      the user picked before analysis; null lets the worker choose
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'caption_track'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN caption_track jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'analysis_jobs' AND column_name = 'caption_language'
+  ) THEN
+    ALTER TABLE analysis_jobs ADD COLUMN caption_language text;
+    ALTER TABLE analysis_jobs ADD COLUMN caption_kind text
+      CHECK (caption_kind IN ('manual', 'asr'));
+  END IF;
+END $$;
@@ -0,0 +1,182 @@
+/*
+  # Shared Transcript Cache
+
+  1. New Tables
+    - `transcript_cache` - transcripts fetched from YouTube, shared by every user
+      and request until they expire
+      - `cache_key` (text, primary key) - `<video id>:default` for the track the
+        server picks, or `<video id>:<language>:<kind>` for a chosen track
+      - `payload` (jsonb) - the parsed transcript with the video's metadata and
+        the track it came from
+      - `error` (text) - set instead of `payload` when the video has no usable
+        captions, so repeated requests don't go back to YouTube
+      - `expires_at` - when the entry stops being served
+      - `lease_until` - set while one request fetches the entry; others wait for
+        it instead of fetching the same video at the same time
+      - `hit_count`, `last_hit_at` - how often the entry saved a fetch
+    - `platform_admins` - users who operate the service itself, as opposed to team
+      admins. Rows are added with SQL by the operator.
+
+  2. New Functions
+    - `is_platform_admin()` - whether the caller is in `platform_admins`
+    - `claim_transcript_fetch(p_cache_key, p_video_id, p_lease_seconds)` - take the
+      lease on an entry; false when another request holds it (service role only)
+    - `record_transcript_cache_hit(p_cache_key)` (service role only)
+    - `transcript_cache_entries(p_video_id, p_limit)` - entries for admins to review
+    - `invalidate_transcript_cache(p_video_id)` - admins drop one video's entries,
+      or every entry when no video is given
+
+  3. Security
+    - RLS on both tables. The cache has no policies: edge functions use it with the
+      service role and admins go through the functions above. Users can only see
+      their own `platform_admins` row.
+*/
+
+CREATE TABLE IF NOT EXISTS platform_admins (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE platform_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see whether they are a platform admin"
+  ON platform_admins FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS transcript_cache (
+  cache_key text PRIMARY KEY,
+  video_id text NOT NULL,
+  language_code text,
+  caption_kind text CHECK (caption_kind IN ('manual', 'asr')),
+  payload jsonb,
+  error text,
+  fetched_at timestamptz,
+  expires_at timestamptz,
+  lease_until timestamptz,
+  hit_count integer DEFAULT 0 NOT NULL,
+  last_hit_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_cache_video ON transcript_cache(video_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_cache_expires ON transcript_cache(expires_at);
+
+ALTER TABLE transcript_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_platform_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM platform_admins WHERE user_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION claim_transcript_fetch(
+  p_cache_key text,
+  p_video_id text,
+  p_lease_seconds integer DEFAULT 30
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed boolean;
+BEGIN
+  INSERT INTO transcript_cache (cache_key, video_id, lease_until)
+  VALUES (p_cache_key, p_video_id, now() + make_interval(secs => p_lease_seconds))
+  ON CONFLICT (cache_key) DO UPDATE
+    SET lease_until = EXCLUDED.lease_until
+    WHERE transcript_cache.lease_until IS NULL OR transcript_cache.lease_until < now()
+  RETURNING true INTO v_claimed;
+
+  RETURN COALESCE(v_claimed, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_transcript_cache_hit(p_cache_key text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE transcript_cache
+  SET hit_count = hit_count + 1, last_hit_at = now()
+  WHERE cache_key = p_cache_key;
+$$;
+
+CREATE OR REPLACE FUNCTION transcript_cache_entries(
+  p_video_id text DEFAULT NULL,
+  p_limit integer DEFAULT 100
+)
+RETURNS TABLE (
+  cache_key text,
+  video_id text,
+  language_code text,
+  caption_kind text,
+  title text,
+  error text,
+  fetched_at timestamptz,
+  expires_at timestamptz,
+  hit_count integer,
+  last_hit_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only platform admins can view the transcript cache';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    tc.cache_key,
+    tc.video_id,
+    COALESCE(tc.language_code, tc.payload -> 'track' ->> 'languageCode'),
+    COALESCE(tc.caption_kind, tc.payload -> 'track' ->> 'kind'),
+    tc.payload ->> 'title',
+    tc.error,
+    tc.fetched_at,
+    tc.expires_at,
+    tc.hit_count,
+    tc.last_hit_at
+  FROM transcript_cache tc
+  WHERE (p_video_id IS NULL OR tc.video_id = p_video_id)
+  AND tc.fetched_at IS NOT NULL
+  ORDER BY tc.fetched_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invalidate_transcript_cache(p_video_id text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only platform admins can invalidate the transcript cache';
+  END IF;
+
+  DELETE FROM transcript_cache
+  WHERE p_video_id IS NULL OR video_id = p_video_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_platform_admin() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION claim_transcript_fetch(text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_transcript_cache_hit(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION transcript_cache_entries(text, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION invalidate_transcript_cache(text) FROM PUBLIC, anon;
@@ -0,0 +1,34 @@
+/*
+  # Uploaded Caption Files
+
+  1. Changes
+    - `video_summaries.transcript_source` (text) - 'youtube' when the transcript was
+      fetched from the video's captions, 'caption_file' when the user uploaded a
+      SubRip, WebVTT or SBV file. Existing rows are 'youtube'.
+    - `analysis_jobs.uploaded_captions` (jsonb, nullable) - for jobs analyzing an
+      uploaded file: `{ "fileName", "format", "language", "transcript" }`, with the
+      transcript already parsed into segments by the web app. The worker uses it
+      instead of fetching captions, and clears it once the job finishes.
+
+  2. Notes
+    - Uploads not attached to a YouTube video get a `video_id` starting with
+      `upload-`, so they never collide with a real video ID
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_summaries' AND column_name = 'transcript_source'
+  ) THEN
+    ALTER TABLE video_summaries ADD COLUMN transcript_source text DEFAULT 'youtube' NOT NULL
+      CHECK (transcript_source IN ('youtube', 'caption_file'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'analysis_jobs' AND column_name = 'uploaded_captions'
+  ) THEN
+    ALTER TABLE analysis_jobs ADD COLUMN uploaded_captions jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,48 @@
+/*
+  # Uploaded Recordings
+
+  1. Storage
+    - `media-uploads` bucket (private, 100 MB per file, audio and video only) -
+      recordings waiting to be transcribed. Each user uploads into a folder named
+      after their user id. The worker deletes the file once the job finishes.
+
+  2. Changes
+    - `analysis_jobs.media_upload` (jsonb, nullable) - for jobs transcribing an
+      uploaded recording: `{ "path", "fileName", "mimeType", "size", "language" }`,
+      where `language` is null to let the speech-to-text provider detect it
+    - `video_summaries.transcript_source` also allows 'speech_to_text'
+
+  3. Security
+    - Users can upload to, read and delete from their own folder only. The worker
+      reads with the service role and only accepts paths in the job owner's folder.
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('media-uploads', 'media-uploads', false, 104857600, ARRAY['audio/*', 'video/*'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload recordings to their own folder"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'media-uploads' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read their own recordings"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'media-uploads' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own recordings"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'media-uploads' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'analysis_jobs' AND column_name = 'media_upload'
+  ) THEN
+    ALTER TABLE analysis_jobs ADD COLUMN media_upload jsonb;
+  END IF;
+END $$;
+
+ALTER TABLE video_summaries DROP CONSTRAINT IF EXISTS video_summaries_transcript_source_check;
+ALTER TABLE video_summaries ADD CONSTRAINT video_summaries_transcript_source_check
+  CHECK (transcript_source IN ('youtube', 'caption_file', 'speech_to_text'));
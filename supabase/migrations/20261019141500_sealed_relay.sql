@@ -0,0 +1,29 @@
+/*
+  # Webhook URL Restrictions
+
+  1. Changes
+    - `webhook_endpoints.url` must be https. Existing plain http endpoints are
+      paused; the check is added NOT VALID so their rows can stay.
+    - Endpoints are created by the `webhook-endpoints` function, which resolves
+      the host and refuses private, loopback, link-local and metadata addresses.
+      `webhook-dispatch` repeats the check before every delivery.
+    - Response bodies already in the delivery log are cleared, since they may
+      have come from internal addresses
+
+  2. Security
+    - Users can no longer insert endpoints or change an endpoint's URL directly;
+      they can still update `description`, `events` and `is_active`
+*/
+
+UPDATE webhook_endpoints SET is_active = false WHERE url !~ '^https://';
+
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_url_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_url_check
+  CHECK (url ~ '^https://') NOT VALID;
+
+DROP POLICY IF EXISTS "Users can create their own webhook endpoints" ON webhook_endpoints;
+
+REVOKE INSERT, UPDATE ON webhook_endpoints FROM anon, authenticated;
+GRANT UPDATE (description, events, is_active) ON webhook_endpoints TO authenticated;
+
+UPDATE webhook_delivery_attempts SET response_body = NULL WHERE response_body IS NOT NULL;
@@ -0,0 +1,105 @@
+/*
+  # Team Permissions for Creators
+
+  The original owner policies (`auth.uid() = user_id`) still let whoever created a
+  team video or collection read, update and delete it after losing the matching
+  permission or leaving the team. These restrictive policies apply the team
+  permission on top of them.
+
+  1. Security
+    - `video_summaries`, `video_collections`
+      - SELECT needs `can_view` for team rows (public collections stay visible)
+      - UPDATE needs `can_edit` on the row as it was, so team rows can't be
+        moved back into a personal workspace without it
+      - DELETE needs `can_delete` for team rows
+    - `collection_items` - adding, changing or removing items in a team
+      collection needs `can_edit`
+*/
+
+-- video_summaries
+CREATE POLICY "Team video summaries need view permission"
+  ON video_summaries
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_view'));
+
+DROP POLICY IF EXISTS "Video summaries can only move to editable teams" ON video_summaries;
+
+CREATE POLICY "Video summaries can only move to editable teams"
+  ON video_summaries
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'))
+  WITH CHECK (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'));
+
+CREATE POLICY "Team video summaries need delete permission"
+  ON video_summaries
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_delete'));
+
+-- video_collections
+CREATE POLICY "Team collections need view permission"
+  ON video_collections
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (team_owner_id IS NULL OR is_public OR team_permission(team_owner_id, 'can_view'));
+
+DROP POLICY IF EXISTS "Collections can only move to editable teams" ON video_collections;
+
+CREATE POLICY "Collections can only move to editable teams"
+  ON video_collections
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'))
+  WITH CHECK (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'));
+
+CREATE POLICY "Team collections need delete permission"
+  ON video_collections
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_delete'));
+
+-- collection_items
+CREATE OR REPLACE FUNCTION collection_items_editable(p_collection_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM video_collections vc
+    WHERE vc.id = p_collection_id
+    AND vc.team_owner_id IS NOT NULL
+    AND NOT team_permission(vc.team_owner_id, 'can_edit')
+  );
+$$;
+
+CREATE POLICY "Team collection items need edit permission to add"
+  ON collection_items
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (collection_items_editable(collection_id));
+
+CREATE POLICY "Team collection items need edit permission to change"
+  ON collection_items
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (collection_items_editable(collection_id))
+  WITH CHECK (collection_items_editable(collection_id));
+
+CREATE POLICY "Team collection items need edit permission to remove"
+  ON collection_items
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (collection_items_editable(collection_id));
@@ -0,0 +1,337 @@
+/*
+  # Server-written Audit Log
+
+  Audit entries were written by the client through `record_audit_event`, so they
+  could be skipped or made up. They are now written by triggers on the tables
+  being changed, and team admins change members through functions that only
+  touch the role, permissions and status.
+
+  1. Changes
+    - `audit_log.action` also accepts `member_invite`, `member_accept` and
+      `member_decline`
+    - Triggers record:
+      - deleted `video_summaries` and `video_collections`
+      - created and revoked `shared_summaries`
+      - invitations, responses, role or permission changes and revocations in
+        `team_collaborators`
+    - Changes made outside a user session (service role, account deletion) have no
+      actor and are not recorded
+
+  2. New Functions
+    - `update_team_member(p_membership_id, p_role, p_permissions)` - team admins
+      change another member's role and permissions
+    - `revoke_team_member(p_membership_id)` - team admins revoke another member or
+      cancel an invitation
+    - `record_export_event(p_video_summary_id, p_format, p_details)` - exports are
+      built in the browser, so the client still reports them, but only for videos
+      the caller can view and with the title and team taken from the database
+
+  3. Security
+    - `record_audit_event` can no longer be called by `anon` or `authenticated`
+    - The "Team admins can manage other collaborators" UPDATE policy is replaced by
+      the functions above, which cannot change `collaborator_id` or `team_owner_id`
+    - `team_collaborators` can no longer be inserted into or updated directly; every
+      change goes through `invite_team_member`, `respond_to_team_invitation` and the
+      functions above
+*/
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check CHECK (action IN (
+  'delete', 'share', 'export', 'member_update', 'member_revoke',
+  'member_invite', 'member_accept', 'member_decline'
+));
+
+REVOKE EXECUTE ON FUNCTION record_audit_event(text, text, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Only called from the triggers below
+CREATE OR REPLACE FUNCTION write_audit_entry(
+  p_team_owner_id uuid,
+  p_action text,
+  p_resource_type text,
+  p_resource_id text,
+  p_details jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_email, team_owner_id, action, resource_type, resource_id, details)
+  VALUES (
+    v_actor_id,
+    (SELECT email FROM auth.users WHERE id = v_actor_id),
+    p_team_owner_id,
+    p_action,
+    p_resource_type,
+    p_resource_id,
+    jsonb_strip_nulls(COALESCE(p_details, '{}'))
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION write_audit_entry(uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- video_summaries
+CREATE OR REPLACE FUNCTION audit_video_summary_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM write_audit_entry(
+    OLD.team_owner_id,
+    'delete',
+    'video_summary',
+    OLD.id::text,
+    jsonb_build_object('video_id', OLD.video_id, 'title', OLD.title)
+  );
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_video_summary_delete ON video_summaries;
+CREATE TRIGGER audit_video_summary_delete
+  AFTER DELETE ON video_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_video_summary_delete();
+
+-- video_collections
+CREATE OR REPLACE FUNCTION audit_collection_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM write_audit_entry(
+    OLD.team_owner_id,
+    'delete',
+    'collection',
+    OLD.id::text,
+    jsonb_build_object('name', OLD.name)
+  );
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_collection_delete ON video_collections;
+CREATE TRIGGER audit_collection_delete
+  AFTER DELETE ON video_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_collection_delete();
+
+-- shared_summaries
+CREATE OR REPLACE FUNCTION audit_shared_link_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_video record;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT video_id, title, team_owner_id INTO v_video
+    FROM video_summaries WHERE id = NEW.video_summary_id;
+
+    PERFORM write_audit_entry(
+      v_video.team_owner_id,
+      'share',
+      'shared_link',
+      NEW.id::text,
+      jsonb_build_object(
+        'video_id', v_video.video_id,
+        'title', COALESCE(NEW.title, v_video.title),
+        'password_protected', NEW.password_hash IS NOT NULL,
+        'expires_at', NEW.expires_at,
+        'max_views', NEW.max_views
+      )
+    );
+    RETURN NEW;
+  END IF;
+
+  SELECT video_id, title, team_owner_id INTO v_video
+  FROM video_summaries WHERE id = OLD.video_summary_id;
+
+  -- Links removed along with their video are covered by the video's own entry
+  IF FOUND THEN
+    PERFORM write_audit_entry(
+      v_video.team_owner_id,
+      'delete',
+      'shared_link',
+      OLD.id::text,
+      jsonb_build_object('video_id', v_video.video_id, 'title', COALESCE(OLD.title, v_video.title))
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_shared_link_change ON shared_summaries;
+CREATE TRIGGER audit_shared_link_change
+  AFTER INSERT OR DELETE ON shared_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_shared_link_change();
+
+-- team_collaborators
+CREATE OR REPLACE FUNCTION audit_team_member_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row team_collaborators%ROWTYPE := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  v_action text;
+  v_details jsonb;
+BEGIN
+  v_details := jsonb_build_object(
+    'name', COALESCE(
+      v_row.invited_email,
+      (SELECT email FROM auth.users WHERE id = v_row.collaborator_id)
+    ),
+    'role', v_row.role
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'member_invite';
+  ELSIF TG_OP = 'DELETE' THEN
+    v_action := 'member_revoke';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_action := CASE NEW.status
+      WHEN 'pending' THEN 'member_invite'
+      WHEN 'accepted' THEN 'member_accept'
+      WHEN 'declined' THEN 'member_decline'
+      ELSE 'member_revoke'
+    END;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role OR NEW.permissions IS DISTINCT FROM OLD.permissions THEN
+    v_action := 'member_update';
+    v_details := v_details || jsonb_build_object(
+      'previous_role', OLD.role,
+      'permissions', NEW.permissions
+    );
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM write_audit_entry(v_row.team_owner_id, v_action, 'team_member', v_row.id::text, v_details);
+  RETURN v_row;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_team_member_change ON team_collaborators;
+CREATE TRIGGER audit_team_member_change
+  AFTER INSERT OR UPDATE OR DELETE ON team_collaborators
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_team_member_change();
+
+-- Member management
+DROP POLICY IF EXISTS "Team admins can manage other collaborators" ON team_collaborators;
+
+REVOKE INSERT, UPDATE ON team_collaborators FROM anon, authenticated;
+
+-- Admins may manage other members but not their own row, so they cannot promote themselves
+CREATE OR REPLACE FUNCTION update_team_member(
+  p_membership_id uuid,
+  p_role text DEFAULT NULL,
+  p_permissions jsonb DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_role IS NOT NULL AND p_role NOT IN ('admin', 'editor', 'viewer') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  UPDATE team_collaborators tc
+  SET role = COALESCE(p_role, tc.role),
+      permissions = CASE
+        WHEN p_permissions IS NULL THEN tc.permissions
+        ELSE jsonb_build_object(
+          'can_view', COALESCE((p_permissions ->> 'can_view')::boolean, false),
+          'can_edit', COALESCE((p_permissions ->> 'can_edit')::boolean, false),
+          'can_delete', COALESCE((p_permissions ->> 'can_delete')::boolean, false),
+          'can_share', COALESCE((p_permissions ->> 'can_share')::boolean, false)
+        )
+      END
+  WHERE tc.id = p_membership_id
+  AND tc.status IN ('pending', 'accepted')
+  AND is_team_admin(tc.team_owner_id)
+  AND tc.collaborator_id IS DISTINCT FROM auth.uid();
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_team_member(p_membership_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE team_collaborators tc
+  SET status = 'revoked'
+  WHERE tc.id = p_membership_id
+  AND tc.status IN ('pending', 'accepted')
+  AND is_team_admin(tc.team_owner_id)
+  AND tc.collaborator_id IS DISTINCT FROM auth.uid();
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Exports
+CREATE OR REPLACE FUNCTION record_export_event(
+  p_video_summary_id uuid,
+  p_format text,
+  p_details jsonb DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_video record;
+BEGIN
+  SELECT id, video_id, title, team_owner_id INTO v_video
+  FROM video_summaries
+  WHERE id = p_video_summary_id
+  AND (
+    (team_owner_id IS NULL AND user_id = auth.uid()) OR
+    (team_owner_id IS NOT NULL AND team_permission(team_owner_id, 'can_view'))
+  );
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM write_audit_entry(
+    v_video.team_owner_id,
+    'export',
+    'video_summary',
+    v_video.id::text,
+    jsonb_build_object(
+      'video_id', v_video.video_id,
+      'title', v_video.title,
+      'format', left(p_format, 20),
+      'sections', p_details -> 'sections',
+      'track', left(p_details ->> 'track', 20)
+    )
+  );
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,12 @@
+/*
+  # Server-only API Key Verification
+
+  `verify_api_key` is only called by the `api` edge function with the service role.
+  Signed-in users could call it too, which let them test keys and pick the IP
+  address the allowlist is checked against.
+
+  1. Security
+    - `verify_api_key` can no longer be called by `authenticated`
+*/
+
+REVOKE EXECUTE ON FUNCTION verify_api_key(text, text) FROM authenticated;
@@ -0,0 +1,200 @@
+/*
+  # Separate Share Access Events
+
+  `resolve_shared_summary` logged every access attempt, including denied ones, as a
+  `share` event, which the analytics dashboard counts as a share.
+
+  1. Changes
+    - `video_analytics.event_type` also accepts `share_access`
+    - `resolve_shared_summary` records each access attempt as `share_access` with
+      `event_data = { share_id, outcome }`, and a successful one also as a `view`
+      with `event_data = { source: 'share', share_id }`, as before the access history
+    - Existing access attempts are moved to `share_access`, and a `view` is added for
+      each successful one
+    - `get_user_analytics_summary` leaves access attempts out of recent activity
+    - The per-link history index now covers `share_access` events
+*/
+
+ALTER TABLE video_analytics DROP CONSTRAINT IF EXISTS video_analytics_event_type_check;
+ALTER TABLE video_analytics ADD CONSTRAINT video_analytics_event_type_check
+  CHECK (event_type IN ('view', 'export', 'share', 'share_access', 'highlight', 'search'));
+
+INSERT INTO video_analytics (video_summary_id, user_id, event_type, event_data, user_agent, created_at)
+SELECT
+  video_summary_id,
+  user_id,
+  'view',
+  jsonb_build_object('source', 'share', 'share_id', event_data->'share_id'),
+  user_agent,
+  created_at
+FROM video_analytics
+WHERE event_type = 'share'
+AND event_data ? 'share_id'
+AND event_data->>'outcome' = 'ok';
+
+UPDATE video_analytics
+SET event_type = 'share_access'
+WHERE event_type = 'share'
+AND event_data ? 'share_id'
+AND event_data ? 'outcome';
+
+DROP INDEX IF EXISTS idx_video_analytics_share_id;
+CREATE INDEX IF NOT EXISTS idx_video_analytics_share_id
+  ON video_analytics ((event_data->>'share_id'))
+  WHERE event_type = 'share_access';
+
+CREATE OR REPLACE FUNCTION resolve_shared_summary(
+  p_share_token text,
+  p_password text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_share shared_summaries%ROWTYPE;
+  v_summary video_summaries%ROWTYPE;
+  v_view_count integer;
+  v_user_agent text;
+  v_outcome text;
+BEGIN
+  SELECT * INTO v_share FROM shared_summaries WHERE share_token = p_share_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_summary FROM video_summaries WHERE id = v_share.video_summary_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_share.expires_at IS NOT NULL AND v_share.expires_at <= now() THEN
+    v_outcome := 'expired';
+  ELSIF v_share.max_views IS NOT NULL AND v_share.view_count >= v_share.max_views THEN
+    v_outcome := 'view_limit_reached';
+  ELSIF v_share.password_hash IS NOT NULL AND (p_password IS NULL OR p_password = '') THEN
+    v_outcome := 'password_required';
+  ELSIF v_share.password_hash IS NOT NULL
+    AND encode(digest(p_password, 'sha256'), 'hex') <> v_share.password_hash THEN
+    v_outcome := 'invalid_password';
+  ELSE
+    -- Re-check the limit in the update so concurrent viewers cannot overshoot it
+    UPDATE shared_summaries
+    SET view_count = view_count + 1
+    WHERE id = v_share.id
+    AND (max_views IS NULL OR view_count < max_views)
+    RETURNING view_count INTO v_view_count;
+
+    v_outcome := CASE WHEN v_view_count IS NULL THEN 'view_limit_reached' ELSE 'ok' END;
+  END IF;
+
+  -- Prompting for a password is not an access attempt, so it is not logged
+  IF v_outcome <> 'password_required' THEN
+    v_user_agent := current_setting('request.headers', true)::jsonb ->> 'user-agent';
+
+    PERFORM track_video_event(
+      v_summary.id,
+      auth.uid(),
+      'share_access',
+      jsonb_build_object('share_id', v_share.id, 'outcome', v_outcome),
+      NULL,
+      v_user_agent
+    );
+  END IF;
+
+  IF v_outcome = 'ok' THEN
+    PERFORM track_video_event(
+      v_summary.id,
+      auth.uid(),
+      'view',
+      jsonb_build_object('source', 'share', 'share_id', v_share.id),
+      NULL,
+      v_user_agent
+    );
+  END IF;
+
+  IF v_outcome <> 'ok' THEN
+    RETURN jsonb_build_object('status', v_outcome, 'title', v_share.title);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'share', jsonb_build_object(
+      'title', v_share.title,
+      'description', v_share.description,
+      'allow_downloads', v_share.allow_downloads,
+      'view_count', v_view_count,
+      'max_views', v_share.max_views,
+      'expires_at', v_share.expires_at,
+      'created_at', v_share.created_at
+    ),
+    'summary', jsonb_build_object(
+      'video_id', v_summary.video_id,
+      'title', v_summary.title,
+      'thumbnail', v_summary.thumbnail,
+      'duration', v_summary.duration,
+      'channel_name', v_summary.channel_name,
+      'summary', v_summary.summary,
+      'bullet_points', v_summary.bullet_points,
+      'key_quote', v_summary.key_quote,
+      'transcript', v_summary.transcript,
+      'highlighted_segments', v_summary.highlighted_segments,
+      'chapters', v_summary.chapters,
+      'language', v_summary.language
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_user_analytics_summary(p_user_id uuid)
+RETURNS TABLE (
+  total_videos integer,
+  total_views integer,
+  total_exports integer,
+  total_shares integer,
+  most_viewed_video_id uuid,
+  recent_activity_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_videos AS (
+    SELECT vs.id 
+    FROM video_summaries vs 
+    WHERE vs.user_id = p_user_id
+  ),
+  analytics_summary AS (
+    SELECT 
+      COUNT(DISTINCT va.video_summary_id) as video_count,
+      COUNT(CASE WHEN va.event_type = 'view' THEN 1 END) as view_count,
+      COUNT(CASE WHEN va.event_type = 'export' THEN 1 END) as export_count,
+      COUNT(CASE WHEN va.event_type = 'share' THEN 1 END) as share_count,
+      COUNT(CASE WHEN va.created_at >= now() - interval '7 days' AND va.event_type <> 'share_access' THEN 1 END) as recent_count
+    FROM video_analytics va
+    WHERE va.video_summary_id IN (SELECT id FROM user_videos)
+  ),
+  most_viewed AS (
+    SELECT va.video_summary_id
+    FROM video_analytics va
+    WHERE va.video_summary_id IN (SELECT id FROM user_videos)
+    AND va.event_type = 'view'
+    GROUP BY va.video_summary_id
+    ORDER BY COUNT(*) DESC
+    LIMIT 1
+  )
+  SELECT 
+    (SELECT COUNT(*)::integer FROM user_videos),
+    COALESCE(a.view_count::integer, 0),
+    COALESCE(a.export_count::integer, 0),
+    COALESCE(a.share_count::integer, 0),
+    mv.video_summary_id,
+    COALESCE(a.recent_count::integer, 0)
+  FROM analytics_summary a
+  CROSS JOIN most_viewed mv;
+END;
+$$;
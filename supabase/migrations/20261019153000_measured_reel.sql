@@ -0,0 +1,83 @@
+/*
+  # Video Length Limits
+
+  Each plan analyzes videos up to a maximum length. The analysis worker checks
+  it for every job, whether the transcript came from YouTube, a caption file or a
+  transcribed recording.
+
+  1. New Functions
+    - `plan_video_limits(p_plan)` - longest video in minutes per plan, next to
+      `plan_limits` and `plan_rate_limits`
+
+  2. Changes
+    - `get_plan_status` also returns `max_video_minutes`
+*/
+
+CREATE OR REPLACE FUNCTION plan_video_limits(p_plan text)
+RETURNS TABLE (max_video_minutes integer)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_plan WHEN 'team' THEN 480 WHEN 'pro' THEN 240 ELSE 30 END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_plan_status(
+  p_visitor_id text DEFAULT NULL,
+  p_action_type text DEFAULT 'video_analysis',
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := CASE
+    WHEN auth.role() = 'service_role' THEN COALESCE(p_user_id, auth.uid())
+    ELSE auth.uid()
+  END;
+  v_plan record;
+  v_limits record;
+  v_usage record;
+  v_rate record;
+  v_video record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    SELECT 'free'::text AS plan_type, 'free'::text AS subscribed_plan, 'active'::text AS status,
+      NULL::timestamptz AS current_period_end, NULL::timestamptz AS trial_end,
+      false AS cancel_at_period_end, NULL::timestamptz AS access_ends_at
+    INTO v_plan;
+  ELSE
+    SELECT * INTO v_plan FROM resolve_user_plan(v_user_id);
+  END IF;
+
+  SELECT * INTO v_limits FROM plan_limits(v_plan.plan_type);
+  SELECT * INTO v_rate FROM plan_rate_limits(v_plan.plan_type);
+  SELECT * INTO v_video FROM plan_video_limits(v_plan.plan_type);
+  SELECT * INTO v_usage FROM usage_counts(
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN p_visitor_id END,
+    p_action_type
+  );
+
+  RETURN jsonb_build_object(
+    'plan_type', v_plan.plan_type,
+    'subscribed_plan', v_plan.subscribed_plan,
+    'status', v_plan.status,
+    'current_period_end', v_plan.current_period_end,
+    'trial_end', v_plan.trial_end,
+    'cancel_at_period_end', v_plan.cancel_at_period_end,
+    'access_ends_at', v_plan.access_ends_at,
+    'features', plan_features(v_plan.plan_type),
+    'daily_limit', v_limits.daily_limit,
+    'monthly_limit', v_limits.monthly_limit,
+    'daily_usage', v_usage.daily_usage,
+    'monthly_usage', v_usage.monthly_usage,
+    'rate_limit_per_minute', v_rate.refill_per_minute,
+    'max_video_minutes', v_video.max_video_minutes,
+    'can_perform_action',
+      v_usage.daily_usage < v_limits.daily_limit AND v_usage.monthly_usage < v_limits.monthly_limit
+  );
+END;
+$$;
@@ -0,0 +1,179 @@
+/*
+  # Salted Share Passwords and Lockout
+
+  Share passwords were stored as unsalted SHA-256 computed in the browser, and
+  `resolve_shared_summary` allowed unlimited guesses.
+
+  1. Changes
+    - `shared_summaries.password` - write-only: clients set the plain password here
+      (or '' to remove it) and a trigger stores a bcrypt hash in `password_hash`,
+      then clears it, so it is never saved
+    - `shared_summaries.failed_password_attempts` and `password_locked_until` - every
+      fifth wrong password locks the link's password check for 15 minutes, with
+      the status `too_many_attempts`; a correct password or a new password resets
+      the count
+    - `resolve_shared_summary` checks bcrypt hashes and still accepts the old
+      SHA-256 hashes, replacing each with a bcrypt hash on its first successful use
+
+  2. Security
+    - Password attempts on one link are checked one at a time, so parallel guesses
+      are all counted
+*/
+
+ALTER TABLE shared_summaries
+  ADD COLUMN IF NOT EXISTS password text,
+  ADD COLUMN IF NOT EXISTS failed_password_attempts integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS password_locked_until timestamptz;
+
+CREATE OR REPLACE FUNCTION hash_share_password()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NEW.password IS NOT NULL THEN
+    NEW.password_hash := CASE WHEN NEW.password = '' THEN NULL ELSE crypt(NEW.password, gen_salt('bf', 10)) END;
+    NEW.password := NULL;
+    NEW.failed_password_attempts := 0;
+    NEW.password_locked_until := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hash_share_password ON shared_summaries;
+CREATE TRIGGER hash_share_password
+  BEFORE INSERT OR UPDATE OF password ON shared_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION hash_share_password();
+
+CREATE OR REPLACE FUNCTION resolve_shared_summary(
+  p_share_token text,
+  p_password text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_share shared_summaries%ROWTYPE;
+  v_summary video_summaries%ROWTYPE;
+  v_view_count integer;
+  v_user_agent text;
+  v_outcome text;
+BEGIN
+  IF p_password IS NOT NULL AND p_password <> '' THEN
+    -- Password attempts on the same link wait for each other, so none go uncounted
+    SELECT * INTO v_share FROM shared_summaries WHERE share_token = p_share_token FOR UPDATE;
+  ELSE
+    SELECT * INTO v_share FROM shared_summaries WHERE share_token = p_share_token;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_summary FROM video_summaries WHERE id = v_share.video_summary_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_share.expires_at IS NOT NULL AND v_share.expires_at <= now() THEN
+    v_outcome := 'expired';
+  ELSIF v_share.max_views IS NOT NULL AND v_share.view_count >= v_share.max_views THEN
+    v_outcome := 'view_limit_reached';
+  ELSIF v_share.password_hash IS NOT NULL AND (p_password IS NULL OR p_password = '') THEN
+    v_outcome := 'password_required';
+  ELSIF v_share.password_hash IS NOT NULL AND v_share.password_locked_until > now() THEN
+    v_outcome := 'too_many_attempts';
+  ELSIF v_share.password_hash IS NOT NULL AND NOT (CASE
+    WHEN v_share.password_hash LIKE '$2%' THEN crypt(p_password, v_share.password_hash) = v_share.password_hash
+    -- Unsalted SHA-256 from before this migration
+    ELSE encode(digest(p_password, 'sha256'), 'hex') = v_share.password_hash
+  END) THEN
+    -- Every fifth failure locks the link for 15 minutes
+    UPDATE shared_summaries
+    SET failed_password_attempts = (failed_password_attempts + 1) % 5,
+        password_locked_until = CASE
+          WHEN failed_password_attempts + 1 >= 5 THEN now() + interval '15 minutes'
+          ELSE password_locked_until
+        END
+    WHERE id = v_share.id;
+
+    v_outcome := 'invalid_password';
+  ELSE
+    -- Re-check the limit in the update so concurrent viewers cannot overshoot it
+    UPDATE shared_summaries
+    SET view_count = view_count + 1,
+        failed_password_attempts = 0,
+        password_locked_until = NULL,
+        password_hash = CASE
+          WHEN password_hash IS NULL OR password_hash LIKE '$2%' THEN password_hash
+          ELSE crypt(p_password, gen_salt('bf', 10))
+        END
+    WHERE id = v_share.id
+    AND (max_views IS NULL OR view_count < max_views)
+    RETURNING view_count INTO v_view_count;
+
+    v_outcome := CASE WHEN v_view_count IS NULL THEN 'view_limit_reached' ELSE 'ok' END;
+  END IF;
+
+  -- Prompting for a password is not an access attempt, so it is not logged
+  IF v_outcome <> 'password_required' THEN
+    v_user_agent := current_setting('request.headers', true)::jsonb ->> 'user-agent';
+
+    PERFORM track_video_event(
+      v_summary.id,
+      auth.uid(),
+      'share_access',
+      jsonb_build_object('share_id', v_share.id, 'outcome', v_outcome),
+      NULL,
+      v_user_agent
+    );
+  END IF;
+
+  IF v_outcome = 'ok' THEN
+    PERFORM track_video_event(
+      v_summary.id,
+      auth.uid(),
+      'view',
+      jsonb_build_object('source', 'share', 'share_id', v_share.id),
+      NULL,
+      v_user_agent
+    );
+  END IF;
+
+  IF v_outcome <> 'ok' THEN
+    RETURN jsonb_build_object('status', v_outcome, 'title', v_share.title);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'share', jsonb_build_object(
+      'title', v_share.title,
+      'description', v_share.description,
+      'allow_downloads', v_share.allow_downloads,
+      'view_count', v_view_count,
+      'max_views', v_share.max_views,
+      'expires_at', v_share.expires_at,
+      'created_at', v_share.created_at
+    ),
+    'summary', jsonb_build_object(
+      'video_id', v_summary.video_id,
+      'title', v_summary.title,
+      'thumbnail', v_summary.thumbnail,
+      'duration', v_summary.duration,
+      'channel_name', v_summary.channel_name,
+      'summary', v_summary.summary,
+      'bullet_points', v_summary.bullet_points,
+      'key_quote', v_summary.key_quote,
+      'transcript', v_summary.transcript,
+      'highlighted_segments', v_summary.highlighted_segments,
+      'chapters', v_summary.chapters,
+      'language', v_summary.language
+    )
+  );
+END;
+$$;
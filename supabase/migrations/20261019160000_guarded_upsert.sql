@@ -0,0 +1,37 @@
+/*
+  # Team Permissions for Server-side Writes
+
+  The analysis worker and the API save summaries with the service role, which
+  skips the restrictive policies on `video_summaries`, and `team_permission` only
+  checks the signed-in user. They now check the job or key owner's permission
+  themselves before saving.
+
+  1. New Functions
+    - `user_team_permission(p_user_id, p_team_owner_id, p_permission)` - the same
+      check as `team_permission`, for a given user
+
+  2. Security
+    - Only the service role can call `user_team_permission`
+*/
+
+CREATE OR REPLACE FUNCTION user_team_permission(
+  p_user_id uuid,
+  p_team_owner_id uuid,
+  p_permission text
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_team_owner_id = p_user_id OR EXISTS (
+    SELECT 1 FROM team_collaborators tc
+    WHERE tc.team_owner_id = p_team_owner_id
+    AND tc.collaborator_id = p_user_id
+    AND tc.status = 'accepted'
+    AND (tc.role = 'admin' OR COALESCE((tc.permissions ->> p_permission)::boolean, false))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION user_team_permission(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
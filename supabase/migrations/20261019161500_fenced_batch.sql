@@ -0,0 +1,61 @@
+/*
+  # Batch Collections Must Be Editable
+
+  A batch's finished jobs are added to its collection by a SECURITY DEFINER
+  trigger, which skips the policies on `collection_items`. Creating a batch did
+  not check its collection, so a batch could fill any collection, including
+  another user's public one.
+
+  1. Changes
+    - "Users can create their own analysis batches" also requires the collection
+      to be in the batch's workspace, and to be the user's own (personal) or in a
+      team they have `can_edit` in
+    - `add_batch_result_to_collection` checks the same for the batch's owner
+      before adding each result, as their team role can change while it runs
+
+  2. Security
+    - Batches can only add results to collections their owner may edit
+*/
+
+DROP POLICY IF EXISTS "Users can create their own analysis batches" ON analysis_batches;
+
+CREATE POLICY "Users can create their own analysis batches"
+  ON analysis_batches FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (team_owner_id IS NULL OR team_permission(team_owner_id, 'can_edit'))
+    AND (
+      collection_id IS NULL OR EXISTS (
+        SELECT 1 FROM video_collections vc
+        WHERE vc.id = analysis_batches.collection_id
+        AND vc.team_owner_id IS NOT DISTINCT FROM analysis_batches.team_owner_id
+        AND (
+          (vc.team_owner_id IS NULL AND vc.user_id = auth.uid())
+          OR (vc.team_owner_id IS NOT NULL AND team_permission(vc.team_owner_id, 'can_edit'))
+        )
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION add_batch_result_to_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO collection_items (collection_id, video_summary_id, position)
+  SELECT ab.collection_id, NEW.summary_id, NEW.position
+  FROM analysis_batches ab
+  JOIN video_collections vc ON vc.id = ab.collection_id
+  WHERE ab.id = NEW.batch_id
+  AND vc.team_owner_id IS NOT DISTINCT FROM ab.team_owner_id
+  AND (
+    (vc.team_owner_id IS NULL AND vc.user_id = ab.user_id)
+    OR (vc.team_owner_id IS NOT NULL AND user_team_permission(ab.user_id, vc.team_owner_id, 'can_edit'))
+  )
+  ON CONFLICT (collection_id, video_summary_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,90 @@
+/*
+  # Local Webhook Receivers and Retry Schedule
+
+  1. Changes
+    - `webhook_endpoints.url` may also be plain http on the developer's machine
+      (localhost, 127.0.0.1, [::1] or host.docker.internal), for
+      scripts/webhook-receiver.js. The `webhook-endpoints` function only accepts
+      these on a local Supabase stack.
+    - The retry schedule for failed deliveries (1, 2, 4 ... 64 minutes, giving up
+      after 8 attempts) moves to `webhook-dispatch`, next to the code that sends
+      them, so it is covered by the function tests. `record_webhook_attempt(...)`
+      takes `p_retry_at`: when to try a failed delivery again, or null to mark it
+      failed. Successful attempts ignore it.
+
+  2. Security
+    - Endpoints are still only created by the `webhook-endpoints` function
+    - `record_webhook_attempt` is still only callable by the service role
+*/
+
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_url_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_url_check
+  CHECK (
+    url ~ '^https://'
+    OR url ~ '^http://(localhost|127\.0\.0\.1|\[::1\]|host\.docker\.internal)(:[0-9]+)?(/|$)'
+  ) NOT VALID;
+
+DROP FUNCTION IF EXISTS record_webhook_attempt(uuid, integer, text, text, integer);
+
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_delivery_id uuid,
+  p_status_code integer,
+  p_response_body text,
+  p_error text,
+  p_duration_ms integer,
+  p_retry_at timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery webhook_deliveries%ROWTYPE;
+  v_succeeded boolean := p_status_code BETWEEN 200 AND 299;
+BEGIN
+  UPDATE webhook_deliveries
+  SET attempt_count = attempt_count + 1
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  INSERT INTO webhook_delivery_attempts (
+    delivery_id, user_id, attempt, status_code, response_body, error, duration_ms
+  )
+  VALUES (
+    v_delivery.id, v_delivery.user_id, v_delivery.attempt_count, p_status_code,
+    left(p_response_body, 2000), left(p_error, 500), p_duration_ms
+  );
+
+  UPDATE webhook_deliveries
+  SET
+    last_status_code = p_status_code,
+    locked_until = NULL,
+    status = CASE
+      WHEN v_succeeded THEN 'succeeded'
+      WHEN p_retry_at IS NULL THEN 'failed'
+      ELSE 'pending'
+    END,
+    completed_at = CASE
+      WHEN v_succeeded OR p_retry_at IS NULL THEN now()
+    END,
+    next_attempt_at = CASE
+      WHEN v_succeeded OR p_retry_at IS NULL THEN next_attempt_at
+      ELSE p_retry_at
+    END
+  WHERE id = v_delivery.id
+  RETURNING * INTO v_delivery;
+
+  RETURN jsonb_build_object(
+    'status', v_delivery.status,
+    'attempt', v_delivery.attempt_count,
+    'next_attempt_at', CASE WHEN v_delivery.status = 'pending' THEN v_delivery.next_attempt_at END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(uuid, integer, text, text, integer, timestamptz) FROM PUBLIC, anon, authenticated;